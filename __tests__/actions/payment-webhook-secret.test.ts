@@ -0,0 +1,136 @@
+/**
+ * Payment Server Action Webhook Secret Tests
+ *
+ * Tests that webhooks are registered with a per-payment secret:
+ * - The secret is embedded in the callback URL given to the provider
+ * - The same secret is stored with the payment before the webhook exists
+ * - The webhook IDs are recorded once registered
+ * - The secret is dropped when no webhook was registered
+ */
+
+import { createPaymentRequest } from "@/actions/payment";
+import {
+  initializePaymentStatus,
+  recordPaymentWebhooks,
+} from "@/lib/store/payment-status";
+
+const mockWatchAddress = jest.fn<
+  Promise<string[]>,
+  [string, string | undefined]
+>();
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: jest.fn(() => ({
+    name: "blockcypher",
+    requiresCallbackUrl: true,
+    watchAddress: (address: string, callbackUrl?: string) =>
+      mockWatchAddress(address, callbackUrl),
+  })),
+}));
+
+jest.mock("@/lib/store/payment-status", () => ({
+  initializePaymentStatus: jest.fn(() => Promise.resolve()),
+  recordPaymentWebhooks: jest.fn(() => Promise.resolve(true)),
+}));
+
+const ORIGINAL_ENV = process.env;
+
+beforeEach(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+
+  process.env = {
+    ...ORIGINAL_ENV,
+    NEXT_PUBLIC_APP_URL: "https://shop.example.com",
+  };
+  delete process.env.WALLET_ACCOUNT_XPUB;
+
+  mockWatchAddress.mockResolvedValue(["webhook-1", "webhook-2"]);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  process.env = ORIGINAL_ENV;
+});
+
+function createFormData(amount: string): FormData {
+  const formData = new FormData();
+  formData.set("amount", amount);
+  return formData;
+}
+
+describe("createPaymentRequest - webhook secret", () => {
+  it("should register the webhook with a secret and store it with the payment", async () => {
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    const [address, callbackUrl] = mockWatchAddress.mock.calls[0];
+    const url = new URL(callbackUrl!);
+    const secret = url.searchParams.get("secret");
+
+    expect(address).toBe(result.data!.address);
+    expect(url.origin + url.pathname).toBe(
+      "https://shop.example.com/api/webhook/payment-update"
+    );
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(initializePaymentStatus).toHaveBeenCalledWith(
+      address,
+      0.001,
+      undefined,
+      expect.objectContaining({ webhookSecret: secret })
+    );
+    expect(recordPaymentWebhooks).toHaveBeenCalledWith(address, [
+      "webhook-1",
+      "webhook-2",
+    ]);
+  });
+
+  it("should store the payment before registering its webhooks", async () => {
+    mockWatchAddress.mockImplementation(async () => {
+      expect(initializePaymentStatus).toHaveBeenCalled();
+      return ["webhook-1"];
+    });
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    expect(mockWatchAddress).toHaveBeenCalled();
+  });
+
+  it("should use a different secret for every payment", async () => {
+    await createPaymentRequest(createFormData("0.001"));
+    await createPaymentRequest(createFormData("0.002"));
+
+    const [first, second] = mockWatchAddress.mock.calls.map(([, callbackUrl]) =>
+      new URL(callbackUrl!).searchParams.get("secret")
+    );
+    expect(first).not.toBe(second);
+  });
+
+  it("should drop the secret when registration fails", async () => {
+    mockWatchAddress.mockRejectedValue(new Error("Service unavailable"));
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    expect(recordPaymentWebhooks).toHaveBeenCalledWith(
+      result.data!.address,
+      undefined
+    );
+  });
+
+  it("should not generate a secret without a callback URL", async () => {
+    delete process.env.NEXT_PUBLIC_APP_URL;
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    expect(mockWatchAddress).not.toHaveBeenCalled();
+    expect(initializePaymentStatus).toHaveBeenCalledWith(
+      result.data!.address,
+      0.001,
+      undefined,
+      expect.objectContaining({ webhookSecret: undefined })
+    );
+  });
+});
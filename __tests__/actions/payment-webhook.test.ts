@@ -7,12 +7,19 @@
  */
 
 // Set up mocks BEFORE any imports
-jest.mock("../../src/lib/api/blockcypher", () => ({
-  registerPaymentWebhook: jest.fn(() => Promise.resolve(["webhook-test-123", "webhook-test-456"])),
+jest.mock("../../src/lib/api/providers", () => ({
+  getChainProvider: jest.fn(() => ({
+    name: "blockcypher",
+    requiresCallbackUrl: true,
+    watchAddress: jest.fn(() =>
+      Promise.resolve(["webhook-test-123", "webhook-test-456"])
+    ),
+  })),
 }));
 
 jest.mock("../../src/lib/store/payment-status", () => ({
   initializePaymentStatus: jest.fn(() => Promise.resolve()),
+  recordPaymentWebhooks: jest.fn(() => Promise.resolve(true)),
 }));
 
 // Mock fs to prevent file system operations that might hang
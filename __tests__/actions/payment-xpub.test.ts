@@ -0,0 +1,298 @@
+/**
+ * Payment Server Action xpub Derivation Tests
+ *
+ * Tests deterministic address derivation from a configured account xpub:
+ * - Allocate the next index (or recycle one) for each payment request
+ * - Archive a recycled address's previous request and delete its watches, or
+ *   give the address back if the new request fails
+ * - Store derivation path and index alongside the payment
+ * - Fall back to ephemeral addresses when no xpub is configured
+ * - Derive each address type from its own account xpub
+ */
+
+import { createPaymentRequest } from "@/actions/payment";
+import {
+  initializePaymentStatus,
+  allocateAddressIndex,
+  releaseRecycledAddress,
+} from "@/lib/store/payment-status";
+import { getChainProvider } from "@/lib/api/providers";
+import { ChainProviderRateLimitError } from "@/lib/api/chain-provider";
+import { releaseRecycledWatches } from "@/lib/services/webhook-lifecycle";
+import { AddressType, PaymentStatus } from "@/types";
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: jest.fn(() => ({
+    name: "blockcypher",
+    requiresCallbackUrl: true,
+    watchAddress: jest.fn(() =>
+      Promise.resolve(["webhook-test-123", "webhook-test-456"])
+    ),
+  })),
+}));
+
+jest.mock("@/lib/store/payment-status", () => ({
+  initializePaymentStatus: jest.fn(() => Promise.resolve()),
+  recordPaymentWebhooks: jest.fn(() => Promise.resolve(true)),
+  allocateAddressIndex: jest.fn(() =>
+    Promise.resolve({ kind: "new", index: 5 })
+  ),
+  releaseRecycledAddress: jest.fn(() => Promise.resolve(true)),
+}));
+
+jest.mock("@/lib/services/webhook-lifecycle", () => ({
+  releaseRecycledWatches: jest.fn(() => Promise.resolve(true)),
+}));
+
+// BIP84 account key for the "abandon ... about" test mnemonic at m/84'/1'/0'
+const testVpub =
+  "vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc";
+// BIP86 account key for the same mnemonic at m/86'/1'/0'
+const testTaprootTpub =
+  "tpubDDfvzhdVV4unsoKt5aE6dcsNsfeWbTgmLZPi8LQDYU2xixrYemMfWJ3BaVneH3u7DBQePdTwhpybaKRU95pi6PMUtLPBJLVQRpzEnjfjZzX";
+
+const ORIGINAL_ENV = process.env;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+
+  process.env = { ...ORIGINAL_ENV };
+  delete process.env.NEXT_PUBLIC_APP_URL;
+  delete process.env.VERCEL_URL;
+  delete process.env.WALLET_ACCOUNT_XPUB;
+  delete process.env.WALLET_ACCOUNT_XPUB_P2TR;
+  delete process.env.WALLET_ACCOUNT_XPUB_P2SH_P2WPKH;
+  delete process.env.WALLET_ACCOUNT_XPUB_P2PKH;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  process.env = ORIGINAL_ENV;
+});
+
+describe("createPaymentRequest - xpub derivation", () => {
+  const createFormData = (amount: string, addressType?: string) => {
+    const formData = new FormData();
+    formData.set("amount", amount);
+    if (addressType) {
+      formData.set("addressType", addressType);
+    }
+    return formData;
+  };
+
+  it("should derive the address at the reserved index when an xpub is configured", async () => {
+    process.env.WALLET_ACCOUNT_XPUB = testVpub;
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    expect(allocateAddressIndex).toHaveBeenCalledTimes(1);
+    // m/84'/1'/0'/0/5 of the test vector account
+    expect(result.data?.address).toBe(
+      "tb1qr7scvm07ta0ldzlrmk7rnmc9lk356yar6zfu45"
+    );
+    expect(result.data?.paymentUri).toContain(result.data?.address);
+  });
+
+  it("should store the derivation path and index with the payment", async () => {
+    process.env.WALLET_ACCOUNT_XPUB = testVpub;
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(initializePaymentStatus).toHaveBeenCalledWith(
+      result.data!.address,
+      0.001,
+      undefined,
+      {
+        derivationPath: "m/84'/1'/0'/0/5",
+        derivationIndex: 5,
+        addressType: AddressType.P2WPKH,
+        expiresAt: result.data!.expiresAt,
+        requiredConfirmations: 1,
+      }
+    );
+  });
+
+  it("should not reserve an index when no xpub is configured", async () => {
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.address).toMatch(/^tb1[a-z0-9]{39}$/);
+    expect(allocateAddressIndex).not.toHaveBeenCalled();
+    expect(initializePaymentStatus).toHaveBeenCalledWith(
+      result.data!.address,
+      0.001,
+      undefined,
+      {
+        derivationPath: undefined,
+        derivationIndex: undefined,
+        addressType: AddressType.P2WPKH,
+        expiresAt: result.data!.expiresAt,
+        requiredConfirmations: 1,
+      }
+    );
+  });
+
+  it("should fail the request when the configured xpub is invalid", async () => {
+    process.env.WALLET_ACCOUNT_XPUB = "xprvinvalid";
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Failed to generate payment address");
+    expect(initializePaymentStatus).not.toHaveBeenCalled();
+  });
+
+  it("should fail the request when the gap limit is reached", async () => {
+    process.env.WALLET_ACCOUNT_XPUB = testVpub;
+    (allocateAddressIndex as jest.Mock).mockResolvedValueOnce({
+      kind: "gap-limit-reached",
+      state: { nextAddressIndex: 20, highestUsedIndex: -1, unusedCount: 20 },
+    });
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Address gap limit of 20 reached");
+    expect(initializePaymentStatus).not.toHaveBeenCalled();
+  });
+
+  it("should fail the request when the index cannot be reserved", async () => {
+    process.env.WALLET_ACCOUNT_XPUB = testVpub;
+    (allocateAddressIndex as jest.Mock).mockRejectedValueOnce(
+      new Error("Wallet state file contains an invalid address index")
+    );
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("invalid address index");
+    expect(initializePaymentStatus).not.toHaveBeenCalled();
+  });
+
+  describe("recycled addresses", () => {
+    // m/84'/1'/0'/0/5 of the test vector account
+    const recycledAddress = "tb1qr7scvm07ta0ldzlrmk7rnmc9lk356yar6zfu45";
+    const previous = {
+      address: recycledAddress,
+      status: PaymentStatus.EXPIRED,
+      derivationIndex: 5,
+      webhookIds: ["old-hook"],
+      createdAt: 1_000,
+      lastUpdated: 1_000,
+    };
+
+    beforeEach(() => {
+      process.env.WALLET_ACCOUNT_XPUB = testVpub;
+      process.env.NEXT_PUBLIC_APP_URL = "https://shop.example.com";
+      (allocateAddressIndex as jest.Mock).mockResolvedValueOnce({
+        kind: "recycled",
+        index: 5,
+        address: recycledAddress,
+        previous,
+      });
+    });
+
+    it("should archive the previous request and delete its watches", async () => {
+      const result = await createPaymentRequest(createFormData("0.001"));
+
+      expect(result.success).toBe(true);
+      expect(initializePaymentStatus).toHaveBeenCalledWith(
+        recycledAddress,
+        0.001,
+        undefined,
+        expect.objectContaining({ previousPayment: previous })
+      );
+      expect(releaseRecycledWatches).toHaveBeenCalledWith(previous);
+      expect(releaseRecycledAddress).not.toHaveBeenCalled();
+    });
+
+    it("should give the address back when the request fails", async () => {
+      (getChainProvider as jest.Mock).mockReturnValueOnce({
+        name: "blockcypher",
+        requiresCallbackUrl: true,
+        watchAddress: () => Promise.reject(new ChainProviderRateLimitError()),
+      });
+
+      const result = await createPaymentRequest(createFormData("0.001"));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("rate limit");
+      expect(releaseRecycledAddress).toHaveBeenCalledWith(previous);
+      // Its watches stay with the restored request
+      expect(releaseRecycledWatches).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("address types", () => {
+    it("should derive Taproot addresses from the BIP86 account xpub", async () => {
+      process.env.WALLET_ACCOUNT_XPUB_P2TR = testTaprootTpub;
+      (allocateAddressIndex as jest.Mock).mockResolvedValueOnce({
+        kind: "new",
+        index: 0,
+      });
+
+      const result = await createPaymentRequest(
+        createFormData("0.001", AddressType.P2TR)
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.address).toBe(
+        "tb1p8wpt9v4frpf3tkn0srd97pksgsxc5hs52lafxwru9kgeephvs7rqlqt9zj"
+      );
+      expect(result.data?.addressType).toBe(AddressType.P2TR);
+      expect(allocateAddressIndex).toHaveBeenCalledWith(
+        expect.objectContaining({ addressType: AddressType.P2TR })
+      );
+      expect(initializePaymentStatus).toHaveBeenCalledWith(
+        result.data!.address,
+        0.001,
+        undefined,
+        {
+          derivationPath: "m/86'/1'/0'/0/0",
+          derivationIndex: 0,
+          addressType: AddressType.P2TR,
+          expiresAt: result.data!.expiresAt,
+          requiredConfirmations: 1,
+        }
+      );
+    });
+
+    it("should refuse address types without an account xpub in xpub mode", async () => {
+      process.env.WALLET_ACCOUNT_XPUB = testVpub;
+
+      const result = await createPaymentRequest(
+        createFormData("0.001", AddressType.P2PKH)
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(
+        "No account xpub configured for P2PKH addresses (set WALLET_ACCOUNT_XPUB_P2PKH)"
+      );
+      expect(allocateAddressIndex).not.toHaveBeenCalled();
+      expect(initializePaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it("should generate ephemeral addresses of the requested type without xpubs", async () => {
+      const result = await createPaymentRequest(
+        createFormData("0.001", AddressType.P2SH_P2WPKH)
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.address).toMatch(/^2[1-9A-HJ-NP-Za-km-z]{33,34}$/);
+      expect(result.data?.addressType).toBe(AddressType.P2SH_P2WPKH);
+    });
+
+    it("should reject unsupported address types", async () => {
+      const result = await createPaymentRequest(
+        createFormData("0.001", "P2WSH")
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unsupported address type");
+    });
+  });
+});
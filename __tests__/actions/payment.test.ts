@@ -7,12 +7,19 @@
  */
 
 // Set up mocks BEFORE any imports
-jest.mock("../../src/lib/api/blockcypher", () => ({
-  registerPaymentWebhook: jest.fn(() => Promise.resolve(["webhook-test-123", "webhook-test-456"])),
+jest.mock("../../src/lib/api/providers", () => ({
+  getChainProvider: jest.fn(() => ({
+    name: "blockcypher",
+    requiresCallbackUrl: true,
+    watchAddress: jest.fn(() =>
+      Promise.resolve(["webhook-test-123", "webhook-test-456"])
+    ),
+  })),
 }));
 
 jest.mock("../../src/lib/store/payment-status", () => ({
   initializePaymentStatus: jest.fn(() => Promise.resolve()),
+  recordPaymentWebhooks: jest.fn(() => Promise.resolve(true)),
 }));
 
 // Mock fs to prevent file system operations that might hang
@@ -131,6 +138,64 @@ describe("Payment Server Actions", () => {
         expect(result.success).toBe(true);
         expect(result.data?.amount).toBe(0.001);
       });
+
+      it("should expire requests after the configured default", async () => {
+        process.env.PAYMENT_EXPIRY_MINUTES = "30";
+        const formData = new FormData();
+        formData.append("amount", "0.001");
+
+        const before = Date.now();
+        const result = await createPaymentRequest(formData);
+        delete process.env.PAYMENT_EXPIRY_MINUTES;
+
+        expect(result.success).toBe(true);
+        const expiresAt = result.data?.expiresAt ?? 0;
+        expect(expiresAt).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+        expect(expiresAt).toBeLessThanOrEqual(Date.now() + 30 * 60 * 1000);
+      });
+
+      it("should accept a per-request expiry override", async () => {
+        const formData = new FormData();
+        formData.append("amount", "0.001");
+        formData.append("expiresInMinutes", " 5 ");
+
+        const before = Date.now();
+        const result = await createPaymentRequest(formData);
+
+        expect(result.success).toBe(true);
+        expect(result.data?.expiresAt).toBeGreaterThanOrEqual(
+          before + 5 * 60 * 1000
+        );
+        expect(result.data?.expiresAt).toBeLessThan(before + 6 * 60 * 1000);
+      });
+
+      it("should reject an invalid expiry override", async () => {
+        const formData = new FormData();
+        formData.append("amount", "0.001");
+        formData.append("expiresInMinutes", "0");
+
+        const result = await createPaymentRequest(formData);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("Expiry must be at least 1 minute");
+      });
+
+      it("should require confirmations by the configured policy", async () => {
+        process.env.CONFIRMATION_POLICY = "0.001:0,0.01:1,3";
+        const amounts = ["0.0005", "0.005", "0.5"];
+
+        const results = [];
+        for (const amount of amounts) {
+          const formData = new FormData();
+          formData.append("amount", amount);
+          results.push(await createPaymentRequest(formData));
+        }
+        delete process.env.CONFIRMATION_POLICY;
+
+        expect(
+          results.map((result) => result.data?.requiredConfirmations)
+        ).toEqual([0, 1, 3]);
+      });
     });
 
     describe("Response Structure", () => {
@@ -0,0 +1,352 @@
+/**
+ * Admin Dead-Letter API Tests
+ *
+ * Tests listing, inspecting, replaying and discarding stored webhook
+ * deliveries through `/api/admin/dead-letters`:
+ * - Requests need the admin bearer token; the API is off without one
+ * - Replays use the webhook pipeline and remove processed deliveries
+ * - Deliveries that still fail stay with an incremented attempt count
+ * - Store failures are answered with the JSON error shape
+ * - Webhook secrets are not returned, bodies are stored up to a limit, and
+ *   unauthenticated deliveries cannot push out authenticated ones
+ */
+
+import fs from "fs/promises";
+import { NextRequest } from "next/server";
+import {
+  GET as listRoute,
+  POST as replayAllRoute,
+} from "@/app/api/admin/dead-letters/route";
+import {
+  GET as inspectRoute,
+  POST as replayRoute,
+  DELETE as deleteRoute,
+} from "@/app/api/admin/dead-letters/[id]/route";
+import {
+  DEAD_LETTER_CONFIG,
+  addDeadLetter,
+  clearDeadLetters,
+  getDeadLetter,
+  listDeadLetters,
+  type WebhookDelivery,
+} from "@/lib/store/dead-letters";
+import {
+  clearAllPaymentStatuses,
+  getPaymentStatus,
+  initializePaymentStatus,
+} from "@/lib/store/payment-status";
+import { getStoreConfig } from "@/lib/store/config";
+import { PaymentStatus } from "@/types";
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: () => ({
+    name: "mock",
+    requiresCallbackUrl: true,
+    // The chain agrees with the stored deliveries
+    getTransaction: (txid: string) =>
+      Promise.resolve({
+        txid,
+        confirmations: 0,
+        outputs: [
+          {
+            address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+            value: 100000,
+          },
+        ],
+      }),
+  }),
+}));
+
+const ADMIN_TOKEN = "admin-token";
+const BASE_URL = "http://localhost:3000/api/admin/dead-letters";
+const testAddress = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const testTransactionHash = "ab".repeat(32);
+const webhookSecret = "a1".repeat(32);
+
+const ORIGINAL_ENV = process.env;
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+
+  process.env = { ...ORIGINAL_ENV, ADMIN_API_TOKEN: ADMIN_TOKEN };
+  await clearAllPaymentStatuses();
+  await clearDeadLetters();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  process.env = ORIGINAL_ENV;
+});
+
+function adminRequest(
+  path = "",
+  method = "GET",
+  token: string | null = ADMIN_TOKEN
+): NextRequest {
+  return new NextRequest(`${BASE_URL}${path}`, {
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function unconfirmedDelivery(): WebhookDelivery {
+  return {
+    rawBody: JSON.stringify({
+      hash: testTransactionHash,
+      addresses: [testAddress],
+      total: 100000,
+      fees: 1000,
+      confirmations: 0,
+      double_spend: false,
+      block_height: -1,
+      block_index: -1,
+      size: 250,
+      preference: "high",
+      received: new Date().toISOString(),
+      ver: 1,
+      vin_sz: 1,
+      vout_sz: 1,
+      outputs: [
+        {
+          value: 100000,
+          script: "0014751e76e8199196d454941c45d1b3a323f1433bd6",
+          addresses: [testAddress],
+          script_type: "pay-to-witness-pubkey-hash",
+        },
+      ],
+    }),
+    headers: { "x-eventtype": "unconfirmed-tx", "x-eventid": "event-1" },
+    secret: webhookSecret,
+  };
+}
+
+describe("Admin API authentication", () => {
+  it("should be disabled without ADMIN_API_TOKEN", async () => {
+    delete process.env.ADMIN_API_TOKEN;
+
+    const response = await listRoute(adminRequest());
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject missing or wrong tokens", async () => {
+    expect((await listRoute(adminRequest("", "GET", null))).status).toBe(401);
+    expect((await listRoute(adminRequest("", "GET", "wrong"))).status).toBe(
+      401
+    );
+    expect(
+      (await replayAllRoute(adminRequest("", "POST", "wrong"))).status
+    ).toBe(401);
+  });
+});
+
+describe("GET /api/admin/dead-letters", () => {
+  it("should list dead letters without their raw bodies", async () => {
+    const stored = await addDeadLetter(
+      unconfirmedDelivery(),
+      "update-failed",
+      "Disk full"
+    );
+
+    const response = await listRoute(adminRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.count).toBe(1);
+    expect(data.deadLetters[0]).toMatchObject({
+      id: stored.id,
+      reason: "update-failed",
+      error: "Disk full",
+      attempts: 1,
+      eventType: "unconfirmed-tx",
+      eventId: "event-1",
+    });
+    expect(data.deadLetters[0].delivery).toBeUndefined();
+  });
+});
+
+describe("/api/admin/dead-letters/[id]", () => {
+  it("should return a dead letter with its delivery but not its secret", async () => {
+    const stored = await addDeadLetter(
+      unconfirmedDelivery(),
+      "update-failed",
+      "Disk full"
+    );
+
+    const response = await inspectRoute(
+      adminRequest(`/${stored.id}`),
+      routeParams(stored.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ...stored,
+      delivery: { ...stored.delivery, secret: "[redacted]" },
+    });
+  });
+
+  it("should answer 404 for unknown IDs", async () => {
+    for (const [route, method] of [
+      [inspectRoute, "GET"],
+      [replayRoute, "POST"],
+      [deleteRoute, "DELETE"],
+    ] as const) {
+      const response = await route(
+        adminRequest("/missing", method),
+        routeParams("missing")
+      );
+      expect(response.status).toBe(404);
+    }
+  });
+
+  it("should replay a delivery and remove it once processed", async () => {
+    await initializePaymentStatus(testAddress, 0.001, undefined, {
+      webhookSecret,
+    });
+    const stored = await addDeadLetter(
+      unconfirmedDelivery(),
+      "update-failed",
+      "Disk full"
+    );
+
+    const response = await replayRoute(
+      adminRequest(`/${stored.id}`, "POST"),
+      routeParams(stored.id)
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ id: stored.id, processed: true, status: 200 });
+    expect(await getDeadLetter(stored.id)).toBeNull();
+    expect((await getPaymentStatus(testAddress))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+  });
+
+  it("should keep a delivery that still fails and count the attempt", async () => {
+    const stored = await addDeadLetter(
+      { rawBody: "invalid json", headers: {}, secret: null },
+      "invalid-json",
+      "Invalid JSON payload"
+    );
+
+    const response = await replayRoute(
+      adminRequest(`/${stored.id}`, "POST"),
+      routeParams(stored.id)
+    );
+
+    expect((await response.json()).processed).toBe(false);
+    const deadLetter = await getDeadLetter(stored.id);
+    expect(deadLetter?.attempts).toBe(2);
+    expect(deadLetter?.lastAttemptAt).toEqual(expect.any(Number));
+  });
+
+  it("should not replay a delivery whose body was truncated", async () => {
+    const rawBody = "x".repeat(DEAD_LETTER_CONFIG.maxRawBodyLength + 1);
+    const stored = await addDeadLetter(
+      { rawBody, headers: {}, secret: null },
+      "invalid-json",
+      "Invalid JSON payload"
+    );
+
+    expect(stored.rawBodyLength).toBe(rawBody.length);
+    expect(stored.delivery.rawBody).toHaveLength(
+      DEAD_LETTER_CONFIG.maxRawBodyLength
+    );
+
+    const response = await replayRoute(
+      adminRequest(`/${stored.id}`, "POST"),
+      routeParams(stored.id)
+    );
+
+    expect(await response.json()).toMatchObject({
+      processed: false,
+      status: 413,
+    });
+    expect((await getDeadLetter(stored.id))?.attempts).toBe(1);
+  });
+
+  it("should discard a delivery", async () => {
+    const stored = await addDeadLetter(
+      unconfirmedDelivery(),
+      "update-failed",
+      "Disk full"
+    );
+
+    const response = await deleteRoute(
+      adminRequest(`/${stored.id}`, "DELETE"),
+      routeParams(stored.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(await listDeadLetters()).toHaveLength(0);
+  });
+
+  it("should answer store failures with a JSON error", async () => {
+    await fs.writeFile(getStoreConfig().DEAD_LETTER_FILE, "{ not json");
+
+    for (const [route, method, error] of [
+      [inspectRoute, "GET", "Failed to load dead letter"],
+      [replayRoute, "POST", "Failed to replay dead letter"],
+      [deleteRoute, "DELETE", "Failed to remove dead letter"],
+    ] as const) {
+      const response = await route(
+        adminRequest("/broken", method),
+        routeParams("broken")
+      );
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error });
+    }
+  });
+});
+
+describe("POST /api/admin/dead-letters", () => {
+  it("should replay every dead letter", async () => {
+    await initializePaymentStatus(testAddress, 0.001, undefined, {
+      webhookSecret,
+    });
+    await addDeadLetter(unconfirmedDelivery(), "update-failed", "Disk full");
+    const broken = await addDeadLetter(
+      { rawBody: "{", headers: {}, secret: null },
+      "invalid-json",
+      "Invalid JSON payload"
+    );
+
+    const response = await replayAllRoute(adminRequest("", "POST"));
+    const data = await response.json();
+
+    expect(data).toMatchObject({ replayed: 2, processed: 1, failed: 1 });
+    expect((await listDeadLetters()).map(({ id }) => id)).toEqual([broken.id]);
+  });
+});
+
+describe("Dead-letter limits", () => {
+  it("should not let unauthenticated deliveries push out authenticated ones", async () => {
+    const authenticated = await addDeadLetter(
+      unconfirmedDelivery(),
+      "update-failed",
+      "Disk full",
+      true
+    );
+    const { maxUnauthenticatedEntries } = DEAD_LETTER_CONFIG;
+    for (let i = 0; i <= maxUnauthenticatedEntries; i++) {
+      await addDeadLetter(
+        { rawBody: `garbage ${i}`, headers: {}, secret: null },
+        "invalid-json",
+        "Invalid JSON payload"
+      );
+    }
+
+    const deadLetters = await listDeadLetters();
+    expect(deadLetters).toHaveLength(maxUnauthenticatedEntries + 1);
+    expect(deadLetters[0].id).toBe(authenticated.id);
+    // The oldest unauthenticated delivery was dropped
+    expect(deadLetters[1].delivery.rawBody).toBe("garbage 1");
+  });
+});
@@ -66,14 +66,12 @@ describe("Payment Status API Route - Integration Tests", () => {
     expect(data.status).toBe(PaymentStatus.AWAITING_PAYMENT);
 
     // Update status in store (simulating webhook update)
-    await updatePaymentStatus(
-      testAddress,
-      PaymentStatus.PAYMENT_DETECTED,
-      testTransactionHash,
-      0,
-      100000, // 0.001 BTC in satoshis
-      0.95
-    );
+    await updatePaymentStatus(testAddress, PaymentStatus.PAYMENT_DETECTED, {
+      transactionId: testTransactionHash,
+      confirmations: 0,
+      receivedAmount: 100000, // 0.001 BTC in satoshis
+      confidence: 0.95,
+    });
 
     // Get updated status
     request = new NextRequest(
@@ -89,13 +87,11 @@ describe("Payment Status API Route - Integration Tests", () => {
     expect(data.transactionId).toBe(testTransactionHash);
 
     // Update to confirmed
-    await updatePaymentStatus(
-      testAddress,
-      PaymentStatus.CONFIRMED,
-      testTransactionHash,
-      3,
-      100000
-    );
+    await updatePaymentStatus(testAddress, PaymentStatus.CONFIRMED, {
+      transactionId: testTransactionHash,
+      confirmations: 3,
+      receivedAmount: 100000,
+    });
 
     // Get confirmed status
     request = new NextRequest(
@@ -116,15 +112,13 @@ describe("Payment Status API Route - Integration Tests", () => {
     await initializePaymentStatus(testAddress, 0.001);
 
     // Update with double-spend error
-    await updatePaymentStatus(
-      testAddress,
-      PaymentStatus.ERROR,
-      testTransactionHash,
-      0,
-      100000,
-      0,
-      true // isDoubleSpend
-    );
+    await updatePaymentStatus(testAddress, PaymentStatus.ERROR, {
+      transactionId: testTransactionHash,
+      confirmations: 0,
+      receivedAmount: 100000,
+      confidence: 0,
+      isDoubleSpend: true,
+    });
 
     const request = new NextRequest(
       `http://localhost:3000/api/payment-status/${testAddress}`
@@ -170,21 +164,17 @@ describe("Payment Status API Route - Integration Tests", () => {
     }
 
     // Update some statuses
-    await updatePaymentStatus(
-      addresses[0],
-      PaymentStatus.PAYMENT_DETECTED,
-      "tx1",
-      0,
-      100000
-    );
+    await updatePaymentStatus(addresses[0], PaymentStatus.PAYMENT_DETECTED, {
+      transactionId: "tx1",
+      confirmations: 0,
+      receivedAmount: 100000,
+    });
     
-    await updatePaymentStatus(
-      addresses[1],
-      PaymentStatus.CONFIRMED,
-      "tx2",
-      6,
-      200000
-    );
+    await updatePaymentStatus(addresses[1], PaymentStatus.CONFIRMED, {
+      transactionId: "tx2",
+      confirmations: 6,
+      receivedAmount: 200000,
+    });
 
     // Make concurrent requests
     const requests = addresses.map(addr => {
@@ -230,13 +220,11 @@ describe("Payment Status API Route - Integration Tests", () => {
     await new Promise(resolve => setTimeout(resolve, 10));
     
     const beforeUpdate = Date.now();
-    await updatePaymentStatus(
-      testAddress,
-      PaymentStatus.PAYMENT_DETECTED,
-      testTransactionHash,
-      0,
-      100000
-    );
+    await updatePaymentStatus(testAddress, PaymentStatus.PAYMENT_DETECTED, {
+      transactionId: testTransactionHash,
+      confirmations: 0,
+      receivedAmount: 100000,
+    });
     const afterUpdate = Date.now();
 
     const response2 = await GET(request, {
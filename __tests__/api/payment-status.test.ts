@@ -8,6 +8,7 @@
 import { NextRequest } from "next/server";
 import { GET, POST, OPTIONS } from "@/app/api/payment-status/[address]/route";
 import { getPaymentStatus } from "@/lib/store/payment-status";
+import { getConfiguredRecycleAfterMs } from "@/lib/bitcoin/address-allocator";
 import { PaymentStatus } from "@/types";
 
 // Mock the payment status store module
@@ -56,7 +57,10 @@ describe("Payment Status API Route", () => {
 
       const data = await response.json();
       expect(data).toEqual(mockStatus);
-      expect(getPaymentStatus).toHaveBeenCalledWith(validNativeSegwitAddress);
+      expect(getPaymentStatus).toHaveBeenCalledWith(
+        validNativeSegwitAddress,
+        getConfiguredRecycleAfterMs()
+      );
     });
 
     it("should return 404 for non-existent payment status", async () => {
@@ -141,7 +145,10 @@ describe("Payment Status API Route", () => {
       });
 
       expect(response.status).toBe(200);
-      expect(getPaymentStatus).toHaveBeenCalledWith(validLegacyAddress);
+      expect(getPaymentStatus).toHaveBeenCalledWith(
+        validLegacyAddress,
+        getConfiguredRecycleAfterMs()
+      );
     });
 
     it("should accept P2SH testnet addresses", async () => {
@@ -194,6 +201,142 @@ describe("Payment Status API Route", () => {
       expect(data.errorMessage).toBe("Double spend detected");
     });
 
+    it("should include the status history", async () => {
+      const history = [
+        {
+          from: PaymentStatus.AWAITING_PAYMENT,
+          to: PaymentStatus.PAYMENT_DETECTED,
+          transactionId: "txid123",
+          confirmations: 0,
+          source: "webhook",
+          timestamp: 1_000,
+        },
+        {
+          from: PaymentStatus.PAYMENT_DETECTED,
+          to: PaymentStatus.CONFIRMED,
+          transactionId: "txid123",
+          confirmations: 1,
+          source: "reconciler",
+          timestamp: 2_000,
+        },
+      ];
+
+      (getPaymentStatus as jest.Mock).mockResolvedValue({
+        status: PaymentStatus.CONFIRMED,
+        confirmations: 1,
+        transactionId: "txid123",
+        lastUpdated: 2_000,
+        history,
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/payment-status/${validNativeSegwitAddress}`
+      );
+
+      const response = await GET(request, {
+        params: Promise.resolve({ address: validNativeSegwitAddress }),
+      });
+
+      const data = await response.json();
+      expect(data.history).toEqual(history);
+    });
+
+    it("should report expiry and late payments", async () => {
+      (getPaymentStatus as jest.Mock).mockResolvedValue({
+        status: PaymentStatus.EXPIRED,
+        confirmations: 0,
+        transactionId: "txid123",
+        lastUpdated: 3_000,
+        expiresAt: 2_000,
+        latePayment: true,
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/payment-status/${validNativeSegwitAddress}`
+      );
+
+      const response = await GET(request, {
+        params: Promise.resolve({ address: validNativeSegwitAddress }),
+      });
+
+      const data = await response.json();
+      expect(data.status).toBe(PaymentStatus.EXPIRED);
+      expect(data.expiresAt).toBe(2_000);
+      expect(data.latePayment).toBe(true);
+    });
+
+    it("should report until when an expired request is still watched", async () => {
+      (getPaymentStatus as jest.Mock).mockResolvedValue({
+        status: PaymentStatus.EXPIRED,
+        confirmations: 0,
+        expiresAt: 2_000,
+        watchedUntil: 5_000,
+      });
+
+      const response = await GET(
+        new NextRequest(
+          `http://localhost:3000/api/payment-status/${validNativeSegwitAddress}`
+        ),
+        { params: Promise.resolve({ address: validNativeSegwitAddress }) }
+      );
+
+      const data = await response.json();
+      expect(data.watchedUntil).toBe(5_000);
+    });
+
+    it("should report credited transactions and the outstanding amount", async () => {
+      const transactions = [
+        {
+          transactionId: "txid123",
+          amount: 40_000,
+          confirmations: 1,
+          firstSeen: 1_000,
+        },
+      ];
+      (getPaymentStatus as jest.Mock).mockResolvedValue({
+        status: PaymentStatus.UNDERPAID,
+        confirmations: 1,
+        transactionId: "txid123",
+        transactions,
+        receivedAmount: 40_000,
+        outstandingAmount: 60_000,
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/payment-status/${validNativeSegwitAddress}`
+      );
+
+      const response = await GET(request, {
+        params: Promise.resolve({ address: validNativeSegwitAddress }),
+      });
+
+      const data = await response.json();
+      expect(data.transactions).toEqual(transactions);
+      expect(data.receivedAmount).toBe(40_000);
+      expect(data.outstandingAmount).toBe(60_000);
+    });
+
+    it("should report the required confirmations", async () => {
+      (getPaymentStatus as jest.Mock).mockResolvedValue({
+        status: PaymentStatus.PAYMENT_DETECTED,
+        confirmations: 2,
+        transactionId: "txid123",
+        requiredConfirmations: 6,
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/payment-status/${validNativeSegwitAddress}`
+      );
+
+      const response = await GET(request, {
+        params: Promise.resolve({ address: validNativeSegwitAddress }),
+      });
+
+      const data = await response.json();
+      expect(data.confirmations).toBe(2);
+      expect(data.requiredConfirmations).toBe(6);
+    });
+
     it("should handle store errors gracefully", async () => {
       (getPaymentStatus as jest.Mock).mockRejectedValue(new Error("Store error"));
 
@@ -0,0 +1,205 @@
+/**
+ * Tests for the wallet notification API route
+ *
+ * Runs the offline regtest loop end to end against a fake bitcoind:
+ * address watch → `-walletnotify` on mempool acceptance → `-walletnotify`
+ * on confirmation, with the real payment status store.
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/webhook/wallet-notify/route";
+import { getChainProvider } from "@/lib/api/providers";
+import {
+  clearAllPaymentStatuses,
+  getPaymentStatus,
+  initializePaymentStatus,
+} from "@/lib/store/payment-status";
+import { PaymentStatus } from "@/types";
+
+const address = "bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk";
+const txid = "d".repeat(64);
+
+// Fake regtest node: wallet transactions keyed by txid
+let server: http.Server;
+let walletTransactions: Map<string, { confirmations: number; value: number }>;
+let importedDescriptors: string[];
+let nodeAvailable: boolean;
+
+const originalEnv = process.env;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(body);
+      const reply = (result: unknown, error: unknown = null) => {
+        res.writeHead(error ? 500 : 200, {
+          "Content-Type": "application/json",
+        });
+        res.end(JSON.stringify({ result, error, id }));
+      };
+
+      if (!nodeAvailable) {
+        reply(null, { code: -28, message: "Verifying blocks..." });
+        return;
+      }
+
+      switch (method) {
+        case "listwallets":
+          return reply(["payment-watch"]);
+        case "getdescriptorinfo":
+          return reply({ descriptor: `${params[0]}#checksum` });
+        case "importdescriptors":
+          importedDescriptors.push(params[0][0].desc);
+          return reply([{ success: true }]);
+        case "gettransaction": {
+          const tx = walletTransactions.get(params[0]);
+          if (!tx) {
+            return reply(null, {
+              code: -5,
+              message: "Invalid or non-wallet transaction id",
+            });
+          }
+          return reply({
+            txid: params[0],
+            confirmations: tx.confirmations,
+            ...(tx.confirmations > 0 && {
+              blockhash: "e".repeat(64),
+              blockheight: 201,
+            }),
+            decoded: {
+              vout: [
+                { value: tx.value, scriptPubKey: { address } },
+                {
+                  value: 0.5,
+                  scriptPubKey: {
+                    address: "bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080",
+                  },
+                },
+              ],
+            },
+          });
+        }
+        default:
+          return reply(null, { code: -32601, message: "Method not found" });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+
+  process.env = {
+    ...originalEnv,
+    CHAIN_PROVIDER: "bitcoind",
+    NEXT_PUBLIC_BITCOIN_NETWORK: "regtest",
+    BITCOIND_RPC_URL: `http://127.0.0.1:${port}`,
+  };
+});
+
+afterAll(async () => {
+  process.env = originalEnv;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  walletTransactions = new Map();
+  importedDescriptors = [];
+  nodeAvailable = true;
+  await clearAllPaymentStatuses();
+});
+
+function notify(query: string, body?: object) {
+  return POST(
+    new NextRequest(
+      `http://localhost:3000/api/webhook/wallet-notify${query}`,
+      body
+        ? {
+            method: "POST",
+            body: JSON.stringify(body),
+            headers: { "Content-Type": "application/json" },
+          }
+        : { method: "POST" }
+    )
+  );
+}
+
+describe("Wallet Notify API Route", () => {
+  it("should move a payment from detected to confirmed over the regtest loop", async () => {
+    await initializePaymentStatus(address, 0.0015);
+    await getChainProvider().watchAddress(address);
+    expect(importedDescriptors).toEqual([`addr(${address})#checksum`]);
+
+    // sendtoaddress: bitcoind runs -walletnotify for the mempool transaction
+    walletTransactions.set(txid, { confirmations: 0, value: 0.0015 });
+    let response = await notify(`?txid=${txid}`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      confirmations: 0,
+      successfulUpdates: 1,
+      failedUpdates: 0,
+    });
+
+    let status = await getPaymentStatus(address);
+    expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+    expect(status?.transactionId).toBe(txid);
+
+    // generatetoaddress: bitcoind runs -walletnotify again once mined
+    walletTransactions.set(txid, { confirmations: 1, value: 0.0015 });
+    response = await notify(`?txid=${txid}`);
+    expect(response.status).toBe(200);
+
+    status = await getPaymentStatus(address);
+    expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+    expect(status?.confirmations).toBe(1);
+  });
+
+  it("should accept the transaction ID in a JSON body", async () => {
+    await initializePaymentStatus(address, 0.0015);
+    walletTransactions.set(txid, { confirmations: 2, value: 0.0015 });
+
+    const response = await notify("", { txid });
+
+    expect(response.status).toBe(200);
+    expect((await getPaymentStatus(address))?.status).toBe(
+      PaymentStatus.CONFIRMED
+    );
+  });
+
+  it("should ignore outputs to unmonitored addresses", async () => {
+    walletTransactions.set(txid, { confirmations: 0, value: 0.0015 });
+
+    const response = await notify(`?txid=${txid}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      addressesProcessed: 2,
+      successfulUpdates: 0,
+    });
+  });
+
+  it("should reject a missing or malformed txid", async () => {
+    expect((await notify("")).status).toBe(400);
+    expect((await notify("?txid=%3Bshutdown")).status).toBe(400);
+  });
+
+  it("should return 404 for transactions unknown to the wallet", async () => {
+    const response = await notify(`?txid=${txid}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 502 when the node cannot be reached", async () => {
+    nodeAvailable = false;
+
+    const response = await notify(`?txid=${txid}`);
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toContain("Verifying blocks");
+  });
+});
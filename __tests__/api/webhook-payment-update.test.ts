@@ -3,16 +3,56 @@
  *
  * Tests the integration between the webhook handler and payment status store
  * for Task 5.2.2: Update status from webhook events
+ *
+ * Confirmations, and the blocks checked on `new-block` events, come from a
+ * scripted chain provider.
  */
 
 import { NextRequest } from "next/server";
 import { POST, GET } from "@/app/api/webhook/payment-update/route";
 import {
   getPaymentStatus,
+  getFullPaymentData,
   clearAllPaymentStatuses,
   initializePaymentStatus,
+  updatePaymentStatus,
 } from "@/lib/store/payment-status";
-import { PaymentStatus } from "@/types";
+import { clearDeadLetters, listDeadLetters } from "@/lib/store/dead-letters";
+import { REORG_DETECTION_CONFIG } from "@/lib/services/reorg-detection";
+import { replayDeadLetter } from "@/lib/services/webhook-processing";
+import type {
+  ChainTransaction,
+  FeeEstimates,
+} from "@/lib/api/chain-provider";
+import { PaymentHistoryEvent, PaymentStatus } from "@/types";
+
+const mockGetTransaction = jest.fn<
+  Promise<ChainTransaction | null>,
+  [string]
+>();
+const mockEstimateFees = jest.fn<Promise<FeeEstimates>, []>();
+const mockGetTipHeight = jest.fn<Promise<number>, []>();
+const mockGetBlockHash = jest.fn<Promise<string | null>, [number]>();
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: () => ({
+    name: "mock",
+    requiresCallbackUrl: true,
+    getTransaction: (txid: string) => mockGetTransaction(txid),
+    estimateFees: () => mockEstimateFees(),
+    getTipHeight: () => mockGetTipHeight(),
+    getBlockHash: (height: number) => mockGetBlockHash(height),
+  }),
+}));
+
+// Real store; updates can be made to fail once with mockRejectedValueOnce
+jest.mock("@/lib/store/payment-status", () => {
+  const actual = jest.requireActual("@/lib/store/payment-status");
+  return {
+    ...actual,
+    updatePaymentStatus: jest.fn(actual.updatePaymentStatus),
+  };
+});
 
 // Mock environment variable
 const originalEnv = process.env;
@@ -30,12 +70,32 @@ afterAll(() => {
 
 beforeEach(async () => {
   await clearAllPaymentStatuses();
+  await clearDeadLetters();
+  mockGetTransaction.mockReset();
+  mockEstimateFees.mockReset();
+  mockGetTipHeight.mockReset();
+  mockGetBlockHash.mockReset();
+  // The default payload pays 4 sat/vB
+  mockEstimateFees.mockResolvedValue({ high: 10, medium: 3, low: 1 });
 });
 
 describe("Webhook Payment Update API Route", () => {
   const testAddress = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
   const testTransactionHash =
     "d5f9b0c9e8f7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1";
+  const webhookSecret = "a1".repeat(32);
+  // Callback URL the payment's webhooks were registered with
+  const webhookUrl = `http://localhost:3000/api/webhook/payment-update?secret=${webhookSecret}`;
+
+  beforeEach(() => {
+    // The chain agrees with the default payload, three blocks deep
+    mockGetTransaction.mockResolvedValue({
+      txid: testTransactionHash,
+      confirmations: 3,
+      blockHeight: 2500000,
+      outputs: [{ address: testAddress, value: 100000 }],
+    });
+  });
 
   // Helper function to create a valid BlockCypher webhook payload
   const createValidWebhookPayload = (overrides = {}) => ({
@@ -70,7 +130,9 @@ describe("Webhook Payment Update API Route", () => {
   describe("POST handler", () => {
     it("should update payment status for unconfirmed transaction", async () => {
       // Initialize payment status
-      await initializePaymentStatus(testAddress, 0.001);
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
 
       const webhookPayload = createValidWebhookPayload({
         confirmations: 0,
@@ -79,7 +141,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -106,7 +168,9 @@ describe("Webhook Payment Update API Route", () => {
 
     it("should update payment status for confirmed transaction", async () => {
       // Initialize payment status
-      await initializePaymentStatus(testAddress, 0.001);
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
 
       const webhookPayload = createValidWebhookPayload({
         confirmations: 3,
@@ -115,7 +179,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -137,8 +201,15 @@ describe("Webhook Payment Update API Route", () => {
       expect(status?.confirmations).toBe(3);
     });
 
-    it("should handle double-spend transactions", async () => {
-      await initializePaymentStatus(testAddress, 0.001);
+    it("should rate a double-spent transaction instead of failing the payment", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
 
       const webhookPayload = createValidWebhookPayload({
         confirmations: 0,
@@ -148,7 +219,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -163,10 +234,78 @@ describe("Webhook Payment Update API Route", () => {
 
       expect(response.status).toBe(200);
 
-      // Verify payment status was updated to ERROR
+      // Credited, but never accepted unconfirmed
       const status = await getPaymentStatus(testAddress);
-      expect(status?.status).toBe(PaymentStatus.ERROR);
-      expect(status?.errorMessage).toBe("Double spend detected");
+      expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(status?.errorMessage).toBeUndefined();
+      expect(status?.transactions?.[0].risk).toMatchObject({
+        level: "high",
+        factors: expect.arrayContaining(["double-spend"]),
+      });
+    });
+
+    it("should follow a fee-bumped replacement flagged as a double spend", async () => {
+      const replacementHash = "e".repeat(64);
+      const inputs = [
+        {
+          prev_hash: "f".repeat(64),
+          output_index: 0,
+          output_value: 120000,
+          sequence: 0xfffffffd,
+          addresses: ["tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl"],
+          script_type: "pay-to-witness-pubkey-hash",
+        },
+      ];
+      const post = (eventType: string, overrides = {}) =>
+        POST(
+          new NextRequest(webhookUrl, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "x-eventtype": eventType,
+            },
+            body: JSON.stringify(
+              createValidWebhookPayload({ inputs, ...overrides })
+            ),
+          })
+        );
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      mockGetTransaction.mockImplementation(async (txid) => ({
+        txid,
+        confirmations: txid === replacementHash ? 1 : 0,
+        outputs: [{ address: testAddress, value: 100000 }],
+      }));
+
+      await post("unconfirmed-tx");
+      // BlockCypher flags the replacement, which spends the same input
+      await post("unconfirmed-tx", {
+        hash: replacementHash,
+        fees: 5000,
+        double_spend: true,
+      });
+
+      let payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(payment?.transactionId).toBe(replacementHash);
+      expect(payment?.transactions?.[0].replacedBy).toBe(replacementHash);
+      expect(payment?.history?.at(-1)).toMatchObject({
+        event: PaymentHistoryEvent.REPLACED,
+        droppedTransactionIds: [testTransactionHash],
+      });
+
+      await post("tx-confirmation", {
+        hash: replacementHash,
+        fees: 5000,
+        double_spend: true,
+        confirmations: 1,
+        block_height: 2500000,
+      });
+
+      payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(payment?.receivedAmount).toBe(100000);
     });
 
     it("should handle webhook for non-existing payment", async () => {
@@ -179,7 +318,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -192,7 +331,8 @@ describe("Webhook Payment Update API Route", () => {
 
       const response = await POST(request);
 
-      expect(response.status).toBe(200);
+      // No payment holds a secret for the address
+      expect(response.status).toBe(401);
 
       // Should NOT create new payment status for unmonitored addresses
       const status = await getPaymentStatus(testAddress);
@@ -207,7 +347,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -227,7 +367,7 @@ describe("Webhook Payment Update API Route", () => {
 
     it("should reject webhook with invalid JSON", async () => {
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           body: "invalid json",
@@ -249,7 +389,7 @@ describe("Webhook Payment Update API Route", () => {
       };
 
       const request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -269,7 +409,9 @@ describe("Webhook Payment Update API Route", () => {
 
     it("should update existing payment from PAYMENT_DETECTED to CONFIRMED", async () => {
       // Initialize as payment detected
-      await initializePaymentStatus(testAddress, 0.001);
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
 
       // First webhook - unconfirmed
       const unconfirmedPayload = createValidWebhookPayload({
@@ -279,7 +421,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       let request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -304,7 +446,7 @@ describe("Webhook Payment Update API Route", () => {
       });
 
       request = new NextRequest(
-        "http://localhost:3000/api/webhook/payment-update",
+        webhookUrl,
         {
           method: "POST",
           headers: {
@@ -321,6 +463,817 @@ describe("Webhook Payment Update API Route", () => {
       status = await getPaymentStatus(testAddress);
       expect(status?.status).toBe(PaymentStatus.CONFIRMED);
       expect(status?.confirmations).toBe(1);
+      expect(
+        status?.history?.map(({ to, source }) => ({ to, source }))
+      ).toEqual([
+        { to: PaymentStatus.PAYMENT_DETECTED, source: "webhook" },
+        { to: PaymentStatus.CONFIRMED, source: "webhook" },
+      ]);
+    });
+  });
+
+  describe("Webhook authentication", () => {
+    const otherAddress = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+
+    const postUnconfirmed = (url: string, overrides = {}) =>
+      POST(
+        new NextRequest(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": "unconfirmed-tx",
+          },
+          body: JSON.stringify(createValidWebhookPayload(overrides)),
+        })
+      );
+
+    it("should reject a forged webhook without the secret", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+
+      const response = await postUnconfirmed(
+        "http://localhost:3000/api/webhook/payment-update"
+      );
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe("Invalid webhook secret");
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+    });
+
+    it("should reject a webhook with another payment's secret", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+
+      const response = await postUnconfirmed(
+        `http://localhost:3000/api/webhook/payment-update?secret=${"b2".repeat(
+          32
+        )}`
+      );
+
+      expect(response.status).toBe(401);
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+    });
+
+    it("should reject webhooks for payments registered without a secret", async () => {
+      await initializePaymentStatus(testAddress, 0.001);
+
+      const response = await postUnconfirmed(webhookUrl);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should only update the payment the secret belongs to", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      await initializePaymentStatus(otherAddress, 0.001, undefined, {
+        webhookSecret: "c3".repeat(32),
+      });
+
+      const response = await postUnconfirmed(webhookUrl, {
+        addresses: [testAddress, otherAddress],
+        outputs: [testAddress, otherAddress].map((address) => ({
+          value: 100000,
+          script: "",
+          addresses: [address],
+          script_type: "pay-to-witness-pubkey-hash",
+        })),
+      });
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).addressesProcessed).toBe(1);
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect((await getPaymentStatus(otherAddress))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+    });
+  });
+
+  describe("On-chain verification", () => {
+    const postConfirmation = (overrides = {}, eventId = "event-1") =>
+      POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": "tx-confirmation",
+            "x-eventid": eventId,
+          },
+          body: JSON.stringify(
+            createValidWebhookPayload({
+              confirmations: 2,
+              block_height: 2500000,
+              block_index: 1,
+              ...overrides,
+            })
+          ),
+        })
+      );
+
+    beforeEach(async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+    });
+
+    it("should confirm a payment the chain agrees with", async () => {
+      const response = await postConfirmation();
+
+      expect(response.status).toBe(200);
+      expect(mockGetTransaction).toHaveBeenCalledWith(testTransactionHash);
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+    });
+
+    it("should record an inflated amount as suspicious", async () => {
+      const response = await postConfirmation({
+        total: 5000000,
+        outputs: [
+          {
+            value: 5000000,
+            script: "",
+            addresses: [testAddress],
+            script_type: "pay-to-witness-pubkey-hash",
+          },
+        ],
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.successfulUpdates).toBe(0);
+      expect(data.suspiciousEvents).toBe(1);
+
+      const payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(payment?.suspiciousEvents).toEqual([
+        expect.objectContaining({
+          source: "tx-confirmation",
+          transactionId: testTransactionHash,
+          reason: "Amount mismatch: reported 5000000 sat, found 100000 sat",
+          reported: { confirmations: 2, amount: 5000000 },
+          observed: { confirmations: 3, amount: 100000 },
+        }),
+      ]);
+    });
+
+    it("should record confirmations the chain does not show as suspicious", async () => {
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      await postConfirmation({ confirmations: 6 });
+
+      const payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(payment?.suspiciousEvents?.[0].reason).toBe(
+        "Confirmation mismatch: reported 6, found 0"
+      );
+    });
+
+    it("should record transactions that are unknown or do not pay the address", async () => {
+      mockGetTransaction.mockResolvedValueOnce(null).mockResolvedValueOnce({
+        txid: testTransactionHash,
+        confirmations: 3,
+        outputs: [
+          {
+            address: "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl",
+            value: 100000,
+          },
+        ],
+      });
+
+      await postConfirmation({}, "event-1");
+      await postConfirmation({}, "event-2");
+
+      const payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(payment?.suspiciousEvents?.map((event) => event.reason)).toEqual([
+        "Transaction not found on chain",
+        "Transaction does not pay the payment address",
+      ]);
+    });
+
+    it("should hold back a confirmation the provider cannot verify", async () => {
+      mockGetTransaction.mockRejectedValue(new Error("Service unavailable"));
+
+      const response = await postConfirmation();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.unverifiedUpdates).toBe(1);
+      const payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(payment?.suspiciousEvents).toBeUndefined();
+    });
+
+    it("should verify the amount of unconfirmed transactions before crediting them", async () => {
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      const response = await POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": "unconfirmed-tx",
+          },
+          body: JSON.stringify(
+            createValidWebhookPayload({
+              total: 5000000,
+              outputs: [
+                {
+                  value: 5000000,
+                  script: "",
+                  addresses: [testAddress],
+                  script_type: "pay-to-witness-pubkey-hash",
+                },
+              ],
+            })
+          ),
+        })
+      );
+
+      expect((await response.json()).suspiciousEvents).toBe(1);
+      expect(mockGetTransaction).toHaveBeenCalledWith(testTransactionHash);
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+    });
+  });
+
+  describe("Confirmation policy", () => {
+    // Final sequence numbers: the payload does not signal replace-by-fee
+    const inputs = [
+      {
+        prev_hash: "f".repeat(64),
+        output_index: 0,
+        output_value: 120000,
+        sequence: 0xffffffff,
+        addresses: ["tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl"],
+        script_type: "pay-to-witness-pubkey-hash",
+      },
+    ];
+    const postEvent = (eventType: string, overrides = {}) =>
+      POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": eventType,
+          },
+          body: JSON.stringify(createValidWebhookPayload(overrides)),
+        })
+      );
+
+    it("should keep a payment detected until its required confirmations", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+        requiredConfirmations: 6,
+      });
+
+      const response = await postEvent("tx-confirmation", {
+        confirmations: 2,
+        block_height: 2500000,
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(data.confirmations).toBe(2);
+      expect(data.requiredConfirmations).toBe(6);
+      expect(await getPaymentStatus(testAddress)).toMatchObject({
+        status: PaymentStatus.PAYMENT_DETECTED,
+        confirmations: 2,
+        requiredConfirmations: 6,
+      });
+    });
+
+    it("should accept a verified unconfirmed payment that does not signal RBF", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+        requiredConfirmations: 0,
+      });
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        signalsRbf: false,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      const response = await postEvent("unconfirmed-tx", { inputs });
+      const data = await response.json();
+
+      expect(data.status).toBe(PaymentStatus.CONFIRMED);
+      expect(mockGetTransaction).toHaveBeenCalledWith(testTransactionHash);
+      expect(await getPaymentStatus(testAddress)).toMatchObject({
+        status: PaymentStatus.CONFIRMED,
+        confirmations: 0,
+        transactions: [
+          expect.objectContaining({
+            risk: expect.objectContaining({ level: "low", feeRate: 4 }),
+          }),
+        ],
+      });
+    });
+
+    describe("with ZERO_CONF_MAX_RISK=medium", () => {
+      beforeEach(async () => {
+        process.env.ZERO_CONF_MAX_RISK = "medium";
+        await initializePaymentStatus(testAddress, 0.001, undefined, {
+          webhookSecret,
+          requiredConfirmations: 0,
+        });
+      });
+
+      afterEach(() => {
+        delete process.env.ZERO_CONF_MAX_RISK;
+      });
+
+      // Neither the payload nor the chain tells whether it signals RBF
+      it("should accept a verified payment of unknown RBF signalling", async () => {
+        mockGetTransaction.mockResolvedValue({
+          txid: testTransactionHash,
+          confirmations: 0,
+          outputs: [{ address: testAddress, value: 100000 }],
+        });
+
+        const response = await postEvent("unconfirmed-tx");
+
+        expect((await response.json()).status).toBe(PaymentStatus.CONFIRMED);
+        expect(mockGetTransaction).toHaveBeenCalledWith(testTransactionHash);
+        expect(await getPaymentStatus(testAddress)).toMatchObject({
+          status: PaymentStatus.CONFIRMED,
+          confirmations: 0,
+          transactions: [
+            expect.objectContaining({
+              risk: expect.objectContaining({ level: "medium" }),
+            }),
+          ],
+        });
+      });
+
+      it("should not accept a payment of unknown RBF signalling the chain disagrees with", async () => {
+        mockGetTransaction.mockResolvedValue({
+          txid: testTransactionHash,
+          confirmations: 0,
+          outputs: [{ address: testAddress, value: 90000 }],
+        });
+
+        const response = await postEvent("unconfirmed-tx");
+
+        expect((await response.json()).suspiciousEvents).toBe(1);
+        expect((await getPaymentStatus(testAddress))?.status).toBe(
+          PaymentStatus.AWAITING_PAYMENT
+        );
+      });
+    });
+
+    it("should withdraw the acceptance of an unconfirmed payment that is double-spent", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+        requiredConfirmations: 0,
+      });
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        signalsRbf: false,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      await postEvent("unconfirmed-tx", { inputs });
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+
+      await postEvent("double-spend-tx", { inputs });
+
+      const payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(payment?.transactions?.[0].risk?.level).toBe("high");
+    });
+
+    it("should wait for a confirmation of an unconfirmed payment paying a low fee", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+        requiredConfirmations: 0,
+      });
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        signalsRbf: false,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      // 0.4 sat/vB, below the economy estimate
+      const response = await postEvent("unconfirmed-tx", { inputs, fees: 100 });
+      const data = await response.json();
+
+      expect(data.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(await getPaymentStatus(testAddress)).toMatchObject({
+        status: PaymentStatus.PAYMENT_DETECTED,
+        transactions: [
+          expect.objectContaining({
+            risk: expect.objectContaining({
+              level: "high",
+              feeRate: 0.4,
+              factors: expect.arrayContaining(["fee-below-economy"]),
+            }),
+          }),
+        ],
+      });
+    });
+
+    it("should wait for a confirmation when the chain shows unconfirmed inputs", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+        requiredConfirmations: 0,
+      });
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        signalsRbf: false,
+        hasUnconfirmedInputs: true,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      await postEvent("unconfirmed-tx", { inputs });
+
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+    });
+
+    it("should wait for a confirmation when the chain shows RBF signalling", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+        requiredConfirmations: 0,
+      });
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        signalsRbf: true,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      await postEvent("unconfirmed-tx", { inputs });
+
+      expect(mockGetTransaction).toHaveBeenCalledWith(testTransactionHash);
+
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+    });
+  });
+
+  describe("Duplicate and out-of-order events", () => {
+    const postEvent = (
+      eventType: string,
+      eventId: string,
+      confirmations: number
+    ) =>
+      POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": eventType,
+            "x-eventid": eventId,
+          },
+          body: JSON.stringify(
+            createValidWebhookPayload({
+              confirmations,
+              block_height: confirmations > 0 ? 2500000 : -1,
+            })
+          ),
+        })
+      );
+
+    beforeEach(async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+    });
+
+    it("should acknowledge a redelivered event without applying it again", async () => {
+      await postEvent("tx-confirmation", "event-1", 1);
+      const first = await getPaymentStatus(testAddress);
+
+      const response = await postEvent("tx-confirmation", "event-1", 1);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.duplicate).toBe(true);
+      expect(mockGetTransaction).toHaveBeenCalledTimes(1);
+      expect((await getPaymentStatus(testAddress))?.lastUpdated).toBe(
+        first?.lastUpdated
+      );
+    });
+
+    it("should apply concurrent deliveries of the same event once", async () => {
+      const responses = await Promise.all([
+        postEvent("tx-confirmation", "event-1", 1),
+        postEvent("tx-confirmation", "event-1", 1),
+      ]);
+      const bodies = await Promise.all(
+        responses.map((response) => response.json())
+      );
+
+      expect(bodies.filter((body) => body.duplicate)).toHaveLength(1);
+      expect(mockGetTransaction).toHaveBeenCalledTimes(1);
+      expect((await getPaymentStatus(testAddress))?.history).toHaveLength(1);
+    });
+
+    it("should apply each confirmation count of the same webhook once", async () => {
+      await postEvent("tx-confirmation", "event-1", 1);
+      const response = await postEvent("tx-confirmation", "event-1", 2);
+
+      expect((await response.json()).duplicate).toBeUndefined();
+      expect((await getPaymentStatus(testAddress))?.confirmations).toBe(2);
+    });
+
+    it("should never move a payment backwards on late events", async () => {
+      await postEvent("tx-confirmation", "event-1", 3);
+      await postEvent("tx-confirmation", "event-1", 1);
+      await postEvent("unconfirmed-tx", "event-0", 0);
+
+      const status = await getPaymentStatus(testAddress);
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status?.confirmations).toBe(3);
+    });
+
+    it("should accept a redelivery after verification was unavailable", async () => {
+      mockGetTransaction.mockRejectedValueOnce(
+        new Error("Service unavailable")
+      );
+
+      await postEvent("tx-confirmation", "event-1", 1);
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+
+      await postEvent("tx-confirmation", "event-1", 1);
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+    });
+  });
+
+  describe("New blocks", () => {
+    const blockPayload = { hash: "e".repeat(64), height: 2500002 };
+
+    const postBlock = (body: unknown) =>
+      POST(
+        // Block events are not tied to a payment, so they carry no secret
+        new NextRequest("http://localhost:3000/api/webhook/payment-update", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": "new-block",
+          },
+          body: JSON.stringify(body),
+        })
+      );
+
+    // Every test starts after the checks of the previous ones were throttled
+    let now = Date.now();
+    beforeEach(() => {
+      now += REORG_DETECTION_CONFIG.minNewBlockIntervalMs;
+      jest.spyOn(Date, "now").mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.mocked(Date.now).mockRestore();
+    });
+
+    it("should roll back payments whose block left the best chain", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      await updatePaymentStatus(testAddress, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionHash,
+        confirmations: 1,
+        receivedAmount: 100000,
+        isDoubleSpend: false,
+        source: "webhook",
+        blockHash: "c".repeat(64),
+        blockHeight: 2500000,
+      });
+      mockGetTipHeight.mockResolvedValue(2500002);
+      mockGetBlockHash.mockResolvedValue("d".repeat(64));
+      // Back in the mempool
+      mockGetTransaction.mockResolvedValue({
+        txid: testTransactionHash,
+        confirmations: 0,
+        outputs: [{ address: testAddress, value: 100000 }],
+      });
+
+      const response = await postBlock(blockPayload);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        blockHash: blockPayload.hash,
+        blockHeight: blockPayload.height,
+        checkedTransactions: 1,
+        reorgedPayments: 1,
+      });
+      const payment = await getFullPaymentData(testAddress);
+      expect(payment?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(payment?.history?.at(-1)).toMatchObject({
+        source: "webhook",
+        event: PaymentHistoryEvent.REORGED,
+      });
+    });
+
+    it("should check the chain at most once per interval", async () => {
+      await initializePaymentStatus(testAddress, 0.001);
+      await updatePaymentStatus(testAddress, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionHash,
+        confirmations: 1,
+        receivedAmount: 100000,
+        isDoubleSpend: false,
+        source: "webhook",
+        blockHash: "c".repeat(64),
+        blockHeight: 2500000,
+      });
+      mockGetTipHeight.mockResolvedValue(2500002);
+      mockGetBlockHash.mockResolvedValue("c".repeat(64));
+
+      await postBlock(blockPayload);
+      const response = await postBlock(blockPayload);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ skipped: true });
+      expect(mockGetTipHeight).toHaveBeenCalledTimes(1);
+
+      now += REORG_DETECTION_CONFIG.minNewBlockIntervalMs;
+      expect(await (await postBlock(blockPayload)).json()).toMatchObject({
+        checkedTransactions: 1,
+      });
+    });
+
+    it("should reject an invalid block payload", async () => {
+      const response = await postBlock({ hash: "e".repeat(64) });
+
+      expect(response.status).toBe(400);
+      const [deadLetter] = await listDeadLetters();
+      expect(deadLetter.reason).toBe("invalid-payload");
+    });
+
+    it("should store the event when the chain cannot be checked", async () => {
+      await initializePaymentStatus(testAddress, 0.001);
+      await updatePaymentStatus(testAddress, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionHash,
+        confirmations: 1,
+        receivedAmount: 100000,
+        isDoubleSpend: false,
+        source: "webhook",
+        blockHash: "c".repeat(64),
+        blockHeight: 2500000,
+      });
+      mockGetTipHeight.mockRejectedValue(new Error("Service unavailable"));
+
+      const response = await postBlock(blockPayload);
+
+      expect(response.status).toBe(200);
+      const [deadLetter] = await listDeadLetters();
+      expect(deadLetter).toMatchObject({
+        reason: "update-failed",
+        error: "Service unavailable",
+      });
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+    });
+  });
+
+  describe("Dead letters", () => {
+    it("should store an unparseable delivery with its raw body and headers", async () => {
+      await POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "x-eventtype": "unconfirmed-tx",
+            authorization: "Bearer not-kept",
+          },
+          body: "invalid json",
+        })
+      );
+
+      const [deadLetter] = await listDeadLetters();
+      expect(deadLetter).toMatchObject({
+        reason: "invalid-json",
+        error: "Invalid JSON payload",
+        attempts: 1,
+        authenticated: false,
+        delivery: {
+          rawBody: "invalid json",
+          secret: webhookSecret,
+        },
+      });
+      expect(deadLetter.delivery.headers["x-eventtype"]).toBe(
+        "unconfirmed-tx"
+      );
+      expect(deadLetter.delivery.headers.authorization).toBeUndefined();
+    });
+
+    it("should store a delivery whose payment update failed", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      jest
+        .mocked(updatePaymentStatus)
+        .mockRejectedValueOnce(new Error("Disk full"));
+
+      const response = await POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": "unconfirmed-tx",
+          },
+          body: JSON.stringify(createValidWebhookPayload()),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).failedUpdates).toBe(1);
+      const [deadLetter] = await listDeadLetters();
+      expect(deadLetter.reason).toBe("update-failed");
+      expect(deadLetter.error).toBe(`${testAddress}: Disk full`);
+      expect(deadLetter.authenticated).toBe(true);
+    });
+
+    it("should store a delivery that could not be verified for replay", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      mockGetTransaction.mockRejectedValueOnce(
+        new Error("Service unavailable")
+      );
+
+      const response = await POST(
+        new NextRequest(webhookUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-eventtype": "unconfirmed-tx",
+          },
+          body: JSON.stringify(createValidWebhookPayload()),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).unverifiedUpdates).toBe(1);
+      const [deadLetter] = await listDeadLetters();
+      expect(deadLetter).toMatchObject({
+        reason: "unverified",
+        authenticated: true,
+      });
+
+      await expect(replayDeadLetter(deadLetter.id)).resolves.toMatchObject({
+        processed: true,
+      });
+      expect((await getPaymentStatus(testAddress))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect(await listDeadLetters()).toHaveLength(0);
+    });
+
+    it("should not store forged or processed deliveries", async () => {
+      await initializePaymentStatus(testAddress, 0.001, undefined, {
+        webhookSecret,
+      });
+      const post = (url: string) =>
+        POST(
+          new NextRequest(url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "x-eventtype": "unconfirmed-tx",
+            },
+            body: JSON.stringify(createValidWebhookPayload()),
+          })
+        );
+
+      expect(
+        (await post("http://localhost:3000/api/webhook/payment-update")).status
+      ).toBe(401);
+      expect((await post(webhookUrl)).status).toBe(200);
+      expect(await listDeadLetters()).toHaveLength(0);
     });
   });
 
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the gap-limit aware address allocator
+ *
+ * The store is mocked so allocation outcomes can be controlled; the
+ * store-side allocation rules are covered in the payment status store tests.
+ */
+
+import {
+  allocatePaymentAddress,
+  AddressGapLimitError,
+  getConfiguredGapLimit,
+  getConfiguredRecycleAfterMs,
+  ADDRESS_ALLOCATOR_CONFIG,
+} from "@/lib/bitcoin/address-allocator";
+import { allocateAddressIndex } from "@/lib/store/payment-status";
+import { AddressType, PaymentStatus } from "@/types";
+
+jest.mock("@/lib/store/payment-status", () => ({
+  allocateAddressIndex: jest.fn(),
+}));
+
+const mockAllocateAddressIndex = allocateAddressIndex as jest.MockedFunction<
+  typeof allocateAddressIndex
+>;
+
+describe("Address Allocator", () => {
+  // BIP84 account key for the "abandon ... about" test mnemonic at m/84'/1'/0'
+  const testVpub =
+    "vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc";
+  const firstAddress = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.ADDRESS_GAP_LIMIT;
+    delete process.env.ADDRESS_RECYCLE_AFTER_MINUTES;
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  describe("configuration", () => {
+    it("should default to a gap limit of 20", () => {
+      expect(getConfiguredGapLimit()).toBe(20);
+      expect(ADDRESS_ALLOCATOR_CONFIG.defaultGapLimit).toBe(20);
+    });
+
+    it("should read the gap limit from ADDRESS_GAP_LIMIT", () => {
+      process.env.ADDRESS_GAP_LIMIT = "50";
+      expect(getConfiguredGapLimit()).toBe(50);
+    });
+
+    it("should reject invalid gap limits", () => {
+      process.env.ADDRESS_GAP_LIMIT = "0";
+      expect(() => getConfiguredGapLimit()).toThrow(
+        "ADDRESS_GAP_LIMIT must be a positive integer"
+      );
+
+      process.env.ADDRESS_GAP_LIMIT = "abc";
+      expect(() => getConfiguredGapLimit()).toThrow(
+        "ADDRESS_GAP_LIMIT must be a positive integer"
+      );
+    });
+
+    it("should read the recycle window in minutes", () => {
+      expect(getConfiguredRecycleAfterMs()).toBe(24 * 60 * 60 * 1000);
+
+      process.env.ADDRESS_RECYCLE_AFTER_MINUTES = "30";
+      expect(getConfiguredRecycleAfterMs()).toBe(30 * 60 * 1000);
+    });
+  });
+
+  describe("allocatePaymentAddress", () => {
+    it("should derive a new address at the allocated index", async () => {
+      mockAllocateAddressIndex.mockResolvedValue({ kind: "new", index: 0 });
+
+      const allocated = await allocatePaymentAddress(testVpub);
+
+      expect(allocated).toEqual({
+        address: firstAddress,
+        derivationPath: "m/84'/1'/0'/0/0",
+        derivationIndex: 0,
+        recycled: false,
+      });
+    });
+
+    it("should pass the gap limit and recycle cutoff to the store", async () => {
+      process.env.ADDRESS_GAP_LIMIT = "5";
+      process.env.ADDRESS_RECYCLE_AFTER_MINUTES = "60";
+      mockAllocateAddressIndex.mockResolvedValue({ kind: "new", index: 0 });
+
+      const before = Date.now();
+      await allocatePaymentAddress(testVpub);
+
+      const options = mockAllocateAddressIndex.mock.calls[0][0];
+      expect(options.gapLimit).toBe(5);
+      expect(options.addressType).toBe(AddressType.P2WPKH);
+      expect(options.recycleCreatedBefore).toBeLessThanOrEqual(
+        before - 60 * 60 * 1000 + 1000
+      );
+      expect(options.recycleCreatedBefore).toBeGreaterThanOrEqual(
+        before - 60 * 60 * 1000
+      );
+    });
+
+    it("should allocate from the account of the requested address type", async () => {
+      // BIP44 account key for the same mnemonic at m/44'/1'/0'
+      const legacyTpub =
+        "tpubDC5FSnBiZDMmhiuCmWAYsLwgLYrrT9rAqvTySfuCCrgsWz8wxMXUS9Tb9iVMvcRbvFcAHGkMD5Kx8koh4GquNGNTfohfk7pgjhaPCdXpoba";
+      mockAllocateAddressIndex.mockResolvedValue({ kind: "new", index: 0 });
+
+      const allocated = await allocatePaymentAddress(
+        legacyTpub,
+        AddressType.P2PKH
+      );
+
+      expect(mockAllocateAddressIndex.mock.calls[0][0].addressType).toBe(
+        AddressType.P2PKH
+      );
+      expect(allocated.address).toBe("mkpZhYtJu2r87Js3pDiWJDmPte2NRZ8bJV");
+      expect(allocated.derivationPath).toBe("m/44'/1'/0'/0/0");
+    });
+
+    it("should return recycled addresses with their previous payment", async () => {
+      const previous = {
+        address: firstAddress,
+        status: PaymentStatus.EXPIRED,
+        derivationIndex: 0,
+        createdAt: 1_000,
+        lastUpdated: 1_000,
+      };
+      mockAllocateAddressIndex.mockResolvedValue({
+        kind: "recycled",
+        index: 0,
+        address: firstAddress,
+        previous,
+      });
+
+      const allocated = await allocatePaymentAddress(testVpub);
+
+      expect(allocated.address).toBe(firstAddress);
+      expect(allocated.recycled).toBe(true);
+      expect(allocated.previousPayment).toBe(previous);
+    });
+
+    it("should reject recycled addresses that do not belong to the xpub", async () => {
+      mockAllocateAddressIndex.mockResolvedValue({
+        kind: "recycled",
+        index: 1,
+        address: firstAddress,
+        previous: {
+          address: firstAddress,
+          status: PaymentStatus.EXPIRED,
+          derivationIndex: 0,
+          createdAt: 1_000,
+          lastUpdated: 1_000,
+        },
+      });
+
+      await expect(allocatePaymentAddress(testVpub)).rejects.toThrow(
+        "does not match index 1"
+      );
+    });
+
+    it("should throw AddressGapLimitError when the gap limit is reached", async () => {
+      const state = { nextAddressIndex: 25, highestUsedIndex: 4, unusedCount: 20 };
+      mockAllocateAddressIndex.mockResolvedValue({
+        kind: "gap-limit-reached",
+        state,
+      });
+
+      const error = await allocatePaymentAddress(testVpub).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AddressGapLimitError);
+      expect(error.gapLimit).toBe(20);
+      expect(error.state).toEqual(state);
+      expect(error.message).toContain("Address gap limit of 20 reached");
+    });
+  });
+});
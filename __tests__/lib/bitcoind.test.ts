@@ -0,0 +1,538 @@
+/**
+ * Bitcoin Core RPC Client Tests
+ *
+ * Runs the client against a local fake JSON-RPC server:
+ * - Watch-only wallet loading and creation
+ * - Address watches via importdescriptors
+ * - Address transaction lookups and transaction status by ID
+ * - Tip height, block hashes by height and fee estimates
+ * - Authentication and RPC error handling
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  BITCOIND_RPC_ERRORS,
+  BitcoindClient,
+  BitcoindRpcError,
+  getBitcoindOptionsFromEnv,
+} from "@/lib/api/bitcoind";
+import { getChainProvider } from "@/lib/api/providers";
+
+type RpcHandler = (
+  params: unknown[]
+) => { result: unknown } | { error: { code: number; message: string } };
+
+interface RpcRequest {
+  path: string;
+  method: string;
+  params: unknown[];
+  authorization?: string;
+}
+
+const address = "bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk";
+const descriptor = `addr(${address})#abcd1234`;
+const txid = "a".repeat(64);
+const otherTxid = "b".repeat(64);
+
+// Fake bitcoind: each RPC method maps to a handler, unknown methods fail with -32601
+let server: http.Server;
+let rpcUrl: string;
+let handlers: Record<string, RpcHandler>;
+let requests: RpcRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({
+        path: req.url ?? "",
+        method,
+        params,
+        authorization: req.headers.authorization,
+      });
+
+      const handler = handlers[method];
+      const outcome = handler
+        ? handler(params)
+        : { error: { code: -32601, message: "Method not found" } };
+
+      if ("error" in outcome) {
+        res.writeHead(outcome.error.code === -32601 ? 404 : 500, {
+          "Content-Type": "application/json",
+        });
+        res.end(JSON.stringify({ result: null, error: outcome.error, id }));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ result: outcome.result, error: null, id }));
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+  rpcUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  handlers = {
+    listwallets: () => ({ result: ["payment-watch"] }),
+  };
+  requests = [];
+});
+
+function createClient() {
+  return new BitcoindClient({
+    url: rpcUrl,
+    username: "rpcuser",
+    password: "rpcpass",
+  });
+}
+
+function rpcMethods() {
+  return requests.map((request) => request.method);
+}
+
+describe("BitcoindClient", () => {
+  describe("watch-only wallet", () => {
+    it("should use an already loaded wallet", async () => {
+      handlers.getblockcount = () => ({ result: 1 });
+      handlers.listtransactions = () => ({ result: [] });
+
+      const client = createClient();
+      await client.getAddressTransactions(address);
+      await client.getAddressTransactions(address);
+
+      // The wallet check runs once per client
+      expect(rpcMethods()).toEqual([
+        "listwallets",
+        "listtransactions",
+        "listtransactions",
+      ]);
+    });
+
+    it("should load an existing wallet that is not loaded", async () => {
+      handlers.listwallets = () => ({ result: [] });
+      handlers.loadwallet = () => ({
+        result: { name: "payment-watch", warning: "" },
+      });
+      handlers.listtransactions = () => ({ result: [] });
+
+      await createClient().getAddressTransactions(address);
+
+      expect(rpcMethods()).toEqual([
+        "listwallets",
+        "loadwallet",
+        "listtransactions",
+      ]);
+    });
+
+    it("should create a watch-only descriptor wallet when none exists", async () => {
+      handlers.listwallets = () => ({ result: [] });
+      handlers.loadwallet = () => ({
+        error: {
+          code: BITCOIND_RPC_ERRORS.WALLET_NOT_FOUND,
+          message: "Wallet file verification failed",
+        },
+      });
+      handlers.createwallet = () => ({
+        result: { name: "payment-watch", warning: "" },
+      });
+      handlers.listtransactions = () => ({ result: [] });
+
+      await createClient().getAddressTransactions(address);
+
+      const create = requests.find((r) => r.method === "createwallet");
+      expect(create?.params).toEqual([
+        "payment-watch",
+        true,
+        true,
+        "",
+        false,
+        true,
+      ]);
+    });
+
+    it("should retry the wallet setup after a failure", async () => {
+      handlers.listwallets = () => ({
+        error: { code: -28, message: "Loading block index..." },
+      });
+      handlers.listtransactions = () => ({ result: [] });
+
+      const client = createClient();
+      await expect(client.getAddressTransactions(address)).rejects.toThrow(
+        "listwallets failed: Loading block index..."
+      );
+
+      handlers.listwallets = () => ({ result: ["payment-watch"] });
+      await expect(client.getAddressTransactions(address)).resolves.toEqual([]);
+    });
+  });
+
+  describe("watchAddress", () => {
+    it("should import the address as a labelled descriptor into the wallet", async () => {
+      handlers.getdescriptorinfo = () => ({ result: { descriptor } });
+      handlers.importdescriptors = () => ({ result: [{ success: true }] });
+
+      await expect(createClient().watchAddress(address)).resolves.toEqual([
+        descriptor,
+      ]);
+
+      const importRequest = requests.find(
+        (r) => r.method === "importdescriptors"
+      );
+      expect(importRequest?.path).toBe("/wallet/payment-watch");
+      expect(importRequest?.params).toEqual([
+        [{ desc: descriptor, timestamp: "now", label: address }],
+      ]);
+    });
+
+    it("should report a failed import", async () => {
+      handlers.getdescriptorinfo = () => ({ result: { descriptor } });
+      handlers.importdescriptors = () => ({
+        result: [{ success: false, error: { message: "Invalid descriptor" } }],
+      });
+
+      await expect(createClient().watchAddress(address)).rejects.toThrow(
+        `Failed to import descriptor for ${address}: Invalid descriptor`
+      );
+    });
+  });
+
+  describe("getAddressTransactions", () => {
+    it("should group received outputs by transaction, newest first", async () => {
+      handlers.listtransactions = () => ({
+        result: [
+          {
+            address,
+            category: "receive",
+            amount: 0.001,
+            vout: 0,
+            confirmations: 3,
+            blockhash: "c".repeat(64),
+            blockheight: 101,
+            txid,
+          },
+          {
+            address,
+            category: "receive",
+            amount: 0.0005,
+            vout: 2,
+            confirmations: 3,
+            blockhash: "c".repeat(64),
+            blockheight: 101,
+            txid,
+          },
+          {
+            address,
+            category: "receive",
+            amount: 0.0002,
+            vout: 1,
+            confirmations: 0,
+            txid: otherTxid,
+          },
+        ],
+      });
+
+      const transactions = await createClient().getAddressTransactions(address);
+
+      expect(transactions).toEqual([
+        {
+          txid: otherTxid,
+          confirmations: 0,
+          blockHeight: undefined,
+          blockHash: undefined,
+          outputs: [{ address, value: 20000 }],
+        },
+        {
+          txid,
+          confirmations: 3,
+          blockHeight: 101,
+          blockHash: "c".repeat(64),
+          outputs: [
+            { address, value: 50000 },
+            { address, value: 100000 },
+          ],
+        },
+      ]);
+      expect(requests[1].params).toEqual([address, 1000, 0, true]);
+    });
+
+    it("should skip conflicted and replaced transactions", async () => {
+      const received = {
+        address,
+        category: "receive",
+        amount: 0.001,
+        vout: 0,
+      };
+      handlers.listtransactions = () => ({
+        result: [
+          { ...received, confirmations: -1, txid },
+          { ...received, confirmations: 0, txid, replaced_by_txid: otherTxid },
+          { ...received, confirmations: 0, txid: otherTxid },
+        ],
+      });
+
+      const transactions = await createClient().getAddressTransactions(address);
+
+      expect(transactions.map((tx) => tx.txid)).toEqual([otherTxid]);
+    });
+  });
+
+  describe("getTransaction", () => {
+    it("should map a wallet transaction", async () => {
+      handlers.gettransaction = () => ({
+        result: {
+          txid,
+          confirmations: 2,
+          blockhash: "c".repeat(64),
+          blockheight: 101,
+          decoded: {
+            vout: [
+              { value: 0.0015, scriptPubKey: { address } },
+              { value: 0, scriptPubKey: {} },
+            ],
+          },
+        },
+      });
+
+      await expect(createClient().getTransaction(txid)).resolves.toEqual({
+        txid,
+        confirmations: 2,
+        blockHeight: 101,
+        blockHash: "c".repeat(64),
+        fee: undefined,
+        outputs: [
+          { address, value: 150000 },
+          { address: undefined, value: 0 },
+        ],
+      });
+    });
+
+    it.each([
+      ["yes", true],
+      ["no", false],
+      ["unknown", undefined],
+    ])(
+      "should map BIP 125 replaceability %p to replace-by-fee signalling",
+      async (replaceable, signalsRbf) => {
+        handlers.gettransaction = () => ({
+          result: {
+            txid,
+            confirmations: 0,
+            "bip125-replaceable": replaceable,
+            decoded: { vout: [{ value: 0.0015, scriptPubKey: { address } }] },
+          },
+        });
+
+        const transaction = await createClient().getTransaction(txid);
+        expect(transaction?.signalsRbf).toBe(signalsRbf);
+      }
+    );
+
+    it("should report the outputs a transaction spends", async () => {
+      handlers.gettransaction = () => ({
+        result: {
+          txid,
+          confirmations: 0,
+          decoded: {
+            vin: [{ txid: otherTxid, vout: 1 }, { coinbase: "03" }],
+            vout: [{ value: 0.0015, scriptPubKey: { address } }],
+          },
+        },
+      });
+
+      const transaction = await createClient().getTransaction(txid);
+      expect(transaction?.spends).toEqual([`${otherTxid}:1`]);
+    });
+
+    it.each([
+      ["conflicted", { confirmations: -2 }],
+      ["replaced", { confirmations: 0, replaced_by_txid: otherTxid }],
+    ])("should return null for %s transactions", async (_, state) => {
+      handlers.gettransaction = () => ({
+        result: {
+          txid,
+          ...state,
+          decoded: { vout: [{ value: 0.0015, scriptPubKey: { address } }] },
+        },
+      });
+
+      await expect(createClient().getTransaction(txid)).resolves.toBeNull();
+    });
+
+    it("should return null for transactions unknown to the wallet", async () => {
+      handlers.gettransaction = () => ({
+        error: {
+          code: BITCOIND_RPC_ERRORS.INVALID_ADDRESS_OR_KEY,
+          message: "Invalid or non-wallet transaction id",
+        },
+      });
+
+      await expect(createClient().getTransaction(txid)).resolves.toBeNull();
+    });
+
+    it("should reject malformed transaction IDs before calling the node", async () => {
+      await expect(createClient().getTransaction("not-a-txid")).rejects.toThrow(
+        "Transaction ID must be a 64-character hex string"
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("getBlockHash", () => {
+    it("should return the hash of the block at a height", async () => {
+      handlers.getblockhash = ([height]) =>
+        height === 150
+          ? { result: "c".repeat(64) }
+          : {
+              error: {
+                code: BITCOIND_RPC_ERRORS.INVALID_PARAMETER,
+                message: "Block height out of range",
+              },
+            };
+
+      const client = createClient();
+      await expect(client.getBlockHash(150)).resolves.toBe("c".repeat(64));
+      await expect(client.getBlockHash(151)).resolves.toBeNull();
+      expect(requests[0]).toMatchObject({ path: "/", params: [150] });
+    });
+  });
+
+  describe("getTipHeight and estimateFees", () => {
+    it("should return the block count", async () => {
+      handlers.getblockcount = () => ({ result: 150 });
+
+      await expect(createClient().getTipHeight()).resolves.toBe(150);
+      // Node-level calls skip the wallet setup
+      expect(requests[0].path).toBe("/");
+    });
+
+    it("should convert BTC/kvB estimates and fall back to 1 sat/vB", async () => {
+      handlers.estimatesmartfee = ([target]) =>
+        target === 144
+          ? { result: { errors: ["Insufficient data or no feerate found"] } }
+          : { result: { feerate: target === 1 ? 0.000204 : 0.00008 } };
+
+      await expect(createClient().estimateFees()).resolves.toEqual({
+        high: 21,
+        medium: 8,
+        low: 1,
+      });
+    });
+  });
+
+  describe("error handling", () => {
+    it("should send basic authentication", async () => {
+      handlers.getblockcount = () => ({ result: 1 });
+
+      await createClient().getTipHeight();
+
+      expect(requests[0].authorization).toBe(
+        `Basic ${Buffer.from("rpcuser:rpcpass").toString("base64")}`
+      );
+    });
+
+    it("should report rejected credentials", async () => {
+      const authServer = http.createServer((_req, res) => {
+        res.writeHead(401);
+        res.end();
+      });
+      await new Promise<void>((resolve) =>
+        authServer.listen(0, "127.0.0.1", () => resolve())
+      );
+      const { port } = authServer.address() as AddressInfo;
+
+      try {
+        const error = await new BitcoindClient({
+          url: `http://127.0.0.1:${port}`,
+        })
+          .getTipHeight()
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(BitcoindRpcError);
+        expect((error as BitcoindRpcError).statusCode).toBe(401);
+        expect((error as BitcoindRpcError).message).toContain(
+          "authentication failed"
+        );
+      } finally {
+        await new Promise<void>((resolve) => authServer.close(() => resolve()));
+      }
+    });
+
+    it("should carry the RPC error code", async () => {
+      const error = await createClient()
+        .getTipHeight()
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BitcoindRpcError);
+      expect((error as BitcoindRpcError).code).toBe(-32601);
+      expect((error as BitcoindRpcError).message).toBe(
+        "getblockcount failed: Method not found"
+      );
+    });
+
+    it("should report an unreachable node", async () => {
+      const client = new BitcoindClient({ url: "http://127.0.0.1:1" });
+
+      await expect(client.getTipHeight()).rejects.toThrow(
+        "Bitcoin Core RPC request failed"
+      );
+    });
+  });
+});
+
+describe("Bitcoin Core configuration", () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.BITCOIND_RPC_URL;
+    delete process.env.BITCOIND_WALLET;
+    delete process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should default to the local RPC port of the configured network", () => {
+    expect(getBitcoindOptionsFromEnv().url).toBe("http://127.0.0.1:18332");
+
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "regtest";
+    expect(getBitcoindOptionsFromEnv().url).toBe("http://127.0.0.1:18443");
+  });
+
+  it("should read the RPC settings from the environment", () => {
+    process.env.BITCOIND_RPC_URL = "http://node.internal:8332/";
+    process.env.BITCOIND_RPC_USER = "alice";
+    process.env.BITCOIND_RPC_PASSWORD = "secret";
+    process.env.BITCOIND_WALLET = "shop";
+
+    const client = new BitcoindClient();
+
+    expect(client.getUrl()).toBe("http://node.internal:8332");
+    expect(client.getWalletName()).toBe("shop");
+    expect(getBitcoindOptionsFromEnv()).toMatchObject({
+      username: "alice",
+      password: "secret",
+    });
+  });
+
+  it("should be selectable with CHAIN_PROVIDER", () => {
+    process.env.CHAIN_PROVIDER = "bitcoind";
+
+    const provider = getChainProvider();
+    expect(provider).toBeInstanceOf(BitcoindClient);
+    expect(provider.requiresCallbackUrl).toBe(false);
+  });
+});
@@ -24,20 +24,21 @@ import {
   registerAddressWebhook,
   BLOCKCYPHER_CONFIG,
 } from "@/lib/api/blockcypher";
+import { ChainProviderError, isRateLimitError } from "@/lib/api/chain-provider";
 
 // Mock the wallet validation function to ensure tests pass with test addresses
 jest.mock("@/lib/bitcoin/wallet", () => ({
   ...jest.requireActual("@/lib/bitcoin/wallet"),
-  isValidTestnetAddress: jest.fn((address: string) => {
+  isValidAddress: jest.fn((address: string) => {
     // Allow test addresses that start with 'tb1' to pass validation
     return typeof address === "string" && address.startsWith("tb1");
   }),
 }));
 
 // Import the mock after setting it up
-import { isValidTestnetAddress } from "@/lib/bitcoin/wallet";
-const mockIsValidTestnetAddress = isValidTestnetAddress as jest.MockedFunction<
-  typeof isValidTestnetAddress
+import { isValidAddress } from "@/lib/bitcoin/wallet";
+const mockIsValidAddress = isValidAddress as jest.MockedFunction<
+  typeof isValidAddress
 >;
 
 // Mock fetch for controlled testing
@@ -60,7 +61,7 @@ describe("Blockcypher API Client", () => {
     console.error = jest.fn();
 
     // Set up default mock for address validation
-    mockIsValidTestnetAddress.mockImplementation((address: string) => {
+    mockIsValidAddress.mockImplementation((address: string) => {
       return typeof address === "string" && address.startsWith("tb1");
     });
 
@@ -112,10 +113,38 @@ describe("Blockcypher API Client", () => {
       expect(client.getNetwork()).toBe(BlockcypherNetwork.BITCOIN_MAIN);
     });
 
-    it("should throw error without API token", () => {
-      expect(() => new BlockcypherClient(undefined, "")).toThrow(
+    it("should require an API token only when calling the API", async () => {
+      const client = new BlockcypherClient(undefined, "");
+
+      await expect(client.listWebhooks()).rejects.toThrow(
         "Blockcypher API token is required"
       );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should follow the configured application network", () => {
+      const originalNetwork = process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+
+      try {
+        process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "mainnet";
+        expect(new BlockcypherClient().getNetwork()).toBe(
+          BlockcypherNetwork.BITCOIN_MAIN
+        );
+
+        // Networks Blockcypher does not index fail on use, not on construction
+        process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "signet";
+        const client = new BlockcypherClient();
+        expect(() => client.getNetwork()).toThrow(BlockcypherApiError);
+        expect(() => client.getNetwork()).toThrow(
+          "Blockcypher does not support the signet network (supported: mainnet, testnet)"
+        );
+      } finally {
+        if (originalNetwork === undefined) {
+          delete process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+        } else {
+          process.env.NEXT_PUBLIC_BITCOIN_NETWORK = originalNetwork;
+        }
+      }
     });
   });
 
@@ -350,7 +379,7 @@ describe("Blockcypher API Client", () => {
       const client = new BlockcypherClient();
 
       // Mock address validation to return false for invalid addresses
-      mockIsValidTestnetAddress.mockImplementation((address: string) => {
+      mockIsValidAddress.mockImplementation((address: string) => {
         return address.startsWith("tb1");
       });
 
@@ -481,6 +510,70 @@ describe("Blockcypher API Client", () => {
       expect(result.success).toBe(true);
       expect(result.message).toContain("already deleted");
     });
+
+    it("should delete every webhook of an address when unwatching", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 204,
+          statusText: "No Content",
+          text: async () => "",
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          statusText: "Not Found",
+          text: async () => JSON.stringify({ error: "Not found" }),
+        });
+
+      const client = new BlockcypherClient();
+      await client.unwatchAddress(validTestnetAddress, [
+        "webhook-123",
+        "webhook-456",
+      ]);
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        expect.stringContaining("/hooks/webhook-123"),
+        expect.stringContaining("/hooks/webhook-456"),
+      ]);
+    });
+
+    it("should list webhooks as address watches", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        text: async () =>
+          JSON.stringify([
+            {
+              id: "webhook-123",
+              event: "unconfirmed-tx",
+              address: validTestnetAddress,
+              url: validWebhookUrl,
+              token: "test-token",
+              callback_errors: 0,
+            },
+            {
+              id: "webhook-789",
+              event: "new-block",
+              url: validWebhookUrl,
+              token: "test-token",
+              callback_errors: 0,
+            },
+          ]),
+      });
+
+      const client = new BlockcypherClient();
+
+      await expect(client.listWatches()).resolves.toEqual([
+        {
+          id: "webhook-123",
+          address: validTestnetAddress,
+          callbackUrl: validWebhookUrl,
+        },
+        { id: "webhook-789", address: undefined, callbackUrl: validWebhookUrl },
+      ]);
+    });
   });
 
   describe("Utility Functions", () => {
@@ -794,7 +887,7 @@ describe("Blockcypher API Client", () => {
         process.env.NEXT_PUBLIC_APP_URL = "https://myapp.com";
 
         // Mock address validation to return false
-        mockIsValidTestnetAddress.mockReturnValue(false);
+        mockIsValidAddress.mockReturnValue(false);
 
         await expect(registerAddressWebhook("")).rejects.toThrow(
           "Invalid Bitcoin testnet address"
@@ -920,6 +1013,356 @@ describe("Blockcypher API Client", () => {
     });
   });
 
+  describe("ChainProvider Implementation", () => {
+    const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+    const txid = "a".repeat(64);
+
+    const mockJsonResponse = (body: unknown, status = 200) =>
+      mockFetch.mockResolvedValueOnce({
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? "OK" : "Error",
+        text: async () => JSON.stringify(body),
+      });
+
+    it("should watch an address with unconfirmed and confirmation webhooks", async () => {
+      mockJsonResponse({ id: "hook-unconfirmed" });
+      mockJsonResponse({ id: "hook-confirmed" });
+
+      const client = new BlockcypherClient();
+      const ids = await client.watchAddress(
+        address,
+        "https://example.com/api/webhook/payment-update"
+      );
+
+      expect(client.name).toBe("blockcypher");
+      expect(ids).toEqual(["hook-unconfirmed", "hook-confirmed"]);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+        event: WebhookEventType.UNCONFIRMED_TX,
+      });
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toMatchObject({
+        event: WebhookEventType.TX_CONFIRMATION,
+        confirmations: 1,
+      });
+    });
+
+    it("should register one new-block webhook per token without the payment secret", async () => {
+      const callbackUrl =
+        "https://example.com/api/webhook/payment-update?secret=abc";
+      const blockUrl = "https://example.com/api/webhook/payment-update";
+      mockJsonResponse({ id: "hook-unconfirmed" });
+      mockJsonResponse({ id: "hook-confirmed" });
+      mockJsonResponse([]);
+      mockJsonResponse({ id: "hook-block" });
+      mockJsonResponse({ id: "hook-unconfirmed-2" });
+      mockJsonResponse({ id: "hook-confirmed-2" });
+
+      const client = new BlockcypherClient();
+      await expect(client.watchAddress(address, callbackUrl)).resolves.toEqual([
+        "hook-unconfirmed",
+        "hook-confirmed",
+      ]);
+      await client.watchAddress(address, callbackUrl);
+
+      // Listed and registered once, and not returned as an address watch
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+      expect(JSON.parse(mockFetch.mock.calls[3][1].body)).toEqual({
+        event: WebhookEventType.NEW_BLOCK,
+        url: blockUrl,
+      });
+    });
+
+    it("should reuse an existing new-block webhook", async () => {
+      const client = new BlockcypherClient();
+      mockJsonResponse([
+        {
+          id: "hook-block",
+          event: "new-block",
+          url: "https://example.com/api/webhook/payment-update",
+        },
+      ]);
+
+      await expect(
+        client.ensureBlockWebhook(
+          "https://example.com/api/webhook/payment-update?secret=abc"
+        )
+      ).resolves.toBe("hook-block");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should still watch the address when the new-block webhook fails", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      mockJsonResponse({ id: "hook-unconfirmed" });
+      mockJsonResponse({ id: "hook-confirmed" });
+      mockJsonResponse({ error: "Bad request" }, 400);
+
+      const client = new BlockcypherClient();
+      await expect(
+        client.watchAddress(
+          address,
+          "https://example.com/api/webhook/payment-update"
+        )
+      ).resolves.toEqual(["hook-unconfirmed", "hook-confirmed"]);
+    });
+
+    it.each([
+      [0, 1],
+      [6, 6],
+      [20, 10],
+    ])(
+      "should notify confirmations of a payment requiring %p up to %p",
+      async (required, notified) => {
+        mockJsonResponse({ id: "hook-unconfirmed" });
+        mockJsonResponse({ id: "hook-confirmed" });
+
+        const client = new BlockcypherClient();
+        await client.watchAddress(
+          address,
+          "https://example.com/api/webhook/payment-update",
+          required
+        );
+
+        expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toMatchObject({
+          event: WebhookEventType.TX_CONFIRMATION,
+          confirmations: notified,
+        });
+      }
+    );
+
+    it("should report replace-by-fee signalling of address transactions", async () => {
+      mockJsonResponse({
+        address,
+        txs: [
+          {
+            hash: txid,
+            block_height: -1,
+            confirmations: 0,
+            opt_in_rbf: true,
+            outputs: [{ value: 1000, addresses: [address] }],
+          },
+          {
+            hash: "b".repeat(64),
+            block_height: -1,
+            confirmations: 0,
+            inputs: [{ sequence: 0xffffffff }],
+            outputs: [{ value: 1000, addresses: [address] }],
+          },
+          {
+            hash: "c".repeat(64),
+            block_height: -1,
+            confirmations: 0,
+            outputs: [{ value: 1000, addresses: [address] }],
+          },
+        ],
+      });
+
+      const client = new BlockcypherClient();
+      const transactions = await client.getAddressTransactions(address);
+
+      expect(transactions.map((tx) => tx.signalsRbf)).toEqual([
+        true,
+        false,
+        undefined,
+      ]);
+    });
+
+    it("should report the size and unconfirmed inputs of address transactions", async () => {
+      mockJsonResponse({
+        address,
+        txs: [
+          {
+            hash: txid,
+            block_height: -1,
+            confirmations: 0,
+            vsize: 141,
+            inputs: [{ sequence: 0xffffffff, age: 0 }],
+            outputs: [{ value: 1000, addresses: [address] }],
+          },
+          {
+            hash: "b".repeat(64),
+            block_height: -1,
+            confirmations: 0,
+            inputs: [{ sequence: 0xffffffff, age: 12 }],
+            outputs: [{ value: 1000, addresses: [address] }],
+          },
+          {
+            hash: "c".repeat(64),
+            block_height: -1,
+            confirmations: 0,
+            inputs: [{ sequence: 0xffffffff }],
+            outputs: [{ value: 1000, addresses: [address] }],
+          },
+        ],
+      });
+
+      const client = new BlockcypherClient();
+      const transactions = await client.getAddressTransactions(address);
+
+      expect(transactions.map((tx) => tx.vsize)).toEqual([
+        141,
+        undefined,
+        undefined,
+      ]);
+      expect(transactions.map((tx) => tx.hasUnconfirmedInputs)).toEqual([
+        true,
+        false,
+        undefined,
+      ]);
+    });
+
+    it("should map address transactions to the provider-neutral shape", async () => {
+      mockJsonResponse({
+        address,
+        txs: [
+          {
+            hash: txid,
+            block_height: -1,
+            confirmations: 0,
+            fees: 1410,
+            outputs: [
+              { value: 150000, addresses: [address] },
+              { value: 0, addresses: null },
+            ],
+          },
+          {
+            hash: "b".repeat(64),
+            block_height: 2500000,
+            block_hash: "c".repeat(64),
+            confirmations: 3,
+            outputs: [{ value: 5000, addresses: [address] }],
+          },
+        ],
+      });
+
+      const client = new BlockcypherClient();
+      const transactions = await client.getAddressTransactions(address);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/btc/test3/addrs/${address}/full?limit=50&token=`),
+        expect.any(Object)
+      );
+      expect(transactions).toEqual([
+        {
+          txid,
+          confirmations: 0,
+          blockHeight: undefined,
+          blockHash: undefined,
+          fee: 1410,
+          outputs: [
+            { address, value: 150000 },
+            { address: undefined, value: 0 },
+          ],
+        },
+        {
+          txid: "b".repeat(64),
+          confirmations: 3,
+          blockHeight: 2500000,
+          blockHash: "c".repeat(64),
+          fee: undefined,
+          outputs: [{ address, value: 5000 }],
+        },
+      ]);
+    });
+
+    it("should return an empty list for addresses without transactions", async () => {
+      mockJsonResponse({ address });
+
+      const client = new BlockcypherClient();
+      await expect(client.getAddressTransactions(address)).resolves.toEqual([]);
+    });
+
+    it("should fetch a transaction by hash", async () => {
+      mockJsonResponse({
+        hash: txid,
+        block_height: 2500000,
+        block_hash: "c".repeat(64),
+        confirmations: 1,
+        outputs: [{ value: 1000, addresses: [address] }],
+      });
+
+      const client = new BlockcypherClient();
+      const transaction = await client.getTransaction(txid);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/btc/test3/txs/${txid}?token=`),
+        expect.any(Object)
+      );
+      expect(transaction?.blockHeight).toBe(2500000);
+      expect(transaction?.confirmations).toBe(1);
+    });
+
+    it("should report the outputs a transaction spends", async () => {
+      mockJsonResponse({
+        hash: txid,
+        block_height: -1,
+        confirmations: 0,
+        inputs: [
+          { prev_hash: "b".repeat(64), output_index: 2, sequence: 0xffffffff },
+          // Coinbase inputs spend nothing
+          { sequence: 0xffffffff },
+        ],
+        outputs: [{ value: 1000, addresses: [address] }],
+      });
+
+      const client = new BlockcypherClient();
+      const transaction = await client.getTransaction(txid);
+
+      expect(transaction?.spends).toEqual([`${"b".repeat(64)}:2`]);
+    });
+
+    it("should return null for unknown transactions", async () => {
+      mockJsonResponse({ error: "Transaction not found" }, 404);
+
+      const client = new BlockcypherClient();
+      await expect(client.getTransaction(txid)).resolves.toBeNull();
+    });
+
+    it("should read the tip height and fee estimates from the chain endpoint", async () => {
+      const chain = {
+        name: "BTC.test3",
+        height: 2500123,
+        high_fee_per_kb: 25000,
+        medium_fee_per_kb: 12400,
+        low_fee_per_kb: 300,
+      };
+      mockJsonResponse(chain);
+      mockJsonResponse(chain);
+
+      const client = new BlockcypherClient();
+
+      await expect(client.getTipHeight()).resolves.toBe(2500123);
+      await expect(client.estimateFees()).resolves.toEqual({
+        high: 25,
+        medium: 12,
+        low: 1,
+      });
+    });
+
+    it("should read block hashes by height", async () => {
+      mockJsonResponse({ hash: "c".repeat(64), height: 2500100 });
+      mockJsonResponse({ error: "Block not found" }, 404);
+
+      const client = new BlockcypherClient();
+
+      await expect(client.getBlockHash(2500100)).resolves.toBe("c".repeat(64));
+      expect(mockFetch.mock.calls[0][0]).toContain("/blocks/2500100");
+      await expect(client.getBlockHash(2600000)).resolves.toBeNull();
+    });
+
+    it("should report rate limiting as a chain provider error", async () => {
+      mockJsonResponse({ error: "Limits reached" }, 429);
+      mockJsonResponse({ error: "Limits reached" }, 429);
+      mockJsonResponse({ error: "Limits reached" }, 429);
+
+      const client = new BlockcypherClient();
+      const error = await client.getTipHeight().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BlockcypherRateLimitError);
+      expect(error).toBeInstanceOf(ChainProviderError);
+      expect(isRateLimitError(error)).toBe(true);
+    }, 15000);
+  });
+
   describe("Retry Logic", () => {
     it("should retry failed requests with exponential backoff", async () => {
       // Mock first two calls to fail, third to succeed
@@ -0,0 +1,114 @@
+/**
+ * Confirmation Policy Tests
+ *
+ * Covers parsing of `CONFIRMATION_POLICY`, its validation and the lookup of
+ * the confirmations a payment amount requires.
+ */
+
+import {
+  getConfirmationPolicy,
+  getRequiredConfirmations,
+  parseConfirmationPolicy,
+} from "@/lib/services/confirmation-policy";
+
+describe("parseConfirmationPolicy", () => {
+  it("should parse tiers and the confirmations above the last tier", () => {
+    expect(parseConfirmationPolicy("0.001:0, 0.01:1, 0.5:3, 6")).toEqual({
+      tiers: [
+        { maxAmount: 0.001, confirmations: 0 },
+        { maxAmount: 0.01, confirmations: 1 },
+        { maxAmount: 0.5, confirmations: 3 },
+      ],
+      confirmations: 6,
+    });
+  });
+
+  it("should accept a single confirmation count", () => {
+    expect(parseConfirmationPolicy("2")).toEqual({
+      tiers: [],
+      confirmations: 2,
+    });
+  });
+
+  it.each([
+    ["0.01:1", "must end with the confirmations required above the last tier"],
+    ["0.01:1,", "confirmations must be non-negative integers"],
+    ["0.01:1.5,3", "confirmations must be non-negative integers"],
+    ["0.01:-1,3", "confirmations must be non-negative integers"],
+    ["0.01,3", "tiers must be '<max BTC>:<confirmations>'"],
+    ["0:0,3", "tiers must be '<max BTC>:<confirmations>'"],
+    ["abc:1,3", "tiers must be '<max BTC>:<confirmations>'"],
+    ["0.01:1:2,3", "tiers must be '<max BTC>:<confirmations>'"],
+    ["0.5:3,0.01:1,6", "tiers must be in ascending order of amount"],
+    ["0.5:1,0.5:3,6", "tiers must be in ascending order of amount"],
+  ])("should reject %p", (raw, message) => {
+    expect(() => parseConfirmationPolicy(raw)).toThrow(
+      `CONFIRMATION_POLICY ${message}`
+    );
+  });
+});
+
+describe("getConfirmationPolicy", () => {
+  const originalPolicy = process.env.CONFIRMATION_POLICY;
+
+  afterEach(() => {
+    if (originalPolicy === undefined) {
+      delete process.env.CONFIRMATION_POLICY;
+    } else {
+      process.env.CONFIRMATION_POLICY = originalPolicy;
+    }
+  });
+
+  it("should require one confirmation when unset", () => {
+    delete process.env.CONFIRMATION_POLICY;
+    expect(getConfirmationPolicy()).toEqual({ tiers: [], confirmations: 1 });
+
+    process.env.CONFIRMATION_POLICY = "  ";
+    expect(getConfirmationPolicy()).toEqual({ tiers: [], confirmations: 1 });
+  });
+
+  it("should read the configured policy", () => {
+    process.env.CONFIRMATION_POLICY = " 0.01:0,3 ";
+    expect(getConfirmationPolicy()).toEqual({
+      tiers: [{ maxAmount: 0.01, confirmations: 0 }],
+      confirmations: 3,
+    });
+  });
+
+  it("should reject a malformed policy", () => {
+    process.env.CONFIRMATION_POLICY = "0.01:1";
+    expect(() => getConfirmationPolicy()).toThrow("CONFIRMATION_POLICY");
+  });
+});
+
+describe("getRequiredConfirmations", () => {
+  const policy = parseConfirmationPolicy("0.001:0,0.01:1,0.5:3,6");
+
+  it.each([
+    [0.0005, 0],
+    [0.001, 0],
+    [0.005, 1],
+    [0.01, 1],
+    [0.2, 3],
+    [0.5, 3],
+    [0.50000001, 6],
+    [10, 6],
+  ])("should require for %p BTC %p confirmations", (amount, expected) => {
+    expect(getRequiredConfirmations(amount, policy)).toBe(expected);
+  });
+
+  it("should use the configured policy by default", () => {
+    const originalPolicy = process.env.CONFIRMATION_POLICY;
+    process.env.CONFIRMATION_POLICY = "0.01:0,2";
+    try {
+      expect(getRequiredConfirmations(0.005)).toBe(0);
+      expect(getRequiredConfirmations(1)).toBe(2);
+    } finally {
+      if (originalPolicy === undefined) {
+        delete process.env.CONFIRMATION_POLICY;
+      } else {
+        process.env.CONFIRMATION_POLICY = originalPolicy;
+      }
+    }
+  });
+});
@@ -0,0 +1,612 @@
+/**
+ * Electrum Protocol Client Tests
+ *
+ * Runs the client against a local fake Electrum TCP server:
+ * - Server URL parsing and address script hashes
+ * - Handshake, scripthash and header subscriptions
+ * - Status change notifications passed to onTransaction
+ * - Transaction lookups decoded from raw transactions
+ * - Block hashes computed from block headers, and new blocks passed to onBlock
+ * - Reconnecting and resubscribing after a dropped connection
+ */
+
+import net from "net";
+import type { AddressInfo } from "net";
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  ElectrumApiError,
+  ElectrumClient,
+  addressToScripthash,
+  getDefaultElectrumUrl,
+  parseElectrumUrl,
+} from "@/lib/api/electrum";
+import type { ChainTransaction } from "@/lib/api/chain-provider";
+import { getChainProvider } from "@/lib/api/providers";
+import { addressToOutputScript } from "@/lib/bitcoin/wallet";
+
+type Outcome =
+  { result: unknown } | { error: { code: number; message: string } };
+
+interface HistoryEntry {
+  tx_hash: string;
+  height: number;
+  fee?: number;
+}
+
+const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const otherAddress = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+const scripthash = addressToScripthash(address);
+
+// Fake Electrum server state
+let server: net.Server;
+let serverUrl: string;
+let sockets: Set<net.Socket>;
+let requests: Array<{ method: string; params: unknown[] }>;
+let tipHeight: number;
+let histories: Map<string, HistoryEntry[]>;
+let rawTransactions: Map<string, string>;
+let fees: Record<number, number>;
+let headers: Map<number, string>;
+let clients: ElectrumClient[];
+
+/**
+ * Builds a raw transaction paying the given outputs
+ */
+function buildTransaction(
+  outputs: Array<{ address: string; value: number }>,
+  inputSeed = 1
+): { txid: string; hex: string } {
+  const tx = new bitcoin.Transaction();
+  tx.addInput(Buffer.alloc(32, inputSeed), 0);
+  for (const output of outputs) {
+    tx.addOutput(addressToOutputScript(output.address), output.value);
+  }
+  return { txid: tx.getId(), hex: tx.toHex() };
+}
+
+/**
+ * Adds a transaction to an address history and returns the new status hash
+ */
+function addToHistory(
+  hash: string,
+  entry: HistoryEntry,
+  hex: string
+): string | null {
+  rawTransactions.set(entry.tx_hash, hex);
+  const history = (histories.get(hash) ?? []).filter(
+    (item) => item.tx_hash !== entry.tx_hash
+  );
+  history.push(entry);
+  histories.set(hash, history);
+  return statusOf(hash);
+}
+
+/**
+ * Returns the header served for a height (a distinct 80-byte header per
+ * height unless overridden in `headers`)
+ */
+function headerAt(height: number): string {
+  return (
+    headers.get(height) ?? height.toString(16).padStart(8, "0").padEnd(160, "0")
+  );
+}
+
+/**
+ * Returns the block hash of a header (double SHA-256, byte-reversed)
+ */
+function hashOf(header: string): string {
+  return Buffer.from(bitcoin.crypto.hash256(Buffer.from(header, "hex")))
+    .reverse()
+    .toString("hex");
+}
+
+function statusOf(hash: string): string | null {
+  const history = histories.get(hash);
+  if (!history?.length) {
+    return null;
+  }
+  return history.map((item) => `${item.tx_hash}:${item.height}:`).join("");
+}
+
+function handle(method: string, params: unknown[]): Outcome {
+  switch (method) {
+    case "server.version":
+      return { result: ["FakeElectrum 1.0", "1.4"] };
+    case "server.ping":
+      return { result: null };
+    case "blockchain.headers.subscribe":
+      return { result: { height: tipHeight, hex: "00".repeat(80) } };
+    case "blockchain.scripthash.subscribe":
+      return { result: statusOf(params[0] as string) };
+    case "blockchain.scripthash.get_history":
+      return { result: histories.get(params[0] as string) ?? [] };
+    case "blockchain.transaction.get": {
+      const hex = rawTransactions.get(params[0] as string);
+      return hex
+        ? { result: hex }
+        : {
+            error: {
+              code: 2,
+              message:
+                "daemon error: DaemonError({'code': -5, 'message': 'No such mempool or blockchain transaction. Use gettransaction for wallet transactions.'})",
+            },
+          };
+    }
+    case "blockchain.block.header": {
+      const height = params[0] as number;
+      return height <= tipHeight
+        ? { result: headerAt(height) }
+        : { error: { code: 1, message: `height ${height} out of range` } };
+    }
+    case "blockchain.estimatefee": {
+      const fee = fees[params[0] as number] ?? -1;
+      return Number.isNaN(fee)
+        ? {
+            error: {
+              code: 1,
+              message: "daemon error: estimatesmartfee failed",
+            },
+          }
+        : { result: fee };
+    }
+    default:
+      return { error: { code: -32601, message: `unknown method "${method}"` } };
+  }
+}
+
+/**
+ * Sends a notification to every connected client
+ */
+function notify(method: string, params: unknown[]) {
+  for (const socket of sockets) {
+    socket.write(`${JSON.stringify({ jsonrpc: "2.0", method, params })}\n`);
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+beforeAll(async () => {
+  server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.setEncoding("utf8");
+
+    let buffer = "";
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const { id, method, params } = JSON.parse(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        requests.push({ method, params });
+        socket.write(
+          `${JSON.stringify({ jsonrpc: "2.0", id, ...handle(method, params) })}\n`
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+  serverUrl = `tcp://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  sockets = new Set();
+  requests = [];
+  tipHeight = 100;
+  histories = new Map();
+  rawTransactions = new Map();
+  fees = {};
+  headers = new Map();
+  clients = [];
+});
+
+afterEach(() => {
+  clients.forEach((client) => client.close());
+});
+
+function createClient(
+  onTransaction?: (tx: ChainTransaction) => void,
+  getWatchedAddresses?: () => Promise<string[]>,
+  onBlock?: (height: number) => void
+) {
+  const client = new ElectrumClient(serverUrl, {
+    timeout: 2000,
+    reconnectDelay: 10,
+    onTransaction,
+    onBlock,
+    getWatchedAddresses,
+  });
+  clients.push(client);
+  return client;
+}
+
+describe("Electrum helpers", () => {
+  it("should parse ssl and tcp server URLs", () => {
+    expect(parseElectrumUrl("ssl://electrum.blockstream.info:60002")).toEqual({
+      host: "electrum.blockstream.info",
+      port: 60002,
+      tls: true,
+    });
+    expect(parseElectrumUrl("tcp://127.0.0.1:50001")).toEqual({
+      host: "127.0.0.1",
+      port: 50001,
+      tls: false,
+    });
+    expect(parseElectrumUrl("tls://[::1]:50002").host).toBe("::1");
+  });
+
+  it("should reject URLs without a supported scheme and port", () => {
+    expect(() => parseElectrumUrl("https://example.com")).toThrow(
+      "Invalid Electrum server URL"
+    );
+    expect(() => parseElectrumUrl("ssl://example.com")).toThrow(
+      "Invalid Electrum server URL"
+    );
+  });
+
+  it("should hash the reversed output script of an address", () => {
+    expect(addressToScripthash(address)).toBe(
+      "9623df75239b5daa7f5f03042d325b51498c4bb7059c7748b17049bf96f73888"
+    );
+  });
+});
+
+describe("ElectrumClient", () => {
+  it("should negotiate the protocol version and subscribe to headers", async () => {
+    await expect(createClient().getTipHeight()).resolves.toBe(100);
+
+    expect(requests.slice(0, 2)).toEqual([
+      { method: "server.version", params: ["bitcoin-payment-app", "1.4"] },
+      { method: "blockchain.headers.subscribe", params: [] },
+    ]);
+  });
+
+  it("should subscribe to the script hash of a watched address", async () => {
+    const onTransaction = jest.fn();
+
+    await expect(
+      createClient(onTransaction).watchAddress(address)
+    ).resolves.toEqual([scripthash]);
+
+    expect(requests).toContainEqual({
+      method: "blockchain.scripthash.subscribe",
+      params: [scripthash],
+    });
+    expect(onTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should pass transactions to onTransaction when the address status changes", async () => {
+    const received: ChainTransaction[] = [];
+    const client = createClient((tx) => received.push(tx));
+    await client.watchAddress(address);
+
+    const { txid, hex } = buildTransaction([
+      { address, value: 150000 },
+      { address: otherAddress, value: 849859 },
+    ]);
+    const status = addToHistory(
+      scripthash,
+      { tx_hash: txid, height: 0, fee: 141 },
+      hex
+    );
+    notify("blockchain.scripthash.subscribe", [scripthash, status]);
+
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toEqual({
+      txid,
+      confirmations: 0,
+      blockHeight: undefined,
+      fee: 141,
+      vsize: 113,
+      signalsRbf: false,
+      // Height 0: the parents of the transaction are confirmed
+      hasUnconfirmedInputs: false,
+      spends: [`${"01".repeat(32)}:0`],
+      outputs: [
+        { address, value: 150000 },
+        { address: otherAddress, value: 849859 },
+      ],
+    });
+  });
+
+  it("should flag mempool transactions that spend unconfirmed outputs", async () => {
+    const received: ChainTransaction[] = [];
+    const client = createClient((tx) => received.push(tx));
+    await client.watchAddress(address);
+
+    const { txid, hex } = buildTransaction([{ address, value: 150000 }]);
+    const status = addToHistory(
+      scripthash,
+      { tx_hash: txid, height: -1, fee: 141 },
+      hex
+    );
+    notify("blockchain.scripthash.subscribe", [scripthash, status]);
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].confirmations).toBe(0);
+    expect(received[0].hasUnconfirmedInputs).toBe(true);
+  });
+
+  it("should refresh confirmations of recent transactions on new blocks", async () => {
+    const received: ChainTransaction[] = [];
+    const client = createClient((tx) => received.push(tx));
+
+    const { txid, hex } = buildTransaction([{ address, value: 150000 }]);
+    addToHistory(scripthash, { tx_hash: txid, height: 100 }, hex);
+    await client.watchAddress(address);
+
+    // Existing history is applied on subscribe
+    expect(received.map((tx) => tx.confirmations)).toEqual([1]);
+
+    tipHeight = 101;
+    notify("blockchain.headers.subscribe", [{ height: 101, hex: "" }]);
+
+    await waitFor(() => received.length === 2);
+    expect(received[1].confirmations).toBe(2);
+    await expect(client.getTipHeight()).resolves.toBe(101);
+  });
+
+  it("should pass new blocks to onBlock", async () => {
+    const onBlock = jest.fn();
+    const client = createClient(undefined, undefined, onBlock);
+    await client.getTipHeight();
+
+    tipHeight = 101;
+    notify("blockchain.headers.subscribe", [{ height: 101, hex: "" }]);
+
+    await waitFor(() => onBlock.mock.calls.length === 1);
+    expect(onBlock).toHaveBeenCalledWith(101);
+  });
+
+  it("should ignore notifications that do not change the status", async () => {
+    const onTransaction = jest.fn();
+    const { txid, hex } = buildTransaction([{ address, value: 1000 }]);
+    const status = addToHistory(scripthash, { tx_hash: txid, height: 0 }, hex);
+
+    const client = createClient(onTransaction);
+    await client.watchAddress(address);
+    notify("blockchain.scripthash.subscribe", [scripthash, status]);
+    await client.getTipHeight();
+
+    expect(onTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resubscribe after the connection drops and catch up on missed payments", async () => {
+    const received: ChainTransaction[] = [];
+    const client = createClient((tx) => received.push(tx));
+    await client.watchAddress(address);
+
+    // Payment arrives while the connection is down
+    sockets.forEach((socket) => socket.destroy());
+    const { txid, hex } = buildTransaction([{ address, value: 5000 }]);
+    addToHistory(scripthash, { tx_hash: txid, height: 0 }, hex);
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].txid).toBe(txid);
+    expect(
+      requests.filter((r) => r.method === "blockchain.scripthash.subscribe")
+    ).toHaveLength(2);
+  });
+
+  it("should subscribe the addresses returned by getWatchedAddresses on start", async () => {
+    const client = createClient(undefined, async () => [address, otherAddress]);
+
+    await client.start();
+
+    expect(
+      requests
+        .filter((r) => r.method === "blockchain.scripthash.subscribe")
+        .map((r) => r.params[0])
+    ).toEqual([scripthash, addressToScripthash(otherAddress)]);
+  });
+
+  describe("getTransaction", () => {
+    it("should read the confirmation height from the output address history", async () => {
+      const { txid, hex } = buildTransaction([{ address, value: 150000 }]);
+      addToHistory(scripthash, { tx_hash: txid, height: 95 }, hex);
+
+      const transaction = await createClient().getTransaction(txid);
+
+      expect(transaction).toMatchObject({
+        txid,
+        confirmations: 6,
+        blockHeight: 95,
+        blockHash: hashOf(headerAt(95)),
+        outputs: [{ address, value: 150000 }],
+      });
+    });
+
+    it("should decode outputs without an address", async () => {
+      const tx = new bitcoin.Transaction();
+      tx.addInput(Buffer.alloc(32, 7), 0);
+      tx.addOutput(
+        bitcoin.payments.embed({ data: [Buffer.from("hi")] }).output!,
+        0
+      );
+      rawTransactions.set(tx.getId(), tx.toHex());
+
+      await expect(createClient().getTransaction(tx.getId())).resolves.toEqual({
+        txid: tx.getId(),
+        confirmations: 0,
+        blockHeight: undefined,
+        fee: undefined,
+        vsize: tx.virtualSize(),
+        signalsRbf: false,
+        hasUnconfirmedInputs: undefined,
+        spends: [`${"07".repeat(32)}:0`],
+        outputs: [{ address: undefined, value: 0 }],
+      });
+    });
+
+    it("should report replace-by-fee signalling from input sequences", async () => {
+      const tx = new bitcoin.Transaction();
+      tx.addInput(Buffer.alloc(32, 8), 0, 0xfffffffd);
+      tx.addOutput(addressToOutputScript(address), 1000);
+      addToHistory(scripthash, { tx_hash: tx.getId(), height: 0 }, tx.toHex());
+
+      const transaction = await createClient().getTransaction(tx.getId());
+
+      expect(transaction?.signalsRbf).toBe(true);
+    });
+
+    it("should report the outputs a transaction spends", async () => {
+      const { txid, hex } = buildTransaction([{ address, value: 1000 }], 9);
+      addToHistory(scripthash, { tx_hash: txid, height: 0 }, hex);
+
+      const transaction = await createClient().getTransaction(txid);
+
+      // Input hashes are stored in internal byte order
+      expect(transaction?.spends).toEqual([`${"09".repeat(32)}:0`]);
+    });
+
+    it("should return null for transactions that left the address history", async () => {
+      const { txid, hex } = buildTransaction([{ address, value: 1000 }]);
+      addToHistory(scripthash, { tx_hash: txid, height: 0 }, hex);
+      const client = createClient();
+      await expect(client.getTransaction(txid)).resolves.not.toBeNull();
+
+      // Replaced or evicted: the raw transaction is still cached
+      histories.set(scripthash, []);
+
+      await expect(client.getTransaction(txid)).resolves.toBeNull();
+    });
+
+    it("should return null for unknown transactions", async () => {
+      await expect(
+        createClient().getTransaction("f".repeat(64))
+      ).resolves.toBeNull();
+    });
+
+    it("should reject malformed transaction IDs", async () => {
+      await expect(createClient().getTransaction("xyz")).rejects.toThrow(
+        "Transaction ID must be a 64-character hex string"
+      );
+    });
+  });
+
+  it("should return address transactions newest first", async () => {
+    const first = buildTransaction([{ address, value: 1000 }], 1);
+    const second = buildTransaction([{ address, value: 2000 }], 2);
+    addToHistory(scripthash, { tx_hash: first.txid, height: 90 }, first.hex);
+    addToHistory(scripthash, { tx_hash: second.txid, height: 0 }, second.hex);
+
+    const transactions = await createClient().getAddressTransactions(address);
+
+    expect(transactions.map((tx) => [tx.txid, tx.confirmations])).toEqual([
+      [second.txid, 0],
+      [first.txid, 11],
+    ]);
+  });
+
+  it("should hash the block header at a height", async () => {
+    const client = createClient();
+
+    await expect(client.getBlockHash(100)).resolves.toBe(hashOf(headerAt(100)));
+    await expect(client.getBlockHash(101)).resolves.toBeNull();
+    await expect(client.getBlockHash(-1)).rejects.toThrow(
+      "Block height must be a non-negative integer"
+    );
+  });
+
+  it("should fetch block headers again after a new block", async () => {
+    const onBlock = jest.fn();
+    const client = createClient(undefined, undefined, onBlock);
+    await client.getBlockHash(100);
+
+    // Block 100 is replaced by a reorganization
+    headers.set(100, "ff".repeat(80));
+    tipHeight = 101;
+    notify("blockchain.headers.subscribe", [{ height: 101, hex: "" }]);
+    await waitFor(() => onBlock.mock.calls.length === 1);
+
+    await expect(client.getBlockHash(100)).resolves.toBe(
+      hashOf("ff".repeat(80))
+    );
+  });
+
+  it("should convert BTC/kB fee estimates and fall back to 1 sat/vB", async () => {
+    fees = { 1: 0.000204, 6: 0.00008 };
+
+    await expect(createClient().estimateFees()).resolves.toEqual({
+      high: 21,
+      medium: 8,
+      low: 1,
+    });
+  });
+
+  it("should report server errors with their code", async () => {
+    fees = { 1: Number.NaN };
+
+    const error = await createClient()
+      .estimateFees()
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ElectrumApiError);
+    expect((error as ElectrumApiError).code).toBe(1);
+    expect((error as ElectrumApiError).message).toBe(
+      "blockchain.estimatefee failed: daemon error: estimatesmartfee failed"
+    );
+  });
+
+  it("should report an unreachable server", async () => {
+    const client = new ElectrumClient("tcp://127.0.0.1:1", { timeout: 500 });
+
+    await expect(client.getTipHeight()).rejects.toThrow(
+      "Failed to connect to Electrum server 127.0.0.1:1"
+    );
+  });
+});
+
+describe("Electrum configuration", () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.ELECTRUM_URL;
+    delete process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should default to a public server for the configured network", () => {
+    expect(getDefaultElectrumUrl()).toBe(
+      "ssl://electrum.blockstream.info:60002"
+    );
+  });
+
+  it("should prefer ELECTRUM_URL and require it on regtest", () => {
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "regtest";
+    expect(() => getDefaultElectrumUrl()).toThrow(
+      "No public Electrum server for Regtest: set ELECTRUM_URL"
+    );
+
+    process.env.ELECTRUM_URL = "tcp://127.0.0.1:50001";
+    expect(getDefaultElectrumUrl()).toBe("tcp://127.0.0.1:50001");
+  });
+
+  it("should be selectable with CHAIN_PROVIDER", () => {
+    process.env.CHAIN_PROVIDER = "electrum";
+
+    const provider = getChainProvider();
+    expect(provider).toBeInstanceOf(ElectrumClient);
+    expect(provider.requiresCallbackUrl).toBe(false);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Esplora API Client Tests
+ *
+ * Runs the client against a local fake Esplora HTTP server:
+ * - Address transaction lookups with confirmation counts
+ * - Transaction status by ID (including unknown transactions)
+ * - Tip height, block hashes by height and fee estimates
+ * - Rate limiting, client errors and retries
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  EsploraApiError,
+  EsploraClient,
+  getDefaultEsploraUrl,
+  type EsploraTransaction,
+} from "@/lib/api/esplora";
+import { getChainProvider } from "@/lib/api/providers";
+import { isRateLimitError } from "@/lib/api/chain-provider";
+
+type FakeResponse = { status?: number; body: string | object };
+
+const address = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+const confirmedTxid = "a".repeat(64);
+const mempoolTxid = "b".repeat(64);
+
+const confirmedTx: EsploraTransaction = {
+  txid: confirmedTxid,
+  fee: 141,
+  status: {
+    confirmed: true,
+    block_height: 100,
+    block_hash: "c".repeat(64),
+    block_time: 1700000000,
+  },
+  vout: [
+    { scriptpubkey_address: address, value: 150000 },
+    { scriptpubkey_address: "tb1qchange", value: 849859 },
+  ],
+};
+
+const mempoolTx: EsploraTransaction = {
+  txid: mempoolTxid,
+  fee: 200,
+  status: { confirmed: false },
+  vout: [{ value: 0 }, { scriptpubkey_address: address, value: 5000 }],
+};
+
+// Fake Esplora server: each path maps to a queue of responses (the last one repeats)
+let server: http.Server;
+let baseUrl: string;
+let routes: Record<string, FakeResponse[]>;
+let requests: string[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const path = req.url ?? "";
+    requests.push(path);
+
+    const queue = routes[path];
+    if (!queue || queue.length === 0) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+
+    const { status = 200, body } = queue.length > 1 ? queue.shift()! : queue[0];
+    res.writeHead(status, {
+      "Content-Type":
+        typeof body === "string" ? "text/plain" : "application/json",
+    });
+    res.end(typeof body === "string" ? body : JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  routes = {
+    "/api/blocks/tip/height": [{ body: "105" }],
+  };
+  requests = [];
+});
+
+function createClient() {
+  return new EsploraClient(baseUrl, { retryAttempts: 2, retryDelay: 0 });
+}
+
+describe("EsploraClient", () => {
+  describe("getAddressTransactions", () => {
+    it("should return transactions with confirmations from the tip height", async () => {
+      routes[`/api/address/${address}/txs`] = [
+        { body: [mempoolTx, confirmedTx] },
+      ];
+
+      const transactions = await createClient().getAddressTransactions(address);
+
+      expect(transactions).toEqual([
+        {
+          txid: mempoolTxid,
+          confirmations: 0,
+          blockHeight: undefined,
+          blockHash: undefined,
+          fee: 200,
+          outputs: [
+            { address: undefined, value: 0 },
+            { address, value: 5000 },
+          ],
+        },
+        {
+          txid: confirmedTxid,
+          confirmations: 6,
+          blockHeight: 100,
+          blockHash: "c".repeat(64),
+          fee: 141,
+          outputs: [
+            { address, value: 150000 },
+            { address: "tb1qchange", value: 849859 },
+          ],
+        },
+      ]);
+    });
+
+    it("should skip the tip lookup for unused addresses", async () => {
+      routes[`/api/address/${address}/txs`] = [{ body: [] }];
+
+      await expect(
+        createClient().getAddressTransactions(address)
+      ).resolves.toEqual([]);
+      expect(requests).toEqual([`/api/address/${address}/txs`]);
+    });
+
+    it("should reject a missing address", async () => {
+      await expect(createClient().getAddressTransactions("")).rejects.toThrow(
+        "Address is required and must be a string"
+      );
+    });
+  });
+
+  describe("getTransaction", () => {
+    it("should return transaction status and confirmations", async () => {
+      routes[`/api/tx/${confirmedTxid}`] = [{ body: confirmedTx }];
+
+      const transaction = await createClient().getTransaction(confirmedTxid);
+
+      expect(transaction?.confirmations).toBe(6);
+      expect(transaction?.blockHeight).toBe(100);
+    });
+
+    it("should not need the tip height for mempool transactions", async () => {
+      routes[`/api/tx/${mempoolTxid}`] = [{ body: mempoolTx }];
+
+      const transaction = await createClient().getTransaction(mempoolTxid);
+
+      expect(transaction?.confirmations).toBe(0);
+      expect(requests).toEqual([`/api/tx/${mempoolTxid}`]);
+    });
+
+    it("should report replace-by-fee signalling from input sequences", async () => {
+      routes[`/api/tx/${mempoolTxid}`] = [
+        {
+          body: {
+            ...mempoolTx,
+            vin: [{ sequence: 0xffffffff }, { sequence: 0xfffffffd }],
+          },
+        },
+        { body: { ...mempoolTx, vin: [{ sequence: 0xfffffffe }] } },
+        { body: mempoolTx },
+      ];
+
+      const client = createClient();
+      expect((await client.getTransaction(mempoolTxid))?.signalsRbf).toBe(true);
+      expect((await client.getTransaction(mempoolTxid))?.signalsRbf).toBe(
+        false
+      );
+      expect(
+        (await client.getTransaction(mempoolTxid))?.signalsRbf
+      ).toBeUndefined();
+    });
+
+    it("should report the virtual size from the weight", async () => {
+      routes[`/api/tx/${mempoolTxid}`] = [
+        { body: { ...mempoolTx, weight: 561 } },
+        { body: mempoolTx },
+      ];
+
+      const client = createClient();
+      expect((await client.getTransaction(mempoolTxid))?.vsize).toBe(141);
+      expect((await client.getTransaction(mempoolTxid))?.vsize).toBeUndefined();
+    });
+
+    it("should report the outputs a transaction spends", async () => {
+      routes[`/api/tx/${mempoolTxid}`] = [
+        {
+          body: {
+            ...mempoolTx,
+            vin: [
+              { txid: confirmedTxid, vout: 1, sequence: 0xffffffff },
+              { sequence: 0xffffffff },
+            ],
+          },
+        },
+        { body: mempoolTx },
+      ];
+
+      const client = createClient();
+      expect((await client.getTransaction(mempoolTxid))?.spends).toEqual([
+        `${confirmedTxid}:1`,
+      ]);
+      expect(
+        (await client.getTransaction(mempoolTxid))?.spends
+      ).toBeUndefined();
+    });
+
+    it("should return null for unknown transactions", async () => {
+      routes[`/api/tx/${confirmedTxid}`] = [
+        { status: 404, body: "Transaction not found" },
+      ];
+
+      await expect(
+        createClient().getTransaction(confirmedTxid)
+      ).resolves.toBeNull();
+      expect(requests).toHaveLength(1); // 404 is not retried
+    });
+
+    it("should reject malformed transaction IDs before calling the API", async () => {
+      await expect(createClient().getTransaction("../blocks")).rejects.toThrow(
+        "Transaction ID must be a 64-character hex string"
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("getTipHeight", () => {
+    it("should parse the plain-text tip height", async () => {
+      await expect(createClient().getTipHeight()).resolves.toBe(105);
+    });
+
+    it("should reject a non-numeric response", async () => {
+      routes["/api/blocks/tip/height"] = [{ body: "<html>" }];
+
+      await expect(createClient().getTipHeight()).rejects.toThrow(
+        "Invalid tip height response"
+      );
+    });
+  });
+
+  describe("getBlockHash", () => {
+    it("should return the hash of the block at a height", async () => {
+      routes["/api/block-height/100"] = [{ body: "c".repeat(64) }];
+
+      await expect(createClient().getBlockHash(100)).resolves.toBe(
+        "c".repeat(64)
+      );
+    });
+
+    it("should return null above the tip", async () => {
+      await expect(createClient().getBlockHash(106)).resolves.toBeNull();
+    });
+
+    it("should reject invalid heights and responses", async () => {
+      routes["/api/block-height/100"] = [{ body: "<html>" }];
+
+      await expect(createClient().getBlockHash(-1)).rejects.toThrow(
+        "Block height must be a non-negative integer"
+      );
+      await expect(createClient().getBlockHash(100)).rejects.toThrow(
+        "Invalid block hash response"
+      );
+    });
+  });
+
+  describe("estimateFees", () => {
+    it("should map confirmation targets to fee levels", async () => {
+      routes["/api/fee-estimates"] = [
+        { body: { "1": 20.4, "2": 15, "6": 8.1, "144": 0.5 } },
+      ];
+
+      await expect(createClient().estimateFees()).resolves.toEqual({
+        high: 21,
+        medium: 9,
+        low: 1,
+      });
+    });
+  });
+
+  describe("error handling", () => {
+    it("should retry server errors", async () => {
+      routes["/api/blocks/tip/height"] = [
+        { status: 503, body: "Service unavailable" },
+        { body: "106" },
+      ];
+
+      await expect(createClient().getTipHeight()).resolves.toBe(106);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should report the error text after the last attempt", async () => {
+      routes["/api/blocks/tip/height"] = [
+        { status: 500, body: "Internal error" },
+      ];
+
+      const error = await createClient()
+        .getTipHeight()
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(EsploraApiError);
+      expect((error as EsploraApiError).message).toBe("Internal error");
+      expect((error as EsploraApiError).statusCode).toBe(500);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should report rate limiting as a chain provider rate limit", async () => {
+      routes["/api/blocks/tip/height"] = [{ status: 429, body: "Too many" }];
+
+      const error = await createClient()
+        .getTipHeight()
+        .catch((e: unknown) => e);
+
+      expect(isRateLimitError(error)).toBe(true);
+    });
+
+    it("should report an unreachable server", async () => {
+      const client = new EsploraClient("http://127.0.0.1:1/api", {
+        retryAttempts: 1,
+      });
+
+      await expect(client.getTipHeight()).rejects.toThrow();
+    });
+  });
+
+  describe("watchAddress", () => {
+    it("should register nothing because Esplora has no push notifications", async () => {
+      await expect(createClient().watchAddress()).resolves.toEqual([]);
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
+
+describe("Esplora configuration", () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.ESPLORA_API_URL;
+    delete process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should default to mempool.space for the configured network", () => {
+    expect(getDefaultEsploraUrl()).toBe("https://mempool.space/testnet/api");
+
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "signet";
+    expect(getDefaultEsploraUrl()).toBe("https://mempool.space/signet/api");
+  });
+
+  it("should prefer ESPLORA_API_URL", () => {
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "regtest";
+    process.env.ESPLORA_API_URL = "http://localhost:3002/api";
+
+    expect(getDefaultEsploraUrl()).toBe("http://localhost:3002/api");
+  });
+
+  it("should require ESPLORA_API_URL on regtest", () => {
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "regtest";
+
+    expect(() => getDefaultEsploraUrl()).toThrow(
+      "No public Esplora API for regtest: set ESPLORA_API_URL"
+    );
+  });
+
+  it("should strip trailing slashes from the base URL", () => {
+    expect(new EsploraClient("http://localhost:3002/api/").getBaseUrl()).toBe(
+      "http://localhost:3002/api"
+    );
+  });
+
+  it("should be selectable with CHAIN_PROVIDER", () => {
+    process.env.CHAIN_PROVIDER = "esplora";
+
+    const provider = getChainProvider();
+    expect(provider).toBeInstanceOf(EsploraClient);
+    expect(provider.name).toBe("esplora");
+  });
+});
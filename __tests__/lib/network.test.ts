@@ -0,0 +1,137 @@
+/**
+ * Test suite for the Bitcoin network configuration
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  DEFAULT_NETWORK,
+  NETWORK_PROFILES,
+  getConfiguredNetwork,
+  getExplorerTxUrl,
+  getNetworkProfile,
+  isBitcoinNetwork,
+} from "../../src/lib/bitcoin/network";
+import { BitcoinNetwork } from "../../src/types";
+
+const envVars = [
+  "NEXT_PUBLIC_BITCOIN_NETWORK",
+  "NEXT_PUBLIC_EXPLORER_TX_URL",
+  "NEXT_PUBLIC_TESTNET_EXPLORER_ADDRESS",
+] as const;
+
+const originalEnv = Object.fromEntries(
+  envVars.map((name) => [name, process.env[name]])
+);
+
+beforeEach(() => {
+  envVars.forEach((name) => delete process.env[name]);
+});
+
+afterAll(() => {
+  envVars.forEach((name) => {
+    if (originalEnv[name] === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = originalEnv[name];
+    }
+  });
+});
+
+describe("getConfiguredNetwork", () => {
+  it("should default to testnet", () => {
+    expect(DEFAULT_NETWORK).toBe(BitcoinNetwork.TESTNET);
+    expect(getConfiguredNetwork()).toBe(BitcoinNetwork.TESTNET);
+  });
+
+  it("should read every supported network", () => {
+    Object.values(BitcoinNetwork).forEach((network) => {
+      process.env.NEXT_PUBLIC_BITCOIN_NETWORK = network;
+      expect(getConfiguredNetwork()).toBe(network);
+    });
+  });
+
+  it("should ignore case and surrounding whitespace", () => {
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "  Signet ";
+    expect(getConfiguredNetwork()).toBe(BitcoinNetwork.SIGNET);
+  });
+
+  it("should reject unsupported networks", () => {
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "litecoin";
+    expect(() => getConfiguredNetwork()).toThrow(
+      "Unsupported NEXT_PUBLIC_BITCOIN_NETWORK 'litecoin': expected one of mainnet, testnet, testnet4, signet, regtest"
+    );
+  });
+});
+
+describe("isBitcoinNetwork", () => {
+  it("should recognise network identifiers", () => {
+    expect(isBitcoinNetwork("regtest")).toBe(true);
+    expect(isBitcoinNetwork("testnet3")).toBe(false);
+  });
+});
+
+describe("getNetworkProfile", () => {
+  it("should use coin type 0 only on mainnet", () => {
+    Object.values(NETWORK_PROFILES).forEach((profile) => {
+      expect(profile.coinType).toBe(
+        profile.network === BitcoinNetwork.MAINNET ? 0 : 1
+      );
+      expect(profile.isTestNetwork).toBe(
+        profile.network !== BitcoinNetwork.MAINNET
+      );
+    });
+  });
+
+  it("should map networks to bitcoinjs parameters", () => {
+    expect(getNetworkProfile(BitcoinNetwork.MAINNET).bitcoinjsNetwork).toBe(
+      bitcoin.networks.bitcoin
+    );
+    expect(getNetworkProfile(BitcoinNetwork.SIGNET).bitcoinjsNetwork).toBe(
+      bitcoin.networks.testnet
+    );
+    expect(getNetworkProfile(BitcoinNetwork.REGTEST).bitcoinjsNetwork).toBe(
+      bitcoin.networks.regtest
+    );
+  });
+
+  it("should follow the configured network by default", () => {
+    process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "testnet4";
+    expect(getNetworkProfile().label).toBe("Testnet4");
+  });
+});
+
+describe("getExplorerTxUrl", () => {
+  const txid = "a".repeat(64);
+
+  it("should link to the network's default explorer", () => {
+    expect(getExplorerTxUrl(txid)).toBe(
+      `https://mempool.space/testnet/tx/${txid}`
+    );
+    expect(getExplorerTxUrl(txid, BitcoinNetwork.MAINNET)).toBe(
+      `https://mempool.space/tx/${txid}`
+    );
+    expect(getExplorerTxUrl(txid, BitcoinNetwork.SIGNET)).toBe(
+      `https://mempool.space/signet/tx/${txid}`
+    );
+  });
+
+  it("should return undefined for regtest", () => {
+    expect(getExplorerTxUrl(txid, BitcoinNetwork.REGTEST)).toBeUndefined();
+  });
+
+  it("should prefer a configured explorer prefix", () => {
+    process.env.NEXT_PUBLIC_EXPLORER_TX_URL = "http://localhost:3002/tx/";
+    expect(getExplorerTxUrl(txid, BitcoinNetwork.REGTEST)).toBe(
+      `http://localhost:3002/tx/${txid}`
+    );
+  });
+
+  it("should honour the legacy testnet explorer setting", () => {
+    process.env.NEXT_PUBLIC_TESTNET_EXPLORER_ADDRESS =
+      "https://blockstream.info/testnet/tx/";
+    expect(getExplorerTxUrl(txid)).toBe(
+      `https://blockstream.info/testnet/tx/${txid}`
+    );
+  });
+});
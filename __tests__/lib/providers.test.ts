@@ -0,0 +1,79 @@
+/**
+ * Test suite for chain provider selection
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  ChainProviderType,
+  DEFAULT_CHAIN_PROVIDER,
+  getChainProvider,
+  getConfiguredChainProviderType,
+} from "../../src/lib/api/providers";
+import { blockcypherClient } from "../../src/lib/api/blockcypher";
+import {
+  ChainProviderError,
+  ChainProviderRateLimitError,
+  isRateLimitError,
+} from "../../src/lib/api/chain-provider";
+
+const originalProvider = process.env.CHAIN_PROVIDER;
+
+afterEach(() => {
+  if (originalProvider === undefined) {
+    delete process.env.CHAIN_PROVIDER;
+  } else {
+    process.env.CHAIN_PROVIDER = originalProvider;
+  }
+});
+
+describe("getConfiguredChainProviderType", () => {
+  it("should default to Blockcypher", () => {
+    delete process.env.CHAIN_PROVIDER;
+
+    expect(DEFAULT_CHAIN_PROVIDER).toBe(ChainProviderType.BLOCKCYPHER);
+    expect(getConfiguredChainProviderType()).toBe(
+      ChainProviderType.BLOCKCYPHER
+    );
+  });
+
+  it("should ignore case and surrounding whitespace", () => {
+    process.env.CHAIN_PROVIDER = " BlockCypher ";
+    expect(getConfiguredChainProviderType()).toBe(
+      ChainProviderType.BLOCKCYPHER
+    );
+  });
+
+  it("should reject unsupported providers", () => {
+    process.env.CHAIN_PROVIDER = "blockchair";
+    expect(() => getConfiguredChainProviderType()).toThrow(
+      "Unsupported CHAIN_PROVIDER 'blockchair': expected one of blockcypher"
+    );
+  });
+});
+
+describe("getChainProvider", () => {
+  it("should return the default Blockcypher client", () => {
+    delete process.env.CHAIN_PROVIDER;
+
+    const provider = getChainProvider();
+    expect(provider).toBe(blockcypherClient);
+    expect(provider.name).toBe("blockcypher");
+  });
+});
+
+describe("isRateLimitError", () => {
+  it("should recognise provider rate limit errors", () => {
+    expect(isRateLimitError(new ChainProviderRateLimitError())).toBe(true);
+    expect(isRateLimitError(new ChainProviderError("Too many", 429))).toBe(
+      true
+    );
+  });
+
+  it("should ignore other errors", () => {
+    expect(isRateLimitError(new ChainProviderError("Not found", 404))).toBe(
+      false
+    );
+    expect(isRateLimitError(new Error("Rate limit exceeded"))).toBe(false);
+    expect(isRateLimitError(undefined)).toBe(false);
+  });
+});
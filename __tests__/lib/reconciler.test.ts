@@ -0,0 +1,456 @@
+/**
+ * Payment Status Reconciler Tests
+ *
+ * Runs reconciliation passes against the real payment status store with a
+ * scripted chain provider:
+ * - Unsettled payments converge to the chain state without webhooks
+ * - Every transaction paying an address is credited
+ * - Settled payments and already up-to-date entries are left alone
+ * - Rate limits end a pass early, other failures do not
+ * - Unpaid requests past their expiry are expired after being checked
+ * - Unconfirmed transactions the provider no longer knows are evicted, and
+ *   replacements are followed
+ * - Payments whose confirming blocks left the best chain are rolled back first
+ * - Interval configuration
+ */
+
+import {
+  getReconcileIntervalMs,
+  RECONCILER_CONFIG,
+  reconcilePayments,
+  startReconciler,
+  stopReconciler,
+} from "@/lib/services/reconciler";
+import {
+  clearAllPaymentStatuses,
+  getFullPaymentData,
+  initializePaymentStatus,
+  updatePaymentStatus,
+} from "@/lib/store/payment-status";
+import {
+  ChainProviderRateLimitError,
+  type ChainTransaction,
+} from "@/lib/api/chain-provider";
+import { PaymentHistoryEvent, PaymentStatus } from "@/types";
+
+const mockGetAddressTransactions = jest.fn<
+  Promise<ChainTransaction[]>,
+  [string]
+>();
+const mockGetTransaction = jest.fn<
+  Promise<ChainTransaction | null>,
+  [string]
+>();
+const mockGetTipHeight = jest.fn<Promise<number>, []>();
+const mockGetBlockHash = jest.fn<Promise<string | null>, [number]>();
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: () => ({
+    name: "mock",
+    requiresCallbackUrl: false,
+    getAddressTransactions: (address: string) =>
+      mockGetAddressTransactions(address),
+    getTransaction: (txid: string) => mockGetTransaction(txid),
+    getTipHeight: () => mockGetTipHeight(),
+    getBlockHash: (height: number) => mockGetBlockHash(height),
+  }),
+}));
+
+const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const otherAddress = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+const thirdAddress =
+  "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7";
+
+function payment(
+  txid: string,
+  confirmations: number,
+  to: string = address,
+  value = 100000
+): ChainTransaction {
+  return {
+    txid,
+    confirmations,
+    blockHeight: confirmations > 0 ? 200 - confirmations + 1 : undefined,
+    outputs: [{ address: to, value }],
+  };
+}
+
+beforeEach(async () => {
+  await clearAllPaymentStatuses();
+  mockGetAddressTransactions.mockReset();
+  mockGetAddressTransactions.mockResolvedValue([]);
+  mockGetTransaction.mockReset();
+  mockGetTransaction.mockResolvedValue(null);
+  mockGetTipHeight.mockReset();
+  mockGetTipHeight.mockResolvedValue(200);
+  mockGetBlockHash.mockReset();
+  mockGetBlockHash.mockResolvedValue("0".repeat(64));
+});
+
+describe("reconcilePayments", () => {
+  it("should expire overdue requests unless the chain shows a payment", async () => {
+    const expiresAt = Date.now() - 1000;
+    await initializePaymentStatus(address, 0.001, undefined, { expiresAt });
+    await initializePaymentStatus(otherAddress, 0.001, undefined, {
+      expiresAt,
+    });
+
+    mockGetAddressTransactions.mockImplementation(async (watched) =>
+      watched === otherAddress ? [payment("a".repeat(64), 0, otherAddress)] : []
+    );
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      checked: 2,
+      updated: 1,
+      expired: 1,
+    });
+
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.EXPIRED
+    );
+    expect((await getFullPaymentData(otherAddress))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+  });
+
+  it("should detect and then confirm a payment without any webhook", async () => {
+    await initializePaymentStatus(address, 0.001);
+
+    mockGetAddressTransactions.mockResolvedValue([payment("a".repeat(64), 0)]);
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      checked: 1,
+      updated: 1,
+    });
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+
+    mockGetAddressTransactions.mockResolvedValue([payment("a".repeat(64), 2)]);
+    await reconcilePayments();
+
+    const data = await getFullPaymentData(address);
+    expect(data?.status).toBe(PaymentStatus.CONFIRMED);
+    expect(data?.confirmations).toBe(2);
+    expect(data?.transactionId).toBe("a".repeat(64));
+    expect(data?.history?.map((transition) => transition.source)).toEqual([
+      "reconciler",
+      "reconciler",
+    ]);
+  });
+
+  it("should leave entries that already match the chain untouched", async () => {
+    await initializePaymentStatus(address, 0.001);
+    await updatePaymentStatus(address, PaymentStatus.PAYMENT_DETECTED, {
+      transactionId: "a".repeat(64),
+      confirmations: 0,
+      receivedAmount: 100000,
+    });
+    const before = await getFullPaymentData(address);
+
+    mockGetAddressTransactions.mockResolvedValue([payment("a".repeat(64), 0)]);
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      updated: 0,
+      unchanged: 1,
+    });
+
+    expect((await getFullPaymentData(address))?.lastUpdated).toBe(
+      before?.lastUpdated
+    );
+  });
+
+  it("should credit every transaction paying the address, oldest first", async () => {
+    await initializePaymentStatus(address, 0.003);
+    await updatePaymentStatus(address, PaymentStatus.PAYMENT_DETECTED, {
+      transactionId: "b".repeat(64),
+      confirmations: 0,
+      receivedAmount: 100000,
+    });
+
+    // Newest first, as providers return them
+    mockGetAddressTransactions.mockResolvedValue([
+      payment("c".repeat(64), 0),
+      payment("b".repeat(64), 1),
+      payment("d".repeat(64), 3),
+    ]);
+    await expect(reconcilePayments()).resolves.toMatchObject({ updated: 1 });
+
+    const stored = await getFullPaymentData(address);
+    expect(
+      stored?.transactions?.map((transaction) => [
+        transaction.transactionId,
+        transaction.confirmations,
+      ])
+    ).toEqual([
+      ["b".repeat(64), 1],
+      ["d".repeat(64), 3],
+      ["c".repeat(64), 0],
+    ]);
+    expect(stored?.receivedAmount).toBe(300000);
+    expect(stored?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+
+    // Nothing changed on chain, so nothing is applied again
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      updated: 0,
+      unchanged: 1,
+    });
+  });
+
+  it("should only check payments whose status can still change", async () => {
+    await initializePaymentStatus(address, 0.001);
+    await initializePaymentStatus(otherAddress, 0.001);
+    await initializePaymentStatus(thirdAddress, 0.001);
+    await updatePaymentStatus(otherAddress, PaymentStatus.CONFIRMED, {
+      transactionId: "e".repeat(64),
+      confirmations: 6,
+    });
+    await updatePaymentStatus(thirdAddress, PaymentStatus.ERROR, {
+      transactionId: "f".repeat(64),
+      confirmations: 0,
+    });
+
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      checked: 1,
+      unchanged: 1,
+    });
+    expect(mockGetAddressTransactions.mock.calls).toEqual([[address]]);
+  });
+
+  it("should continue after a failure and stop at a rate limit", async () => {
+    await initializePaymentStatus(address, 0.001);
+    await initializePaymentStatus(otherAddress, 0.001);
+    await initializePaymentStatus(thirdAddress, 0.001);
+
+    mockGetAddressTransactions
+      .mockRejectedValueOnce(new Error("Service unavailable"))
+      .mockResolvedValueOnce([payment("a".repeat(64), 0, otherAddress)])
+      .mockRejectedValueOnce(new ChainProviderRateLimitError());
+
+    await expect(reconcilePayments()).resolves.toEqual({
+      checked: 2,
+      updated: 1,
+      unchanged: 0,
+      failed: 1,
+      expired: 0,
+      reorged: 0,
+      rateLimited: true,
+    });
+    expect((await getFullPaymentData(otherAddress))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+  });
+
+  it("should share a pass that is already running", async () => {
+    await initializePaymentStatus(address, 0.001);
+
+    const [first, second] = await Promise.all([
+      reconcilePayments(),
+      reconcilePayments(),
+    ]);
+
+    expect(first).toBe(second);
+    expect(mockGetAddressTransactions).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("chain reorganizations", () => {
+  const txid = "a".repeat(64);
+
+  async function confirmInBlock(blockHash: string) {
+    await initializePaymentStatus(address, 0.001);
+    await updatePaymentStatus(address, PaymentStatus.CONFIRMED, {
+      transactionId: txid,
+      confirmations: 2,
+      receivedAmount: 100000,
+      isDoubleSpend: false,
+      source: "webhook",
+      blockHash,
+      blockHeight: 199,
+    });
+  }
+
+  it("should roll back payments whose block left the best chain before checking them", async () => {
+    await confirmInBlock("c".repeat(64));
+    mockGetTransaction.mockResolvedValue(payment(txid, 0));
+    mockGetAddressTransactions.mockResolvedValue([payment(txid, 0)]);
+
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      reorged: 1,
+      checked: 1,
+    });
+
+    const stored = await getFullPaymentData(address);
+    expect(stored?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+    expect(stored?.history?.at(-1)).toMatchObject({
+      source: "reconciler",
+      event: PaymentHistoryEvent.REORGED,
+    });
+  });
+
+  it("should check payments when the reorganization check fails", async () => {
+    await confirmInBlock("c".repeat(64));
+    mockGetTipHeight.mockRejectedValueOnce(new Error("Service unavailable"));
+
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      reorged: 0,
+      checked: 1,
+      rateLimited: false,
+    });
+  });
+
+  it("should stop at a rate limit during the reorganization check", async () => {
+    await confirmInBlock("c".repeat(64));
+    mockGetTipHeight.mockRejectedValueOnce(new ChainProviderRateLimitError());
+
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      checked: 0,
+      rateLimited: true,
+    });
+    expect(mockGetAddressTransactions).not.toHaveBeenCalled();
+  });
+});
+
+describe("evicted and replaced transactions", () => {
+  const txA = "a".repeat(64);
+  const txB = "b".repeat(64);
+  const spends = [`${"c".repeat(64)}:0`];
+
+  // Runs a pass once the grace period for evictions has passed
+  async function reconcileLater() {
+    const now = jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.now() + RECONCILER_CONFIG.evictionGraceMs);
+    try {
+      return await reconcilePayments();
+    } finally {
+      now.mockRestore();
+    }
+  }
+
+  beforeEach(async () => {
+    await initializePaymentStatus(address, 0.001);
+    mockGetAddressTransactions.mockResolvedValue([
+      { ...payment(txA, 0), spends },
+    ]);
+    await reconcilePayments();
+  });
+
+  it("should await payment again when the only transaction is evicted", async () => {
+    mockGetAddressTransactions.mockResolvedValue([]);
+
+    await expect(reconcileLater()).resolves.toMatchObject({ updated: 1 });
+
+    const data = await getFullPaymentData(address);
+    expect(mockGetTransaction).toHaveBeenCalledWith(txA);
+    expect(data?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+    expect(data?.history?.[1]).toMatchObject({
+      to: PaymentStatus.AWAITING_PAYMENT,
+      source: "reconciler",
+      event: PaymentHistoryEvent.EVICTED,
+      droppedTransactionIds: [txA],
+    });
+  });
+
+  it("should not evict transactions within the grace period", async () => {
+    mockGetAddressTransactions.mockResolvedValue([]);
+
+    await expect(reconcilePayments()).resolves.toMatchObject({
+      unchanged: 1,
+    });
+
+    expect(mockGetTransaction).not.toHaveBeenCalled();
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+  });
+
+  it("should not evict transactions the provider still finds", async () => {
+    mockGetAddressTransactions.mockResolvedValue([]);
+    mockGetTransaction.mockResolvedValue(payment(txA, 0));
+
+    await reconcileLater();
+
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+  });
+
+  it("should follow a replacement instead of evicting the original", async () => {
+    mockGetAddressTransactions.mockResolvedValue([
+      { ...payment(txB, 0), spends },
+    ]);
+
+    await expect(reconcileLater()).resolves.toMatchObject({ updated: 1 });
+
+    const data = await getFullPaymentData(address);
+    expect(mockGetTransaction).not.toHaveBeenCalled();
+    expect(data?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+    expect(data?.transactionId).toBe(txB);
+    expect(data?.history?.[1]).toMatchObject({
+      event: PaymentHistoryEvent.REPLACED,
+      droppedTransactionIds: [txA],
+    });
+  });
+});
+
+describe("Reconciler configuration", () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.RECONCILE_INTERVAL_SECONDS;
+  });
+
+  afterEach(() => {
+    stopReconciler();
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should default to a 60 second interval", () => {
+    expect(getReconcileIntervalMs()).toBe(60000);
+
+    process.env.RECONCILE_INTERVAL_SECONDS = "15";
+    expect(getReconcileIntervalMs()).toBe(15000);
+  });
+
+  it("should reject invalid intervals", () => {
+    process.env.RECONCILE_INTERVAL_SECONDS = "-5";
+
+    expect(() => getReconcileIntervalMs()).toThrow(
+      "RECONCILE_INTERVAL_SECONDS must be a non-negative integer, got '-5'"
+    );
+  });
+
+  it("should not start when disabled", () => {
+    process.env.RECONCILE_INTERVAL_SECONDS = "0";
+
+    expect(startReconciler()).toBe(false);
+  });
+
+  it("should run passes on the configured interval", async () => {
+    jest.useFakeTimers();
+    try {
+      process.env.RECONCILE_INTERVAL_SECONDS = "30";
+      await initializePaymentStatus(address, 0.001);
+
+      expect(startReconciler()).toBe(true);
+      expect(mockGetAddressTransactions).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(30000);
+
+      // The pass reads the store from disk; let it finish on real timers
+      jest.useRealTimers();
+      const deadline = Date.now() + 2000;
+      while (
+        mockGetAddressTransactions.mock.calls.length === 0 &&
+        Date.now() < deadline
+      ) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(mockGetAddressTransactions).toHaveBeenCalledWith(address);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Chain Reorganization Detection Tests
+ *
+ * Runs reorganization checks against the real payment status store with a
+ * scripted chain provider:
+ * - Payments whose confirming blocks are still in the best chain are left alone
+ * - Reorganized transactions take on the chain's current state, rolling the
+ *   payment back with a REORGED history entry
+ * - Deep blocks, unconfirmed and settled payments are not checked
+ * - Best-chain block hashes are fetched once per tip
+ * - New-block notifications trigger at most one check per interval
+ */
+
+import type { ChainTransaction } from "@/lib/api/chain-provider";
+import {
+  clearAllPaymentStatuses,
+  getFullPaymentData,
+  initializePaymentStatus,
+  updatePaymentStatus,
+} from "@/lib/store/payment-status";
+import { PaymentHistoryEvent, PaymentStatus } from "@/types";
+
+const mockGetTipHeight = jest.fn<Promise<number>, []>();
+const mockGetBlockHash = jest.fn<Promise<string | null>, [number]>();
+const mockGetTransaction = jest.fn<
+  Promise<ChainTransaction | null>,
+  [string]
+>();
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: () => ({
+    name: "mock",
+    getTipHeight: () => mockGetTipHeight(),
+    getBlockHash: (height: number) => mockGetBlockHash(height),
+    getTransaction: (txid: string) => mockGetTransaction(txid),
+  }),
+}));
+
+// Loaded per test so that every test starts with an empty block hash cache
+const loadService = () => import("@/lib/services/reorg-detection");
+
+const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const otherAddress = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+const txA = "a".repeat(64);
+const txB = "b".repeat(64);
+
+// Best chain: height -> block hash
+let chain: Map<number, string>;
+
+const blockAt = (height: number, fork = "0") =>
+  `${fork}${height.toString(16).padStart(63, "0")}`;
+
+function confirm(
+  to: string,
+  transactionId: string,
+  blockHeight: number,
+  confirmations = 3
+) {
+  return updatePaymentStatus(to, PaymentStatus.CONFIRMED, {
+    transactionId,
+    confirmations,
+    receivedAmount: 100000,
+    isDoubleSpend: false,
+    source: "webhook",
+    blockHash: blockAt(blockHeight),
+    blockHeight,
+  });
+}
+
+beforeEach(async () => {
+  await clearAllPaymentStatuses();
+  chain = new Map(
+    Array.from({ length: 10 }, (_, i) => [100 + i, blockAt(100 + i)])
+  );
+  mockGetTipHeight.mockReset();
+  mockGetTipHeight.mockImplementation(async () => Math.max(...chain.keys()));
+  mockGetBlockHash.mockReset();
+  mockGetBlockHash.mockImplementation(
+    async (height) => chain.get(height) ?? null
+  );
+  mockGetTransaction.mockReset();
+  mockGetTransaction.mockResolvedValue(null);
+});
+
+describe("checkForReorgs", () => {
+  it("should not query the provider without confirmed transactions", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+
+    await expect(checkForReorgs()).resolves.toEqual({ checked: 0, reorged: 0 });
+    expect(mockGetTipHeight).not.toHaveBeenCalled();
+  });
+
+  it("should leave payments whose blocks are in the best chain alone", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+
+    await expect(checkForReorgs()).resolves.toEqual({ checked: 1, reorged: 0 });
+    expect(mockGetTransaction).not.toHaveBeenCalled();
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.CONFIRMED
+    );
+  });
+
+  it("should detect a payment again when its block is reorganized out", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+
+    chain.set(107, blockAt(107, "f"));
+    mockGetTransaction.mockResolvedValue({
+      txid: txA,
+      confirmations: 0,
+      outputs: [{ address, value: 100000 }],
+    });
+
+    await expect(checkForReorgs("webhook")).resolves.toEqual({
+      checked: 1,
+      reorged: 1,
+    });
+
+    const payment = await getFullPaymentData(address);
+    expect(payment?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+    expect(payment?.confirmations).toBe(0);
+    expect(payment?.history?.at(-1)).toMatchObject({
+      from: PaymentStatus.CONFIRMED,
+      to: PaymentStatus.PAYMENT_DETECTED,
+      source: "webhook",
+      event: PaymentHistoryEvent.REORGED,
+      droppedTransactionIds: [txA],
+    });
+  });
+
+  it("should await payment again when the transaction left the chain", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+
+    // The chain was reorganized to a shorter tip
+    chain.delete(109);
+    chain.delete(108);
+    chain.set(107, blockAt(107, "f"));
+
+    await checkForReorgs();
+
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.AWAITING_PAYMENT
+    );
+  });
+
+  it("should follow a transaction mined again in another block", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+
+    chain.set(107, blockAt(107, "f"));
+    mockGetTransaction.mockResolvedValue({
+      txid: txA,
+      confirmations: 1,
+      blockHeight: 109,
+      blockHash: blockAt(109),
+      outputs: [{ address, value: 100000 }],
+    });
+
+    await checkForReorgs();
+
+    const payment = await getFullPaymentData(address);
+    expect(payment?.status).toBe(PaymentStatus.CONFIRMED);
+    expect(payment?.confirmations).toBe(1);
+    expect(payment?.transactions?.[0]).toMatchObject({
+      blockHash: blockAt(109),
+      blockHeight: 109,
+    });
+  });
+
+  it("should trust the provider's view of the transaction over the block lookup", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+
+    chain.set(107, blockAt(107, "f"));
+    mockGetTransaction.mockResolvedValue({
+      txid: txA,
+      confirmations: 3,
+      blockHeight: 107,
+      blockHash: blockAt(107),
+      outputs: [{ address, value: 100000 }],
+    });
+
+    await expect(checkForReorgs()).resolves.toEqual({ checked: 1, reorged: 0 });
+    expect((await getFullPaymentData(address))?.status).toBe(
+      PaymentStatus.CONFIRMED
+    );
+  });
+
+  it("should not check blocks deeper than the maximum depth", async () => {
+    const { checkForReorgs, REORG_DETECTION_CONFIG } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 109 - REORG_DETECTION_CONFIG.maxDepth);
+
+    await expect(checkForReorgs()).resolves.toEqual({ checked: 0, reorged: 0 });
+    expect(mockGetTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should fetch each block hash once per tip", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await initializePaymentStatus(otherAddress, 0.001);
+    await confirm(address, txA, 105);
+    await confirm(otherAddress, txB, 105);
+
+    await checkForReorgs();
+    await checkForReorgs();
+    // Tip, then block 105 once for both payments, then the tip again
+    expect(mockGetBlockHash.mock.calls).toEqual([[109], [105], [109]]);
+
+    chain.set(110, blockAt(110));
+    await checkForReorgs();
+    expect(mockGetBlockHash.mock.calls.slice(3)).toEqual([[110], [105]]);
+  });
+
+  it("should share a check that is already running", async () => {
+    const { checkForReorgs } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+
+    const [first, second] = await Promise.all([
+      checkForReorgs(),
+      checkForReorgs(),
+    ]);
+
+    expect(first).toBe(second);
+    expect(mockGetTipHeight).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("checkForReorgsOnNewBlock", () => {
+  afterEach(() => {
+    jest.mocked(Date.now).mockRestore();
+  });
+
+  it("should skip checks within the interval of the last one", async () => {
+    const { checkForReorgsOnNewBlock, REORG_DETECTION_CONFIG } =
+      await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+
+    await expect(checkForReorgsOnNewBlock("webhook")).resolves.toEqual({
+      checked: 1,
+      reorged: 0,
+    });
+    await expect(checkForReorgsOnNewBlock("webhook")).resolves.toBeNull();
+
+    clock.mockReturnValue(now + REORG_DETECTION_CONFIG.minNewBlockIntervalMs);
+    await expect(checkForReorgsOnNewBlock("webhook")).resolves.not.toBeNull();
+    expect(mockGetTipHeight).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not hold back the next check after a failed one", async () => {
+    const { checkForReorgsOnNewBlock } = await loadService();
+    await initializePaymentStatus(address, 0.001);
+    await confirm(address, txA, 107);
+    jest.spyOn(Date, "now").mockReturnValue(Date.now());
+    mockGetTipHeight.mockRejectedValueOnce(new Error("Service unavailable"));
+
+    await expect(checkForReorgsOnNewBlock("webhook")).rejects.toThrow(
+      "Service unavailable"
+    );
+    await expect(checkForReorgsOnNewBlock("webhook")).resolves.toEqual({
+      checked: 1,
+      reorged: 0,
+    });
+  });
+});
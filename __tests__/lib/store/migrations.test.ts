@@ -0,0 +1,329 @@
+/**
+ * Payment Schema Migration Tests
+ *
+ * Covers the schema versioning of persisted payment records:
+ * - Individual migrations and version checks
+ * - JSON files written before versioning are migrated on load and rewritten
+ *   in the versioned format
+ * - SQLite databases at `user_version` 0 are migrated on first use
+ * - Dry runs report changes without writing
+ * - Data with a newer schema version is refused and left untouched
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { getStoreConfig } from "@/lib/store/config";
+import { JsonFilePaymentStore } from "@/lib/store/json-file-store";
+import { SqlitePaymentStore } from "@/lib/store/sqlite-store";
+import {
+  getPendingMigrations,
+  migratePaymentRecord,
+  PAYMENT_MIGRATIONS,
+  PAYMENT_SCHEMA_VERSION,
+  UnsupportedSchemaVersionError,
+} from "@/lib/store/migrations";
+import { AddressType, PaymentStatus } from "@/types";
+
+const testAddress1 = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const testAddress2 = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+
+const MIGRATION_DIR = path.join(getStoreConfig().STORE_DIR, "migrations");
+const JSON_FILE = path.join(MIGRATION_DIR, "payments.json");
+const SQLITE_FILE = path.join(MIGRATION_DIR, "payments.db");
+
+// Records as written before schema versioning
+const legacyRecords = {
+  [testAddress1]: {
+    address: testAddress1,
+    status: PaymentStatus.AWAITING_PAYMENT,
+    createdAt: 1_000,
+    derivationIndex: 0,
+    derivationPath: "m/84'/1'/0'/0/0",
+  },
+  [testAddress2]: {
+    address: testAddress2,
+    status: PaymentStatus.CONFIRMED,
+    createdAt: 2_000,
+    lastUpdated: 3_000,
+  },
+};
+
+async function writeJsonFile(contents: unknown): Promise<void> {
+  await fs.mkdir(MIGRATION_DIR, { recursive: true });
+  await fs.writeFile(JSON_FILE, JSON.stringify(contents));
+}
+
+/**
+ * Creates a database laid out like the store before schema versioning
+ */
+function createLegacyDatabase(): void {
+  const db = new Database(SQLITE_FILE);
+  db.exec(`
+    CREATE TABLE payments (
+      address TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_updated INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+  `);
+  const insert = db.prepare(
+    "INSERT INTO payments VALUES (@address, @status, @createdAt, @createdAt, @data)"
+  );
+  for (const record of Object.values(legacyRecords)) {
+    insert.run({ ...record, data: JSON.stringify(record) });
+  }
+  db.close();
+}
+
+function readUserVersion(): number {
+  const db = new Database(SQLITE_FILE, { readonly: true });
+  const version = db.pragma("user_version", { simple: true }) as number;
+  db.close();
+  return version;
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await fs.rm(MIGRATION_DIR, { recursive: true, force: true });
+  await fs.mkdir(MIGRATION_DIR, { recursive: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("payment migrations", () => {
+  it("should be ordered and end at the current schema version", () => {
+    const versions = PAYMENT_MIGRATIONS.map((migration) => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[versions.length - 1]).toBe(PAYMENT_SCHEMA_VERSION);
+  });
+
+  it("should return only migrations above the stored version", () => {
+    expect(getPendingMigrations(1, "test")).toHaveLength(
+      PAYMENT_SCHEMA_VERSION - 1
+    );
+    expect(getPendingMigrations(PAYMENT_SCHEMA_VERSION, "test")).toEqual([]);
+  });
+
+  it("should refuse data from a newer schema version", () => {
+    expect(() =>
+      getPendingMigrations(PAYMENT_SCHEMA_VERSION + 1, "test")
+    ).toThrow(UnsupportedSchemaVersionError);
+  });
+
+  it("should default derived records to P2WPKH and fill lastUpdated", () => {
+    const migrations = getPendingMigrations(1, "test");
+
+    const derived = migratePaymentRecord(
+      legacyRecords[testAddress1],
+      migrations
+    );
+    const imported = migratePaymentRecord(
+      legacyRecords[testAddress2],
+      migrations
+    );
+
+    expect(derived.changed).toBe(true);
+    expect(derived.record).toMatchObject({
+      addressType: AddressType.P2WPKH,
+      lastUpdated: 1_000,
+    });
+    expect(imported.changed).toBe(false);
+    expect(imported.record).not.toHaveProperty("addressType");
+  });
+
+  it("should credit the recorded transaction of funded payments", () => {
+    const migrations = getPendingMigrations(2, "test");
+    const transactionId = "a".repeat(64);
+
+    const funded = migratePaymentRecord(
+      {
+        address: testAddress1,
+        status: PaymentStatus.UNDERPAID,
+        transactionId,
+        confirmations: 2,
+        receivedAmount: 40_000,
+        createdAt: 1_000,
+        lastUpdated: 2_000,
+      },
+      migrations
+    );
+    const doubleSpent = migratePaymentRecord(
+      {
+        address: testAddress2,
+        status: PaymentStatus.ERROR,
+        transactionId,
+        createdAt: 1_000,
+      },
+      migrations
+    );
+
+    expect(funded.record.transactions).toEqual([
+      { transactionId, amount: 40_000, confirmations: 2, firstSeen: 2_000 },
+    ]);
+    expect(migratePaymentRecord(funded.record, migrations).changed).toBe(false);
+    expect(doubleSpent.changed).toBe(false);
+  });
+
+  it("should be idempotent", () => {
+    const migrations = getPendingMigrations(1, "test");
+    const { record } = migratePaymentRecord(
+      legacyRecords[testAddress1],
+      migrations
+    );
+
+    expect(migratePaymentRecord(record, migrations).changed).toBe(false);
+  });
+});
+
+describe("JSON file store schema versioning", () => {
+  it("should migrate a legacy file on load", async () => {
+    await writeJsonFile(legacyRecords);
+    const store = new JsonFilePaymentStore(JSON_FILE);
+
+    const record = await store.getFullPaymentData(testAddress1);
+
+    expect(record?.addressType).toBe(AddressType.P2WPKH);
+    expect(record?.lastUpdated).toBe(1_000);
+  });
+
+  it("should rewrite a legacy file in the versioned format on change", async () => {
+    await writeJsonFile(legacyRecords);
+    const store = new JsonFilePaymentStore(JSON_FILE);
+
+    await store.updatePaymentStatus(testAddress2, (current) => ({
+      ...current,
+      confirmations: 6,
+    }));
+
+    const file = JSON.parse(await fs.readFile(JSON_FILE, "utf-8"));
+    expect(file.schemaVersion).toBe(PAYMENT_SCHEMA_VERSION);
+    expect(Object.keys(file.payments)).toEqual([testAddress1, testAddress2]);
+    expect(file.payments[testAddress1].addressType).toBe(AddressType.P2WPKH);
+  });
+
+  it("should report pending migrations without writing on a dry run", async () => {
+    await writeJsonFile(legacyRecords);
+    const before = await fs.readFile(JSON_FILE, "utf-8");
+    const store = new JsonFilePaymentStore(JSON_FILE);
+
+    const report = await store.migrate({ dryRun: true });
+
+    expect(report).toMatchObject({
+      store: "json",
+      fromVersion: 1,
+      toVersion: PAYMENT_SCHEMA_VERSION,
+      totalRecords: 2,
+      changedRecords: 1,
+      dryRun: true,
+    });
+    expect(report.migrations.map((migration) => migration.version)).toEqual([
+      2, 3,
+    ]);
+    expect(await fs.readFile(JSON_FILE, "utf-8")).toBe(before);
+  });
+
+  it("should write the migrated file when applied", async () => {
+    await writeJsonFile(legacyRecords);
+    const store = new JsonFilePaymentStore(JSON_FILE);
+
+    await store.migrate({ dryRun: false });
+    const report = await store.migrate({ dryRun: true });
+
+    expect(report.fromVersion).toBe(PAYMENT_SCHEMA_VERSION);
+    expect(report.migrations).toEqual([]);
+    const file = JSON.parse(await fs.readFile(JSON_FILE, "utf-8"));
+    expect(file.schemaVersion).toBe(PAYMENT_SCHEMA_VERSION);
+  });
+
+  it("should write new files in the versioned format", async () => {
+    const store = new JsonFilePaymentStore(JSON_FILE);
+
+    await store.initializePaymentStatus({
+      ...legacyRecords[testAddress2],
+      lastUpdated: 2_000,
+    });
+
+    const file = JSON.parse(await fs.readFile(JSON_FILE, "utf-8"));
+    expect(file.schemaVersion).toBe(PAYMENT_SCHEMA_VERSION);
+    expect(file.payments[testAddress2].status).toBe(PaymentStatus.CONFIRMED);
+  });
+
+  it("should refuse a file from a newer schema version and leave it untouched", async () => {
+    const contents = {
+      schemaVersion: PAYMENT_SCHEMA_VERSION + 1,
+      payments: legacyRecords,
+    };
+    await writeJsonFile(contents);
+    const before = await fs.readFile(JSON_FILE, "utf-8");
+    const store = new JsonFilePaymentStore(JSON_FILE);
+
+    await expect(store.getFullPaymentData(testAddress1)).rejects.toThrow(
+      UnsupportedSchemaVersionError
+    );
+    await expect(
+      store.initializePaymentStatus({ ...legacyRecords[testAddress2] })
+    ).rejects.toThrow(UnsupportedSchemaVersionError);
+    await expect(store.migrate({ dryRun: false })).rejects.toThrow(
+      UnsupportedSchemaVersionError
+    );
+    expect(await fs.readFile(JSON_FILE, "utf-8")).toBe(before);
+  });
+});
+
+describe("SQLite store schema versioning", () => {
+  it("should create new databases at the current schema version", async () => {
+    const store = new SqlitePaymentStore(SQLITE_FILE);
+    await store.close();
+
+    expect(readUserVersion()).toBe(PAYMENT_SCHEMA_VERSION);
+  });
+
+  it("should migrate a legacy database on first use", async () => {
+    createLegacyDatabase();
+    const store = new SqlitePaymentStore(SQLITE_FILE);
+
+    const record = await store.getFullPaymentData(testAddress1);
+    await store.close();
+
+    expect(record?.addressType).toBe(AddressType.P2WPKH);
+    expect(readUserVersion()).toBe(PAYMENT_SCHEMA_VERSION);
+  });
+
+  it("should report pending migrations without writing on a dry run", async () => {
+    createLegacyDatabase();
+    const store = new SqlitePaymentStore(SQLITE_FILE);
+
+    const report = await store.migrate({ dryRun: true });
+    await store.close();
+
+    expect(report).toMatchObject({
+      store: "sqlite",
+      fromVersion: 1,
+      totalRecords: 2,
+      changedRecords: 1,
+      dryRun: true,
+    });
+    expect(readUserVersion()).toBe(0);
+  });
+
+  it("should refuse a database from a newer schema version", async () => {
+    const created = new SqlitePaymentStore(SQLITE_FILE);
+    await created.close();
+    const db = new Database(SQLITE_FILE);
+    db.pragma(`user_version = ${PAYMENT_SCHEMA_VERSION + 1}`);
+    db.close();
+
+    const store = new SqlitePaymentStore(SQLITE_FILE);
+    await expect(store.hasPaymentStatus(testAddress1)).rejects.toThrow(
+      UnsupportedSchemaVersionError
+    );
+    await store.close();
+
+    expect(readUserVersion()).toBe(PAYMENT_SCHEMA_VERSION + 1);
+  });
+});
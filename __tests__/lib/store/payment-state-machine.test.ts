@@ -0,0 +1,330 @@
+/**
+ * Payment Status State Machine Tests
+ *
+ * Covers the transition table, the guards on top of it, rollbacks after
+ * dropped transactions and the amount-based classification into UNDERPAID
+ * and OVERPAID.
+ */
+
+import {
+  assertPaymentTransition,
+  canRollBack,
+  canTransition,
+  checkPaymentTransition,
+  FINAL_PAYMENT_STATUSES,
+  meetsConfirmationTarget,
+  PAYMENT_TRANSITIONS,
+  PaymentTransitionError,
+  resolveAmountStatus,
+} from "@/lib/store/payment-state-machine";
+import { PaymentStatus } from "@/types";
+
+const txA = "a".repeat(64);
+const txB = "b".repeat(64);
+
+describe("payment transition table", () => {
+  it("should define transitions for every status", () => {
+    expect(Object.keys(PAYMENT_TRANSITIONS).sort()).toEqual(
+      Object.values(PaymentStatus).sort()
+    );
+  });
+
+  it.each([
+    [PaymentStatus.CONFIRMED, PaymentStatus.PAYMENT_DETECTED],
+    [PaymentStatus.CONFIRMED, PaymentStatus.AWAITING_PAYMENT],
+    [PaymentStatus.ERROR, PaymentStatus.CONFIRMED],
+    [PaymentStatus.OVERPAID, PaymentStatus.CONFIRMED],
+    [PaymentStatus.PAYMENT_DETECTED, PaymentStatus.EXPIRED],
+    [PaymentStatus.EXPIRED, PaymentStatus.PAYMENT_DETECTED],
+    [PaymentStatus.REFUNDED, PaymentStatus.CONFIRMED],
+  ])("should not allow %s -> %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it.each([
+    [PaymentStatus.AWAITING_PAYMENT, PaymentStatus.CONFIRMED],
+    [PaymentStatus.PAYMENT_DETECTED, PaymentStatus.UNDERPAID],
+    [PaymentStatus.UNDERPAID, PaymentStatus.CONFIRMED],
+    [PaymentStatus.CONFIRMED, PaymentStatus.ERROR],
+    [PaymentStatus.AWAITING_PAYMENT, PaymentStatus.EXPIRED],
+    [PaymentStatus.OVERPAID, PaymentStatus.REFUNDED],
+    [PaymentStatus.EXPIRED, PaymentStatus.CONFIRMED],
+    [PaymentStatus.CONFIRMED, PaymentStatus.OVERPAID],
+  ])("should allow %s -> %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it("should never leave a final status", () => {
+    for (const status of FINAL_PAYMENT_STATUSES) {
+      expect(PAYMENT_TRANSITIONS[status]).toEqual([]);
+    }
+  });
+});
+
+describe("canRollBack", () => {
+  it.each([
+    [PaymentStatus.PAYMENT_DETECTED, PaymentStatus.AWAITING_PAYMENT],
+    [PaymentStatus.CONFIRMED, PaymentStatus.PAYMENT_DETECTED],
+    [PaymentStatus.OVERPAID, PaymentStatus.CONFIRMED],
+    [PaymentStatus.CONFIRMED, PaymentStatus.UNDERPAID],
+  ])("should roll back %s -> %s", (from, to) => {
+    expect(canRollBack(from, to)).toBe(true);
+  });
+
+  it.each([
+    [PaymentStatus.EXPIRED, PaymentStatus.AWAITING_PAYMENT],
+    [PaymentStatus.REFUNDED, PaymentStatus.AWAITING_PAYMENT],
+    [PaymentStatus.ERROR, PaymentStatus.PAYMENT_DETECTED],
+    [PaymentStatus.CONFIRMED, PaymentStatus.EXPIRED],
+  ])("should not roll back %s -> %s", (from, to) => {
+    expect(canRollBack(from, to)).toBe(false);
+  });
+});
+
+describe("checkPaymentTransition", () => {
+  it("should allow more confirmations of the same transaction", () => {
+    expect(
+      checkPaymentTransition(
+        {
+          status: PaymentStatus.CONFIRMED,
+          transactionId: txA,
+          confirmations: 1,
+        },
+        {
+          status: PaymentStatus.CONFIRMED,
+          transactionId: txA,
+          confirmations: 2,
+        }
+      )
+    ).toBeNull();
+  });
+
+  it("should reject fewer confirmations of the same transaction", () => {
+    const rejection = checkPaymentTransition(
+      { status: PaymentStatus.CONFIRMED, transactionId: txA, confirmations: 3 },
+      { status: PaymentStatus.CONFIRMED, transactionId: txA, confirmations: 1 }
+    );
+
+    expect(rejection).toBeInstanceOf(PaymentTransitionError);
+    expect(rejection?.reason).toBe("confirmations-decreased");
+  });
+
+  it("should allow moving backwards and fewer confirmations in a rollback", () => {
+    const current = {
+      status: PaymentStatus.CONFIRMED,
+      transactionId: txA,
+      confirmations: 1,
+    };
+    const next = {
+      status: PaymentStatus.PAYMENT_DETECTED,
+      transactionId: txA,
+      confirmations: 0,
+    };
+
+    expect(checkPaymentTransition(current, next)?.reason).toBe(
+      "transition-not-allowed"
+    );
+    expect(checkPaymentTransition(current, { ...next, rollback: true })).toBe(
+      null
+    );
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.REFUNDED, transactionId: txA },
+        { ...next, rollback: true }
+      )?.reason
+    ).toBe("transition-not-allowed");
+  });
+
+  it("should allow a different transaction with fewer confirmations", () => {
+    expect(
+      checkPaymentTransition(
+        {
+          status: PaymentStatus.PAYMENT_DETECTED,
+          transactionId: txA,
+          confirmations: 0,
+        },
+        {
+          status: PaymentStatus.PAYMENT_DETECTED,
+          transactionId: txB,
+          confirmations: 0,
+        }
+      )
+    ).toBeNull();
+  });
+
+  it("should require a confirmation for CONFIRMED", () => {
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.AWAITING_PAYMENT },
+        {
+          status: PaymentStatus.CONFIRMED,
+          transactionId: txA,
+          confirmations: 0,
+        }
+      )?.reason
+    ).toBe("confirmations-required");
+  });
+
+  it("should require the payment's required confirmations for CONFIRMED", () => {
+    const target = {
+      status: PaymentStatus.CONFIRMED,
+      transactionId: txA,
+      requiredConfirmations: 3,
+    };
+
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.PAYMENT_DETECTED },
+        { ...target, confirmations: 2 }
+      )?.message
+    ).toBe("CONFIRMED requires 3 confirmations, got 2");
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.PAYMENT_DETECTED },
+        { ...target, confirmations: 3 }
+      )
+    ).toBeNull();
+  });
+
+  it("should require the payment's required confirmations for OVERPAID", () => {
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.PAYMENT_DETECTED },
+        {
+          status: PaymentStatus.OVERPAID,
+          transactionId: txA,
+          confirmations: 0,
+        }
+      )?.message
+    ).toBe("OVERPAID requires 1 confirmation, got 0");
+  });
+
+  it("should only accept unconfirmed funds that cannot be replaced", () => {
+    const target = {
+      status: PaymentStatus.CONFIRMED,
+      transactionId: txA,
+      confirmations: 0,
+      requiredConfirmations: 0,
+    };
+
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.AWAITING_PAYMENT },
+        { ...target, acceptsUnconfirmed: true }
+      )
+    ).toBeNull();
+    expect(
+      checkPaymentTransition({ status: PaymentStatus.AWAITING_PAYMENT }, target)
+        ?.message
+    ).toBe("CONFIRMED requires 1 confirmation, got 0");
+  });
+
+  it("should only refund payments that received funds", () => {
+    expect(
+      checkPaymentTransition(
+        { status: PaymentStatus.EXPIRED },
+        { status: PaymentStatus.REFUNDED, confirmations: 0 }
+      )?.reason
+    ).toBe("nothing-to-refund");
+  });
+
+  it("should only accept a payment after expiry on manual review", () => {
+    const expired = {
+      status: PaymentStatus.EXPIRED,
+      transactionId: txA,
+      confirmations: 1,
+    };
+    const confirmed = {
+      status: PaymentStatus.CONFIRMED,
+      transactionId: txA,
+      confirmations: 1,
+    };
+
+    expect(
+      checkPaymentTransition(expired, { ...confirmed, source: "webhook" })
+        ?.reason
+    ).toBe("review-required");
+    expect(checkPaymentTransition(expired, confirmed)?.reason).toBe(
+      "review-required"
+    );
+    expect(
+      checkPaymentTransition(expired, { ...confirmed, source: "manual" })
+    ).toBeNull();
+  });
+
+  it("should describe disallowed transitions", () => {
+    expect(() =>
+      assertPaymentTransition(
+        { status: PaymentStatus.ERROR, transactionId: txA, confirmations: 1 },
+        {
+          status: PaymentStatus.CONFIRMED,
+          transactionId: txA,
+          confirmations: 2,
+        }
+      )
+    ).toThrow("Payment cannot move from ERROR to CONFIRMED");
+  });
+});
+
+describe("meetsConfirmationTarget", () => {
+  it.each([
+    [0, undefined, undefined, false],
+    [1, undefined, undefined, true],
+    [2, 3, false, false],
+    [3, 3, false, true],
+    [0, 0, false, false],
+    [0, 0, true, true],
+    [0, 1, true, false],
+  ])(
+    "should be %p confirmations of %p required (unconfirmed accepted: %p) -> %p",
+    (confirmations, required, acceptsUnconfirmed, expected) => {
+      expect(
+        meetsConfirmationTarget(confirmations, required, acceptsUnconfirmed)
+      ).toBe(expected);
+    }
+  );
+});
+
+describe("resolveAmountStatus", () => {
+  it("should classify payments by the amount received", () => {
+    expect(
+      resolveAmountStatus(PaymentStatus.PAYMENT_DETECTED, 0.001, 50_000)
+    ).toBe(PaymentStatus.UNDERPAID);
+    expect(resolveAmountStatus(PaymentStatus.CONFIRMED, 0.001, 150_000)).toBe(
+      PaymentStatus.OVERPAID
+    );
+    expect(resolveAmountStatus(PaymentStatus.CONFIRMED, 0.001, 100_000)).toBe(
+      PaymentStatus.CONFIRMED
+    );
+  });
+
+  it("should only classify confirmed payments as overpaid", () => {
+    expect(
+      resolveAmountStatus(PaymentStatus.PAYMENT_DETECTED, 0.001, 150_000)
+    ).toBe(PaymentStatus.PAYMENT_DETECTED);
+  });
+
+  it("should accept differences within the tolerance", () => {
+    expect(
+      resolveAmountStatus(PaymentStatus.CONFIRMED, 0.001, 99_500, 500)
+    ).toBe(PaymentStatus.CONFIRMED);
+    expect(
+      resolveAmountStatus(PaymentStatus.CONFIRMED, 0.001, 100_500, 500)
+    ).toBe(PaymentStatus.CONFIRMED);
+    expect(
+      resolveAmountStatus(PaymentStatus.CONFIRMED, 0.001, 99_499, 500)
+    ).toBe(PaymentStatus.UNDERPAID);
+  });
+
+  it("should leave payments without both amounts and errors unchanged", () => {
+    expect(
+      resolveAmountStatus(PaymentStatus.PAYMENT_DETECTED, undefined, 50_000)
+    ).toBe(PaymentStatus.PAYMENT_DETECTED);
+    expect(resolveAmountStatus(PaymentStatus.CONFIRMED, 0.001)).toBe(
+      PaymentStatus.CONFIRMED
+    );
+    expect(resolveAmountStatus(PaymentStatus.ERROR, 0.001, 50_000)).toBe(
+      PaymentStatus.ERROR
+    );
+  });
+});
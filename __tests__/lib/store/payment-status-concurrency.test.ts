@@ -0,0 +1,247 @@
+/**
+ * Payment Status Store Concurrency Tests
+ *
+ * Hammers the store with parallel mutations to check that read-modify-write
+ * cycles never overwrite each other:
+ * - Parallel updates of many payments all persist
+ * - Parallel updates of one payment end in the highest state
+ * - Parallel claims of one webhook event let exactly one through
+ * - A lock held by another process delays writes until it is released
+ * - Held locks are kept fresh, so long operations do not lose them
+ * - A holder whose lock was broken leaves the new holder's lock in place
+ * - Stale locks and interrupted writes do not corrupt the store
+ */
+
+import { promises as fs } from "fs";
+import {
+  claimWebhookEvent,
+  clearAllPaymentStatuses,
+  getAllPaymentStatuses,
+  getPaymentStatus,
+  initializePaymentStatus,
+  isWebhookEventProcessed,
+  recordSuspiciousEvent,
+  recordWebhookEvent,
+  updatePaymentStatus,
+} from "@/lib/store/payment-status";
+import { FILE_LOCK_CONFIG, withFileLock } from "@/lib/store/file-lock";
+import { getStoreConfig } from "@/lib/store/config";
+import { PaymentStatus } from "@/types";
+
+const PARALLELISM = 40;
+const testAddress = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const testTransactionId = "ab".repeat(32);
+
+// Distinct store keys; the store does not validate addresses
+const addressAt = (i: number) => `${testAddress}-${i}`;
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  await clearAllPaymentStatuses();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("Payment Status Store concurrency", () => {
+  it("should keep every payment initialized in parallel", async () => {
+    await Promise.all(
+      Array.from({ length: PARALLELISM }, (_, i) =>
+        initializePaymentStatus(addressAt(i), 0.001)
+      )
+    );
+
+    expect(await getAllPaymentStatuses()).toHaveLength(PARALLELISM);
+  });
+
+  it("should apply parallel updates of different payments", async () => {
+    for (let i = 0; i < PARALLELISM; i++) {
+      await initializePaymentStatus(addressAt(i), 0.001);
+    }
+
+    const results = await Promise.all(
+      Array.from({ length: PARALLELISM }, (_, i) =>
+        updatePaymentStatus(addressAt(i), PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: i + 1,
+        })
+      )
+    );
+
+    expect(results.every(Boolean)).toBe(true);
+    const statuses = await getAllPaymentStatuses();
+    expect(statuses).toHaveLength(PARALLELISM);
+    for (const status of statuses) {
+      const i = Number(status.address.split("-")[1]);
+      expect(status.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status.confirmations).toBe(i + 1);
+    }
+  });
+
+  it("should end in the highest state when one payment is hammered", async () => {
+    await initializePaymentStatus(testAddress, 0.001);
+
+    // Confirmation counts arrive in shuffled order
+    const confirmations = Array.from({ length: PARALLELISM }, (_, i) =>
+      i % 2 === 0 ? i : PARALLELISM - i
+    );
+    await Promise.all([
+      ...confirmations.map((count) =>
+        updatePaymentStatus(
+          testAddress,
+          count === 0
+            ? PaymentStatus.PAYMENT_DETECTED
+            : PaymentStatus.CONFIRMED,
+          {
+            transactionId: testTransactionId,
+            confirmations: count,
+          }
+        )
+      ),
+      ...confirmations.map((count) =>
+        recordSuspiciousEvent(testAddress, {
+          detectedAt: Date.now(),
+          source: "test",
+          transactionId: testTransactionId,
+          reason: `Event ${count}`,
+          reported: { confirmations: count },
+        })
+      ),
+    ]);
+
+    const [payment] = await getAllPaymentStatuses();
+    expect(payment.status).toBe(PaymentStatus.CONFIRMED);
+    expect(payment.confirmations).toBe(Math.max(...confirmations));
+    expect(payment.suspiciousEvents).toHaveLength(PARALLELISM);
+  });
+
+  it("should record every webhook event processed in parallel", async () => {
+    await Promise.all(
+      Array.from({ length: PARALLELISM }, (_, i) =>
+        recordWebhookEvent(`event-${i}`, "tx-confirmation")
+      )
+    );
+
+    for (let i = 0; i < PARALLELISM; i++) {
+      expect(await isWebhookEventProcessed(`event-${i}`)).toBe(true);
+    }
+  });
+
+  it("should let one of many parallel claims of an event through", async () => {
+    const claims = await Promise.all(
+      Array.from({ length: PARALLELISM }, () =>
+        claimWebhookEvent("event-1", "tx-confirmation")
+      )
+    );
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("should wait for a lock held by another process", async () => {
+    await initializePaymentStatus(testAddress, 0.001);
+    const lockPath = `${getStoreConfig().STORE_FILE}.lock`;
+    await fs.writeFile(lockPath, "12345\n");
+
+    let settled = false;
+    const update = updatePaymentStatus(
+      testAddress,
+      PaymentStatus.PAYMENT_DETECTED,
+      {
+        transactionId: testTransactionId,
+      }
+    ).then((applied) => {
+      settled = true;
+      return applied;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(settled).toBe(false);
+    expect((await getPaymentStatus(testAddress))?.status).toBe(
+      PaymentStatus.AWAITING_PAYMENT
+    );
+
+    await fs.rm(lockPath);
+    expect(await update).toBe(true);
+    expect((await getPaymentStatus(testAddress))?.status).toBe(
+      PaymentStatus.PAYMENT_DETECTED
+    );
+  });
+
+  it("should break a lock left behind by a crashed process", async () => {
+    await initializePaymentStatus(testAddress, 0.001);
+    const lockPath = `${getStoreConfig().STORE_FILE}.lock`;
+    await fs.writeFile(lockPath, "12345\n");
+    const abandonedAt = new Date(Date.now() - FILE_LOCK_CONFIG.staleMs - 1000);
+    await fs.utimes(lockPath, abandonedAt, abandonedAt);
+
+    expect(
+      await updatePaymentStatus(testAddress, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+      })
+    ).toBe(true);
+    await expect(fs.access(lockPath)).rejects.toThrow();
+    const files = await fs.readdir(getStoreConfig().STORE_DIR);
+    expect(files.filter((file) => file.endsWith(".stale"))).toEqual([]);
+  });
+
+  it("should keep a lock fresh while it is held", async () => {
+    // Only the refresh interval is faked; file operations stay real
+    jest.useFakeTimers({ doNotFake: ["setTimeout", "setImmediate"] });
+    const lockPath = `${getStoreConfig().STORE_FILE}.lock`;
+    const abandonedAt = new Date(Date.now() - FILE_LOCK_CONFIG.staleMs - 1000);
+
+    try {
+      await withFileLock(getStoreConfig().STORE_FILE, async () => {
+        // As if the operation had run for longer than the stale age
+        await fs.utimes(lockPath, abandonedAt, abandonedAt);
+        jest.advanceTimersByTime(FILE_LOCK_CONFIG.refreshMs);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const { mtimeMs } = await fs.stat(lockPath);
+        expect(Date.now() - mtimeMs).toBeLessThan(FILE_LOCK_CONFIG.staleMs);
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should not remove a lock taken over while it was held", async () => {
+    const lockPath = `${getStoreConfig().STORE_FILE}.lock`;
+
+    try {
+      await withFileLock(getStoreConfig().STORE_FILE, async () => {
+        // Broken as stale during a stall and taken by another process
+        await fs.rm(lockPath);
+        await fs.writeFile(lockPath, "12345 other-holder\n");
+      });
+
+      expect(await fs.readFile(lockPath, "utf-8")).toBe("12345 other-holder\n");
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Lock was broken while held"),
+        lockPath
+      );
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  });
+
+  it("should leave no lock or temporary files behind", async () => {
+    await Promise.all(
+      Array.from({ length: PARALLELISM }, (_, i) =>
+        initializePaymentStatus(addressAt(i), 0.001)
+      )
+    );
+
+    const files = await fs.readdir(getStoreConfig().STORE_DIR);
+    expect(
+      files.filter(
+        (file) =>
+          file.endsWith(".lock") ||
+          file.endsWith(".tmp") ||
+          file.endsWith(".released")
+      )
+    ).toEqual([]);
+  });
+});
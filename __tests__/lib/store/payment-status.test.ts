@@ -19,8 +19,31 @@ import {
   getAllPaymentStatuses,
   getStoreStats,
   cleanupOldEntries,
+  getFullPaymentData,
+  getPaymentHistory,
+  transitionPaymentStatus,
+  recordEvictedTransaction,
+  recordReorgedTransactions,
+  expireOverduePayments,
+  getLatePayments,
+  reserveNextAddressIndex,
+  allocateAddressIndex,
+  getAddressAllocatorState,
+  claimWebhookEvent,
+  getWebhookEventKey,
+  isWebhookEventProcessed,
+  recordWebhookEvent,
+  releaseWebhookEvent,
+  releaseRecycledAddress,
+  MAX_ARCHIVED_REQUESTS,
+  MAX_SUSPICIOUS_EVENTS,
+  recordSuspiciousEvent,
+  WEBHOOK_EVENT_RETENTION_MS,
 } from "@/lib/store/payment-status";
-import { PaymentStatus } from "@/types";
+import { PaymentTransitionError } from "@/lib/store/payment-state-machine";
+import { AddressType, PaymentHistoryEvent, PaymentStatus } from "@/types";
+import { promises as fs } from "fs";
+import path from "path";
 
 describe("Payment Status Store", () => {
   // Test Bitcoin addresses
@@ -63,18 +86,408 @@ describe("Payment Status Store", () => {
     });
   });
 
+  describe("xpub derivation metadata", () => {
+    it("should store derivation path and index with the payment", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/4",
+        derivationIndex: 4,
+      });
+
+      const data = await getFullPaymentData(testAddress1);
+      expect(data?.derivationPath).toBe("m/84'/1'/0'/0/4");
+      expect(data?.derivationIndex).toBe(4);
+    });
+
+    it("should not expose derivation metadata in the client response", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/4",
+        derivationIndex: 4,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status).not.toHaveProperty("derivationPath");
+      expect(status).not.toHaveProperty("derivationIndex");
+    });
+  });
+
+  describe("reserveNextAddressIndex", () => {
+    it("should hand out sequential indexes", async () => {
+      const first = await reserveNextAddressIndex();
+      const second = await reserveNextAddressIndex();
+
+      expect(second).toBe(first + 1);
+    });
+
+    it("should not reset the index when payment statuses are cleared", async () => {
+      const before = await reserveNextAddressIndex();
+      await clearAllPaymentStatuses();
+      const after = await reserveNextAddressIndex();
+
+      expect(after).toBeGreaterThan(before);
+    });
+
+    it("should never hand out the same index to concurrent requests", async () => {
+      const indexes = await Promise.all(
+        Array.from({ length: 10 }, () => reserveNextAddressIndex())
+      );
+
+      expect(new Set(indexes).size).toBe(10);
+      const sorted = [...indexes].sort((a, b) => a - b);
+      expect(sorted[9] - sorted[0]).toBe(9);
+    });
+  });
+
+  describe("allocateAddressIndex", () => {
+    const farPast = 0;
+
+    it("should allocate new indexes until the gap limit is reached", async () => {
+      const { unusedCount } = await getAddressAllocatorState();
+      const gapLimit = unusedCount + 2;
+
+      const first = await allocateAddressIndex({ gapLimit, recycleCreatedBefore: farPast });
+      const second = await allocateAddressIndex({ gapLimit, recycleCreatedBefore: farPast });
+      const third = await allocateAddressIndex({ gapLimit, recycleCreatedBefore: farPast });
+
+      expect(first.kind).toBe("new");
+      expect(second.kind).toBe("new");
+      expect(third.kind).toBe("gap-limit-reached");
+      if (third.kind === "gap-limit-reached") {
+        expect(third.state.unusedCount).toBe(gapLimit);
+      }
+    });
+
+    it("should close the gap when a derived address receives a payment", async () => {
+      const allocation = await allocateAddressIndex({
+        gapLimit: Number.MAX_SAFE_INTEGER,
+        recycleCreatedBefore: farPast,
+      });
+      expect(allocation.kind).toBe("new");
+      const index = allocation.kind === "new" ? allocation.index : -1;
+
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: `m/84'/1'/0'/0/${index}`,
+        derivationIndex: index,
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+      });
+
+      const state = await getAddressAllocatorState();
+      expect(state.highestUsedIndex).toBe(index);
+      expect(state.unusedCount).toBe(0);
+      expect(state.nextAddressIndex).toBe(index + 1);
+    });
+
+    it("should recycle the lowest expired never-funded derived address", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+      });
+      await initializePaymentStatus(testAddress2, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/3",
+        derivationIndex: 3,
+      });
+
+      const allocation = await allocateAddressIndex({
+        gapLimit: 0,
+        recycleCreatedBefore: Date.now() + 1000,
+      });
+
+      expect(allocation).toEqual({
+        kind: "recycled",
+        index: 3,
+        address: testAddress2,
+        previous: expect.objectContaining({
+          address: testAddress2,
+          derivationIndex: 3,
+        }),
+      });
+    });
+
+    it("should archive the previous request of a recycled address", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, "hook-1", {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+        webhookIds: ["hook-1"],
+        webhookSecret: "old-secret",
+      });
+      const { createdAt } = (await getFullPaymentData(testAddress1))!;
+
+      const allocation = await allocateAddressIndex({
+        gapLimit: 0,
+        recycleCreatedBefore: Date.now() + 1000,
+      });
+      if (allocation.kind !== "recycled") {
+        throw new Error(`Expected a recycled address, got ${allocation.kind}`);
+      }
+      // The claim does not change what is archived
+      expect(allocation.previous.createdAt).toBe(createdAt);
+
+      await initializePaymentStatus(testAddress1, 0.002, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+        previousPayment: allocation.previous,
+      });
+
+      const payment = await getFullPaymentData(testAddress1);
+      expect(payment?.expectedAmount).toBe(0.002);
+      expect(payment?.webhookSecret).toBeUndefined();
+      expect(payment?.previousRequests).toEqual([
+        {
+          status: PaymentStatus.AWAITING_PAYMENT,
+          expectedAmount: 0.001,
+          createdAt,
+          webhookIds: ["hook-1"],
+          recycledAt: payment?.createdAt,
+        },
+      ]);
+    });
+
+    it("should keep the newest archived requests", async () => {
+      const previous = {
+        address: testAddress1,
+        status: PaymentStatus.EXPIRED,
+        createdAt: 1_000,
+        lastUpdated: 1_000,
+        previousRequests: Array.from(
+          { length: MAX_ARCHIVED_REQUESTS },
+          (_, i) => ({
+            status: PaymentStatus.EXPIRED,
+            createdAt: i,
+            recycledAt: i + 1,
+          })
+        ),
+      };
+
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        previousPayment: previous,
+      });
+
+      const archived = (await getFullPaymentData(testAddress1))
+        ?.previousRequests;
+      expect(archived).toHaveLength(MAX_ARCHIVED_REQUESTS);
+      expect(archived?.[0].createdAt).toBe(1);
+      expect(archived?.at(-1)?.createdAt).toBe(1_000);
+    });
+
+    it("should give a recycled address back when its request fails", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+      });
+      const cutoff = Date.now() + 1000;
+
+      const claimed = await allocateAddressIndex({
+        gapLimit: 0,
+        recycleCreatedBefore: cutoff,
+      });
+      if (claimed.kind !== "recycled") {
+        throw new Error(`Expected a recycled address, got ${claimed.kind}`);
+      }
+      expect(await releaseRecycledAddress(claimed.previous)).toBe(true);
+
+      expect(await getFullPaymentData(testAddress1)).toEqual(claimed.previous);
+      await expect(
+        allocateAddressIndex({ gapLimit: 0, recycleCreatedBefore: cutoff })
+      ).resolves.toMatchObject({ kind: "recycled", address: testAddress1 });
+    });
+
+    it("should not give back a recycled address that was funded meanwhile", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+      });
+      const claimed = await allocateAddressIndex({
+        gapLimit: 0,
+        recycleCreatedBefore: Date.now() + 1000,
+      });
+      if (claimed.kind !== "recycled") {
+        throw new Error(`Expected a recycled address, got ${claimed.kind}`);
+      }
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+      });
+
+      expect(await releaseRecycledAddress(claimed.previous)).toBe(false);
+      expect((await getFullPaymentData(testAddress1))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+    });
+
+    it("should not recycle the same address twice", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+      });
+
+      const cutoff = Date.now() + 1;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const [first, second] = await Promise.all([
+        allocateAddressIndex({ gapLimit: 0, recycleCreatedBefore: cutoff }),
+        allocateAddressIndex({ gapLimit: 0, recycleCreatedBefore: cutoff }),
+      ]);
+
+      expect(first.kind).toBe("recycled");
+      expect(second.kind).toBe("gap-limit-reached");
+    });
+
+    it("should not recycle funded or recent addresses", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+      });
+      await initializePaymentStatus(testAddress2, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/8",
+        derivationIndex: 8,
+      });
+
+      const allocation = await allocateAddressIndex({
+        gapLimit: 0,
+        recycleCreatedBefore: farPast,
+      });
+
+      expect(allocation.kind).toBe("gap-limit-reached");
+    });
+
+    it("should recycle expired addresses but not requests that are still open", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/3",
+        derivationIndex: 3,
+        expiresAt: Date.now() + 60 * 1000,
+      });
+      await initializePaymentStatus(testAddress2, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/7",
+        derivationIndex: 7,
+        expiresAt: Date.now() - 1,
+      });
+      await expireOverduePayments();
+
+      const allocation = await allocateAddressIndex({
+        gapLimit: 0,
+        recycleCreatedBefore: Date.now() + 1000,
+      });
+
+      expect(allocation).toEqual({
+        kind: "recycled",
+        index: 7,
+        address: testAddress2,
+        previous: expect.objectContaining({ status: PaymentStatus.EXPIRED }),
+      });
+    });
+  });
+
+  describe("per address type accounts", () => {
+    it("should keep separate indexes per address type", async () => {
+      const taprootBefore = await getAddressAllocatorState(AddressType.P2TR);
+      const segwitBefore = await getAddressAllocatorState(AddressType.P2WPKH);
+
+      const index = await reserveNextAddressIndex(AddressType.P2TR);
+
+      expect(index).toBe(taprootBefore.nextAddressIndex);
+      expect(
+        (await getAddressAllocatorState(AddressType.P2TR)).nextAddressIndex
+      ).toBe(index + 1);
+      expect(await getAddressAllocatorState(AddressType.P2WPKH)).toEqual(
+        segwitBefore
+      );
+    });
+
+    it("should only recycle addresses of the requested type", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: "m/84'/1'/0'/0/2",
+        derivationIndex: 2,
+      });
+
+      const taproot = await allocateAddressIndex({
+        gapLimit: Number.MAX_SAFE_INTEGER,
+        recycleCreatedBefore: Date.now() + 1000,
+        addressType: AddressType.P2TR,
+      });
+      const segwit = await allocateAddressIndex({
+        gapLimit: Number.MAX_SAFE_INTEGER,
+        recycleCreatedBefore: Date.now() + 1000,
+        addressType: AddressType.P2WPKH,
+      });
+
+      expect(taproot.kind).toBe("new");
+      expect(segwit).toEqual({
+        kind: "recycled",
+        index: 2,
+        address: testAddress1,
+        previous: expect.objectContaining({ address: testAddress1 }),
+      });
+    });
+
+    it("should close the gap of the funded address's own account", async () => {
+      const index = await reserveNextAddressIndex(AddressType.P2PKH);
+      const segwitBefore = await getAddressAllocatorState(AddressType.P2WPKH);
+
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        derivationPath: `m/44'/1'/0'/0/${index}`,
+        derivationIndex: index,
+        addressType: AddressType.P2PKH,
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+      });
+
+      expect(
+        (await getAddressAllocatorState(AddressType.P2PKH)).highestUsedIndex
+      ).toBe(index);
+      expect(await getAddressAllocatorState(AddressType.P2WPKH)).toEqual(
+        segwitBefore
+      );
+      expect((await getFullPaymentData(testAddress1))?.addressType).toBe(
+        AddressType.P2PKH
+      );
+    });
+
+    it("should migrate wallet state written before address types existed", async () => {
+      const walletStateFile = path.join(
+        process.cwd(),
+        ".payment-store-test",
+        `worker-${process.env.JEST_WORKER_ID || "main"}`,
+        "wallet-state.json"
+      );
+      await reserveNextAddressIndex(); // ensure the state file exists
+      const original = await fs.readFile(walletStateFile, "utf-8");
+
+      try {
+        await fs.writeFile(
+          walletStateFile,
+          JSON.stringify({ nextAddressIndex: 42, highestUsedIndex: 30 })
+        );
+
+        expect(await getAddressAllocatorState(AddressType.P2WPKH)).toEqual({
+          nextAddressIndex: 42,
+          highestUsedIndex: 30,
+          unusedCount: 11,
+        });
+        expect(await reserveNextAddressIndex(AddressType.P2TR)).toBe(0);
+        expect(await reserveNextAddressIndex()).toBe(42);
+      } finally {
+        await fs.writeFile(walletStateFile, original);
+      }
+    });
+  });
+
   describe("updatePaymentStatus", () => {
     it("should update status to PAYMENT_DETECTED", async () => {
       await initializePaymentStatus(testAddress1);
       
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.PAYMENT_DETECTED,
-        testTransactionId,
-        0,
-        100000, // 0.001 BTC in satoshis
-        95
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 100000, // 0.001 BTC in satoshis
+        confidence: 95,
+      });
 
       const status = await getPaymentStatus(testAddress1);
       expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
@@ -85,12 +498,10 @@ describe("Payment Status Store", () => {
     it("should update status to CONFIRMED", async () => {
       await initializePaymentStatus(testAddress1);
       
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.CONFIRMED,
-        testTransactionId,
-        3
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 3,
+      });
 
       const status = await getPaymentStatus(testAddress1);
       expect(status?.status).toBe(PaymentStatus.CONFIRMED);
@@ -100,15 +511,11 @@ describe("Payment Status Store", () => {
     it("should handle ERROR status with double spend", async () => {
       await initializePaymentStatus(testAddress1);
       
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.ERROR,
-        testTransactionId,
-        0,
-        undefined,
-        undefined,
-        true
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.ERROR, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        isDoubleSpend: true,
+      });
 
       const status = await getPaymentStatus(testAddress1);
       expect(status?.status).toBe(PaymentStatus.ERROR);
@@ -118,11 +525,9 @@ describe("Payment Status Store", () => {
     it("should handle ERROR status without double spend", async () => {
       await initializePaymentStatus(testAddress1);
       
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.ERROR,
-        testTransactionId
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.ERROR, {
+        transactionId: testTransactionId,
+      });
 
       const status = await getPaymentStatus(testAddress1);
       expect(status?.status).toBe(PaymentStatus.ERROR);
@@ -131,12 +536,10 @@ describe("Payment Status Store", () => {
 
     it("should not create new entry if address doesn't exist", async () => {
       // Update without initialization should not create new entry
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.PAYMENT_DETECTED,
-        testTransactionId,
-        0
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+      });
 
       const status = await getPaymentStatus(testAddress1);
       expect(status).toBeNull();
@@ -150,14 +553,1010 @@ describe("Payment Status Store", () => {
       // Wait a bit to ensure timestamp difference
       await new Promise(resolve => setTimeout(resolve, 10));
       
-      await updatePaymentStatus(
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+      });
+
+      const updatedStatus = await getPaymentStatus(testAddress1);
+      expect(updatedStatus?.lastUpdated).toBeGreaterThan(initialTimestamp!);
+    });
+
+    it("should ignore confirmations arriving out of order", async () => {
+      await initializePaymentStatus(testAddress1);
+
+      await expect(
+        updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: 3,
+        })
+      ).resolves.toBe(true);
+      await expect(
+        updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: 1,
+        })
+      ).resolves.toBe(false);
+
+      expect((await getPaymentStatus(testAddress1))?.confirmations).toBe(3);
+    });
+
+    it("should never move a payment to an earlier status", async () => {
+      await initializePaymentStatus(testAddress1);
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+      });
+
+      await expect(
+        updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+          transactionId: testTransactionId,
+          confirmations: 0,
+        })
+      ).resolves.toBe(false);
+      expect((await getPaymentStatus(testAddress1))?.status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+
+      // Moving forward, including to ERROR, is still allowed
+      await expect(
+        updatePaymentStatus(testAddress1, PaymentStatus.ERROR, {
+          transactionId: testTransactionId,
+          confirmations: 1,
+        })
+      ).resolves.toBe(true);
+      await expect(
+        updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: 2,
+        })
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe("payment state machine", () => {
+    it("should mark payments below the expected amount as underpaid", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 40000,
+      });
+      expect((await getPaymentStatus(testAddress1))?.status).toBe(
+        PaymentStatus.UNDERPAID
+      );
+
+      // Confirmations keep being tracked while underpaid
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 40000,
+      });
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.UNDERPAID);
+      expect(status?.confirmations).toBe(1);
+    });
+
+    it("should mark payments above the expected amount as overpaid", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 2,
+        receivedAmount: 250000,
+      });
+
+      expect((await getPaymentStatus(testAddress1))?.status).toBe(
+        PaymentStatus.OVERPAID
+      );
+    });
+
+    it("should keep funds received after expiry on the expired payment", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      const expired = await transitionPaymentStatus(
+        testAddress1,
+        PaymentStatus.EXPIRED
+      );
+      expect(expired?.status).toBe(PaymentStatus.EXPIRED);
+
+      await expect(
+        updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+          transactionId: testTransactionId,
+          confirmations: 0,
+          receivedAmount: 100000,
+        })
+      ).resolves.toBe(true);
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.EXPIRED);
+      expect(status?.latePayment).toBe(true);
+      expect(status?.transactionId).toBe(testTransactionId);
+      expect((await getPaymentHistory(testAddress1))?.[0]).toMatchObject({
+        from: PaymentStatus.AWAITING_PAYMENT,
+        to: PaymentStatus.EXPIRED,
+        source: "manual",
+      });
+    });
+
+    it("should refund a received payment", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 250000,
+      });
+
+      const refunded = await transitionPaymentStatus(
+        testAddress1,
+        PaymentStatus.REFUNDED,
+        { message: "Overpayment returned" }
+      );
+
+      expect(refunded?.status).toBe(PaymentStatus.REFUNDED);
+      expect(refunded?.transactionId).toBe(testTransactionId);
+      expect(refunded?.errorMessage).toBe("Overpayment returned");
+    });
+
+    it("should reject disallowed manual transitions with a typed error", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      const rejection = transitionPaymentStatus(
+        testAddress1,
+        PaymentStatus.REFUNDED
+      );
+
+      await expect(rejection).rejects.toThrow(PaymentTransitionError);
+      await expect(rejection).rejects.toMatchObject({
+        reason: "transition-not-allowed",
+        from: PaymentStatus.AWAITING_PAYMENT,
+        to: PaymentStatus.REFUNDED,
+      });
+      expect((await getPaymentStatus(testAddress1))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+    });
+
+    it("should return null when moving an unknown payment", async () => {
+      await expect(
+        transitionPaymentStatus(testAddress1, PaymentStatus.EXPIRED)
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe("multiple transactions", () => {
+    const topUpTransactionId = "e".repeat(64);
+
+    afterEach(() => {
+      delete process.env.PAYMENT_AMOUNT_TOLERANCE_SATOSHIS;
+    });
+
+    it("should complete an underpayment with a top-up transaction", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 2,
+        receivedAmount: 40000,
+      });
+      let status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.UNDERPAID);
+      expect(status?.receivedAmount).toBe(40000);
+      expect(status?.outstandingAmount).toBe(60000);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: topUpTransactionId,
+        confirmations: 0,
+        receivedAmount: 60000,
+      });
+      status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(status?.confirmations).toBe(0);
+      expect(status?.transactionId).toBe(topUpTransactionId);
+      expect(status?.receivedAmount).toBe(100000);
+      expect(status?.outstandingAmount).toBeUndefined();
+      expect(status?.transactions).toEqual([
+        expect.objectContaining({
+          transactionId: testTransactionId,
+          amount: 40000,
+          confirmations: 2,
+        }),
+        expect.objectContaining({
+          transactionId: topUpTransactionId,
+          amount: 60000,
+          confirmations: 0,
+        }),
+      ]);
+
+      // The older transaction gaining confirmations does not settle the payment
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 3,
+        receivedAmount: 40000,
+      });
+      expect((await getPaymentStatus(testAddress1))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: topUpTransactionId,
+        confirmations: 1,
+        receivedAmount: 60000,
+      });
+      status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status?.confirmations).toBe(1);
+    });
+
+    it("should mark a paid payment as overpaid when more funds confirm", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: topUpTransactionId,
+        confirmations: 0,
+        receivedAmount: 5000,
+      });
+
+      let status = await getPaymentStatus(testAddress1);
+      // The unconfirmed excess does not count yet
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      // The expected amount was already covered by a confirmed transaction
+      expect(status?.confirmations).toBe(1);
+      expect(status?.receivedAmount).toBe(105000);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: topUpTransactionId,
+        confirmations: 1,
+        receivedAmount: 5000,
+      });
+
+      status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.OVERPAID);
+      expect(status?.confirmations).toBe(1);
+    });
+
+    it("should not mark an unconfirmed overpayment as overpaid", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 250000,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(status?.receivedAmount).toBe(250000);
+    });
+
+    it("should accept differences within the configured tolerance", async () => {
+      process.env.PAYMENT_AMOUNT_TOLERANCE_SATOSHIS = "1000";
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 99500,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status?.outstandingAmount).toBeUndefined();
+    });
+  });
+
+  describe("replaced and evicted transactions", () => {
+    const replacementTransactionId = "e".repeat(64);
+    const spends = [`${"f".repeat(64)}:0`];
+
+    const detect = (transactionId: string, amount: number) =>
+      updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId,
+        confirmations: 0,
+        receivedAmount: amount,
+        source: "webhook",
+        signalsRbf: true,
+        spends,
+      });
+
+    it("should follow a transaction that replaces a credited one", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await detect(testTransactionId, 100000);
+
+      expect(await detect(replacementTransactionId, 100000)).toBe(true);
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(status?.transactionId).toBe(replacementTransactionId);
+      expect(status?.receivedAmount).toBe(100000);
+      expect(status?.transactions?.[0].replacedBy).toBe(
+        replacementTransactionId
+      );
+      expect(status?.history?.[1]).toMatchObject({
+        from: PaymentStatus.PAYMENT_DETECTED,
+        to: PaymentStatus.PAYMENT_DETECTED,
+        transactionId: replacementTransactionId,
+        event: PaymentHistoryEvent.REPLACED,
+        droppedTransactionIds: [testTransactionId],
+      });
+    });
+
+    it("should fall back when the replacement pays less", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await detect(testTransactionId, 100000);
+      await detect(replacementTransactionId, 40000);
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.UNDERPAID);
+      expect(status?.receivedAmount).toBe(40000);
+    });
+
+    it("should ignore late unconfirmed updates of a replaced transaction", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await detect(testTransactionId, 100000);
+      await detect(replacementTransactionId, 100000);
+
+      expect(await detect(testTransactionId, 100000)).toBe(false);
+      expect((await getPaymentStatus(testAddress1))?.transactionId).toBe(
+        replacementTransactionId
+      );
+
+      // Confirmed after all: the replacement can no longer confirm
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+      });
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status?.transactions?.[0].replacedBy).toBeUndefined();
+    });
+
+    it("should await payment again when the only transaction is evicted", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await detect(testTransactionId, 100000);
+
+      const updated = await recordEvictedTransaction(
         testAddress1,
-        PaymentStatus.PAYMENT_DETECTED,
         testTransactionId
       );
 
-      const updatedStatus = await getPaymentStatus(testAddress1);
-      expect(updatedStatus?.lastUpdated).toBeGreaterThan(initialTimestamp!);
+      expect(updated?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(updated?.transactionId).toBeUndefined();
+      expect(updated?.receivedAmount).toBeUndefined();
+      expect(updated?.transactions?.[0].evictedAt).toEqual(expect.any(Number));
+      expect(updated?.history?.[1]).toMatchObject({
+        from: PaymentStatus.PAYMENT_DETECTED,
+        to: PaymentStatus.AWAITING_PAYMENT,
+        confirmations: 0,
+        source: "reconciler",
+        event: PaymentHistoryEvent.EVICTED,
+        droppedTransactionIds: [testTransactionId],
+      });
+    });
+
+    it("should keep the funds of the remaining transactions", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 40000,
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: replacementTransactionId,
+        confirmations: 0,
+        receivedAmount: 60000,
+      });
+
+      const updated = await recordEvictedTransaction(
+        testAddress1,
+        replacementTransactionId
+      );
+
+      expect(updated?.status).toBe(PaymentStatus.UNDERPAID);
+      expect(updated?.transactionId).toBe(testTransactionId);
+      expect(updated?.confirmations).toBe(1);
+      expect(updated?.outstandingAmount).toBe(60000);
+    });
+
+    it("should not evict confirmed or unknown transactions", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+      });
+
+      expect(
+        await recordEvictedTransaction(testAddress1, testTransactionId)
+      ).toBeNull();
+      expect(
+        await recordEvictedTransaction(testAddress1, replacementTransactionId)
+      ).toBeNull();
+      expect(
+        await recordEvictedTransaction(testAddress2, testTransactionId)
+      ).toBeNull();
+      expect((await getPaymentStatus(testAddress1))?.status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+    });
+
+    it("should keep an expired payment expired and drop its late flag", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        expiresAt: Date.now() - 1000,
+      });
+      await expireOverduePayments();
+      await detect(testTransactionId, 100000);
+      expect((await getFullPaymentData(testAddress1))?.latePayment).toBe(true);
+
+      const updated = await recordEvictedTransaction(
+        testAddress1,
+        testTransactionId
+      );
+
+      expect(updated?.status).toBe(PaymentStatus.EXPIRED);
+      expect(updated?.latePayment).toBeUndefined();
+    });
+  });
+
+  describe("chain reorganizations", () => {
+    const blockHash = "b".repeat(64);
+    const otherBlockHash = "c".repeat(64);
+
+    const confirm = (
+      address: string,
+      transactionId: string,
+      amount: number,
+      confirmations = 3
+    ) =>
+      updatePaymentStatus(address, PaymentStatus.CONFIRMED, {
+        transactionId,
+        confirmations,
+        receivedAmount: amount,
+        isDoubleSpend: false,
+        source: "webhook",
+        blockHash,
+        blockHeight: 100,
+      });
+
+    it("should keep the block a transaction confirmed in", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await confirm(testAddress1, testTransactionId, 100000);
+
+      const status = await getFullPaymentData(testAddress1);
+      expect(status?.transactions?.[0]).toMatchObject({
+        confirmations: 3,
+        blockHash,
+        blockHeight: 100,
+      });
+    });
+
+    it("should detect the payment again when its transaction is back in the mempool", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await confirm(testAddress1, testTransactionId, 100000);
+
+      const updated = await recordReorgedTransactions(
+        testAddress1,
+        new Map([[testTransactionId, { confirmations: 0 }]])
+      );
+
+      expect(updated?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(updated?.transactionId).toBe(testTransactionId);
+      expect(updated?.confirmations).toBe(0);
+      expect(updated?.transactions?.[0].blockHash).toBeUndefined();
+      expect(updated?.history?.[1]).toMatchObject({
+        from: PaymentStatus.CONFIRMED,
+        to: PaymentStatus.PAYMENT_DETECTED,
+        confirmations: 0,
+        source: "reconciler",
+        event: PaymentHistoryEvent.REORGED,
+        droppedTransactionIds: [testTransactionId],
+      });
+    });
+
+    it("should await payment again when the chain no longer knows the transaction", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+      await confirm(testAddress1, testTransactionId, 100000);
+
+      const updated = await recordReorgedTransactions(
+        testAddress1,
+        new Map([[testTransactionId, null]]),
+        "webhook"
+      );
+
+      expect(updated?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(updated?.transactionId).toBeUndefined();
+      expect(updated?.receivedAmount).toBeUndefined();
+      expect(updated?.transactions?.[0].evictedAt).toEqual(expect.any(Number));
+      expect(updated?.history?.[1]).toMatchObject({
+        to: PaymentStatus.AWAITING_PAYMENT,
+        source: "webhook",
+        event: PaymentHistoryEvent.REORGED,
+      });
+    });
+
+    it("should recount the confirmations of a transaction mined again", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        requiredConfirmations: 3,
+      });
+      await confirm(testAddress1, testTransactionId, 100000);
+
+      const updated = await recordReorgedTransactions(
+        testAddress1,
+        new Map([
+          [
+            testTransactionId,
+            { confirmations: 1, blockHash: otherBlockHash, blockHeight: 102 },
+          ],
+        ])
+      );
+
+      expect(updated?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(updated?.confirmations).toBe(1);
+      expect(updated?.transactions?.[0]).toMatchObject({
+        blockHash: otherBlockHash,
+        blockHeight: 102,
+      });
+
+      // Confirmations count up again from the new block
+      await confirm(testAddress1, testTransactionId, 100000, 2);
+      expect((await getPaymentStatus(testAddress1))?.confirmations).toBe(2);
+    });
+
+    it("should ignore unknown and refunded payments", async () => {
+      const reorged = new Map([[testTransactionId, { confirmations: 0 }]]);
+      await initializePaymentStatus(testAddress1, 0.001);
+      await initializePaymentStatus(testAddress2, 0.001);
+      await confirm(testAddress2, testTransactionId, 100000);
+      await transitionPaymentStatus(testAddress2, PaymentStatus.REFUNDED);
+
+      expect(
+        await recordReorgedTransactions(testAddress1, reorged)
+      ).toBeNull();
+      expect(
+        await recordReorgedTransactions(testAddress2, reorged)
+      ).toBeNull();
+      expect((await getPaymentStatus(testAddress2))?.status).toBe(
+        PaymentStatus.REFUNDED
+      );
+    });
+  });
+
+  describe("confirmation policy", () => {
+    it("should report the required confirmations, 1 if none were stored", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        requiredConfirmations: 6,
+      });
+      await initializePaymentStatus(testAddress2, 0.001);
+
+      expect(
+        (await getPaymentStatus(testAddress1))?.requiredConfirmations
+      ).toBe(6);
+      expect(
+        (await getPaymentStatus(testAddress2))?.requiredConfirmations
+      ).toBe(1);
+    });
+
+    it("should only confirm a payment with its required confirmations", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        requiredConfirmations: 6,
+      });
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 2,
+        receivedAmount: 100000,
+      });
+      let status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      expect(status?.confirmations).toBe(2);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 6,
+        receivedAmount: 100000,
+      });
+      status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status?.confirmations).toBe(6);
+    });
+
+    it("should accept unconfirmed funds rated low-risk", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        requiredConfirmations: 0,
+      });
+      const risk = {
+        score: 10,
+        level: "low" as const,
+        factors: ["inputs-unknown" as const],
+        feeRate: 12,
+        assessedAt: Date.now(),
+      };
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 100000,
+        isDoubleSpend: false,
+        source: "webhook",
+        signalsRbf: false,
+        risk,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(status?.confirmations).toBe(0);
+      expect(status?.transactions).toEqual([
+        expect.objectContaining({ signalsRbf: false, risk }),
+      ]);
+    });
+
+    it("should only accept unconfirmed funds rated medium-risk when configured", async () => {
+      const originalMaxRisk = process.env.ZERO_CONF_MAX_RISK;
+      const risk = {
+        score: 30,
+        level: "medium" as const,
+        factors: ["rbf-unknown" as const],
+        assessedAt: Date.now(),
+      };
+      const update = (address: string) =>
+        updatePaymentStatus(address, PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: 0,
+          receivedAmount: 100000,
+          isDoubleSpend: false,
+          source: "webhook",
+          risk,
+        });
+
+      try {
+        await initializePaymentStatus(testAddress1, 0.001, undefined, {
+          requiredConfirmations: 0,
+        });
+        await update(testAddress1);
+        expect((await getPaymentStatus(testAddress1))?.status).toBe(
+          PaymentStatus.PAYMENT_DETECTED
+        );
+
+        process.env.ZERO_CONF_MAX_RISK = "medium";
+        await initializePaymentStatus(testAddress2, 0.001, undefined, {
+          requiredConfirmations: 0,
+        });
+        await update(testAddress2);
+        expect((await getPaymentStatus(testAddress2))?.status).toBe(
+          PaymentStatus.CONFIRMED
+        );
+      } finally {
+        if (originalMaxRisk === undefined) {
+          delete process.env.ZERO_CONF_MAX_RISK;
+        } else {
+          process.env.ZERO_CONF_MAX_RISK = originalMaxRisk;
+        }
+      }
+    });
+
+    it.each([
+      ["signal replace-by-fee", true],
+      ["may signal replace-by-fee", undefined],
+      ["were not rated", false],
+    ])(
+      "should wait for a confirmation of funds that %s",
+      async (_label, signalsRbf) => {
+        await initializePaymentStatus(testAddress1, 0.001, undefined, {
+          requiredConfirmations: 0,
+        });
+
+        await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: 0,
+          receivedAmount: 100000,
+          isDoubleSpend: false,
+          source: "webhook",
+          signalsRbf,
+        });
+        expect((await getPaymentStatus(testAddress1))?.status).toBe(
+          PaymentStatus.PAYMENT_DETECTED
+        );
+
+        await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+          transactionId: testTransactionId,
+          confirmations: 1,
+          receivedAmount: 100000,
+        });
+        expect((await getPaymentStatus(testAddress1))?.status).toBe(
+          PaymentStatus.CONFIRMED
+        );
+      }
+    );
+  });
+
+  describe("payment expiry", () => {
+    const minute = 60 * 1000;
+    const testAddress3 = "tb1qexpiry000000000000000000000000000003";
+    const testAddress4 = "tb1qexpiry000000000000000000000000000004";
+
+    it("should store and report the expiry of a request", async () => {
+      const expiresAt = Date.now() + 30 * minute;
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        expiresAt,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
+      expect(status?.expiresAt).toBe(expiresAt);
+    });
+
+    it("should expire an overdue request when its status is read", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        expiresAt: Date.now() - minute,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.EXPIRED);
+      expect(status?.history).toEqual([
+        expect.objectContaining({
+          from: PaymentStatus.AWAITING_PAYMENT,
+          to: PaymentStatus.EXPIRED,
+          source: "expiry",
+        }),
+      ]);
+    });
+
+    it("should only expire unpaid requests past their expiry", async () => {
+      const now = Date.now();
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        expiresAt: now - minute,
+      });
+      await initializePaymentStatus(testAddress2, 0.001, undefined, {
+        expiresAt: now + minute,
+      });
+      await initializePaymentStatus(testAddress3, 0.001, undefined, {
+        expiresAt: now - minute,
+      });
+      await initializePaymentStatus(testAddress4, 0.001);
+      await updatePaymentStatus(testAddress3, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 100000,
+      });
+
+      await expect(expireOverduePayments(now)).resolves.toEqual([
+        testAddress1,
+      ]);
+      expect((await getFullPaymentData(testAddress2))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+      expect((await getFullPaymentData(testAddress3))?.status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect((await getFullPaymentData(testAddress4))?.status).toBe(
+        PaymentStatus.AWAITING_PAYMENT
+      );
+    });
+
+    it("should flag late payments for review instead of confirming them", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        expiresAt: Date.now() - minute,
+      });
+      await expireOverduePayments();
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+        source: "webhook",
+      });
+
+      const status = await getFullPaymentData(testAddress1);
+      expect(status?.status).toBe(PaymentStatus.EXPIRED);
+      expect(status?.latePayment).toBe(true);
+      expect(status?.confirmations).toBe(1);
+      expect((await getLatePayments()).map((p) => p.address)).toEqual([
+        testAddress1,
+      ]);
+    });
+
+    it("should accept a late payment on manual review only", async () => {
+      await initializePaymentStatus(testAddress1, 0.001, undefined, {
+        expiresAt: Date.now() - minute,
+      });
+      await expireOverduePayments();
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+      });
+
+      await expect(
+        transitionPaymentStatus(testAddress1, PaymentStatus.CONFIRMED, { source: "reconciler" })
+      ).rejects.toMatchObject({ reason: "review-required" });
+
+      const accepted = await transitionPaymentStatus(
+        testAddress1,
+        PaymentStatus.CONFIRMED
+      );
+      expect(accepted?.status).toBe(PaymentStatus.CONFIRMED);
+      expect(accepted?.latePayment).toBe(true);
+      await expect(getLatePayments()).resolves.toEqual([]);
+    });
+  });
+
+  describe("status history", () => {
+    it("should record every transition with its source, oldest first", async () => {
+      await initializePaymentStatus(testAddress1);
+
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 100000,
+        source: "webhook",
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+        source: "reconciler",
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 2,
+      });
+
+      const history = await getPaymentHistory(testAddress1);
+      expect(
+        history?.map(({ from, to, confirmations, source }) => ({
+          from,
+          to,
+          confirmations,
+          source,
+        }))
+      ).toEqual([
+        {
+          from: PaymentStatus.AWAITING_PAYMENT,
+          to: PaymentStatus.PAYMENT_DETECTED,
+          confirmations: 0,
+          source: "webhook",
+        },
+        {
+          from: PaymentStatus.PAYMENT_DETECTED,
+          to: PaymentStatus.CONFIRMED,
+          confirmations: 1,
+          source: "reconciler",
+        },
+        {
+          from: PaymentStatus.CONFIRMED,
+          to: PaymentStatus.CONFIRMED,
+          confirmations: 2,
+          source: "manual",
+        },
+      ]);
+      expect(history?.[0].transactionId).toBe(testTransactionId);
+      expect(history![0].timestamp).toBeLessThanOrEqual(history![2].timestamp);
+    });
+
+    it("should not record repeated or out-of-order updates", async () => {
+      await initializePaymentStatus(testAddress1);
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 2,
+      });
+
+      // Same state again, then an older confirmation count
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 2,
+      });
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+      });
+
+      expect(await getPaymentHistory(testAddress1)).toHaveLength(1);
+    });
+
+    it("should be empty for new payments and null for unknown addresses", async () => {
+      await initializePaymentStatus(testAddress1);
+
+      expect(await getPaymentHistory(testAddress1)).toEqual([]);
+      expect(await getPaymentHistory(testAddress2)).toBeNull();
+    });
+
+    it("should be included in the client status", async () => {
+      await initializePaymentStatus(testAddress1);
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+      });
+
+      const status = await getPaymentStatus(testAddress1);
+      expect(status?.history).toHaveLength(1);
+    });
+  });
+
+  describe("suspicious events", () => {
+    it("should keep only the newest suspicious events", async () => {
+      await initializePaymentStatus(testAddress1, 0.001);
+
+      for (let i = 0; i <= MAX_SUSPICIOUS_EVENTS; i++) {
+        await recordSuspiciousEvent(testAddress1, {
+          detectedAt: i,
+          source: "tx-confirmation",
+          transactionId: testTransactionId,
+          reason: `Event ${i}`,
+          reported: { confirmations: i },
+        });
+      }
+
+      const events = (await getFullPaymentData(testAddress1))?.suspiciousEvents;
+      expect(events).toHaveLength(MAX_SUSPICIOUS_EVENTS);
+      expect(events?.[0].reason).toBe("Event 1");
+      expect(events?.at(-1)?.reason).toBe(`Event ${MAX_SUSPICIOUS_EVENTS}`);
+    });
+  });
+
+  describe("webhook event ledger", () => {
+    it("should remember processed events until the store is cleared", async () => {
+      const key = getWebhookEventKey("event-1", testTransactionId, 1);
+
+      expect(await isWebhookEventProcessed(key)).toBe(false);
+      await recordWebhookEvent(key, "tx-confirmation");
+      expect(await isWebhookEventProcessed(key)).toBe(true);
+
+      // The same webhook with a new confirmation count is a new event
+      expect(
+        await isWebhookEventProcessed(
+          getWebhookEventKey("event-1", testTransactionId, 2)
+        )
+      ).toBe(false);
+
+      await clearAllPaymentStatuses();
+      expect(await isWebhookEventProcessed(key)).toBe(false);
+    });
+
+    it("should treat a confirmation in another block as a new event", async () => {
+      const key = getWebhookEventKey("event-1", testTransactionId, 1, "a1");
+      await recordWebhookEvent(key, "tx-confirmation");
+
+      expect(await isWebhookEventProcessed(key)).toBe(true);
+      // The transaction was mined again after a reorganization
+      expect(
+        await isWebhookEventProcessed(
+          getWebhookEventKey("event-1", testTransactionId, 1, "b2")
+        )
+      ).toBe(false);
+    });
+
+    it("should let only the first claim of an event through", async () => {
+      const key = getWebhookEventKey("event-1", testTransactionId, 1);
+
+      expect(await claimWebhookEvent(key, "tx-confirmation")).toBe(true);
+      expect(await claimWebhookEvent(key, "tx-confirmation")).toBe(false);
+      expect(await isWebhookEventProcessed(key)).toBe(true);
+
+      // A claim that could not be processed is given back
+      await releaseWebhookEvent(key);
+      expect(await isWebhookEventProcessed(key)).toBe(false);
+      expect(await claimWebhookEvent(key, "tx-confirmation")).toBe(true);
+    });
+
+    it("should forget events after the retention period", async () => {
+      const key = getWebhookEventKey("event-1", testTransactionId, 1);
+      await recordWebhookEvent(key, "tx-confirmation");
+
+      const now = Date.now();
+      jest
+        .spyOn(Date, "now")
+        .mockReturnValue(now + WEBHOOK_EVENT_RETENTION_MS + 1);
+      try {
+        expect(await isWebhookEventProcessed(key)).toBe(false);
+      } finally {
+        jest.restoreAllMocks();
+      }
     });
   });
 
@@ -180,6 +1579,34 @@ describe("Payment Status Store", () => {
       expect(status).not.toHaveProperty("webhookId");
       expect(status).not.toHaveProperty("createdAt");
     });
+
+    it("should report until when an expired request is still watched", async () => {
+      const recycleAfterMs = 24 * 60 * 60 * 1000;
+      await initializePaymentStatus(testAddress1, 0.001);
+      const { createdAt } = (await getFullPaymentData(testAddress1))!;
+
+      expect(
+        (await getPaymentStatus(testAddress1, recycleAfterMs))?.watchedUntil
+      ).toBeUndefined();
+
+      await transitionPaymentStatus(testAddress1, PaymentStatus.EXPIRED);
+      expect(
+        (await getPaymentStatus(testAddress1, recycleAfterMs))?.watchedUntil
+      ).toBe(createdAt + recycleAfterMs);
+      expect(
+        (await getPaymentStatus(testAddress1))?.watchedUntil
+      ).toBeUndefined();
+
+      // A late payment is followed by its confirmations instead
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 100000,
+      });
+      expect(
+        (await getPaymentStatus(testAddress1, recycleAfterMs))?.watchedUntil
+      ).toBeUndefined();
+    });
   });
 
   describe("hasPaymentStatus", () => {
@@ -253,11 +1680,9 @@ describe("Payment Status Store", () => {
     it("should return correct statistics", async () => {
       await initializePaymentStatus(testAddress1);
       await initializePaymentStatus(testAddress2);
-      await updatePaymentStatus(
-        testAddress2,
-        PaymentStatus.PAYMENT_DETECTED,
-        testTransactionId
-      );
+      await updatePaymentStatus(testAddress2, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+      });
 
       const stats = await getStoreStats();
       expect(stats.totalEntries).toBe(2);
@@ -314,28 +1739,24 @@ describe("Payment Status Store", () => {
       expect(status?.status).toBe(PaymentStatus.AWAITING_PAYMENT);
 
       // 2. Payment detected (0 confirmations)
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.PAYMENT_DETECTED,
-        testTransactionId,
-        0,
-        100000,
-        85
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: testTransactionId,
+        confirmations: 0,
+        receivedAmount: 100000,
+        confidence: 85,
+      });
       
       status = await getPaymentStatus(testAddress1);
       expect(status?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
       expect(status?.confirmations).toBe(0);
 
       // 3. Payment confirmed (1 confirmation)
-      await updatePaymentStatus(
-        testAddress1,
-        PaymentStatus.CONFIRMED,
-        testTransactionId,
-        1,
-        100000,
-        100
-      );
+      await updatePaymentStatus(testAddress1, PaymentStatus.CONFIRMED, {
+        transactionId: testTransactionId,
+        confirmations: 1,
+        receivedAmount: 100000,
+        confidence: 100,
+      });
       
       status = await getPaymentStatus(testAddress1);
       expect(status?.status).toBe(PaymentStatus.CONFIRMED);
@@ -355,18 +1776,14 @@ describe("Payment Status Store", () => {
       }
 
       // Update some to different statuses
-      await updatePaymentStatus(
-        addresses[0],
-        PaymentStatus.PAYMENT_DETECTED,
-        "tx1",
-        0
-      );
-      await updatePaymentStatus(
-        addresses[1],
-        PaymentStatus.CONFIRMED,
-        "tx2",
-        2
-      );
+      await updatePaymentStatus(addresses[0], PaymentStatus.PAYMENT_DETECTED, {
+        transactionId: "tx1",
+        confirmations: 0,
+      });
+      await updatePaymentStatus(addresses[1], PaymentStatus.CONFIRMED, {
+        transactionId: "tx2",
+        confirmations: 2,
+      });
 
       // Verify each has correct status
       expect((await getPaymentStatus(addresses[0]))?.status).toBe(PaymentStatus.PAYMENT_DETECTED);
@@ -0,0 +1,406 @@
+/**
+ * Payment Store Backend Tests
+ *
+ * Runs the same contract against every `PaymentStore` backend (JSON file,
+ * in-memory and SQLite):
+ * - Records round-trip with all their metadata
+ * - Updates are atomic, skip unknown addresses and can be declined
+ * - Status filters, age-based cleanup and statistics
+ *
+ * Also covers backend selection with `PAYMENT_STORE`, the JSON file store
+ * refusing changes to an unreadable file and the payment status functions
+ * running on SQLite.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { getStoreConfig } from "@/lib/store/config";
+import { JsonFilePaymentStore } from "@/lib/store/json-file-store";
+import { MemoryPaymentStore } from "@/lib/store/memory-store";
+import { SqlitePaymentStore } from "@/lib/store/sqlite-store";
+import {
+  getConfiguredPaymentStoreType,
+  getPaymentStore,
+  PaymentStoreType,
+} from "@/lib/store/stores";
+import type {
+  PaymentStatusData,
+  PaymentStore,
+} from "@/lib/store/payment-store";
+import { AddressType, PaymentStatus } from "@/types";
+
+const testAddress1 = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const testAddress2 = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+const testAddress3 =
+  "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7";
+const testTransactionId = "ab".repeat(32);
+
+const BACKEND_DIR = path.join(getStoreConfig().STORE_DIR, "backends");
+
+function createRecord(
+  address: string,
+  overrides: Partial<PaymentStatusData> = {}
+): PaymentStatusData {
+  return {
+    address,
+    status: PaymentStatus.AWAITING_PAYMENT,
+    expectedAmount: 0.001,
+    createdAt: 1_000,
+    lastUpdated: 1_000,
+    ...overrides,
+  };
+}
+
+const backends: [string, () => PaymentStore][] = [
+  [
+    "json",
+    () => new JsonFilePaymentStore(path.join(BACKEND_DIR, "payments.json")),
+  ],
+  ["memory", () => new MemoryPaymentStore()],
+  [
+    "sqlite",
+    () => new SqlitePaymentStore(path.join(BACKEND_DIR, "payments.db")),
+  ],
+];
+
+beforeEach(async () => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  await fs.rm(BACKEND_DIR, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe.each(backends)("%s payment store", (_name, createStore) => {
+  let store: PaymentStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await store.close?.();
+  });
+
+  it("should round-trip a record with all its metadata", async () => {
+    const record = createRecord(testAddress1, {
+      webhookIds: ["hook-1", "hook-2"],
+      derivationIndex: 7,
+      addressType: AddressType.P2TR,
+      suspiciousEvents: [
+        {
+          detectedAt: 2_000,
+          source: "confirmed-tx",
+          transactionId: testTransactionId,
+          reason: "Transaction not found on chain",
+          reported: { confirmations: 3 },
+        },
+      ],
+    });
+
+    await store.initializePaymentStatus(record);
+
+    expect(await store.getFullPaymentData(testAddress1)).toEqual(record);
+    expect(await store.hasPaymentStatus(testAddress1)).toBe(true);
+    expect(await store.getFullPaymentData(testAddress2)).toBeNull();
+    expect(await store.hasPaymentStatus(testAddress2)).toBe(false);
+  });
+
+  it("should replace a record initialized again", async () => {
+    await store.initializePaymentStatus(createRecord(testAddress1));
+    await store.initializePaymentStatus(
+      createRecord(testAddress1, { expectedAmount: 0.5 })
+    );
+
+    expect(await store.getAllPaymentStatuses()).toHaveLength(1);
+    expect((await store.getFullPaymentData(testAddress1))?.expectedAmount).toBe(
+      0.5
+    );
+  });
+
+  it("should apply updates and return the stored record", async () => {
+    await store.initializePaymentStatus(createRecord(testAddress1));
+
+    const updated = await store.updatePaymentStatus(
+      testAddress1,
+      (current) => ({
+        ...current,
+        status: PaymentStatus.CONFIRMED,
+        confirmations: 2,
+      })
+    );
+
+    expect(updated).toMatchObject({
+      address: testAddress1,
+      status: PaymentStatus.CONFIRMED,
+      confirmations: 2,
+    });
+    expect(await store.getFullPaymentData(testAddress1)).toEqual(updated);
+  });
+
+  it("should leave records unchanged when the update declines", async () => {
+    const record = createRecord(testAddress1);
+    await store.initializePaymentStatus(record);
+
+    expect(
+      await store.updatePaymentStatus(testAddress1, () => null)
+    ).toBeNull();
+    expect(await store.getFullPaymentData(testAddress1)).toEqual(record);
+  });
+
+  it("should not call the update for unknown addresses", async () => {
+    const update = jest.fn(() => createRecord(testAddress2));
+
+    expect(await store.updatePaymentStatus(testAddress2, update)).toBeNull();
+    expect(update).not.toHaveBeenCalled();
+    expect(await store.hasPaymentStatus(testAddress2)).toBe(false);
+  });
+
+  it("should not expose stored records to mutation", async () => {
+    await store.initializePaymentStatus(
+      createRecord(testAddress1, { webhookIds: ["hook-1"] })
+    );
+
+    const record = await store.getFullPaymentData(testAddress1);
+    record!.status = PaymentStatus.ERROR;
+    record!.webhookIds!.push("hook-2");
+
+    expect(await store.getFullPaymentData(testAddress1)).toMatchObject({
+      status: PaymentStatus.AWAITING_PAYMENT,
+      webhookIds: ["hook-1"],
+    });
+  });
+
+  it("should serialize parallel updates of one record", async () => {
+    await store.initializePaymentStatus(
+      createRecord(testAddress1, { confirmations: 0 })
+    );
+
+    await Promise.all(
+      Array.from({ length: 25 }, () =>
+        store.updatePaymentStatus(testAddress1, (current) => ({
+          ...current,
+          confirmations: (current.confirmations ?? 0) + 1,
+        }))
+      )
+    );
+
+    expect((await store.getFullPaymentData(testAddress1))?.confirmations).toBe(
+      25
+    );
+  });
+
+  it("should filter records by status in insertion order", async () => {
+    await store.initializePaymentStatus(createRecord(testAddress1));
+    await store.initializePaymentStatus(
+      createRecord(testAddress2, { status: PaymentStatus.CONFIRMED })
+    );
+    await store.initializePaymentStatus(
+      createRecord(testAddress3, { status: PaymentStatus.ERROR })
+    );
+    await store.updatePaymentStatus(testAddress1, (current) => ({
+      ...current,
+      status: PaymentStatus.PAYMENT_DETECTED,
+    }));
+
+    const addresses = (records: PaymentStatusData[]) =>
+      records.map((record) => record.address);
+
+    expect(addresses(await store.getAllPaymentStatuses())).toEqual([
+      testAddress1,
+      testAddress2,
+      testAddress3,
+    ]);
+    expect(
+      addresses(
+        await store.getAllPaymentStatuses([
+          PaymentStatus.PAYMENT_DETECTED,
+          PaymentStatus.ERROR,
+        ])
+      )
+    ).toEqual([testAddress1, testAddress3]);
+    expect(await store.getAllPaymentStatuses([])).toEqual([]);
+  });
+
+  it("should delete records", async () => {
+    await store.initializePaymentStatus(createRecord(testAddress1));
+    await store.initializePaymentStatus(createRecord(testAddress2));
+
+    expect(await store.deletePaymentStatus(testAddress1)).toBe(true);
+    expect(await store.deletePaymentStatus(testAddress1)).toBe(false);
+    expect(await store.clearAllPaymentStatuses()).toBe(1);
+    expect(await store.getAllPaymentStatuses()).toEqual([]);
+  });
+
+  it("should remove records created before the cutoff", async () => {
+    await store.initializePaymentStatus(
+      createRecord(testAddress1, { createdAt: 1_000 })
+    );
+    await store.initializePaymentStatus(
+      createRecord(testAddress2, { createdAt: 5_000 })
+    );
+
+    expect(await store.cleanupOldEntries(5_000)).toBe(1);
+    expect(await store.hasPaymentStatus(testAddress1)).toBe(false);
+    expect(await store.hasPaymentStatus(testAddress2)).toBe(true);
+  });
+
+  it("should report statistics", async () => {
+    expect(await store.getStoreStats()).toEqual({
+      totalEntries: 0,
+      statusCounts: {},
+      oldestEntry: undefined,
+      newestEntry: undefined,
+    });
+
+    await store.initializePaymentStatus(
+      createRecord(testAddress1, { createdAt: 3_000 })
+    );
+    await store.initializePaymentStatus(
+      createRecord(testAddress2, { createdAt: 1_000 })
+    );
+    await store.initializePaymentStatus(
+      createRecord(testAddress3, {
+        createdAt: 2_000,
+        status: PaymentStatus.CONFIRMED,
+      })
+    );
+
+    expect(await store.getStoreStats()).toEqual({
+      totalEntries: 3,
+      statusCounts: {
+        [PaymentStatus.AWAITING_PAYMENT]: 2,
+        [PaymentStatus.CONFIRMED]: 1,
+      },
+      oldestEntry: 1_000,
+      newestEntry: 3_000,
+    });
+  });
+});
+
+describe("JSON file payment store", () => {
+  it("should refuse changes while the file cannot be read", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const file = path.join(BACKEND_DIR, "payments.json");
+    await fs.mkdir(BACKEND_DIR, { recursive: true });
+    await fs.writeFile(file, "{ not json");
+    const store = new JsonFilePaymentStore(file);
+
+    // Reads see no records, but a change must not replace the file with them
+    expect(await store.getFullPaymentData(testAddress1)).toBeNull();
+    await expect(
+      store.initializePaymentStatus(createRecord(testAddress1))
+    ).rejects.toThrow(SyntaxError);
+    await expect(
+      store.updatePaymentStatus(testAddress1, (current) => current)
+    ).rejects.toThrow(SyntaxError);
+    await expect(store.clearAllPaymentStatuses()).rejects.toThrow(SyntaxError);
+
+    expect(await fs.readFile(file, "utf-8")).toBe("{ not json");
+  });
+});
+
+describe("SQLite payment store", () => {
+  it("should keep records across connections", async () => {
+    const file = path.join(BACKEND_DIR, "payments.db");
+    const first = new SqlitePaymentStore(file);
+    await first.initializePaymentStatus(createRecord(testAddress1));
+    await first.close();
+
+    const second = new SqlitePaymentStore(file);
+    expect(await second.hasPaymentStatus(testAddress1)).toBe(true);
+    await second.close();
+  });
+
+  it("should see updates made by another connection", async () => {
+    const file = path.join(BACKEND_DIR, "payments.db");
+    const writer = new SqlitePaymentStore(file);
+    const reader = new SqlitePaymentStore(file);
+    await writer.initializePaymentStatus(createRecord(testAddress1));
+
+    await writer.updatePaymentStatus(testAddress1, (current) => ({
+      ...current,
+      status: PaymentStatus.CONFIRMED,
+    }));
+
+    expect((await reader.getFullPaymentData(testAddress1))?.status).toBe(
+      PaymentStatus.CONFIRMED
+    );
+    await writer.close();
+    await reader.close();
+  });
+});
+
+describe("getPaymentStore", () => {
+  const ORIGINAL_ENV = process.env;
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should default to the JSON file store", () => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.PAYMENT_STORE;
+
+    expect(getConfiguredPaymentStoreType()).toBe(PaymentStoreType.JSON);
+    expect(getPaymentStore()).toBeInstanceOf(JsonFilePaymentStore);
+  });
+
+  it("should select the configured backend once", () => {
+    process.env = { ...ORIGINAL_ENV, PAYMENT_STORE: " Memory " };
+
+    const store = getPaymentStore();
+    expect(store).toBeInstanceOf(MemoryPaymentStore);
+    expect(getPaymentStore()).toBe(store);
+  });
+
+  it("should reject unsupported backends", () => {
+    process.env = { ...ORIGINAL_ENV, PAYMENT_STORE: "redis" };
+
+    expect(() => getPaymentStore()).toThrow(
+      "Unsupported PAYMENT_STORE 'redis': expected one of json, memory, sqlite"
+    );
+  });
+});
+
+describe("payment status functions on SQLite", () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...ORIGINAL_ENV, PAYMENT_STORE: "sqlite" };
+    jest.resetModules();
+  });
+
+  afterEach(async () => {
+    await (await import("@/lib/store/stores")).getPaymentStore().close?.();
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should store payments in the database and never move them backwards", async () => {
+    const statusStore = await import("@/lib/store/payment-status");
+    await statusStore.clearAllPaymentStatuses();
+    await statusStore.initializePaymentStatus(testAddress1, 0.001);
+
+    await statusStore.updatePaymentStatus(
+      testAddress1,
+      PaymentStatus.CONFIRMED,
+      { transactionId: testTransactionId, confirmations: 3 }
+    );
+    expect(
+      await statusStore.updatePaymentStatus(
+        testAddress1,
+        PaymentStatus.PAYMENT_DETECTED,
+        { transactionId: testTransactionId, confirmations: 0 }
+      )
+    ).toBe(false);
+
+    expect(await statusStore.getPaymentStatus(testAddress1)).toMatchObject({
+      status: PaymentStatus.CONFIRMED,
+      confirmations: 3,
+    });
+    await expect(fs.access(getStoreConfig().SQLITE_FILE)).resolves.toBe(
+      undefined
+    );
+  });
+});
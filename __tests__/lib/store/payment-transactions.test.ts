@@ -0,0 +1,401 @@
+/**
+ * Payment Transaction Accounting Tests
+ *
+ * Covers crediting transactions to a payment, deriving the payment's status,
+ * confirmations and outstanding amount from the aggregate, and the amount
+ * tolerance setting. Also covers replaced and evicted transactions, which no
+ * longer count towards the payment, and transactions whose confirming block
+ * was reorganized out of the best chain.
+ */
+
+import {
+  acceptsUnconfirmedFunds,
+  creditPaymentTransaction,
+  evictPaymentTransaction,
+  getAmountToleranceSatoshis,
+  isActivePaymentTransaction,
+  reorgPaymentTransactions,
+  replacePaymentTransactions,
+  summarizePaymentTransactions,
+} from "@/lib/store/payment-transactions";
+import {
+  PaymentStatus,
+  type PaymentTransaction,
+  type ZeroConfRisk,
+  type ZeroConfRiskLevel,
+} from "@/types";
+
+const txA = "a".repeat(64);
+const txB = "b".repeat(64);
+const txC = "c".repeat(64);
+const outpoint = `${"0".repeat(64)}:0`;
+
+const transaction = (
+  transactionId: string,
+  amount: number | undefined,
+  confirmations: number
+): PaymentTransaction => ({
+  transactionId,
+  amount,
+  confirmations,
+  firstSeen: 1_000,
+});
+
+const rated = (level: ZeroConfRiskLevel): ZeroConfRisk => ({
+  score: { low: 10, medium: 30, high: 60 }[level],
+  level,
+  factors: ["inputs-unknown"],
+  assessedAt: 1_000,
+});
+
+describe("creditPaymentTransaction", () => {
+  it("should add new transactions in the order first seen", () => {
+    const credited = creditPaymentTransaction(
+      creditPaymentTransaction(undefined, transaction(txA, 40_000, 0)),
+      transaction(txB, 60_000, 0)
+    );
+
+    expect(credited.map((entry) => entry.transactionId)).toEqual([txA, txB]);
+  });
+
+  it("should update a known transaction and keep its first-seen time and amount", () => {
+    const credited = creditPaymentTransaction([transaction(txA, 40_000, 0)], {
+      transactionId: txA,
+      confirmations: 2,
+      firstSeen: 5_000,
+    });
+
+    expect(credited).toEqual([transaction(txA, 40_000, 2)]);
+  });
+
+  it("should keep the risk rating until the transaction is rated again", () => {
+    const credited = creditPaymentTransaction(
+      [{ ...transaction(txA, 40_000, 0), risk: rated("low") }],
+      transaction(txA, 40_000, 1)
+    );
+
+    expect(credited[0].risk).toEqual(rated("low"));
+    expect(
+      creditPaymentTransaction(credited, {
+        ...transaction(txA, 40_000, 0),
+        risk: rated("high"),
+      })[0].risk
+    ).toEqual(rated("high"));
+  });
+
+  it("should keep the confirming block until another one is reported", () => {
+    const block = { blockHash: "f".repeat(64), blockHeight: 100 };
+    const credited = creditPaymentTransaction(
+      [{ ...transaction(txA, 40_000, 1), ...block }],
+      transaction(txA, 40_000, 2)
+    );
+
+    expect(credited[0]).toMatchObject(block);
+    expect(
+      creditPaymentTransaction(credited, {
+        ...transaction(txA, 40_000, 1),
+        blockHash: "e".repeat(64),
+        blockHeight: 101,
+      })[0]
+    ).toMatchObject({ blockHash: "e".repeat(64), blockHeight: 101 });
+  });
+
+  it("should credit a replaced or evicted transaction again when reported", () => {
+    const credited = creditPaymentTransaction(
+      [
+        { ...transaction(txA, 40_000, 0), replacedBy: txB },
+        { ...transaction(txB, 40_000, 0), evictedAt: 2_000 },
+      ],
+      transaction(txA, 40_000, 1)
+    );
+
+    expect(credited[0]).toEqual(transaction(txA, 40_000, 1));
+    expect(
+      creditPaymentTransaction(credited, transaction(txB, 40_000, 1))[1]
+    ).toEqual(transaction(txB, 40_000, 1));
+  });
+});
+
+describe("replacePaymentTransactions", () => {
+  it("should mark unconfirmed transactions spending the same outputs as replaced", () => {
+    const { transactions, replaced } = replacePaymentTransactions(
+      [
+        { ...transaction(txA, 40_000, 0), spends: [outpoint] },
+        { ...transaction(txB, 40_000, 0), spends: ["other:1"] },
+        { ...transaction(txC, 41_000, 0), spends: ["other:0", outpoint] },
+      ],
+      txC
+    );
+
+    expect(replaced).toEqual([txA]);
+    expect(transactions.map((entry) => entry.replacedBy)).toEqual([
+      txC,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("should not replace confirmed, dropped or unknown inputs", () => {
+    const { replaced } = replacePaymentTransactions(
+      [
+        { ...transaction(txA, 40_000, 1), spends: [outpoint] },
+        { ...transaction(txB, 40_000, 0), spends: [outpoint], evictedAt: 1 },
+        { ...transaction(txC, 41_000, 0), spends: [outpoint] },
+        transaction("d".repeat(64), 41_000, 0),
+      ],
+      txC
+    );
+
+    expect(replaced).toEqual([]);
+    expect(
+      replacePaymentTransactions([transaction(txA, 40_000, 0)], txB).replaced
+    ).toEqual([]);
+  });
+});
+
+describe("evictPaymentTransaction", () => {
+  it("should mark only the evicted transaction", () => {
+    const evicted = evictPaymentTransaction(
+      [transaction(txA, 40_000, 0), transaction(txB, 60_000, 1)],
+      txA,
+      2_000
+    );
+
+    expect(evicted[0].evictedAt).toBe(2_000);
+    expect(evicted.map(isActivePaymentTransaction)).toEqual([false, true]);
+  });
+});
+
+describe("reorgPaymentTransactions", () => {
+  const confirmed = (transactionId: string, blockHeight: number) => ({
+    ...transaction(transactionId, 40_000, 3),
+    blockHash: transactionId.slice(0, 1).repeat(64),
+    blockHeight,
+  });
+
+  it("should apply the chain state of reorganized transactions", () => {
+    const reorged = reorgPaymentTransactions(
+      [confirmed(txA, 100), confirmed(txB, 100), confirmed(txC, 90)],
+      new Map([
+        [
+          txA,
+          { confirmations: 1, blockHash: "d".repeat(64), blockHeight: 102 },
+        ],
+        [txB, { confirmations: 0 }],
+      ])
+    );
+
+    expect(reorged[0]).toEqual({
+      ...transaction(txA, 40_000, 1),
+      blockHash: "d".repeat(64),
+      blockHeight: 102,
+    });
+    expect(reorged[1]).toEqual(transaction(txB, 40_000, 0));
+    expect(reorged[2]).toEqual(confirmed(txC, 90));
+  });
+
+  it("should evict transactions the chain no longer knows", () => {
+    const reorged = reorgPaymentTransactions(
+      [confirmed(txA, 100)],
+      new Map([[txA, null]]),
+      2_000
+    );
+
+    expect(reorged[0]).toEqual({
+      ...transaction(txA, 40_000, 0),
+      evictedAt: 2_000,
+    });
+    expect(isActivePaymentTransaction(reorged[0])).toBe(false);
+  });
+});
+
+describe("acceptsUnconfirmedFunds", () => {
+  it("should accept confirmed transactions and unconfirmed ones rated low-risk", () => {
+    expect(
+      acceptsUnconfirmedFunds([
+        transaction(txA, 40_000, 2),
+        { ...transaction(txB, 60_000, 0), risk: rated("low") },
+      ])
+    ).toBe(true);
+  });
+
+  it("should not accept unrated or riskier unconfirmed transactions", () => {
+    expect(acceptsUnconfirmedFunds(undefined)).toBe(false);
+    expect(acceptsUnconfirmedFunds([])).toBe(false);
+    expect(acceptsUnconfirmedFunds([transaction(txA, 40_000, 0)])).toBe(false);
+    expect(
+      acceptsUnconfirmedFunds([
+        { ...transaction(txA, 40_000, 0), risk: rated("low") },
+        { ...transaction(txB, 60_000, 0), risk: rated("medium") },
+      ])
+    ).toBe(false);
+  });
+
+  it("should ignore replaced and evicted transactions", () => {
+    expect(
+      acceptsUnconfirmedFunds([
+        { ...transaction(txA, 40_000, 0), replacedBy: txB },
+        { ...transaction(txB, 40_000, 0), risk: rated("low") },
+      ])
+    ).toBe(true);
+    expect(
+      acceptsUnconfirmedFunds([
+        { ...transaction(txA, 40_000, 1), evictedAt: 2_000 },
+      ])
+    ).toBe(false);
+  });
+});
+
+describe("summarizePaymentTransactions", () => {
+  it("should report the outstanding amount of an underpayment", () => {
+    expect(
+      summarizePaymentTransactions([transaction(txA, 40_000, 1)], 0.001, 0)
+    ).toEqual({
+      status: PaymentStatus.UNDERPAID,
+      confirmations: 1,
+      receivedAmount: 40_000,
+      outstandingAmount: 60_000,
+    });
+  });
+
+  it("should derive the status from the sum of all transactions", () => {
+    const paid = summarizePaymentTransactions(
+      [transaction(txA, 40_000, 1), transaction(txB, 60_000, 1)],
+      0.001,
+      0
+    );
+    const overpaid = summarizePaymentTransactions(
+      [transaction(txA, 40_000, 1), transaction(txB, 70_000, 1)],
+      0.001,
+      0
+    );
+
+    expect(paid.status).toBe(PaymentStatus.CONFIRMED);
+    expect(paid.receivedAmount).toBe(100_000);
+    expect(paid.outstandingAmount).toBeUndefined();
+    expect(overpaid.status).toBe(PaymentStatus.OVERPAID);
+  });
+
+  it("should report the confirmations at which the expected amount is covered", () => {
+    // Both transactions are needed, so the unconfirmed top-up counts
+    expect(
+      summarizePaymentTransactions(
+        [transaction(txA, 40_000, 3), transaction(txB, 60_000, 0)],
+        0.001,
+        0
+      )
+    ).toMatchObject({
+      status: PaymentStatus.PAYMENT_DETECTED,
+      confirmations: 0,
+    });
+
+    // The confirmed transaction alone covers the amount
+    expect(
+      summarizePaymentTransactions(
+        [transaction(txA, 100_000, 3), transaction(txB, 5_000, 0)],
+        0.001,
+        0
+      )
+    ).toMatchObject({ status: PaymentStatus.CONFIRMED, confirmations: 3 });
+  });
+
+  it("should only count funds meeting the confirmation target as overpaid", () => {
+    expect(
+      summarizePaymentTransactions([transaction(txA, 150_000, 0)], 0.001, 0)
+    ).toMatchObject({
+      status: PaymentStatus.PAYMENT_DETECTED,
+      receivedAmount: 150_000,
+    });
+    expect(
+      summarizePaymentTransactions(
+        [transaction(txA, 100_000, 2), transaction(txB, 5_000, 1)],
+        0.001,
+        0,
+        2
+      ).status
+    ).toBe(PaymentStatus.CONFIRMED);
+    expect(
+      summarizePaymentTransactions(
+        [transaction(txA, 100_000, 2), transaction(txB, 5_000, 2)],
+        0.001,
+        0,
+        2
+      ).status
+    ).toBe(PaymentStatus.OVERPAID);
+  });
+
+  it("should accept differences within the tolerance", () => {
+    expect(
+      summarizePaymentTransactions([transaction(txA, 99_000, 1)], 0.001, 1_000)
+    ).toMatchObject({ status: PaymentStatus.CONFIRMED, confirmations: 1 });
+    expect(
+      summarizePaymentTransactions([transaction(txA, 98_999, 1)], 0.001, 1_000)
+    ).toMatchObject({
+      status: PaymentStatus.UNDERPAID,
+      outstandingAmount: 1_001,
+    });
+  });
+
+  it("should use the most confirmations when amounts are unknown", () => {
+    expect(
+      summarizePaymentTransactions(
+        [transaction(txA, undefined, 2), transaction(txB, 60_000, 0)],
+        0.001,
+        0
+      )
+    ).toEqual({
+      status: PaymentStatus.CONFIRMED,
+      confirmations: 2,
+      receivedAmount: undefined,
+      outstandingAmount: undefined,
+    });
+  });
+
+  it("should leave out replaced and evicted transactions", () => {
+    expect(
+      summarizePaymentTransactions(
+        [
+          { ...transaction(txA, 100_000, 0), replacedBy: txB },
+          transaction(txB, 40_000, 0),
+        ],
+        0.001,
+        0
+      )
+    ).toMatchObject({
+      status: PaymentStatus.UNDERPAID,
+      receivedAmount: 40_000,
+    });
+  });
+
+  it("should await payment when no transaction counts", () => {
+    expect(
+      summarizePaymentTransactions(
+        [{ ...transaction(txA, 100_000, 0), evictedAt: 2_000 }],
+        0.001,
+        0
+      )
+    ).toEqual({ status: PaymentStatus.AWAITING_PAYMENT, confirmations: 0 });
+  });
+});
+
+describe("getAmountToleranceSatoshis", () => {
+  afterEach(() => {
+    delete process.env.PAYMENT_AMOUNT_TOLERANCE_SATOSHIS;
+  });
+
+  it("should default to no tolerance", () => {
+    expect(getAmountToleranceSatoshis()).toBe(0);
+  });
+
+  it("should read the configured tolerance", () => {
+    process.env.PAYMENT_AMOUNT_TOLERANCE_SATOSHIS = " 500 ";
+    expect(getAmountToleranceSatoshis()).toBe(500);
+  });
+
+  it.each(["-1", "1.5", "abc"])("should reject '%s'", (value) => {
+    process.env.PAYMENT_AMOUNT_TOLERANCE_SATOSHIS = value;
+    expect(() => getAmountToleranceSatoshis()).toThrow(
+      "PAYMENT_AMOUNT_TOLERANCE_SATOSHIS must be a non-negative integer"
+    );
+  });
+});
@@ -10,12 +10,14 @@ import {
   formatBtcAmount,
   isAboveDustLimit,
   generateBip21Uri,
+  getAddressTypeLabel,
   type PaymentRequest,
   type PaymentVerification,
   type WebhookPayload,
   type PaymentStatus,
 } from "../../../src/lib/validation/payment";
 import { generateWalletAddress } from "../../../src/lib/bitcoin/wallet";
+import { AddressType } from "../../../src/types";
 
 describe("Payment Validation Schema", () => {
   describe("paymentRequestSchema", () => {
@@ -129,6 +131,63 @@ describe("Payment Validation Schema", () => {
     });
   });
 
+  describe("paymentRequestSchema address type", () => {
+    test("should accept every supported address type", () => {
+      Object.values(AddressType).forEach((addressType) => {
+        const result = paymentRequestSchema.safeParse({
+          amount: "0.001",
+          addressType,
+        });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.addressType).toBe(addressType);
+        }
+      });
+    });
+
+    test("should leave the address type unset when omitted", () => {
+      const result = paymentRequestSchema.parse({ amount: "0.001" });
+      expect(result.addressType).toBeUndefined();
+    });
+
+    test("should reject unsupported address types", () => {
+      const result = paymentRequestSchema.safeParse({
+        amount: "0.001",
+        addressType: "P2WSH",
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Unsupported address type");
+      }
+    });
+  });
+
+  describe("paymentRequestSchema expiry", () => {
+    test("should accept an expiry override in whole minutes", () => {
+      const result = paymentRequestSchema.parse({
+        amount: "0.001",
+        expiresInMinutes: "15",
+      });
+      expect(result.expiresInMinutes).toBe(15);
+    });
+
+    test("should leave the expiry unset when omitted", () => {
+      const result = paymentRequestSchema.parse({ amount: "0.001" });
+      expect(result.expiresInMinutes).toBeUndefined();
+    });
+
+    test.each(["0", "1.5", "soon", String(7 * 24 * 60 + 1)])(
+      "should reject an expiry of %s minutes",
+      (expiresInMinutes) => {
+        const result = paymentRequestSchema.safeParse({
+          amount: "0.001",
+          expiresInMinutes,
+        });
+        expect(result.success).toBe(false);
+      }
+    );
+  });
+
   describe("paymentVerificationSchema", () => {
     test("should accept valid testnet addresses generated by our wallet", () => {
       // Generate actual valid testnet addresses using our wallet
@@ -332,6 +391,18 @@ describe("Utility Functions", () => {
     });
   });
 
+  describe("getAddressTypeLabel", () => {
+    test("should return a label for every address type", () => {
+      expect(getAddressTypeLabel(AddressType.P2WPKH)).toBe(
+        "Native SegWit (P2WPKH)"
+      );
+      expect(getAddressTypeLabel(AddressType.P2TR)).toBe("Taproot (P2TR)");
+      Object.values(AddressType).forEach((addressType) => {
+        expect(getAddressTypeLabel(addressType)).toContain(addressType);
+      });
+    });
+  });
+
   describe("isAboveDustLimit", () => {
     test("should correctly identify amounts above dust limit", () => {
       expect(isAboveDustLimit(0.00000546)).toBe(true); // exactly at limit
@@ -369,6 +440,41 @@ describe("Utility Functions", () => {
       expect(uri).toBe(`bitcoin:${address}?amount=2&network=testnet`);
     });
 
+    test("should include the network parameter for signet and regtest", () => {
+      const address = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+
+      expect(generateBip21Uri(address, 0.5, "signet")).toBe(
+        `bitcoin:${address}?amount=0.5&network=signet`
+      );
+      expect(
+        generateBip21Uri(
+          "bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk",
+          0.5,
+          "regtest"
+        )
+      ).toBe(
+        "bitcoin:bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk?amount=0.5&network=regtest"
+      );
+    });
+
+    test("should follow the configured network by default", () => {
+      const originalNetwork = process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+      process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "testnet4";
+
+      try {
+        const address = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+        expect(generateBip21Uri(address, 1)).toBe(
+          `bitcoin:${address}?amount=1&network=testnet4`
+        );
+      } finally {
+        if (originalNetwork === undefined) {
+          delete process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+        } else {
+          process.env.NEXT_PUBLIC_BITCOIN_NETWORK = originalNetwork;
+        }
+      }
+    });
+
     test("should format amounts correctly in URIs", () => {
       const address = generateWalletAddress();
 
@@ -15,7 +15,16 @@ import {
   validateGeneratedAddress,
   validateMultipleAddresses,
   validateAddressDetailed,
+  parseAccountXpub,
+  deriveAddressFromXPub,
+  getConfiguredAccountXpub,
+  getDefaultDerivationPath,
+  isXpubDerivationEnabled,
+  isValidAddress,
+  addressToOutputScript,
+  outputScriptToAddress,
 } from "../../src/lib/bitcoin/wallet";
+import { AddressType, BitcoinNetwork } from "../../src/types";
 import * as bip39 from "bip39";
 import * as bitcoin from "bitcoinjs-lib";
 
@@ -1743,3 +1752,477 @@ describe("validateAddressDetailed", () => {
     }
   });
 });
+
+describe("deriveAddressFromXPub", () => {
+  // BIP84 account key for the "abandon ... about" test mnemonic at m/84'/1'/0'
+  const testVpub =
+    "vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc";
+  const testTpub =
+    "tpubDC8msFGeGuwnKG9Upg7DM2b4DaRqg3CUZa5g8v2SRQ6K4NSkxUgd7HsL2XVWbVm39yBA4LAxysQAm397zwQSQoQgewGiYZqrA9DsP4zbQ1M";
+  const testMnemonic =
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+  it("should derive the BIP84 test vector address at index 0", () => {
+    const derived = deriveAddressFromXPub(testVpub, 0);
+
+    expect(derived.address).toBe("tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl");
+    expect(derived.derivationPath).toBe("m/84'/1'/0'/0/0");
+    expect(derived.derivationIndex).toBe(0);
+  });
+
+  it("should match addresses derived from the private HD root", () => {
+    const hdRoot = generateHDRoot(
+      mnemonicToSeed(testMnemonic),
+      bitcoin.networks.testnet
+    );
+
+    for (let i = 0; i < 5; i++) {
+      const derived = deriveAddressFromXPub(testVpub, i);
+      expect(derived.address).toBe(
+        deriveTestnetAddress(hdRoot, `m/84'/1'/0'/0/${i}`)
+      );
+      expect(derived.derivationPath).toBe(`m/84'/1'/0'/0/${i}`);
+    }
+  });
+
+  it("should accept tpub and vpub encodings of the same account key", () => {
+    expect(deriveAddressFromXPub(testTpub, 7).address).toBe(
+      deriveAddressFromXPub(testVpub, 7).address
+    );
+  });
+
+  it("should produce generated-address compatible P2WPKH addresses", () => {
+    const derived = deriveAddressFromXPub(testVpub, 3);
+    expect(validateGeneratedAddress(derived.address)).toBe(true);
+  });
+
+  it("should reject invalid indexes", () => {
+    expect(() => deriveAddressFromXPub(testVpub, -1)).toThrow(
+      "Invalid address index"
+    );
+    expect(() => deriveAddressFromXPub(testVpub, 1.5)).toThrow(
+      "Invalid address index"
+    );
+    expect(() => deriveAddressFromXPub(testVpub, 0x80000000)).toThrow(
+      "Invalid address index"
+    );
+  });
+
+  it("should reject extended private keys", () => {
+    const hdRoot = generateHDRoot(
+      mnemonicToSeed(testMnemonic),
+      bitcoin.networks.testnet
+    );
+    const tprv = hdRoot.derivePath("m/84'/1'/0'").toBase58();
+
+    expect(() => parseAccountXpub(tprv)).toThrow("Unsupported extended key prefix");
+  });
+
+  it("should reject keys that are not at account depth", () => {
+    const hdRoot = generateHDRoot(
+      mnemonicToSeed(testMnemonic),
+      bitcoin.networks.testnet
+    );
+    const changeTpub = hdRoot.derivePath("m/84'/1'/0'/0").neutered().toBase58();
+
+    expect(() => parseAccountXpub(changeTpub)).toThrow("account depth 3");
+  });
+
+  it("should reject mainnet and malformed keys", () => {
+    expect(() => parseAccountXpub("")).toThrow("Extended public key is required");
+    expect(() =>
+      parseAccountXpub(
+        "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs"
+      )
+    ).toThrow("Unsupported extended key prefix");
+    expect(() => parseAccountXpub("vpubnotarealkey")).toThrow(
+      "Failed to parse account extended public key"
+    );
+  });
+});
+
+describe("getConfiguredAccountXpub", () => {
+  const originalXpub = process.env.WALLET_ACCOUNT_XPUB;
+
+  afterEach(() => {
+    if (originalXpub === undefined) {
+      delete process.env.WALLET_ACCOUNT_XPUB;
+    } else {
+      process.env.WALLET_ACCOUNT_XPUB = originalXpub;
+    }
+  });
+
+  it("should return undefined when no xpub is configured", () => {
+    delete process.env.WALLET_ACCOUNT_XPUB;
+    expect(getConfiguredAccountXpub()).toBeUndefined();
+
+    process.env.WALLET_ACCOUNT_XPUB = "   ";
+    expect(getConfiguredAccountXpub()).toBeUndefined();
+  });
+
+  it("should return the trimmed configured xpub", () => {
+    process.env.WALLET_ACCOUNT_XPUB = "  vpubExample  ";
+    expect(getConfiguredAccountXpub()).toBe("vpubExample");
+  });
+});
+
+describe("address types", () => {
+  const testMnemonic =
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+  // Account keys for the test mnemonic at m/86'/1'/0', m/49'/1'/0' and m/44'/1'/0'
+  const taprootTpub =
+    "tpubDDfvzhdVV4unsoKt5aE6dcsNsfeWbTgmLZPi8LQDYU2xixrYemMfWJ3BaVneH3u7DBQePdTwhpybaKRU95pi6PMUtLPBJLVQRpzEnjfjZzX";
+  const nestedSegwitUpub =
+    "upub5EFU65HtV5TeiSHmZZm7FUffBGy8UKeqp7vw43jYbvZPpoVsgU93oac7Wk3u6moKegAEWtGNF8DehrnHtv21XXEMYRUocHqguyjknFHYfgY";
+  const nestedSegwitTpub =
+    "tpubDD7tXK8KeQ3YY83yWq755fHY2JW8Ha8Q765tknUM5rSvjPcGWfUppDFMpQ1ScziKfW3ZNtZvAD7M3u7bSs7HofjTD3KP3YxPK7X6hwV8Rk2";
+  const legacyTpub =
+    "tpubDC5FSnBiZDMmhiuCmWAYsLwgLYrrT9rAqvTySfuCCrgsWz8wxMXUS9Tb9iVMvcRbvFcAHGkMD5Kx8koh4GquNGNTfohfk7pgjhaPCdXpoba";
+
+  const taprootAddress =
+    "tb1p8wpt9v4frpf3tkn0srd97pksgsxc5hs52lafxwru9kgeephvs7rqlqt9zj";
+  const nestedSegwitAddress = "2Mww8dCYPUpKHofjgcXcBCEGmniw9CoaiD2";
+  const legacyAddress = "mkpZhYtJu2r87Js3pDiWJDmPte2NRZ8bJV";
+
+  const hdRoot = generateHDRoot(
+    mnemonicToSeed(testMnemonic),
+    bitcoin.networks.testnet
+  );
+
+  describe("deriveTestnetAddress", () => {
+    it("should derive a BIP86 Taproot address", () => {
+      expect(
+        deriveTestnetAddress(hdRoot, "m/86'/1'/0'/0/0", AddressType.P2TR)
+      ).toBe(taprootAddress);
+    });
+
+    it("should derive a BIP49 nested SegWit address", () => {
+      expect(
+        deriveTestnetAddress(hdRoot, "m/49'/1'/0'/0/0", AddressType.P2SH_P2WPKH)
+      ).toBe(nestedSegwitAddress);
+    });
+
+    it("should derive a BIP44 legacy address", () => {
+      expect(
+        deriveTestnetAddress(hdRoot, "m/44'/1'/0'/0/0", AddressType.P2PKH)
+      ).toBe(legacyAddress);
+    });
+
+    it("should default to the address type's BIP purpose", () => {
+      expect(deriveTestnetAddress(hdRoot, undefined, AddressType.P2TR)).toBe(
+        taprootAddress
+      );
+      expect(getDefaultDerivationPath(AddressType.P2PKH)).toBe(
+        "m/44'/1'/0'/0/0"
+      );
+      expect(getDefaultDerivationPath()).toBe("m/84'/1'/0'/0/0");
+    });
+
+    it("should reject a path with another address type's purpose", () => {
+      expect(() =>
+        deriveTestnetAddress(hdRoot, "m/84'/1'/0'/0/0", AddressType.P2TR)
+      ).toThrow("must use purpose 86' for Taproot (BIP86)");
+    });
+  });
+
+  describe("generateWalletAddress", () => {
+    it("should generate valid addresses of every type", () => {
+      for (const addressType of Object.values(AddressType)) {
+        const address = generateWalletAddress(undefined, addressType);
+        expect(validateGeneratedAddress(address, addressType)).toBe(true);
+        expect(validateAddressDetailed(address, addressType).isValid).toBe(
+          true
+        );
+      }
+    });
+  });
+
+  describe("deriveAddressFromXPub", () => {
+    it("should derive Taproot addresses from a BIP86 tpub", () => {
+      const derived = deriveAddressFromXPub(taprootTpub, 0, AddressType.P2TR);
+
+      expect(derived.address).toBe(taprootAddress);
+      expect(derived.derivationPath).toBe("m/86'/1'/0'/0/0");
+      expect(
+        deriveAddressFromXPub(taprootTpub, 1, AddressType.P2TR).address
+      ).toBe("tb1p90h6z3p36n9hrzy7580h5l429uwchyg8uc9sz4jwzhdtuhqdl5eqmpwq6n");
+    });
+
+    it("should derive nested SegWit addresses from upub and tpub encodings", () => {
+      const derived = deriveAddressFromXPub(
+        nestedSegwitUpub,
+        0,
+        AddressType.P2SH_P2WPKH
+      );
+
+      expect(derived.address).toBe(nestedSegwitAddress);
+      expect(derived.derivationPath).toBe("m/49'/1'/0'/0/0");
+      expect(
+        deriveAddressFromXPub(nestedSegwitTpub, 1, AddressType.P2SH_P2WPKH)
+          .address
+      ).toBe("2N55m54k8vr95ggehfUcNkdbUuQvaqG2GxK");
+    });
+
+    it("should derive legacy addresses from a BIP44 tpub", () => {
+      const derived = deriveAddressFromXPub(legacyTpub, 0, AddressType.P2PKH);
+
+      expect(derived.address).toBe(legacyAddress);
+      expect(derived.derivationPath).toBe("m/44'/1'/0'/0/0");
+    });
+
+    it("should reject SLIP-132 prefixes meant for another address type", () => {
+      expect(() =>
+        deriveAddressFromXPub(nestedSegwitUpub, 0, AddressType.P2WPKH)
+      ).toThrow("cannot be used for P2WPKH addresses");
+      expect(() =>
+        parseAccountXpub(
+          "vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc",
+          AddressType.P2TR
+        )
+      ).toThrow("cannot be used for P2TR addresses");
+    });
+  });
+
+  describe("validateGeneratedAddress", () => {
+    it("should only accept addresses of the given type", () => {
+      expect(validateGeneratedAddress(taprootAddress, AddressType.P2TR)).toBe(
+        true
+      );
+      expect(validateGeneratedAddress(taprootAddress)).toBe(false);
+      expect(
+        validateGeneratedAddress(nestedSegwitAddress, AddressType.P2SH_P2WPKH)
+      ).toBe(true);
+      expect(
+        validateGeneratedAddress(nestedSegwitAddress, AddressType.P2PKH)
+      ).toBe(false);
+      expect(validateGeneratedAddress(legacyAddress, AddressType.P2PKH)).toBe(
+        true
+      );
+    });
+  });
+
+  describe("validateAddressDetailed", () => {
+    it("should detect Taproot addresses", () => {
+      const result = validateAddressDetailed(taprootAddress);
+
+      expect(result.isValid).toBe(true);
+      expect(result.isTaproot).toBe(true);
+      expect(result.isNativeSegWit).toBe(true);
+      expect(result.addressType).toBe("P2TR");
+    });
+
+    it("should report a mismatch with the expected address type", () => {
+      const result = validateAddressDetailed(legacyAddress, AddressType.P2TR);
+
+      expect(result.isValid).toBe(false);
+      expect(result.addressType).toBe("P2PKH");
+      expect(result.errors).toContain("Expected a P2TR address, got P2PKH");
+    });
+
+    it("should treat P2SH addresses as nested SegWit", () => {
+      expect(
+        validateAddressDetailed(nestedSegwitAddress, AddressType.P2SH_P2WPKH)
+          .isValid
+      ).toBe(true);
+    });
+  });
+
+  describe("per-type account xpubs", () => {
+    const envVars = [
+      "WALLET_ACCOUNT_XPUB",
+      "WALLET_ACCOUNT_XPUB_P2TR",
+      "WALLET_ACCOUNT_XPUB_P2SH_P2WPKH",
+      "WALLET_ACCOUNT_XPUB_P2PKH",
+    ];
+    const originalEnv = Object.fromEntries(
+      envVars.map((name) => [name, process.env[name]])
+    );
+
+    afterEach(() => {
+      for (const name of envVars) {
+        if (originalEnv[name] === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = originalEnv[name];
+        }
+      }
+    });
+
+    it("should read each address type's own environment variable", () => {
+      envVars.forEach((name) => delete process.env[name]);
+      expect(isXpubDerivationEnabled()).toBe(false);
+
+      process.env.WALLET_ACCOUNT_XPUB_P2TR = ` ${taprootTpub} `;
+
+      expect(getConfiguredAccountXpub(AddressType.P2TR)).toBe(taprootTpub);
+      expect(getConfiguredAccountXpub(AddressType.P2WPKH)).toBeUndefined();
+      expect(isXpubDerivationEnabled()).toBe(true);
+    });
+  });
+});
+
+describe("configured network", () => {
+  const testMnemonic =
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+  const originalNetwork = process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+
+  // Account keys for the test mnemonic at m/84'/0'/0' and m/84'/1'/0'
+  const mainnetXpub =
+    "xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V";
+  const testTpub =
+    "tpubDC8msFGeGuwnKG9Upg7DM2b4DaRqg3CUZa5g8v2SRQ6K4NSkxUgd7HsL2XVWbVm39yBA4LAxysQAm397zwQSQoQgewGiYZqrA9DsP4zbQ1M";
+
+  afterEach(() => {
+    if (originalNetwork === undefined) {
+      delete process.env.NEXT_PUBLIC_BITCOIN_NETWORK;
+    } else {
+      process.env.NEXT_PUBLIC_BITCOIN_NETWORK = originalNetwork;
+    }
+  });
+
+  describe("mainnet", () => {
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "mainnet";
+    });
+
+    it("should derive with coin type 0 and bc1 addresses", () => {
+      const hdRoot = generateHDRoot(mnemonicToSeed(testMnemonic));
+
+      expect(getDefaultDerivationPath(AddressType.P2WPKH)).toBe(
+        "m/84'/0'/0'/0/0"
+      );
+      expect(deriveTestnetAddress(hdRoot)).toBe(
+        "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu"
+      );
+    });
+
+    it("should reject the testnet coin type", () => {
+      const hdRoot = generateHDRoot(mnemonicToSeed(testMnemonic));
+
+      expect(() => deriveTestnetAddress(hdRoot, "m/84'/1'/0'/0/0")).toThrow(
+        "must use coin_type 0' for Bitcoin mainnet"
+      );
+    });
+
+    it("should derive from a mainnet account xpub", () => {
+      expect(deriveAddressFromXPub(mainnetXpub, 0).address).toBe(
+        "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu"
+      );
+      expect(() => parseAccountXpub(testTpub)).toThrow(
+        "expected a mainnet zpub, ypub or xpub"
+      );
+    });
+
+    it("should validate mainnet addresses only", () => {
+      expect(isValidAddress("bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu")).toBe(
+        true
+      );
+      expect(
+        isValidAddress("tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl")
+      ).toBe(false);
+
+      const result = validateAddressDetailed(
+        "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl"
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Address is for testnet, not mainnet");
+    });
+  });
+
+  describe("regtest", () => {
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "regtest";
+    });
+
+    it("should derive bcrt1 addresses", () => {
+      const hdRoot = generateHDRoot(mnemonicToSeed(testMnemonic));
+      const address = deriveTestnetAddress(hdRoot);
+
+      expect(address).toBe("bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk");
+      expect(deriveAddressFromXPub(testTpub, 0).address).toBe(address);
+      expect(validateGeneratedAddress(address, AddressType.P2WPKH)).toBe(true);
+    });
+
+    it("should validate regtest addresses only", () => {
+      expect(
+        isValidAddress("bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk")
+      ).toBe(true);
+      expect(
+        isValidAddress("tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl")
+      ).toBe(false);
+      // Base58 version bytes are shared with the other test networks
+      expect(isValidAddress("mkpZhYtJu2r87Js3pDiWJDmPte2NRZ8bJV")).toBe(true);
+
+      const result = validateAddressDetailed(
+        "bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk"
+      );
+      expect(result.isValid).toBe(true);
+      expect(result.network).toBe(BitcoinNetwork.REGTEST);
+    });
+  });
+
+  describe("signet", () => {
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_BITCOIN_NETWORK = "signet";
+    });
+
+    it("should share the tb1 address format with testnet", () => {
+      const hdRoot = generateHDRoot(mnemonicToSeed(testMnemonic));
+
+      expect(deriveTestnetAddress(hdRoot)).toBe(
+        "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl"
+      );
+      expect(
+        isValidAddress("tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl")
+      ).toBe(true);
+      expect(
+        validateAddressDetailed("tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl")
+          .network
+      ).toBe(BitcoinNetwork.SIGNET);
+    });
+  });
+
+  it("should check addresses against an explicit network", () => {
+    expect(
+      isValidAddress(
+        "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+        BitcoinNetwork.MAINNET
+      )
+    ).toBe(true);
+    expect(
+      isValidAddress(
+        "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+        BitcoinNetwork.TESTNET4
+      )
+    ).toBe(false);
+  });
+});
+
+describe("output scripts", () => {
+  it("should convert between addresses and output scripts", () => {
+    const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+    const script = addressToOutputScript(address);
+
+    expect(script.toString("hex")).toBe(
+      "0014751e76e8199196d454941c45d1b3a323f1433bd6"
+    );
+    expect(outputScriptToAddress(script)).toBe(address);
+    expect(outputScriptToAddress(script, BitcoinNetwork.REGTEST)).toBe(
+      "bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080"
+    );
+  });
+
+  it("should reject addresses from another network", () => {
+    expect(() =>
+      addressToOutputScript("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4")
+    ).toThrow();
+  });
+
+  it("should return undefined for scripts without an address", () => {
+    const nullData = bitcoin.payments.embed({ data: [Buffer.from("memo")] })
+      .output!;
+
+    expect(outputScriptToAddress(nullData)).toBeUndefined();
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Webhook Lifecycle Tests
+ *
+ * Runs cleanup passes against the real payment status store with a scripted
+ * webhook provider:
+ * - Watches of settled and expired payments are deleted and forgotten
+ * - Watches of payments that can still change are kept
+ * - The sweep deletes watches on addresses that are not live payments, but
+ *   not those of a payment request still being created
+ * - Failures are counted, rate limits end a pass early
+ * - The previous watches of a recycled address are deleted
+ * - Interval configuration
+ */
+
+import { createPaymentRequest } from "@/actions/payment";
+import {
+  cleanupWebhooks,
+  getWebhookCleanupIntervalMs,
+  isPaymentLive,
+  releaseRecycledWatches,
+  startWebhookCleanup,
+  stopWebhookCleanup,
+} from "@/lib/services/webhook-lifecycle";
+import {
+  clearAllPaymentStatuses,
+  getFullPaymentData,
+  initializePaymentStatus,
+  updatePaymentStatus,
+} from "@/lib/store/payment-status";
+import {
+  ChainProviderRateLimitError,
+  type AddressWatch,
+} from "@/lib/api/chain-provider";
+import { PaymentStatus } from "@/types";
+
+const mockUnwatchAddress = jest.fn<Promise<void>, [string, string[]]>();
+const mockListWatches = jest.fn<Promise<AddressWatch[]>, []>();
+const mockWatchAddress = jest.fn<Promise<string[]>, [string]>();
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: () => ({
+    name: "mock",
+    requiresCallbackUrl: true,
+    watchAddress: (watchedAddress: string) => mockWatchAddress(watchedAddress),
+    unwatchAddress: (address: string, watchIds: string[]) =>
+      mockUnwatchAddress(address, watchIds),
+    listWatches: () => mockListWatches(),
+  }),
+}));
+
+const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+const otherAddress = "tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl";
+const thirdAddress =
+  "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createFormData(amount: string): FormData {
+  const formData = new FormData();
+  formData.set("amount", amount);
+  return formData;
+}
+
+async function createPayment(paymentAddress: string, ids: string[]) {
+  await initializePaymentStatus(paymentAddress, 0.001, ids[0], {
+    webhookIds: ids,
+  });
+}
+
+beforeEach(async () => {
+  await clearAllPaymentStatuses();
+  mockUnwatchAddress.mockReset();
+  mockUnwatchAddress.mockResolvedValue(undefined);
+  mockListWatches.mockReset();
+  mockListWatches.mockResolvedValue([]);
+});
+
+describe("isPaymentLive", () => {
+  const base = {
+    address,
+    createdAt: Date.now(),
+    lastUpdated: Date.now(),
+  };
+
+  it("should keep unsettled payments live", () => {
+    expect(
+      isPaymentLive({ ...base, status: PaymentStatus.AWAITING_PAYMENT })
+    ).toBe(true);
+    expect(
+      isPaymentLive({ ...base, status: PaymentStatus.PAYMENT_DETECTED })
+    ).toBe(true);
+    expect(
+      isPaymentLive({
+        ...base,
+        status: PaymentStatus.CONFIRMED,
+        confirmations: 5,
+      })
+    ).toBe(true);
+  });
+
+  it("should treat settled, failed and expired payments as done", () => {
+    expect(
+      isPaymentLive({
+        ...base,
+        status: PaymentStatus.CONFIRMED,
+        confirmations: 6,
+      })
+    ).toBe(false);
+    expect(isPaymentLive({ ...base, status: PaymentStatus.ERROR })).toBe(false);
+    expect(
+      isPaymentLive(
+        { ...base, status: PaymentStatus.AWAITING_PAYMENT },
+        base.createdAt + 2 * DAY_MS
+      )
+    ).toBe(false);
+  });
+
+  it("should watch expired payments for late funds until they settle", () => {
+    const expired = { ...base, status: PaymentStatus.EXPIRED };
+
+    expect(isPaymentLive(expired)).toBe(true);
+    expect(isPaymentLive(expired, base.createdAt + 2 * DAY_MS)).toBe(false);
+    expect(
+      isPaymentLive(
+        { ...expired, transactionId: "a".repeat(64), confirmations: 2 },
+        base.createdAt + 2 * DAY_MS
+      )
+    ).toBe(true);
+    expect(
+      isPaymentLive({
+        ...expired,
+        transactionId: "a".repeat(64),
+        confirmations: 6,
+      })
+    ).toBe(false);
+  });
+
+  it("should keep payments live until their own required confirmations", () => {
+    const confirmed = {
+      ...base,
+      status: PaymentStatus.CONFIRMED,
+      requiredConfirmations: 10,
+    };
+
+    expect(isPaymentLive({ ...confirmed, confirmations: 6 })).toBe(true);
+    expect(isPaymentLive({ ...confirmed, confirmations: 10 })).toBe(false);
+    expect(
+      isPaymentLive({
+        ...confirmed,
+        status: PaymentStatus.EXPIRED,
+        transactionId: "a".repeat(64),
+        confirmations: 8,
+      })
+    ).toBe(true);
+  });
+});
+
+describe("cleanupWebhooks", () => {
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_APP_URL;
+  });
+
+  it("should delete the watches of a payment confirmed to the final target", async () => {
+    await createPayment(address, ["hook-1", "hook-2"]);
+    await createPayment(otherAddress, ["hook-3", "hook-4"]);
+    await updatePaymentStatus(address, PaymentStatus.CONFIRMED, {
+      transactionId: "a".repeat(64),
+      confirmations: 6,
+    });
+    await updatePaymentStatus(otherAddress, PaymentStatus.CONFIRMED, {
+      transactionId: "b".repeat(64),
+      confirmations: 2,
+    });
+
+    await expect(cleanupWebhooks()).resolves.toEqual({
+      released: 1,
+      swept: 0,
+      failed: 0,
+      rateLimited: false,
+    });
+
+    expect(mockUnwatchAddress.mock.calls).toEqual([
+      [address, ["hook-1", "hook-2"]],
+    ]);
+    const data = await getFullPaymentData(address);
+    expect(data?.webhookIds).toBeUndefined();
+    expect(data?.webhookId).toBeUndefined();
+    expect((await getFullPaymentData(otherAddress))?.webhookIds).toEqual([
+      "hook-3",
+      "hook-4",
+    ]);
+
+    // Released watches are not deleted again
+    await expect(cleanupWebhooks()).resolves.toMatchObject({ released: 0 });
+    expect(mockUnwatchAddress).toHaveBeenCalledTimes(1);
+  });
+
+  it("should delete the watches of expired payment requests", async () => {
+    await createPayment(address, ["hook-1", "hook-2"]);
+    const createdAt = (await getFullPaymentData(address))!.createdAt;
+
+    jest.spyOn(Date, "now").mockReturnValue(createdAt + 2 * DAY_MS);
+    try {
+      await expect(cleanupWebhooks()).resolves.toMatchObject({
+        released: 1,
+      });
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(mockUnwatchAddress).toHaveBeenCalledWith(address, [
+      "hook-1",
+      "hook-2",
+    ]);
+  });
+
+  it("should release entries that only recorded their first webhook ID", async () => {
+    await initializePaymentStatus(address, 0.001, "hook-1");
+    await updatePaymentStatus(address, PaymentStatus.ERROR, {
+      transactionId: "a".repeat(64),
+      confirmations: 0,
+    });
+
+    await cleanupWebhooks();
+
+    expect(mockUnwatchAddress).toHaveBeenCalledWith(address, ["hook-1"]);
+  });
+
+  it("should sweep watches whose address is not a live payment", async () => {
+    await createPayment(address, ["hook-1", "hook-2"]);
+    await initializePaymentStatus(thirdAddress, 0.001, "hook-6");
+
+    mockListWatches.mockResolvedValue([
+      { id: "hook-1", address },
+      { id: "hook-2", address },
+      // Superseded watch of a recycled address
+      { id: "hook-0", address },
+      // Legacy entries keep all watches on their address
+      { id: "hook-6", address: thirdAddress },
+      { id: "hook-7", address: thirdAddress },
+      // Unknown address
+      { id: "hook-8", address: otherAddress },
+      // Not an address watch
+      { id: "hook-9" },
+    ]);
+
+    await expect(cleanupWebhooks()).resolves.toEqual({
+      released: 0,
+      swept: 2,
+      failed: 0,
+      rateLimited: false,
+    });
+    expect(mockUnwatchAddress.mock.calls).toEqual([
+      [address, ["hook-0"]],
+      [otherAddress, ["hook-8"]],
+    ]);
+  });
+
+  it("should keep the watches of a payment request still being created", async () => {
+    process.env.NEXT_PUBLIC_APP_URL = "https://shop.example.com";
+    // A pass runs while the provider registers the new request's watch
+    mockWatchAddress.mockImplementation(async (watchedAddress) => {
+      mockListWatches.mockResolvedValue([
+        { id: "hook-1", address: watchedAddress },
+      ]);
+      await cleanupWebhooks();
+      return ["hook-1"];
+    });
+
+    const result = await createPaymentRequest(createFormData("0.001"));
+
+    expect(result.success).toBe(true);
+    expect(mockUnwatchAddress).not.toHaveBeenCalled();
+    expect(
+      (await getFullPaymentData(result.data!.address))?.webhookIds
+    ).toEqual(["hook-1"]);
+  });
+
+  it("should continue after a failure and stop at a rate limit", async () => {
+    mockListWatches.mockResolvedValue([
+      { id: "hook-1", address },
+      { id: "hook-2", address: otherAddress },
+      { id: "hook-3", address: thirdAddress },
+    ]);
+    mockUnwatchAddress
+      .mockRejectedValueOnce(new Error("Service unavailable"))
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new ChainProviderRateLimitError());
+
+    await expect(cleanupWebhooks()).resolves.toEqual({
+      released: 0,
+      swept: 1,
+      failed: 1,
+      rateLimited: true,
+    });
+  });
+
+  it("should count a failed listing without throwing", async () => {
+    mockListWatches.mockRejectedValue(new Error("Service unavailable"));
+
+    await expect(cleanupWebhooks()).resolves.toMatchObject({ failed: 1 });
+  });
+});
+
+describe("releaseRecycledWatches", () => {
+  const previous = {
+    address,
+    status: PaymentStatus.EXPIRED,
+    webhookIds: ["hook-1", "hook-2"],
+    createdAt: 1_000,
+    lastUpdated: 1_000,
+  };
+
+  it("should delete the watches of a recycled address's previous request", async () => {
+    await expect(releaseRecycledWatches(previous)).resolves.toBe(true);
+    expect(mockUnwatchAddress).toHaveBeenCalledWith(address, [
+      "hook-1",
+      "hook-2",
+    ]);
+  });
+
+  it("should leave the watches to the sweep when deleting them fails", async () => {
+    mockUnwatchAddress.mockRejectedValue(new ChainProviderRateLimitError());
+
+    await expect(releaseRecycledWatches(previous)).resolves.toBe(false);
+  });
+});
+
+describe("Webhook cleanup configuration", () => {
+  const ORIGINAL_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.WEBHOOK_CLEANUP_INTERVAL_MINUTES;
+  });
+
+  afterEach(() => {
+    stopWebhookCleanup();
+  });
+
+  afterAll(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("should default to a 10 minute interval", () => {
+    expect(getWebhookCleanupIntervalMs()).toBe(600000);
+
+    process.env.WEBHOOK_CLEANUP_INTERVAL_MINUTES = "60";
+    expect(getWebhookCleanupIntervalMs()).toBe(3600000);
+  });
+
+  it("should reject invalid intervals", () => {
+    process.env.WEBHOOK_CLEANUP_INTERVAL_MINUTES = "1.5";
+
+    expect(() => getWebhookCleanupIntervalMs()).toThrow(
+      "WEBHOOK_CLEANUP_INTERVAL_MINUTES must be a non-negative integer, got '1.5'"
+    );
+  });
+
+  it("should start unless disabled", () => {
+    expect(startWebhookCleanup()).toBe(true);
+
+    stopWebhookCleanup();
+    process.env.WEBHOOK_CLEANUP_INTERVAL_MINUTES = "0";
+    expect(startWebhookCleanup()).toBe(false);
+  });
+});
@@ -11,6 +11,12 @@ import {
   extractAddress,
   calculateAmountReceived,
   isValidTransaction,
+  applyConfirmationPolicy,
+  extractRbfSignal,
+  extractFeeRate,
+  extractUnconfirmedInputs,
+  extractSpentOutpoints,
+  extractConfirmingBlock,
 } from "@/lib/utils/webhook-parser";
 import { PaymentStatus } from "@/types";
 import type { BlockcypherWebhookPayload } from "@/lib/validation/webhook";
@@ -51,18 +57,21 @@ describe("webhook-parser", () => {
       );
     });
 
-    it("should map double-spend-tx to ERROR", () => {
+    it("should map double-spend-tx by its confirmations", () => {
       expect(mapEventToPaymentStatus("double-spend-tx")).toBe(
-        PaymentStatus.ERROR
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect(mapEventToPaymentStatus("double-spend-tx", 1)).toBe(
+        PaymentStatus.CONFIRMED
       );
     });
 
-    it("should map any event with double_spend flag to ERROR", () => {
+    it("should map events with the double_spend flag by their confirmations", () => {
       expect(mapEventToPaymentStatus("confirmed-tx", 1, true)).toBe(
-        PaymentStatus.ERROR
+        PaymentStatus.CONFIRMED
       );
       expect(mapEventToPaymentStatus("unconfirmed-tx", 0, true)).toBe(
-        PaymentStatus.ERROR
+        PaymentStatus.PAYMENT_DETECTED
       );
     });
 
@@ -74,6 +83,216 @@ describe("webhook-parser", () => {
         PaymentStatus.CONFIRMED
       );
     });
+
+    it("should require the payment's confirmations for CONFIRMED", () => {
+      expect(mapEventToPaymentStatus("tx-confirmation", 2, false, 6)).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect(mapEventToPaymentStatus("tx-confirmation", 6, false, 6)).toBe(
+        PaymentStatus.CONFIRMED
+      );
+    });
+
+    it("should only accept unconfirmed transactions that do not signal RBF", () => {
+      expect(
+        mapEventToPaymentStatus("unconfirmed-tx", 0, false, 0, false)
+      ).toBe(PaymentStatus.CONFIRMED);
+      expect(mapEventToPaymentStatus("unconfirmed-tx", 0, false, 0, true)).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect(mapEventToPaymentStatus("unconfirmed-tx", 0, false, 0)).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect(mapEventToPaymentStatus("unconfirmed-tx", 0, true, 0, false)).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+    });
+  });
+
+  describe("applyConfirmationPolicy", () => {
+    const parsed = {
+      transactionHash: mockTxHash,
+      address: mockAddress,
+      status: PaymentStatus.CONFIRMED,
+      confirmations: 2,
+      totalAmount: 100000,
+      isDoubleSpend: false,
+      lastUpdated: Date.now(),
+    };
+
+    it("should re-map the status for the payment's required confirmations", () => {
+      expect(applyConfirmationPolicy(parsed, 3).status).toBe(
+        PaymentStatus.PAYMENT_DETECTED
+      );
+      expect(applyConfirmationPolicy(parsed, 2).status).toBe(
+        PaymentStatus.CONFIRMED
+      );
+      expect(
+        applyConfirmationPolicy(
+          {
+            ...parsed,
+            status: PaymentStatus.PAYMENT_DETECTED,
+            confirmations: 0,
+            signalsRbf: false,
+          },
+          0
+        ).status
+      ).toBe(PaymentStatus.CONFIRMED);
+    });
+
+    it("should leave errors unchanged", () => {
+      expect(
+        applyConfirmationPolicy(
+          { ...parsed, status: PaymentStatus.ERROR, isDoubleSpend: true },
+          0
+        ).status
+      ).toBe(PaymentStatus.ERROR);
+    });
+  });
+
+  describe("extractRbfSignal", () => {
+    const input = (sequence: number) => ({
+      prev_hash: mockTxHash,
+      output_index: 0,
+      output_value: 100000,
+      sequence,
+      addresses: [mockAddress],
+      script_type: "pay-to-witness-pubkey-hash",
+    });
+
+    it("should prefer the opt_in_rbf flag", () => {
+      expect(
+        extractRbfSignal({
+          opt_in_rbf: true,
+          inputs: [input(0xffffffff)],
+        } as BlockcypherWebhookPayload)
+      ).toBe(true);
+    });
+
+    it("should read the signalling from input sequence numbers", () => {
+      expect(
+        extractRbfSignal({
+          inputs: [input(0xffffffff), input(0xfffffffd)],
+        } as BlockcypherWebhookPayload)
+      ).toBe(true);
+      expect(
+        extractRbfSignal({
+          inputs: [input(0xffffffff), input(0xfffffffe)],
+        } as BlockcypherWebhookPayload)
+      ).toBe(false);
+    });
+
+    it("should leave the signalling unknown without inputs", () => {
+      expect(extractRbfSignal({} as BlockcypherWebhookPayload)).toBeUndefined();
+    });
+  });
+
+  describe("extractFeeRate", () => {
+    it("should divide the fee by the virtual size when reported", () => {
+      expect(
+        extractFeeRate({
+          fees: 1410,
+          size: 222,
+          vsize: 141,
+        } as BlockcypherWebhookPayload)
+      ).toBe(10);
+    });
+
+    it("should fall back to the size and round to two decimals", () => {
+      expect(
+        extractFeeRate({ fees: 1000, size: 300 } as BlockcypherWebhookPayload)
+      ).toBe(3.33);
+    });
+
+    it("should leave the fee rate unknown without a size", () => {
+      expect(
+        extractFeeRate({ fees: 1000, size: 0 } as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+    });
+  });
+
+  describe("extractUnconfirmedInputs", () => {
+    const input = (age?: number) => ({
+      prev_hash: mockTxHash,
+      output_index: 0,
+      output_value: 100000,
+      sequence: 0xffffffff,
+      addresses: [mockAddress],
+      script_type: "pay-to-witness-pubkey-hash",
+      age,
+    });
+
+    it("should flag inputs that spend unconfirmed outputs", () => {
+      expect(
+        extractUnconfirmedInputs({
+          inputs: [input(12), input(0)],
+        } as BlockcypherWebhookPayload)
+      ).toBe(true);
+      expect(
+        extractUnconfirmedInputs({
+          inputs: [input(12), input(1)],
+        } as BlockcypherWebhookPayload)
+      ).toBe(false);
+    });
+
+    it("should leave it unknown when no input reports its age", () => {
+      expect(
+        extractUnconfirmedInputs({
+          inputs: [input()],
+        } as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+      expect(
+        extractUnconfirmedInputs({} as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+    });
+  });
+
+  describe("extractSpentOutpoints", () => {
+    it("should list the outputs the inputs spend", () => {
+      expect(
+        extractSpentOutpoints({
+          inputs: [
+            { prev_hash: mockTxHash, output_index: 1 },
+            { prev_hash: "f".repeat(64), output_index: 0 },
+          ],
+        } as BlockcypherWebhookPayload)
+      ).toEqual([`${mockTxHash}:1`, `${"f".repeat(64)}:0`]);
+    });
+
+    it("should leave them unknown without inputs", () => {
+      expect(
+        extractSpentOutpoints({
+          inputs: [],
+        } as unknown as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+      expect(
+        extractSpentOutpoints({} as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+    });
+  });
+
+  describe("extractConfirmingBlock", () => {
+    it("should read the hash and height of the confirming block", () => {
+      expect(
+        extractConfirmingBlock({
+          block_hash: "c".repeat(64),
+          block_height: 2500100,
+        } as BlockcypherWebhookPayload)
+      ).toEqual({ blockHash: "c".repeat(64), blockHeight: 2500100 });
+    });
+
+    it("should leave it unknown while unconfirmed or without a hash", () => {
+      expect(
+        extractConfirmingBlock({
+          block_height: -1,
+        } as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+      expect(
+        extractConfirmingBlock({
+          block_height: 2500100,
+        } as BlockcypherWebhookPayload)
+      ).toBeUndefined();
+    });
   });
 
   describe("extractAddress", () => {
@@ -234,6 +453,29 @@ describe("webhook-parser", () => {
       expect(result!.confirmations).toBe(3);
     });
 
+    it("should flag double spends without failing the transaction", () => {
+      const payload: Partial<BlockcypherWebhookPayload> = {
+        hash: mockTxHash,
+        address: mockAddress,
+        confirmations: 0,
+        total: 100000,
+        double_spend: false,
+      };
+
+      for (const [overrides, eventType] of [
+        [{ double_spend: true }, "unconfirmed-tx"],
+        [{}, "double-spend-tx"],
+      ] as const) {
+        const result = parseWebhookTransaction(
+          { ...payload, ...overrides } as BlockcypherWebhookPayload,
+          eventType
+        );
+
+        expect(result!.isDoubleSpend).toBe(true);
+        expect(result!.status).toBe(PaymentStatus.PAYMENT_DETECTED);
+      }
+    });
+
     it("should return null when address cannot be extracted", () => {
       const payload: Partial<BlockcypherWebhookPayload> = {
         token: "test-token",
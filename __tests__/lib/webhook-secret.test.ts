@@ -0,0 +1,41 @@
+/**
+ * Webhook Secret Tests
+ */
+
+import {
+  generateWebhookSecret,
+  isWebhookSecretValid,
+  withWebhookSecret,
+} from "@/lib/utils/webhook-secret";
+
+describe("Webhook secrets", () => {
+  it("should generate distinct 256-bit secrets", () => {
+    const secret = generateWebhookSecret();
+
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+
+  it("should add the secret to the callback URL query string", () => {
+    expect(
+      withWebhookSecret(
+        "https://shop.example.com/api/webhook/payment-update",
+        "abc"
+      )
+    ).toBe("https://shop.example.com/api/webhook/payment-update?secret=abc");
+    expect(withWebhookSecret("https://shop.example.com/hook?v=2", "abc")).toBe(
+      "https://shop.example.com/hook?v=2&secret=abc"
+    );
+  });
+
+  it("should only accept the exact stored secret", () => {
+    const secret = generateWebhookSecret();
+
+    expect(isWebhookSecretValid(secret, secret)).toBe(true);
+    expect(isWebhookSecretValid(secret.slice(1), secret)).toBe(false);
+    expect(isWebhookSecretValid(`${secret}0`, secret)).toBe(false);
+    expect(isWebhookSecretValid(null, secret)).toBe(false);
+    expect(isWebhookSecretValid("", secret)).toBe(false);
+    expect(isWebhookSecretValid(secret, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Zero-Confirmation Risk Tests
+ *
+ * Covers scoring of unconfirmed transactions, the `ZERO_CONF_MAX_RISK`
+ * setting and the cached fee estimates used to rate fee rates.
+ */
+
+import type { FeeEstimates } from "@/lib/api/chain-provider";
+import {
+  getZeroConfMaxRisk,
+  getZeroConfRiskLevel,
+  isZeroConfRiskAccepted,
+  scoreZeroConfRisk,
+} from "@/lib/services/zero-conf-risk";
+
+const mockEstimateFees = jest.fn<Promise<FeeEstimates>, []>();
+
+jest.mock("@/lib/api/providers", () => ({
+  getChainProvider: () => ({
+    name: "mock",
+    estimateFees: () => mockEstimateFees(),
+  }),
+}));
+
+const estimates: FeeEstimates = { high: 20, medium: 10, low: 5 };
+
+describe("scoreZeroConfRisk", () => {
+  const safe = {
+    isDoubleSpend: false,
+    signalsRbf: false,
+    feeRate: 25,
+    hasUnconfirmedInputs: false,
+  };
+
+  it("should rate a transaction with no risk factors as low risk", () => {
+    expect(scoreZeroConfRisk(safe, estimates, 1000)).toEqual({
+      score: 0,
+      level: "low",
+      factors: [],
+      feeRate: 25,
+      assessedAt: 1000,
+    });
+  });
+
+  it.each([
+    [{ isDoubleSpend: true }, ["double-spend"], 100, "high"],
+    [{ signalsRbf: true }, ["rbf-signalled"], 60, "high"],
+    [{ signalsRbf: undefined }, ["rbf-unknown"], 30, "medium"],
+    [{ feeRate: 4 }, ["fee-below-economy"], 40, "medium"],
+    [{ feeRate: 5 }, ["fee-below-target"], 15, "low"],
+    [{ feeRate: undefined }, ["fee-rate-unknown"], 15, "low"],
+    [{ hasUnconfirmedInputs: true }, ["unconfirmed-inputs"], 25, "medium"],
+    [{ hasUnconfirmedInputs: undefined }, ["inputs-unknown"], 10, "low"],
+    [{ confidence: 0.5 }, ["low-confidence"], 25, "medium"],
+  ])("should rate %p with %p", (overrides, factors, score, level) => {
+    expect(
+      scoreZeroConfRisk({ ...safe, ...overrides }, estimates)
+    ).toMatchObject({ score, level, factors });
+  });
+
+  it("should rate the fee rate unknown without estimates", () => {
+    expect(scoreZeroConfRisk(safe).factors).toEqual(["fee-rate-unknown"]);
+  });
+
+  it("should accept confidence as a fraction or a percentage", () => {
+    expect(
+      scoreZeroConfRisk({ ...safe, confidence: 0.95 }, estimates).factors
+    ).toEqual([]);
+    expect(
+      scoreZeroConfRisk({ ...safe, confidence: 95 }, estimates).factors
+    ).toEqual([]);
+    expect(
+      scoreZeroConfRisk({ ...safe, confidence: 80 }, estimates).factors
+    ).toEqual(["low-confidence"]);
+  });
+
+  it("should add up factors and cap the score at 100", () => {
+    expect(
+      scoreZeroConfRisk(
+        { isDoubleSpend: false, signalsRbf: undefined },
+        estimates
+      )
+    ).toMatchObject({
+      score: 55,
+      level: "high",
+      factors: ["rbf-unknown", "fee-rate-unknown", "inputs-unknown"],
+    });
+    expect(
+      scoreZeroConfRisk({ ...safe, isDoubleSpend: true, signalsRbf: true })
+        .score
+    ).toBe(100);
+  });
+});
+
+describe("getZeroConfRiskLevel", () => {
+  it.each([
+    [0, "low"],
+    [19, "low"],
+    [20, "medium"],
+    [49, "medium"],
+    [50, "high"],
+    [100, "high"],
+  ])("should map a score of %p to %p", (score, level) => {
+    expect(getZeroConfRiskLevel(score)).toBe(level);
+  });
+});
+
+describe("getZeroConfMaxRisk", () => {
+  const originalMaxRisk = process.env.ZERO_CONF_MAX_RISK;
+
+  afterEach(() => {
+    if (originalMaxRisk === undefined) {
+      delete process.env.ZERO_CONF_MAX_RISK;
+    } else {
+      process.env.ZERO_CONF_MAX_RISK = originalMaxRisk;
+    }
+  });
+
+  it("should accept low risk when unset", () => {
+    delete process.env.ZERO_CONF_MAX_RISK;
+    expect(getZeroConfMaxRisk()).toBe("low");
+  });
+
+  it("should read the configured level", () => {
+    process.env.ZERO_CONF_MAX_RISK = " Medium ";
+    expect(getZeroConfMaxRisk()).toBe("medium");
+  });
+
+  it("should reject other levels", () => {
+    process.env.ZERO_CONF_MAX_RISK = "high";
+    expect(() => getZeroConfMaxRisk()).toThrow(
+      "ZERO_CONF_MAX_RISK must be 'low' or 'medium', got 'high'"
+    );
+  });
+});
+
+describe("isZeroConfRiskAccepted", () => {
+  const rated = (level: "low" | "medium" | "high") => ({
+    score: 0,
+    level,
+    factors: [],
+    assessedAt: 0,
+  });
+
+  it("should accept ratings up to the maximum level", () => {
+    expect(isZeroConfRiskAccepted(rated("low"), "low")).toBe(true);
+    expect(isZeroConfRiskAccepted(rated("medium"), "low")).toBe(false);
+    expect(isZeroConfRiskAccepted(rated("medium"), "medium")).toBe(true);
+    expect(isZeroConfRiskAccepted(rated("high"), "medium")).toBe(false);
+  });
+
+  it("should use the configured level by default", () => {
+    delete process.env.ZERO_CONF_MAX_RISK;
+    expect(isZeroConfRiskAccepted(rated("low"))).toBe(true);
+    expect(isZeroConfRiskAccepted(rated("medium"))).toBe(false);
+  });
+});
+
+describe("fee estimates", () => {
+  // Loaded per test so that every test starts with an empty cache
+  const loadService = () => import("@/lib/services/zero-conf-risk");
+
+  beforeEach(() => {
+    mockEstimateFees.mockReset();
+  });
+
+  it("should fetch estimates once per cache period", async () => {
+    const { getCachedFeeEstimates, ZERO_CONF_RISK_CONFIG } =
+      await loadService();
+    const now = jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+    mockEstimateFees.mockResolvedValue(estimates);
+
+    try {
+      await expect(getCachedFeeEstimates()).resolves.toEqual(estimates);
+      await expect(getCachedFeeEstimates()).resolves.toEqual(estimates);
+      expect(mockEstimateFees).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1_000_000 + ZERO_CONF_RISK_CONFIG.feeEstimateCacheMs);
+      await getCachedFeeEstimates();
+      expect(mockEstimateFees).toHaveBeenCalledTimes(2);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it("should rate the fee rate unknown when estimates are unavailable", async () => {
+    const { assessZeroConfRisk } = await loadService();
+    mockEstimateFees.mockRejectedValue(new Error("provider down"));
+
+    const risk = await assessZeroConfRisk({
+      isDoubleSpend: false,
+      signalsRbf: false,
+      feeRate: 25,
+      hasUnconfirmedInputs: false,
+    });
+
+    expect(risk.factors).toEqual(["fee-rate-unknown"]);
+    expect(risk.level).toBe("low");
+  });
+
+  it("should rate the fee rate against current estimates", async () => {
+    const { assessZeroConfRisk } = await loadService();
+    mockEstimateFees.mockResolvedValue(estimates);
+
+    const risk = await assessZeroConfRisk({
+      isDoubleSpend: false,
+      signalsRbf: false,
+      feeRate: 2,
+      hasUnconfirmedInputs: false,
+    });
+
+    expect(risk).toMatchObject({
+      level: "medium",
+      factors: ["fee-below-economy"],
+      feeRate: 2,
+    });
+  });
+
+  it("should not fetch estimates without a fee rate", async () => {
+    const { assessZeroConfRisk } = await loadService();
+
+    await assessZeroConfRisk({ isDoubleSpend: false, signalsRbf: false });
+
+    expect(mockEstimateFees).not.toHaveBeenCalled();
+  });
+});
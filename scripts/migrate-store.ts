@@ -0,0 +1,95 @@
+/**
+ * Payment Store Migration CLI
+ *
+ * Upgrades persisted payment records to the current schema version. Runs as
+ * a dry run unless `--apply` is given:
+ *
+ *   npm run store:migrate                       # report pending migrations
+ *   npm run store:migrate -- --apply            # migrate the configured store
+ *   npm run store:migrate -- --store sqlite     # override PAYMENT_STORE
+ *
+ * Run from the project root: the store directory is `.payment-store` there,
+ * as for the app, and `PAYMENT_STORE` selects the backend.
+ * Exits with status 1 when the store cannot be migrated, e.g. because it was
+ * written by a newer version.
+ */
+
+import { getPaymentStore } from "@/lib/store/stores";
+import type { MigrationReport } from "@/lib/store/migrations";
+
+const USAGE = "Usage: store:migrate [--apply] [--store json|memory|sqlite]";
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(args: string[]): { apply: boolean; store?: string } {
+  let apply = false;
+  let store: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--apply") {
+      apply = true;
+    } else if (arg === "--store" && args[i + 1]) {
+      store = args[++i];
+    } else if (arg.startsWith("--store=")) {
+      store = arg.slice("--store=".length);
+    } else {
+      throw new Error(`Unknown argument: ${arg}\n${USAGE}`);
+    }
+  }
+
+  return { apply, store };
+}
+
+/**
+ * Print a migration report
+ */
+function printReport(report: MigrationReport): void {
+  console.log(`Store:           ${report.store}`);
+  console.log(
+    `Schema version:  v${report.fromVersion} -> v${report.toVersion}`
+  );
+  console.log(`Records:         ${report.totalRecords}`);
+  console.log(`Records changed: ${report.changedRecords}`);
+
+  if (report.migrations.length === 0) {
+    console.log("No migrations pending.");
+    return;
+  }
+
+  console.log(report.dryRun ? "Pending migrations:" : "Applied migrations:");
+  for (const migration of report.migrations) {
+    console.log(`  v${migration.version}: ${migration.description}`);
+  }
+  if (report.dryRun) {
+    console.log(
+      "Dry run: nothing was written. Re-run with --apply to migrate."
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const { apply, store: storeType } = parseArgs(process.argv.slice(2));
+  if (storeType) {
+    process.env.PAYMENT_STORE = storeType;
+  }
+
+  const store = getPaymentStore();
+  try {
+    if (!store.migrate) {
+      console.log(
+        `The ${store.name} store is not persisted; nothing to migrate.`
+      );
+      return;
+    }
+    printReport(await store.migrate({ dryRun: !apply }));
+  } finally {
+    await store.close?.();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -15,9 +15,31 @@ import {
   paymentRequestSchema,
   generateBip21Uri,
 } from "@/lib/validation/payment";
-import { generateWalletAddress } from "@/lib/bitcoin/wallet";
-import { registerPaymentWebhook, BlockcypherRateLimitError } from "@/lib/api/blockcypher";
-import { initializePaymentStatus } from "@/lib/store/payment-status";
+import {
+  generateWalletAddress,
+  getAccountXpubEnvVar,
+  getConfiguredAccountXpub,
+  isXpubDerivationEnabled,
+} from "@/lib/bitcoin/wallet";
+import {
+  allocatePaymentAddress,
+  type AllocatedAddress,
+} from "@/lib/bitcoin/address-allocator";
+import { getChainProvider } from "@/lib/api/providers";
+import { isRateLimitError } from "@/lib/api/chain-provider";
+import {
+  initializePaymentStatus,
+  recordPaymentWebhooks,
+  releaseRecycledAddress,
+} from "@/lib/store/payment-status";
+import { releaseRecycledWatches } from "@/lib/services/webhook-lifecycle";
+import { getPaymentExpiresAt } from "@/lib/services/payment-expiry";
+import { getRequiredConfirmations } from "@/lib/services/confirmation-policy";
+import {
+  generateWebhookSecret,
+  withWebhookSecret,
+} from "@/lib/utils/webhook-secret";
+import { AddressType } from "@/types";
 
 /**
  * Server Action Response Types
@@ -34,6 +56,12 @@ export type PaymentRequestData = {
   paymentUri: string;
   requestTimestamp: Date;
   webhookId?: string;
+  /** Receive address type (P2WPKH when omitted) */
+  addressType?: AddressType;
+  /** When the request expires if unpaid (requests created before expiry never do) */
+  expiresAt?: number;
+  /** Confirmations the payment needs to be confirmed (1 when omitted) */
+  requiredConfirmations?: number;
 };
 
 export type CreatePaymentRequestResult = ServerActionResult<PaymentRequestData>;
@@ -42,10 +70,16 @@ export type CreatePaymentRequestResult = ServerActionResult<PaymentRequestData>;
  * Creates a new Bitcoin testnet payment request
  *
  * This Server Action handles the complete payment request creation flow:
- * 1. Validates the form input (amount)
+ * 1. Validates the form input (amount, optional address type and expiry in minutes)
  * 2. Generates a new testnet address (Task 3.1.3 - ✅ IMPLEMENTED)
+ *    - Supports P2WPKH (default), P2TR, P2SH-P2WPKH and P2PKH addresses
+ *    - Derived from the address type's account xpub within the gap limit when configured
+ *    - Otherwise generated from an ephemeral mnemonic
  * 3. Creates BIP21 payment URI (Task 3.1.4 - ✅ IMPLEMENTED)
- * 4. Registers webhook with Blockcypher (Task 3.2.3 - ✅ IMPLEMENTED)
+ * 4. Stores the request with its expiry (`PAYMENT_EXPIRY_MINUTES` unless overridden)
+ *    and the confirmations its amount requires (`CONFIRMATION_POLICY`)
+ * 5. Registers an address watch with the configured chain provider (Task 3.2.3 - ✅ IMPLEMENTED)
+ *    and records its IDs with the request
  *
  * @param formData - Form data from the payment request form
  * @returns Promise<CreatePaymentRequestResult> - Structured response with payment details or error
@@ -69,9 +103,14 @@ export type CreatePaymentRequestResult = ServerActionResult<PaymentRequestData>;
 export async function createPaymentRequest(
   formData: FormData
 ): Promise<CreatePaymentRequestResult> {
+  // Derived address, given back if the request fails once it was recycled
+  let derivedAddress: AllocatedAddress | undefined;
+
   try {
     // Extract and validate form data
     const rawAmount = formData.get("amount");
+    const rawAddressType = formData.get("addressType");
+    const rawExpiresInMinutes = formData.get("expiresInMinutes");
 
     // Basic input validation
     if (!rawAmount || typeof rawAmount !== "string") {
@@ -84,6 +123,14 @@ export async function createPaymentRequest(
     // Validate using our payment request schema - let it handle all validation
     const validationResult = paymentRequestSchema.safeParse({
       amount: rawAmount.trim(),
+      addressType:
+        typeof rawAddressType === "string" && rawAddressType.trim()
+          ? rawAddressType.trim()
+          : undefined,
+      expiresInMinutes:
+        typeof rawExpiresInMinutes === "string" && rawExpiresInMinutes.trim()
+          ? rawExpiresInMinutes.trim()
+          : undefined,
     });
 
     if (!validationResult.success) {
@@ -97,12 +144,29 @@ export async function createPaymentRequest(
       };
     }
 
-    const { amount } = validationResult.data;
+    const { amount, expiresInMinutes } = validationResult.data;
+    const addressType = validationResult.data.addressType ?? AddressType.P2WPKH;
 
     // Task 3.1.3 - ✅ IMPLEMENTED: Generate wallet address using secure wallet service
     let address: string;
     try {
-      address = generateWalletAddress();
+      const accountXpub = getConfiguredAccountXpub(addressType);
+      if (accountXpub) {
+        // Deterministic mode: recoverable from the merchant's account xpub,
+        // recycling expired unpaid addresses to stay within the gap limit
+        derivedAddress = await allocatePaymentAddress(accountXpub, addressType);
+        address = derivedAddress.address;
+      } else if (isXpubDerivationEnabled()) {
+        // Never fall back to unrecoverable ephemeral addresses in xpub mode
+        return {
+          success: false,
+          error: `Failed to generate payment address: No account xpub configured for ${addressType} addresses (set ${getAccountXpubEnvVar(
+            addressType
+          )})`,
+        };
+      } else {
+        address = generateWalletAddress(undefined, addressType);
+      }
     } catch (walletError) {
       console.error("Wallet address generation failed:", walletError);
       return {
@@ -117,53 +181,90 @@ export async function createPaymentRequest(
 
     // Task 3.1.4 - ✅ IMPLEMENTED: Generate BIP21 payment URI
     // Using generateBip21Uri function which implements the required generatePaymentURI(address, amount) functionality
-    const paymentUri = generateBip21Uri(address, amount, "testnet");
+    const paymentUri = generateBip21Uri(address, amount);
+
+    // Larger payments wait for more confirmations
+    const requiredConfirmations = getRequiredConfirmations(amount);
 
-    // Task 3.2.3 - ✅ IMPLEMENTED: Register webhook with Blockcypher
+    // Get the webhook URL from environment or construct it
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL;
+    // Ensure HTTPS for webhook URL (required by webhook providers)
+    const webhookUrl = baseUrl
+      ? `${
+          baseUrl.startsWith("http") ? baseUrl : `https://${baseUrl}`
+        }/api/webhook/payment-update`
+      : undefined;
+    // Webhooks authenticate with a per-payment secret in their callback URL
+    const webhookSecret = webhookUrl ? generateWebhookSecret() : undefined;
+
+    // Initialize payment status in the store, expiring if unpaid in time.
+    // Stored before any watch is registered, so that the webhook cleanup
+    // sweep never takes the new watches for orphans
+    const expiresAt = getPaymentExpiresAt(Date.now(), expiresInMinutes);
+    await initializePaymentStatus(address, amount, undefined, {
+      derivationPath: derivedAddress?.derivationPath,
+      derivationIndex: derivedAddress?.derivationIndex,
+      addressType,
+      webhookSecret,
+      expiresAt,
+      requiredConfirmations,
+      previousPayment: derivedAddress?.previousPayment,
+    });
+
+    // Task 3.2.3 - ✅ IMPLEMENTED: Register address watch with the chain provider
     let webhookId: string | undefined;
+    let webhookIds: string[] | undefined;
     try {
-      // Get the webhook URL from environment or construct it
-      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL;
-      if (!baseUrl) {
+      const provider = getChainProvider();
+
+      if (!webhookUrl && provider.requiresCallbackUrl) {
         console.warn(
-          "No NEXT_PUBLIC_APP_URL or VERCEL_URL found - webhook registration will be skipped"
+          "No NEXT_PUBLIC_APP_URL or VERCEL_URL found - webhook registration will be skipped (the reconciler polls for updates)"
         );
         webhookId = undefined;
       } else {
-        // Ensure HTTPS for webhook URL (required by Blockcypher)
-        const webhookUrl = `${
-          baseUrl.startsWith("http") ? baseUrl : `https://${baseUrl}`
-        }/api/webhook/payment-update`;
-
         console.log(
-          `Registering webhook for address ${address} at ${webhookUrl}`
+          `Registering ${provider.name} watch for address ${address}${
+            webhookUrl ? ` at ${webhookUrl}` : ""
+          }`
         );
 
-        const webhookIds = await registerPaymentWebhook(address, webhookUrl);
+        // Providers without push notifications (e.g. Esplora) return no IDs
+        webhookIds = await provider.watchAddress(
+          address,
+          webhookUrl && withWebhookSecret(webhookUrl, webhookSecret!),
+          requiredConfirmations
+        );
         webhookId = webhookIds[0]; // Store first webhook ID for compatibility
         console.log(`Webhooks registered successfully with IDs: ${webhookIds.join(', ')}`);
       }
     } catch (webhookError) {
       // Re-throw rate limit errors as they indicate we can't proceed
-      if (webhookError instanceof BlockcypherRateLimitError) {
-        console.error("BlockCypher rate limit exceeded:", webhookError);
+      if (isRateLimitError(webhookError)) {
+        console.error("Chain provider rate limit exceeded:", webhookError);
         throw webhookError;
       }
       
       // Log other webhook registration failures but don't fail the entire request
       console.warn(
-        "Webhook registration failed (continuing without webhook):",
+        "Webhook registration failed (continuing without webhook; the reconciler polls for updates):",
         webhookError
       );
       webhookId = undefined;
 
       // Note: This is graceful degradation - the payment request still works
-      // but users will need to check payment status manually rather than
-      // receiving automatic webhook notifications
+      // and the background reconciler (src/lib/services/reconciler.ts) polls
+      // the chain provider instead of receiving webhook notifications
     }
 
-    // Initialize payment status in the store
-    await initializePaymentStatus(address, amount, webhookId);
+    // The secret is dropped again if no webhook was registered
+    await recordPaymentWebhooks(address, webhookIds);
+
+    // Deleted only once the request exists: a failed request restores the
+    // recycled address's previous payment together with its watches
+    if (derivedAddress?.previousPayment) {
+      await releaseRecycledWatches(derivedAddress.previousPayment);
+    }
 
     // Create request timestamp
     const requestTimestamp = new Date();
@@ -177,17 +278,28 @@ export async function createPaymentRequest(
         paymentUri,
         requestTimestamp,
         webhookId,
+        addressType,
+        expiresAt,
+        requiredConfirmations,
       },
     };
   } catch (error) {
     // Handle unexpected errors
     console.error("Error in createPaymentRequest:", error);
 
+    // Keep the recycled address recyclable instead of blocking it for another period
+    if (derivedAddress?.previousPayment) {
+      await releaseRecycledAddress(derivedAddress.previousPayment).catch(
+        (releaseError) =>
+          console.error("Failed to release recycled address:", releaseError)
+      );
+    }
+
     // Handle rate limit errors specifically
-    if (error instanceof BlockcypherRateLimitError) {
+    if (isRateLimitError(error)) {
       return {
         success: false,
-        error: "Unable to process payment request: BlockCypher API rate limit exceeded. Please try again in a few minutes.",
+        error: "Unable to process payment request: chain provider rate limit exceeded. Please try again in a few minutes.",
       };
     }
 
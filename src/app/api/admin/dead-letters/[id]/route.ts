@@ -0,0 +1,138 @@
+/**
+ * Admin API Route for a Single Webhook Dead Letter
+ *
+ * Endpoints:
+ * - GET /api/admin/dead-letters/[id] - Inspect a delivery, including its raw
+ *   body and headers (the webhook secret is redacted)
+ * - POST /api/admin/dead-letters/[id] - Replay the delivery
+ * - DELETE /api/admin/dead-letters/[id] - Discard the delivery
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "@/lib/utils/admin-auth";
+import {
+  getDeadLetter,
+  removeDeadLetter,
+  type DeadLetter,
+} from "@/lib/store/dead-letters";
+import { replayDeadLetter } from "@/lib/services/webhook-processing";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Response for an unknown dead letter ID
+ */
+function notFound(id: string): NextResponse {
+  return NextResponse.json(
+    { error: `Dead letter not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+/**
+ * Marks whether a delivery carried a webhook secret without returning it
+ */
+function redactSecret(deadLetter: DeadLetter): DeadLetter {
+  return {
+    ...deadLetter,
+    delivery: {
+      ...deadLetter.delivery,
+      secret: deadLetter.delivery.secret === null ? null : "[redacted]",
+    },
+  };
+}
+
+/**
+ * GET handler returning a dead letter with its delivery
+ *
+ * @param request - Next.js request object
+ * @param params - Route params containing the dead letter ID
+ * @returns NextResponse with the dead letter or 404
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const unauthorized = authorizeAdminRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+
+  try {
+    const deadLetter = await getDeadLetter(id);
+    return deadLetter
+      ? NextResponse.json(redactSecret(deadLetter))
+      : notFound(id);
+  } catch (error) {
+    console.error("[ADMIN_API] Failed to load dead letter:", id, error);
+    return NextResponse.json(
+      { error: "Failed to load dead letter" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler replaying a dead letter
+ *
+ * @param request - Next.js request object
+ * @param params - Route params containing the dead letter ID
+ * @returns NextResponse with the replay outcome or 404
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const unauthorized = authorizeAdminRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+
+  try {
+    const result = await replayDeadLetter(id);
+    return result ? NextResponse.json(result) : notFound(id);
+  } catch (error) {
+    console.error("[ADMIN_API] Failed to replay dead letter:", id, error);
+    return NextResponse.json(
+      { error: "Failed to replay dead letter" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler discarding a dead letter
+ *
+ * @param request - Next.js request object
+ * @param params - Route params containing the dead letter ID
+ * @returns NextResponse confirming removal or 404
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const unauthorized = authorizeAdminRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { id } = await params;
+
+  try {
+    return (await removeDeadLetter(id))
+      ? NextResponse.json({ message: "Dead letter removed", id })
+      : notFound(id);
+  } catch (error) {
+    console.error("[ADMIN_API] Failed to remove dead letter:", id, error);
+    return NextResponse.json(
+      { error: "Failed to remove dead letter" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Admin API Route for Webhook Dead Letters
+ *
+ * Endpoints:
+ * - GET /api/admin/dead-letters - List stored deliveries (without raw bodies)
+ * - POST /api/admin/dead-letters - Replay every stored delivery
+ *
+ * Replays go through the same pipeline as live webhooks
+ * (`processWebhookDelivery`); processed deliveries are removed, the others
+ * stay with an incremented attempt count.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "@/lib/utils/admin-auth";
+import { listDeadLetters } from "@/lib/store/dead-letters";
+import { replayAllDeadLetters } from "@/lib/services/webhook-processing";
+
+/**
+ * GET handler listing dead letters, oldest first
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with dead letter summaries
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const unauthorized = authorizeAdminRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const deadLetters = await listDeadLetters();
+
+    return NextResponse.json({
+      count: deadLetters.length,
+      deadLetters: deadLetters.map(({ delivery, ...deadLetter }) => ({
+        ...deadLetter,
+        eventType: delivery.headers["x-eventtype"],
+        eventId: delivery.headers["x-eventid"],
+        size: delivery.rawBody.length,
+      })),
+    });
+  } catch (error) {
+    console.error("[ADMIN_API] Failed to list dead letters:", error);
+    return NextResponse.json(
+      { error: "Failed to list dead letters" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler replaying all dead letters
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse with one replay outcome per dead letter
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const unauthorized = authorizeAdminRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const results = await replayAllDeadLetters();
+    const processed = results.filter((result) => result.processed).length;
+
+    return NextResponse.json({
+      replayed: results.length,
+      processed,
+      failed: results.length - processed,
+      results,
+    });
+  } catch (error) {
+    console.error("[ADMIN_API] Failed to replay dead letters:", error);
+    return NextResponse.json(
+      { error: "Failed to replay dead letters" },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,14 @@
  * - Returns current status from in-memory store
  * - Client-safe response (no sensitive data)
  * - Proper error handling for invalid or non-existent addresses
+ * - Reports expiry: unpaid requests past `expiresAt` are returned as EXPIRED,
+ *   and `latePayment` marks funds received after expiry (awaiting review)
+ * - Reports until when an expired, unfunded request is still watched for late
+ *   payments (`watchedUntil`), so clients know how long to keep polling
+ * - Reports the confirmations the payment requires under the confirmation
+ *   policy (`requiredConfirmations`), so clients can show "2 of 6 confirmations"
+ * - Reports every transaction credited to the address with the total received
+ *   and, for underpayments, the amount still outstanding (in satoshis)
  *
  * Usage:
  * - Client polls this endpoint via TanStack Query
@@ -21,17 +29,28 @@
  *
  * Response format:
  * {
- *   status: 'AWAITING_PAYMENT' | 'PAYMENT_DETECTED' | 'CONFIRMED' | 'ERROR',
+ *   status: 'AWAITING_PAYMENT' | 'PAYMENT_DETECTED' | 'CONFIRMED' | 'UNDERPAID'
+ *     | 'OVERPAID' | 'ERROR' | 'EXPIRED' | 'REFUNDED',
  *   confirmations?: number,
+ *   requiredConfirmations: number,
  *   transactionId?: string,
  *   errorMessage?: string,
- *   lastUpdated?: number
+ *   lastUpdated?: number,
+ *   history?: { from, to, transactionId, confirmations, source, timestamp }[],
+ *   expiresAt?: number,
+ *   latePayment?: boolean,
+ *   watchedUntil?: number,
+ *   transactions?: { transactionId, amount, confirmations, firstSeen }[],
+ *   receivedAmount?: number,
+ *   outstandingAmount?: number
  * }
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getPaymentStatus } from "@/lib/store/payment-status";
-import { isValidTestnetAddress } from "@/lib/bitcoin/wallet";
+import { isValidAddress } from "@/lib/bitcoin/wallet";
+import { getConfiguredNetwork } from "@/lib/bitcoin/network";
+import { getConfiguredRecycleAfterMs } from "@/lib/bitcoin/address-allocator";
 import type { PaymentStatusResponse } from "@/types";
 
 /**
@@ -63,20 +82,24 @@ export async function GET(
       );
     }
 
-    // Validate Bitcoin testnet address format using the robust wallet validation
-    if (!isValidTestnetAddress(address)) {
+    // Validate address format for the configured network using the robust wallet validation
+    if (!isValidAddress(address)) {
+      const network = getConfiguredNetwork();
       console.error(
-        "[PAYMENT_STATUS_API] Invalid Bitcoin testnet address format:",
+        `[PAYMENT_STATUS_API] Invalid Bitcoin ${network} address format:`,
         address
       );
       return NextResponse.json(
-        { error: "Invalid Bitcoin testnet address format" },
+        { error: `Invalid Bitcoin ${network} address format` },
         { status: 400 }
       );
     }
 
     // Retrieve payment status from file-based store
-    const paymentStatus = await getPaymentStatus(address);
+    const paymentStatus = await getPaymentStatus(
+      address,
+      getConfiguredRecycleAfterMs()
+    );
 
     if (!paymentStatus) {
       console.log(
@@ -105,9 +128,17 @@ export async function GET(
     const response: PaymentStatusResponse = {
       status: paymentStatus.status,
       confirmations: paymentStatus.confirmations,
+      requiredConfirmations: paymentStatus.requiredConfirmations,
       transactionId: paymentStatus.transactionId,
       errorMessage: paymentStatus.errorMessage,
       lastUpdated: paymentStatus.lastUpdated,
+      history: paymentStatus.history,
+      expiresAt: paymentStatus.expiresAt,
+      latePayment: paymentStatus.latePayment,
+      transactions: paymentStatus.transactions,
+      receivedAmount: paymentStatus.receivedAmount,
+      outstandingAmount: paymentStatus.outstandingAmount,
+      watchedUntil: paymentStatus.watchedUntil,
     };
 
     return NextResponse.json(response, {
@@ -22,22 +22,45 @@
  * - Handle double-spend and error scenarios
  *
  * Security considerations:
+ * - Authenticates every notification with the secret its payment's webhooks
+ *   were registered with (`?secret=` in the callback URL); requests without a
+ *   matching secret are rejected with 401 and change nothing
+ * - `new-block` events need no secret: they are not applied, they only
+ *   trigger a check of the provider's chain for reorganizations
+ * - Re-fetches the transaction before accepting a confirmation; payloads that
+ *   disagree with the chain are recorded as suspicious events, not applied
+ * - Processed events are kept in a ledger; redeliveries are acknowledged
+ *   with 200 but not applied again
  * - Validates webhook payload structure
+ * - Unparseable deliveries and failed updates are kept as dead letters with
+ *   their raw body and headers, for inspection and replay
  * - Logs all webhook events for debugging
  * - Returns appropriate HTTP status codes
  * - Graceful error handling
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { BlockcypherWebhookPayloadSchema } from "@/lib/validation/webhook";
-import {
-  parseWebhookTransactionForAllAddresses,
-  isValidTransaction,
-} from "@/lib/utils/webhook-parser";
-import {
-  updatePaymentStatus,
-  isAddressMonitored,
-} from "@/lib/store/payment-status";
+import { WEBHOOK_SECRET_PARAM } from "@/lib/utils/webhook-secret";
+import { processWebhookDelivery } from "@/lib/services/webhook-processing";
+import { addDeadLetter, type WebhookDelivery } from "@/lib/store/dead-letters";
+
+/**
+ * Collects the headers worth keeping with a delivery (content type, user
+ * agent and BlockCypher's `x-*` headers); credentials and cookies are dropped
+ */
+function getDeliveryHeaders(req: NextRequest): Record<string, string> {
+  const headers: Record<string, string> = {};
+  req.headers.forEach((value, name) => {
+    if (
+      name.startsWith("x-") ||
+      name === "content-type" ||
+      name === "user-agent"
+    ) {
+      headers[name] = value;
+    }
+  });
+  return headers;
+}
 
 /**
  * POST handler for webhook payment updates
@@ -47,211 +70,35 @@ import {
  * - Transactions receive confirmations
  * - Double-spend attempts are detected
  *
+ * Processing is done by `processWebhookDelivery`; deliveries it cannot
+ * handle are stored in the dead-letter store for replay.
+ *
  * @param request - Next.js request object containing webhook payload
  * @returns NextResponse with appropriate status and message
  */
 export async function POST(req: NextRequest): Promise<NextResponse> {
-  let payload;
-  try {
-    payload = await req.json();
-  } catch (error) {
-    console.error("[WEBHOOK_ERROR] Error parsing webhook JSON payload:", error);
-    return NextResponse.json(
-      { error: "Invalid JSON payload" },
-      { status: 400 }
-    );
-  }
-
-  // Log key webhook information
-  console.log(
-    "[WEBHOOK_DEBUG] Webhook received for transaction:",
-    payload.hash
-  );
-
-  // Get event type from headers (BlockCypher sends it as x-eventtype)
-  const eventType = req.headers.get("x-eventtype");
-  const webhookId = req.headers.get("x-eventid");
+  const delivery: WebhookDelivery = {
+    rawBody: await req.text(),
+    headers: getDeliveryHeaders(req),
+    secret: req.nextUrl.searchParams.get(WEBHOOK_SECRET_PARAM),
+  };
 
-  if (!eventType) {
-    console.error("[WEBHOOK_ERROR] Missing x-eventtype header");
-    return NextResponse.json(
-      { error: "Missing event type header" },
-      { status: 400 }
-    );
-  }
-
-  // Validate supported event types
-  const supportedEvents = [
-    "unconfirmed-tx",
-    "confirmed-tx",
-    "tx-confirmation",
-    "new-block",
-    "double-spend-tx",
-  ];
-  if (!supportedEvents.includes(eventType)) {
-    console.error("[WEBHOOK_ERROR] Unsupported event type:", eventType);
-    return NextResponse.json(
-      { error: `Unsupported event type: ${eventType}` },
-      { status: 400 }
-    );
-  }
-
-  const validationResult = BlockcypherWebhookPayloadSchema.safeParse(payload);
-
-  if (!validationResult.success) {
-    console.error(
-      "[WEBHOOK_ERROR] Webhook payload validation failed:",
-      validationResult.error.errors
-    );
-    return NextResponse.json(
-      {
-        error: "Invalid payload structure",
-        details: validationResult.error.format(),
-      },
-      { status: 400 }
-    );
-  }
-
-  const validatedPayload = validationResult.data;
-
-  // ========================================================================
-  // Task 5.1.3: Parse transaction data from webhook
-  // ========================================================================
-
-  console.log(
-    "[WEBHOOK_INFO] Processing webhook for event:",
-    eventType,
-    "tx_hash:",
-    validatedPayload.hash,
-    "webhook_id:",
-    webhookId
-  );
-
-  // Parse transaction data for all receiving addresses in the webhook payload
-  const parsedTransactions = parseWebhookTransactionForAllAddresses(
-    validatedPayload,
-    eventType
-  );
-
-  if (parsedTransactions.length === 0) {
-    console.error(
-      "[WEBHOOK_ERROR] Could not parse any transaction data from webhook payload"
-    );
-    return NextResponse.json(
-      { error: "Unable to parse transaction data" },
-      { status: 400 }
-    );
-  }
-
-  // Log all receiving addresses
-  console.log(
-    "[WEBHOOK_INFO] Found receiving addresses:",
-    parsedTransactions.map((tx) => tx.address).join(", ")
-  );
-
-  // ========================================================================
-  // Task 5.2.2: Update payment status in store for all relevant addresses
-  // ========================================================================
-
-  let successfulUpdates = 0;
-  let failedUpdates = 0;
-  const updateResults = [];
-
-  for (const parsedTransaction of parsedTransactions) {
-    // Validate the parsed transaction data
-    if (!isValidTransaction(parsedTransaction)) {
-      console.error(
-        "[WEBHOOK_ERROR] Parsed transaction data is invalid:",
-        parsedTransaction
-      );
-      failedUpdates++;
-      continue;
-    }
-
-    // Check if this address is being monitored by our system
-    const isMonitored = await isAddressMonitored(parsedTransaction.address);
-    if (!isMonitored) {
-      console.log(
-        "[WEBHOOK_INFO] Skipping unmonitored address:",
-        parsedTransaction.address
-      );
-      continue;
-    }
-
-    console.log("[WEBHOOK_SUCCESS] Successfully parsed transaction data:", {
-      transactionHash: parsedTransaction.transactionHash,
-      address: parsedTransaction.address,
-      status: parsedTransaction.status,
-      confirmations: parsedTransaction.confirmations,
-      amount: parsedTransaction.totalAmount,
-      isDoubleSpend: parsedTransaction.isDoubleSpend,
-    });
+  const result = await processWebhookDelivery(delivery);
 
+  if (result.deadLetter) {
     try {
-      // Update the payment status in our file-based store
-      await updatePaymentStatus(
-        parsedTransaction.address,
-        parsedTransaction.status,
-        parsedTransaction.transactionHash,
-        parsedTransaction.confirmations,
-        parsedTransaction.totalAmount,
-        parsedTransaction.confidence,
-        parsedTransaction.isDoubleSpend
+      await addDeadLetter(
+        delivery,
+        result.deadLetter.reason,
+        result.deadLetter.error,
+        result.deadLetter.authenticated
       );
-
-      console.log("[WEBHOOK_SUCCESS] Payment status updated in store:", {
-        address: parsedTransaction.address,
-        status: parsedTransaction.status,
-        confirmations: parsedTransaction.confirmations,
-        transactionHash: parsedTransaction.transactionHash,
-      });
-
-      successfulUpdates++;
-      updateResults.push({
-        address: parsedTransaction.address,
-        status: parsedTransaction.status,
-        updated: true,
-      });
     } catch (error) {
-      console.error(
-        "[WEBHOOK_ERROR] Failed to update payment status for address:",
-        parsedTransaction.address,
-        error
-      );
-      failedUpdates++;
-      updateResults.push({
-        address: parsedTransaction.address,
-        status: parsedTransaction.status,
-        updated: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-      // We log the error but don't fail the webhook response
-      // BlockCypher should still receive a 200 OK to prevent retries
+      console.error("[WEBHOOK_ERROR] Failed to store dead letter:", error);
     }
   }
 
-  const primaryTransaction = parsedTransactions[0];
-  console.log("[WEBHOOK_SUCCESS] Webhook processed successfully:", {
-    event: eventType,
-    transactionHash: primaryTransaction.transactionHash,
-    addressesProcessed: parsedTransactions.length,
-    successfulUpdates,
-    failedUpdates,
-    updateResults,
-  });
-
-  return NextResponse.json(
-    {
-      message: "Webhook processed successfully",
-      transactionHash: primaryTransaction.transactionHash,
-      status: primaryTransaction.status,
-      confirmations: primaryTransaction.confirmations,
-      addressesProcessed: parsedTransactions.length,
-      successfulUpdates,
-      failedUpdates,
-    },
-    { status: 200 }
-  );
+  return NextResponse.json(result.body, { status: result.status });
 }
 
 /**
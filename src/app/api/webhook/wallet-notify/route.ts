@@ -0,0 +1,104 @@
+/**
+ * Wallet Notification API Route
+ *
+ * Push target for chain providers that notify by transaction ID only, such as
+ * Bitcoin Core's `-walletnotify` hook:
+ *
+ *   bitcoind -walletnotify="curl -s -X POST http://127.0.0.1:3000/api/webhook/wallet-notify?txid=%s"
+ *
+ * bitcoind runs the hook when a watched address first sees a transaction and
+ * again when it confirms. The notification carries no payment data: the
+ * transaction is looked up with the configured chain provider, so a forged
+ * request can at most trigger a refresh of real chain state.
+ *
+ * Accepts the transaction ID as a `txid` query parameter or a JSON body
+ * `{ "txid": "..." }`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getChainProvider } from "@/lib/api/providers";
+import { applyChainTransaction } from "@/lib/services/payment-updates";
+
+/**
+ * Reads the transaction ID from the query string or JSON body
+ */
+async function readTxid(req: NextRequest): Promise<string | null> {
+  const queryTxid = req.nextUrl.searchParams.get("txid");
+  if (queryTxid) {
+    return queryTxid.trim();
+  }
+
+  try {
+    const body = await req.json();
+    return typeof body?.txid === "string" ? body.txid.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST handler for transaction notifications
+ *
+ * @param req - Next.js request object carrying the transaction ID
+ * @returns NextResponse with the update summary
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const txid = await readTxid(req);
+
+  if (!txid || !/^[0-9a-fA-F]{64}$/.test(txid)) {
+    return NextResponse.json(
+      { error: "A 64-character hex txid is required" },
+      { status: 400 }
+    );
+  }
+
+  const provider = getChainProvider();
+
+  let transaction;
+  try {
+    transaction = await provider.getTransaction(txid);
+  } catch (error) {
+    console.error(
+      `[WALLET_NOTIFY] Failed to fetch transaction ${txid} from ${provider.name}:`,
+      error
+    );
+    return NextResponse.json(
+      {
+        error: `Failed to fetch transaction: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      },
+      { status: 502 }
+    );
+  }
+
+  if (!transaction) {
+    return NextResponse.json(
+      { error: `Transaction ${txid} is not known to ${provider.name}` },
+      { status: 404 }
+    );
+  }
+
+  const { parsedTransactions, successfulUpdates, failedUpdates } =
+    await applyChainTransaction(transaction);
+
+  console.log("[WALLET_NOTIFY] Transaction processed:", {
+    transactionHash: txid,
+    confirmations: transaction.confirmations,
+    addressesProcessed: parsedTransactions.length,
+    successfulUpdates,
+    failedUpdates,
+  });
+
+  return NextResponse.json(
+    {
+      message: "Transaction processed successfully",
+      transactionHash: txid,
+      confirmations: transaction.confirmations,
+      addressesProcessed: parsedTransactions.length,
+      successfulUpdates,
+      failedUpdates,
+    },
+    { status: 200 }
+  );
+}
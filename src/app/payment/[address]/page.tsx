@@ -6,9 +6,13 @@ import { QrCodeDisplay } from "@/components/payment/QrCodeDisplay";
 import { PaymentStatus } from "@/components/payment/PaymentStatus";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { getFullPaymentData } from "@/lib/store/payment-status";
+import {
+  getFullPaymentData,
+  getPaymentStatus,
+} from "@/lib/store/payment-status";
 import { generateBip21Uri } from "@/lib/validation/payment";
-import { isValidTestnetAddress } from "@/lib/bitcoin/wallet";
+import { isValidAddress } from "@/lib/bitcoin/wallet";
+import { getNetworkProfile } from "@/lib/bitcoin/network";
 import type { PaymentRequestData } from "@/actions/payment";
 import type { PaymentStatusResponse } from "@/types";
 import getQueryClient from "@/lib/query-client-server";
@@ -28,19 +32,14 @@ async function fetchPaymentStatusServer(
   try {
     // In a real app, you might want to call an internal API or service directly
     // This is better than duplicating logic - consider extracting to shared utility
-    const fullPaymentData = await getFullPaymentData(address);
+    // Same client-safe view as the status API (expires overdue requests)
+    const paymentStatus = await getPaymentStatus(address);
 
-    if (!fullPaymentData) {
+    if (!paymentStatus) {
       throw new Error(`Payment data not found for address: ${address}`);
     }
 
-    return {
-      status: fullPaymentData.status,
-      confirmations: fullPaymentData.confirmations,
-      transactionId: fullPaymentData.transactionId,
-      errorMessage: fullPaymentData.errorMessage,
-      lastUpdated: fullPaymentData.lastUpdated,
-    };
+    return paymentStatus;
   } catch (error) {
     // Re-throw with more context for debugging
     throw new Error(
@@ -54,8 +53,8 @@ async function fetchPaymentStatusServer(
 export default async function PaymentPage({ params }: PaymentPageProps) {
   const { address } = await params;
 
-  // Validate address format (Bitcoin testnet addresses)
-  if (!isValidTestnetAddress(address)) {
+  // Validate address format for the configured network
+  if (!isValidAddress(address)) {
     notFound();
   }
 
@@ -96,22 +95,25 @@ export default async function PaymentPage({ params }: PaymentPageProps) {
     amount: fullPaymentData.expectedAmount || 0,
     paymentUri: generateBip21Uri(
       fullPaymentData.address,
-      fullPaymentData.expectedAmount || 0,
-      "testnet"
+      fullPaymentData.expectedAmount || 0
     ),
     requestTimestamp: new Date(fullPaymentData.createdAt),
     webhookId: fullPaymentData.webhookId,
+    addressType: fullPaymentData.addressType,
+    expiresAt: fullPaymentData.expiresAt,
   };
+  const networkProfile = getNetworkProfile();
 
   return (
     <HydrationBoundary state={dehydrate(queryClient)}>
       <div className="flex flex-col items-center justify-center min-h-screen p-4 sm:p-8">
         <header className="mb-8 text-center">
           <h1 className="text-3xl sm:text-4xl font-bold text-foreground">
-            Bitcoin Testnet Payment
+            Bitcoin {networkProfile.label} Payment
           </h1>
           <p className="text-muted-foreground mt-2">
-            Generate a testnet Bitcoin QR code payment request.
+            Generate a {networkProfile.label.toLowerCase()} Bitcoin QR code
+            payment request.
           </p>
         </header>
 
@@ -128,13 +130,15 @@ export default async function PaymentPage({ params }: PaymentPageProps) {
 
         <footer className="mt-12 text-center text-sm text-muted-foreground">
           <p>
-            &copy; {new Date().getFullYear()} Bitcoin Testnet Payment. All
-            rights reserved.
-          </p>
-          <p className="mt-1">
-            This application uses the Bitcoin test network. Do not use real
-            Bitcoin.
+            &copy; {new Date().getFullYear()} Bitcoin {networkProfile.label}{" "}
+            Payment. All rights reserved.
           </p>
+          {networkProfile.isTestNetwork && (
+            <p className="mt-1">
+              This application uses the Bitcoin test network. Do not use real
+              Bitcoin.
+            </p>
+          )}
         </footer>
       </div>
     </HydrationBoundary>
@@ -26,11 +26,18 @@ import {
   PaymentRequestData,
   CreatePaymentRequestResult,
 } from "@/actions/payment";
-import { paymentRequestSchema } from "@/lib/validation/payment";
+import {
+  paymentRequestSchema,
+  getAddressTypeLabel,
+} from "@/lib/validation/payment";
+import { cn } from "@/lib/utils";
+import { AddressType } from "@/types";
+import { getNetworkProfile } from "@/lib/bitcoin/network";
 
 // Create a form-specific schema that doesn't transform values
 const formSchema = z.object({
   amount: z.string().trim().min(1, "Amount is required"),
+  addressType: z.nativeEnum(AddressType),
 });
 
 type PaymentFormValues = z.infer<typeof formSchema>;
@@ -53,6 +60,7 @@ export function PaymentForm({ onPaymentRequestCreated }: PaymentFormProps) {
     resolver: zodResolver(formSchema),
     defaultValues: {
       amount: "",
+      addressType: AddressType.P2WPKH,
     },
     mode: "onChange",
   });
@@ -83,17 +91,21 @@ export function PaymentForm({ onPaymentRequestCreated }: PaymentFormProps) {
   function handleFormSubmit(event: React.FormEvent<HTMLFormElement>) {
     const formData = new FormData(event.currentTarget);
     const amount = formData.get("amount") as string;
+    const addressType = formData.get("addressType") as string;
 
     // Validate with the real schema before submission
     const validationResult = paymentRequestSchema.safeParse({
       amount: amount,
+      addressType: addressType,
     });
 
     if (!validationResult.success) {
       // Prevent form submission and show validation errors
       event.preventDefault();
       validationResult.error.errors.forEach((error) => {
-        form.setError("amount", { message: error.message });
+        const field =
+          error.path[0] === "addressType" ? "addressType" : "amount";
+        form.setError(field, { message: error.message });
       });
       return;
     }
@@ -134,13 +146,46 @@ export function PaymentForm({ onPaymentRequestCreated }: PaymentFormProps) {
                   </FormControl>
                   {/* FormDescription will use --muted-foreground */}
                   <FormDescription>
-                    Enter the amount of Bitcoin (testnet) you want to request.
+                    Enter the amount of Bitcoin (
+                    {getNetworkProfile().label.toLowerCase()}) you want to
+                    request.
                   </FormDescription>
                   {/* FormMessage will use --destructive for error text */}
                   <FormMessage />
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="addressType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address Type</FormLabel>
+                  <FormControl>
+                    {/* Native select styled to match Input */}
+                    <select
+                      {...field}
+                      disabled={isPending}
+                      className={cn(
+                        "border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm",
+                        "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                      )}
+                    >
+                      {Object.values(AddressType).map((addressType) => (
+                        <option key={addressType} value={addressType}>
+                          {getAddressTypeLabel(addressType)}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>
+                    Native SegWit is the most widely supported. Choose another
+                    type if the payer&apos;s wallet requires it.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             {/* Default Button uses --primary and --primary-foreground */}
             <Button
               type="submit"
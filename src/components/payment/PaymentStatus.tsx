@@ -2,18 +2,147 @@
 "use client";
 
 import React from "react";
-import { CheckCircle, Clock, AlertCircle, Loader2 } from "lucide-react";
+import {
+  CheckCircle,
+  Clock,
+  AlertCircle,
+  Loader2,
+  RotateCcw,
+} from "lucide-react";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { usePaymentStatus } from "@/hooks/usePaymentStatus";
-import { PaymentStatus as PaymentStatusEnum } from "@/types";
+import {
+  PaymentHistoryEvent,
+  PaymentStatus as PaymentStatusEnum,
+  type PaymentStatusTransition,
+} from "@/types";
+import { getExplorerTxUrl, getNetworkProfile } from "@/lib/bitcoin/network";
+import { formatBtcAmount, satoshisToBtc } from "@/lib/validation/payment";
 
 interface PaymentStatusProps {
   address: string;
   onRetry?: () => void;
 }
 
+// Links to the block explorer of the configured network; regtest has none
+function TransactionLink({ transactionId }: { transactionId: string }) {
+  const explorerUrl = getExplorerTxUrl(transactionId);
+
+  if (!explorerUrl) {
+    return <span className="font-mono break-all">{transactionId}</span>;
+  }
+
+  return (
+    <a
+      href={explorerUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-primary hover:text-primary/80 underline break-all transition-colors"
+    >
+      {transactionId}
+    </a>
+  );
+}
+
+const SOURCE_LABELS: Record<PaymentStatusTransition["source"], string> = {
+  webhook: "notification",
+  subscription: "subscription",
+  reconciler: "chain check",
+  expiry: "expiry",
+  manual: "manual update",
+};
+
+// Describes a transition, e.g. "Detected in mempool" or "3 confirmations"
+function describeTransition(transition: PaymentStatusTransition): string {
+  if (transition.event === PaymentHistoryEvent.REPLACED) {
+    return "Transaction replaced (e.g. fee bump)";
+  }
+  if (transition.event === PaymentHistoryEvent.EVICTED) {
+    return transition.to === PaymentStatusEnum.AWAITING_PAYMENT
+      ? "Transaction dropped from mempool, awaiting payment"
+      : "Transaction dropped from mempool";
+  }
+  if (transition.event === PaymentHistoryEvent.REORGED) {
+    switch (transition.to) {
+      case PaymentStatusEnum.AWAITING_PAYMENT:
+        return "Block reorganized away, awaiting payment";
+      case PaymentStatusEnum.PAYMENT_DETECTED:
+        return "Block reorganized away, waiting for confirmation";
+      default:
+        return "Block reorganized, confirmations recounted";
+    }
+  }
+
+  switch (transition.to) {
+    case PaymentStatusEnum.AWAITING_PAYMENT:
+      return "Awaiting payment";
+    case PaymentStatusEnum.PAYMENT_DETECTED:
+      return "Detected in mempool";
+    case PaymentStatusEnum.CONFIRMED: {
+      const count = `${transition.confirmations} confirmation${
+        transition.confirmations === 1 ? "" : "s"
+      }`;
+      return transition.from === PaymentStatusEnum.CONFIRMED
+        ? count
+        : `Confirmed (${count})`;
+    }
+    case PaymentStatusEnum.UNDERPAID:
+      return "Partial payment received";
+    case PaymentStatusEnum.OVERPAID:
+      return "Overpayment received";
+    case PaymentStatusEnum.ERROR:
+      return "Payment error";
+    case PaymentStatusEnum.EXPIRED:
+      return transition.transactionId
+        ? "Late payment received (under review)"
+        : "Payment request expired";
+    case PaymentStatusEnum.REFUNDED:
+      return "Refunded";
+  }
+}
+
+// Confirmation progress, e.g. "2 of 6 confirmations" or, once reached,
+// "7 confirmations (6 required)"
+function describeConfirmations(
+  confirmations: number,
+  requiredConfirmations: number
+): string {
+  if (confirmations >= requiredConfirmations) {
+    return `${confirmations} confirmation${
+      confirmations === 1 ? "" : "s"
+    } (${requiredConfirmations} required)`;
+  }
+  return `${confirmations} of ${requiredConfirmations} confirmation${
+    requiredConfirmations === 1 ? "" : "s"
+  }`;
+}
+
+// Timeline of the status transitions, oldest first
+function StatusTimeline({ history }: { history: PaymentStatusTransition[] }) {
+  return (
+    <div className="px-6 pb-4">
+      <p className="text-sm font-medium mb-2">History</p>
+      <ol className="relative border-l border-muted pl-4 space-y-3">
+        {history.map((transition) => (
+          <li
+            key={`${transition.timestamp}-${transition.to}-${transition.confirmations}`}
+            className="relative"
+          >
+            <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+            <p className="text-sm">{describeTransition(transition)}</p>
+            <p className="text-xs text-muted-foreground">
+              {new Date(transition.timestamp).toLocaleTimeString()} ·{" "}
+              {SOURCE_LABELS[transition.source]}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 export function PaymentStatus({ address, onRetry }: PaymentStatusProps) {
   const {
     data: paymentStatus,
@@ -27,7 +156,8 @@ export function PaymentStatus({ address, onRetry }: PaymentStatusProps) {
     aggressivePolling: true, // More frequent polling for awaiting payments
   });
 
-  const testnetExplorerUrl = process.env.NEXT_PUBLIC_TESTNET_EXPLORER_ADDRESS;
+  const networkProfile = getNetworkProfile();
+  const requiredConfirmations = paymentStatus?.requiredConfirmations ?? 1;
 
   // Handle loading state
   if (isLoading || (!paymentStatus && !isError)) {
@@ -129,20 +259,19 @@ export function PaymentStatus({ address, onRetry }: PaymentStatusProps) {
                 </p>
                 {paymentStatus.confirmations !== undefined && (
                   <p className="text-sm text-muted-foreground">
-                    Confirmations: {paymentStatus.confirmations}/1
+                    {/* Unconfirmed funds that may be replaced need one block */}
+                    {describeConfirmations(
+                      paymentStatus.confirmations,
+                      Math.max(requiredConfirmations, 1)
+                    )}
                   </p>
                 )}
                 {paymentStatus.transactionId && (
                   <div className="text-xs text-muted-foreground">
                     <p className="mb-1">Transaction:</p>
-                    <a
-                      href={`${testnetExplorerUrl}${paymentStatus.transactionId}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:text-primary/80 underline break-all transition-colors"
-                    >
-                      {paymentStatus.transactionId}
-                    </a>
+                    <TransactionLink
+                      transactionId={paymentStatus.transactionId}
+                    />
                   </div>
                 )}
               </div>
@@ -171,25 +300,108 @@ export function PaymentStatus({ address, onRetry }: PaymentStatusProps) {
                   Payment Successfully Confirmed!
                 </p>
                 <p className="text-muted-foreground">
-                  Your Bitcoin testnet payment has been confirmed on the
-                  blockchain.
+                  Your Bitcoin {networkProfile.label.toLowerCase()} payment has
+                  been confirmed on the blockchain.
+                </p>
+                {paymentStatus.confirmations !== undefined && (
+                  <p className="text-sm text-muted-foreground">
+                    {requiredConfirmations === 0 &&
+                    paymentStatus.confirmations === 0
+                      ? "Accepted before confirmation"
+                      : describeConfirmations(
+                          paymentStatus.confirmations,
+                          requiredConfirmations
+                        )}
+                  </p>
+                )}
+                {paymentStatus.transactionId && (
+                  <div className="text-xs text-muted-foreground">
+                    <p className="mb-1">Transaction:</p>
+                    <TransactionLink
+                      transactionId={paymentStatus.transactionId}
+                    />
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </>
+        );
+
+      case PaymentStatusEnum.UNDERPAID:
+        return (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-amber-600">
+                <AlertCircle className="h-5 w-5" />
+                Partial Payment Received
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-center space-y-2">
+                <p className="font-medium text-amber-600">
+                  Less than the requested amount was received.
+                </p>
+                {paymentStatus.outstandingAmount !== undefined ? (
+                  <p className="text-muted-foreground">
+                    Send the remaining{" "}
+                    <span className="font-mono text-foreground">
+                      {formatBtcAmount(
+                        satoshisToBtc(paymentStatus.outstandingAmount)
+                      )}{" "}
+                      BTC
+                    </span>{" "}
+                    to the address above to complete the payment.
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">
+                    Send the remaining amount to the address above to complete
+                    the payment.
+                  </p>
+                )}
+                {paymentStatus.transactionId && (
+                  <div className="text-xs text-muted-foreground">
+                    <p className="mb-1">Transaction:</p>
+                    <TransactionLink
+                      transactionId={paymentStatus.transactionId}
+                    />
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </>
+        );
+
+      case PaymentStatusEnum.OVERPAID:
+        return (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-green-600">
+                <CheckCircle className="h-5 w-5" />
+                Payment Received
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-center space-y-2">
+                <p className="font-medium text-green-600">
+                  More than the requested amount was received.
+                </p>
+                <p className="text-muted-foreground">
+                  Contact the merchant to arrange a refund of the difference.
                 </p>
                 {paymentStatus.confirmations !== undefined && (
                   <p className="text-sm text-muted-foreground">
-                    Confirmations: {paymentStatus.confirmations}/1
+                    {describeConfirmations(
+                      paymentStatus.confirmations,
+                      requiredConfirmations
+                    )}
                   </p>
                 )}
                 {paymentStatus.transactionId && (
                   <div className="text-xs text-muted-foreground">
                     <p className="mb-1">Transaction:</p>
-                    <a
-                      href={`${testnetExplorerUrl}${paymentStatus.transactionId}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:text-primary/80 underline break-all transition-colors"
-                    >
-                      {paymentStatus.transactionId}
-                    </a>
+                    <TransactionLink
+                      transactionId={paymentStatus.transactionId}
+                    />
                   </div>
                 )}
               </div>
@@ -197,6 +409,64 @@ export function PaymentStatus({ address, onRetry }: PaymentStatusProps) {
           </>
         );
 
+      case PaymentStatusEnum.EXPIRED:
+        return (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-muted-foreground">
+                <Clock className="h-5 w-5" />
+                Payment Request Expired
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {paymentStatus.latePayment ? (
+                <div className="text-center space-y-2">
+                  <p className="font-medium text-amber-600">
+                    A payment arrived after this request expired.
+                  </p>
+                  <p className="text-muted-foreground">
+                    The merchant will review it and either accept or refund it.
+                  </p>
+                  {paymentStatus.transactionId && (
+                    <div className="text-xs text-muted-foreground">
+                      <p className="mb-1">Transaction:</p>
+                      <TransactionLink
+                        transactionId={paymentStatus.transactionId}
+                      />
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-center text-muted-foreground">
+                  This payment request expired before a payment was detected.
+                </p>
+              )}
+              {onRetry && !paymentStatus.latePayment && (
+                <Button variant="default" onClick={onRetry} className="w-full">
+                  Create New Payment
+                </Button>
+              )}
+            </CardContent>
+          </>
+        );
+
+      case PaymentStatusEnum.REFUNDED:
+        return (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-muted-foreground">
+                <RotateCcw className="h-5 w-5" />
+                Payment Refunded
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-center text-muted-foreground">
+                The received funds were returned to the payer.
+              </p>
+            </CardContent>
+          </>
+        );
+
       case PaymentStatusEnum.ERROR:
         return (
           <>
@@ -270,6 +540,9 @@ export function PaymentStatus({ address, onRetry }: PaymentStatusProps) {
   return (
     <Card className="w-full max-w-md mt-6">
       {renderStatusContent()}
+      {paymentStatus.history && paymentStatus.history.length > 0 && (
+        <StatusTimeline history={paymentStatus.history} />
+      )}
       {paymentStatus.lastUpdated && (
         <div className="px-6 pb-4">
           <p className="text-xs text-muted-foreground text-center">
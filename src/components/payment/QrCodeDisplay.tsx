@@ -1,10 +1,10 @@
 // src/components/payment/QrCodeDisplay.tsx
 "use client";
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { QRCodeSVG } from "qrcode.react";
 import { toast } from "sonner";
-import { Copy } from "lucide-react";
+import { Clock, Copy } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -19,6 +19,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 import type { PaymentRequestData } from "@/actions/payment";
+import { usePaymentStatus } from "@/hooks/usePaymentStatus";
+import {
+  formatBtcAmount,
+  generateBip21Uri,
+  getAddressTypeLabel,
+  satoshisToBtc,
+} from "@/lib/validation/payment";
+import { getNetworkProfile } from "@/lib/bitcoin/network";
+import { AddressType, PaymentStatus } from "@/types";
 
 interface QrCodeDisplayProps {
   paymentRequest: PaymentRequestData;
@@ -29,12 +38,87 @@ interface QrCodeDisplayProps {
 const qrFgColor = "#000000"; // Always black for QR pattern
 const qrBgColor = "#FFFFFF"; // Always white background
 
+/**
+ * Formats a remaining duration as h:mm:ss, or m:ss under an hour
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Counts down to the expiry of the payment request
+ * Rendered after mount only, so server and client markup match
+ */
+function ExpiryCountdown({ expiresAt }: { expiresAt: number }) {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (now === null) {
+    return null;
+  }
+
+  const remaining = expiresAt - now;
+  if (remaining <= 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+        <Clock className="h-4 w-4" />
+        This payment request has expired. Do not send funds to this address.
+      </p>
+    );
+  }
+
+  return (
+    <p
+      className="flex items-center gap-2 text-sm text-muted-foreground"
+      aria-live="polite"
+    >
+      <Clock className="h-4 w-4" />
+      Expires in{" "}
+      <span className="font-mono tabular-nums text-foreground">
+        {formatRemaining(remaining)}
+      </span>
+    </p>
+  );
+}
+
 export function QrCodeDisplay({ paymentRequest }: QrCodeDisplayProps) {
+  // Shares the cached status query (and its polling) with PaymentStatus
+  const { data: paymentStatus } = usePaymentStatus(paymentRequest?.address);
+
   if (!paymentRequest) {
     return null;
   }
 
-  const { paymentUri, address, amount } = paymentRequest;
+  const { paymentUri, address, amount, expiresAt } = paymentRequest;
+  const addressType = paymentRequest.addressType ?? AddressType.P2WPKH;
+  const networkProfile = getNetworkProfile();
+
+  // After an underpayment, only the outstanding balance is requested
+  const outstandingAmount =
+    paymentStatus?.status === PaymentStatus.UNDERPAID &&
+    paymentStatus.outstandingAmount !== undefined
+      ? satoshisToBtc(paymentStatus.outstandingAmount)
+      : undefined;
+  const qrUri =
+    outstandingAmount !== undefined
+      ? generateBip21Uri(address, outstandingAmount)
+      : paymentUri;
+  const displayAmount =
+    outstandingAmount !== undefined
+      ? formatBtcAmount(outstandingAmount)
+      : amount.toString();
 
   const handleCopyToClipboard = async (
     textToCopy: string,
@@ -52,17 +136,21 @@ export function QrCodeDisplay({ paymentRequest }: QrCodeDisplayProps) {
   return (
     <Card className="w-full max-w-md mt-6">
       <CardHeader>
-        <CardTitle>Scan to Pay</CardTitle>
+        <CardTitle>
+          {outstandingAmount !== undefined ? "Scan to Top Up" : "Scan to Pay"}
+        </CardTitle>
         <CardDescription>
-          Use your Bitcoin testnet wallet to scan the QR code below.
+          {outstandingAmount !== undefined
+            ? `${formatBtcAmount(outstandingAmount)} BTC of the ${amount} BTC requested is still outstanding. Scan the QR code below to send the remaining balance.`
+            : `Use your Bitcoin ${networkProfile.label.toLowerCase()} wallet to scan the QR code below.`}
         </CardDescription>
       </CardHeader>
       <CardContent className="flex flex-col items-center space-y-4">
-        {paymentUri && (
+        {qrUri && (
           // White background container with Bitcoin orange accent
           <div className="p-4 bg-white rounded-lg shadow-lg shadow-primary/20 ring-1 ring-primary/20">
             <QRCodeSVG
-              value={paymentUri}
+              value={qrUri}
               size={256}
               bgColor={qrBgColor}
               fgColor={qrFgColor}
@@ -72,9 +160,16 @@ export function QrCodeDisplay({ paymentRequest }: QrCodeDisplayProps) {
           </div>
         )}
 
+        {expiresAt !== undefined && <ExpiryCountdown expiresAt={expiresAt} />}
+
         <div className="w-full space-y-3 pt-4">
           <div className="flex flex-col gap-1">
-            <Label htmlFor="bitcoin-address">Bitcoin Address (Testnet)</Label>
+            <Label htmlFor="bitcoin-address">
+              Bitcoin Address ({networkProfile.label})
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              {getAddressTypeLabel(addressType)}
+            </p>
             <div className="flex items-center space-x-2">
               <Input
                 id="bitcoin-address"
@@ -95,20 +190,22 @@ export function QrCodeDisplay({ paymentRequest }: QrCodeDisplayProps) {
           </div>
 
           <div className="flex flex-col gap-1">
-            <Label htmlFor="bitcoin-amount">Amount (BTC)</Label>
+            <Label htmlFor="bitcoin-amount">
+              {outstandingAmount !== undefined
+                ? "Outstanding Amount (BTC)"
+                : "Amount (BTC)"}
+            </Label>
             <div className="flex items-center space-x-2">
               <Input
                 id="bitcoin-amount"
                 type="text"
-                value={amount.toString()}
+                value={displayAmount}
                 readOnly
               />
               <Button
                 variant="outline"
                 size="icon"
-                onClick={() =>
-                  handleCopyToClipboard(amount.toString(), "Amount")
-                }
+                onClick={() => handleCopyToClipboard(displayAmount, "Amount")}
                 aria-label="Copy Amount"
               >
                 <Copy className="h-4 w-4" />
@@ -118,10 +215,17 @@ export function QrCodeDisplay({ paymentRequest }: QrCodeDisplayProps) {
         </div>
       </CardContent>
       <CardFooter className="text-xs text-muted-foreground">
-        <p>
-          Ensure you are sending testnet Bitcoin (tBTC). Real Bitcoin sent to
-          this address will be lost.
-        </p>
+        {networkProfile.isTestNetwork ? (
+          <p>
+            Ensure you are sending {networkProfile.label.toLowerCase()} Bitcoin
+            (tBTC). Real Bitcoin sent to this address will be lost.
+          </p>
+        ) : (
+          <p>
+            This is a mainnet address. Double-check the amount before sending
+            real Bitcoin.
+          </p>
+        )}
       </CardFooter>
     </Card>
   );
@@ -48,6 +48,15 @@ interface PaymentStatusOptions {
   refetchInterval?: number;
   /** Whether to use more aggressive polling based on payment state */
   aggressivePolling?: boolean;
+  /** Interval while a confirmed payment could still be rolled back by a chain
+   * reorganization (default: 60000ms) */
+  confirmedRefetchInterval?: number;
+  /** Confirmations after which a confirmed payment is final (default: 6, the
+   * depth at which the server stops following it) */
+  finalConfirmations?: number;
+  /** Interval while an expired request is still watched for late payments
+   * (default: 60000ms) */
+  expiredRefetchInterval?: number;
 }
 
 /**
@@ -91,6 +100,9 @@ export function usePaymentStatus(
     enablePolling = false,
     refetchInterval = 10000, // 10 seconds default for fallback polling
     aggressivePolling = false,
+    confirmedRefetchInterval = 60000, // 1 minute until the payment is final
+    finalConfirmations = 6,
+    expiredRefetchInterval = 60000, // 1 minute while late payments can arrive
   } = options;
 
   return useQuery<PaymentStatusResponse, Error>({
@@ -140,8 +152,36 @@ export function usePaymentStatus(
             return Math.min(refetchInterval, 5000); // Cap at 5 seconds for aggressive mode
           }
 
-          // Stop polling once payment is confirmed
-          if (state.data.status === PaymentStatus.CONFIRMED) {
+          const finalDepth = Math.max(
+            finalConfirmations,
+            state.data.requiredConfirmations ?? 0
+          );
+
+          // A chain reorganization can still roll a confirmed payment back,
+          // so keep polling slowly until it is confirmed deeply enough
+          if (
+            state.data.status === PaymentStatus.CONFIRMED ||
+            state.data.status === PaymentStatus.OVERPAID
+          ) {
+            return (state.data.confirmations ?? 0) < finalDepth
+              ? Math.max(refetchInterval, confirmedRefetchInterval)
+              : false;
+          }
+
+          // The server still watches an expired request for late payments
+          // until its address may be recycled, and follows a late payment
+          // until it is final
+          if (state.data.status === PaymentStatus.EXPIRED) {
+            const watched = state.data.transactionId
+              ? (state.data.confirmations ?? 0) < finalDepth
+              : (state.data.watchedUntil ?? 0) > Date.now();
+            return watched
+              ? Math.max(refetchInterval, expiredRefetchInterval)
+              : false;
+          }
+
+          // Stop polling once the payment can no longer change
+          if (state.data.status === PaymentStatus.REFUNDED) {
             return false;
           }
 
@@ -0,0 +1,41 @@
+/**
+ * Server Startup Hook
+ *
+ * Next.js calls `register()` once when a server instance starts. Background
+ * work that keeps payment statuses current starts here, so payments keep
+ * updating after a restart without waiting for a new request:
+ * - Chain providers with long-lived connections (Electrum subscriptions)
+ * - The polling reconciler for missed or undeliverable webhooks
+ * - Cleanup of webhooks for finished payments and orphaned webhooks
+ */
+
+export async function register(): Promise<void> {
+  // Providers use Node.js sockets; skip the Edge runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const { getChainProvider } = await import("@/lib/api/providers");
+  const { startReconciler } = await import("@/lib/services/reconciler");
+  const { startWebhookCleanup } =
+    await import("@/lib/services/webhook-lifecycle");
+
+  try {
+    await getChainProvider().start?.();
+  } catch (error) {
+    // The provider keeps retrying in the background; requests still work meanwhile
+    console.error("[INSTRUMENTATION] Failed to start chain provider:", error);
+  }
+
+  try {
+    startReconciler();
+  } catch (error) {
+    console.error("[INSTRUMENTATION] Failed to start reconciler:", error);
+  }
+
+  try {
+    startWebhookCleanup();
+  } catch (error) {
+    console.error("[INSTRUMENTATION] Failed to start webhook cleanup:", error);
+  }
+}
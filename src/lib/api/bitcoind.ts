@@ -0,0 +1,524 @@
+/**
+ * Bitcoin Core JSON-RPC Client
+ *
+ * Chain provider backed by a self-hosted `bitcoind`. Payment addresses are
+ * imported as `addr()` descriptors into a dedicated watch-only descriptor
+ * wallet, and payments are read back with `listtransactions` and
+ * `gettransaction`. No third-party API or public webhook URL is involved, which
+ * makes a fully offline regtest setup possible.
+ *
+ * Features:
+ * - Creates or loads the watch-only wallet on first use
+ * - Address watches via `importdescriptors` (labelled with the address)
+ * - Address transaction lookups and transaction status by ID
+ * - Chain tip height, block hashes by height and `estimatesmartfee` fee estimates
+ *
+ * Transactions are only known once they touch a watched address; pair with
+ * `-walletnotify` (see `/api/webhook/wallet-notify`) for push updates.
+ *
+ * @see https://developer.bitcoin.org/reference/rpc/
+ */
+
+import { getNetworkProfile } from "@/lib/bitcoin/network";
+import { btcToSatoshis } from "@/lib/validation/payment";
+import {
+  ChainProviderError,
+  toOutpoint,
+  type ChainProvider,
+  type ChainTransaction,
+  type FeeEstimates,
+} from "@/lib/api/chain-provider";
+
+/**
+ * Base Bitcoin Core RPC configuration
+ */
+export const BITCOIND_CONFIG = {
+  defaultWallet: "payment-watch",
+  timeout: 30000, // 30 seconds
+  // Most recent wallet entries scanned per address lookup
+  listTransactionsCount: 1000,
+} as const;
+
+/**
+ * Bitcoin Core RPC error codes handled by the client
+ */
+export const BITCOIND_RPC_ERRORS = {
+  /** Invalid address or key (also returned for unknown wallet transactions) */
+  INVALID_ADDRESS_OR_KEY: -5,
+  /** Invalid parameter (also returned for block heights above the tip) */
+  INVALID_PARAMETER: -8,
+  /** Requested wallet does not exist */
+  WALLET_NOT_FOUND: -18,
+  /** Wallet is already loaded */
+  WALLET_ALREADY_LOADED: -35,
+} as const;
+
+/**
+ * Connection settings for a Bitcoin Core node
+ */
+export interface BitcoindClientOptions {
+  /** RPC endpoint (default http://127.0.0.1:<network RPC port>) */
+  url?: string;
+  /** RPC username */
+  username?: string;
+  /** RPC password */
+  password?: string;
+  /** Watch-only wallet holding the payment address descriptors */
+  wallet?: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * `listtransactions` entry
+ */
+interface BitcoindWalletEntry {
+  address?: string;
+  category: "send" | "receive" | "generate" | "immature" | "orphan";
+  amount: number;
+  vout: number;
+  confirmations: number;
+  blockhash?: string;
+  blockheight?: number;
+  txid: string;
+  "bip125-replaceable"?: "yes" | "no" | "unknown";
+  replaced_by_txid?: string;
+}
+
+/**
+ * `gettransaction` result (verbose)
+ */
+interface BitcoindWalletTransaction {
+  txid: string;
+  confirmations: number;
+  blockhash?: string;
+  blockheight?: number;
+  fee?: number;
+  "bip125-replaceable"?: "yes" | "no" | "unknown";
+  replaced_by_txid?: string;
+  decoded: {
+    // `txid` and `vout` are absent for coinbase inputs
+    vin?: Array<{ txid?: string; vout?: number }>;
+    vout: Array<{
+      value: number;
+      scriptPubKey: { address?: string };
+    }>;
+  };
+}
+
+/**
+ * JSON-RPC response envelope
+ */
+interface BitcoindRpcResponse<T> {
+  result: T;
+  error: { code: number; message: string } | null;
+  id: string | number;
+}
+
+/**
+ * Custom error class for Bitcoin Core RPC errors
+ */
+export class BitcoindRpcError extends ChainProviderError {
+  constructor(
+    message: string,
+    statusCode?: number,
+    public code?: number
+  ) {
+    super(message, statusCode);
+    this.name = "BitcoindRpcError";
+  }
+}
+
+/**
+ * Converts the wallet's BIP 125 replaceability to a signalling flag
+ * `unknown` (e.g. an unconfirmed parent) is left undefined
+ */
+function toSignalsRbf(
+  replaceable: BitcoindWalletTransaction["bip125-replaceable"]
+): boolean | undefined {
+  return replaceable === "unknown" || replaceable === undefined
+    ? undefined
+    : replaceable === "yes";
+}
+
+/**
+ * Checks whether the wallet knows a transaction will not confirm: a
+ * conflicting transaction confirmed (negative confirmations) or replaced it
+ * The wallet keeps such transactions, other providers no longer report them
+ */
+function isDropped(
+  tx: Pick<BitcoindWalletTransaction, "confirmations" | "replaced_by_txid">
+): boolean {
+  return tx.confirmations < 0 || tx.replaced_by_txid !== undefined;
+}
+
+/**
+ * Reads connection settings from the environment
+ * `BITCOIND_RPC_URL` defaults to the local node's RPC port for the configured network
+ */
+export function getBitcoindOptionsFromEnv(): BitcoindClientOptions {
+  return {
+    url:
+      process.env.BITCOIND_RPC_URL?.trim() ||
+      `http://127.0.0.1:${getNetworkProfile().rpcPort}`,
+    username: process.env.BITCOIND_RPC_USER,
+    password: process.env.BITCOIND_RPC_PASSWORD,
+    wallet: process.env.BITCOIND_WALLET?.trim() || undefined,
+  };
+}
+
+/**
+ * Bitcoin Core RPC client implementing the chain provider interface
+ */
+export class BitcoindClient implements ChainProvider {
+  readonly name = "bitcoind";
+  readonly requiresCallbackUrl = false;
+  private readonly url: string;
+  private readonly wallet: string;
+  private readonly authorization?: string;
+  private readonly timeout: number;
+  private walletReady?: Promise<void>;
+  private requestId = 0;
+
+  constructor(options: BitcoindClientOptions = getBitcoindOptionsFromEnv()) {
+    if (!options.url) {
+      throw new Error("Bitcoin Core RPC URL is required");
+    }
+
+    this.url = options.url.replace(/\/+$/, "");
+    this.wallet = options.wallet ?? BITCOIND_CONFIG.defaultWallet;
+    this.timeout = options.timeout ?? BITCOIND_CONFIG.timeout;
+
+    if (options.username) {
+      this.authorization = `Basic ${Buffer.from(
+        `${options.username}:${options.password ?? ""}`
+      ).toString("base64")}`;
+    }
+  }
+
+  /**
+   * Calls an RPC method on the node, or on the watch-only wallet
+   */
+  private async call<T>(
+    method: string,
+    params: unknown[] = [],
+    scope: "node" | "wallet" = "node"
+  ): Promise<T> {
+    const url =
+      scope === "wallet"
+        ? `${this.url}/wallet/${encodeURIComponent(this.wallet)}`
+        : this.url;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.authorization && { Authorization: this.authorization }),
+        },
+        body: JSON.stringify({
+          jsonrpc: "1.0",
+          id: ++this.requestId,
+          method,
+          params,
+        }),
+      });
+    } catch (error) {
+      throw new BitcoindRpcError(
+        `Bitcoin Core RPC request failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new BitcoindRpcError(
+        "Bitcoin Core RPC authentication failed (check BITCOIND_RPC_USER and BITCOIND_RPC_PASSWORD)",
+        response.status
+      );
+    }
+
+    // RPC errors arrive with an HTTP error status but a JSON body
+    const body = await response.text();
+    let payload: BitcoindRpcResponse<T>;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new BitcoindRpcError(
+        `Invalid JSON-RPC response (HTTP ${response.status}): ${body}`,
+        response.status
+      );
+    }
+
+    if (payload.error) {
+      throw new BitcoindRpcError(
+        `${method} failed: ${payload.error.message}`,
+        response.status,
+        payload.error.code
+      );
+    }
+
+    return payload.result;
+  }
+
+  /**
+   * Loads the watch-only wallet, creating it on first use
+   */
+  private async ensureWallet(): Promise<void> {
+    this.walletReady ??= this.loadOrCreateWallet().catch((error) => {
+      // Allow the next call to retry after a failure
+      this.walletReady = undefined;
+      throw error;
+    });
+    return this.walletReady;
+  }
+
+  private async loadOrCreateWallet(): Promise<void> {
+    const loadedWallets = await this.call<string[]>("listwallets");
+    if (loadedWallets.includes(this.wallet)) {
+      return;
+    }
+
+    try {
+      await this.call("loadwallet", [this.wallet]);
+      return;
+    } catch (error) {
+      if (
+        error instanceof BitcoindRpcError &&
+        error.code === BITCOIND_RPC_ERRORS.WALLET_ALREADY_LOADED
+      ) {
+        return;
+      }
+      if (
+        !(error instanceof BitcoindRpcError) ||
+        error.code !== BITCOIND_RPC_ERRORS.WALLET_NOT_FOUND
+      ) {
+        throw error;
+      }
+    }
+
+    // wallet_name, disable_private_keys, blank, passphrase, avoid_reuse, descriptors
+    await this.call("createwallet", [this.wallet, true, true, "", false, true]);
+    console.log("[BITCOIND] Created watch-only wallet:", this.wallet);
+  }
+
+  /**
+   * Imports the address as a watch-only descriptor labelled with the address
+   * Imports start at the current time, so no rescan is needed for new addresses
+   *
+   * @param address - Bitcoin address to watch
+   * @returns Promise<string[]> - The imported descriptor
+   */
+  async watchAddress(address: string): Promise<string[]> {
+    if (!address || typeof address !== "string") {
+      throw new Error("Address is required and must be a string");
+    }
+
+    await this.ensureWallet();
+
+    const { descriptor } = await this.call<{ descriptor: string }>(
+      "getdescriptorinfo",
+      [`addr(${address})`]
+    );
+
+    const [result] = await this.call<
+      Array<{ success: boolean; error?: { message: string } }>
+    >(
+      "importdescriptors",
+      [[{ desc: descriptor, timestamp: "now", label: address }]],
+      "wallet"
+    );
+
+    if (!result?.success) {
+      throw new BitcoindRpcError(
+        `Failed to import descriptor for ${address}: ${
+          result?.error?.message ?? "Unknown error"
+        }`
+      );
+    }
+
+    return [descriptor];
+  }
+
+  /**
+   * Fetches the wallet transactions paying an address, newest first
+   *
+   * @param address - Watched Bitcoin address
+   * @returns Promise<ChainTransaction[]> - Confirmed and unconfirmed
+   *   transactions, without conflicted or replaced ones
+   */
+  async getAddressTransactions(address: string): Promise<ChainTransaction[]> {
+    if (!address || typeof address !== "string") {
+      throw new Error("Address is required and must be a string");
+    }
+
+    await this.ensureWallet();
+
+    // label, count, skip, include_watchonly
+    const entries = await this.call<BitcoindWalletEntry[]>(
+      "listtransactions",
+      [address, BITCOIND_CONFIG.listTransactionsCount, 0, true],
+      "wallet"
+    );
+
+    // One entry per received output; listtransactions is oldest first
+    const transactions = new Map<string, ChainTransaction>();
+    for (const entry of [...entries].reverse()) {
+      if (
+        entry.category !== "receive" ||
+        entry.address !== address ||
+        isDropped(entry)
+      ) {
+        continue;
+      }
+
+      const transaction = transactions.get(entry.txid) ?? {
+        txid: entry.txid,
+        confirmations: entry.confirmations,
+        blockHeight: entry.blockheight,
+        blockHash: entry.blockhash,
+        signalsRbf: toSignalsRbf(entry["bip125-replaceable"]),
+        outputs: [],
+      };
+      transaction.outputs.push({
+        address: entry.address,
+        value: btcToSatoshis(entry.amount),
+      });
+      transactions.set(entry.txid, transaction);
+    }
+
+    return [...transactions.values()];
+  }
+
+  /**
+   * Fetches a wallet transaction by ID
+   * Only transactions touching a watched address are known to the wallet
+   *
+   * @param txid - Transaction ID
+   * @returns Promise<ChainTransaction | null> - The transaction, or null if
+   *   unknown, conflicted or replaced
+   */
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    if (!txid || !/^[0-9a-fA-F]{64}$/.test(txid)) {
+      throw new Error("Transaction ID must be a 64-character hex string");
+    }
+
+    await this.ensureWallet();
+
+    let tx: BitcoindWalletTransaction;
+    try {
+      // txid, include_watchonly, verbose
+      tx = await this.call<BitcoindWalletTransaction>(
+        "gettransaction",
+        [txid, true, true],
+        "wallet"
+      );
+    } catch (error) {
+      if (
+        error instanceof BitcoindRpcError &&
+        error.code === BITCOIND_RPC_ERRORS.INVALID_ADDRESS_OR_KEY
+      ) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (isDropped(tx)) {
+      return null;
+    }
+
+    const spends = (tx.decoded.vin ?? []).flatMap((input) =>
+      input.txid !== undefined && input.vout !== undefined
+        ? [toOutpoint(input.txid, input.vout)]
+        : []
+    );
+
+    return {
+      txid: tx.txid,
+      confirmations: tx.confirmations,
+      blockHeight: tx.blockheight,
+      blockHash: tx.blockhash,
+      // Only known (as a negative amount) when the wallet funded the transaction
+      fee: tx.fee !== undefined ? btcToSatoshis(Math.abs(tx.fee)) : undefined,
+      signalsRbf: toSignalsRbf(tx["bip125-replaceable"]),
+      spends: spends.length > 0 ? spends : undefined,
+      outputs: tx.decoded.vout.map((output) => ({
+        address: output.scriptPubKey.address,
+        value: btcToSatoshis(output.value),
+      })),
+    };
+  }
+
+  /**
+   * Gets the height of the current best block
+   */
+  async getTipHeight(): Promise<number> {
+    return this.call<number>("getblockcount");
+  }
+
+  /**
+   * Gets the hash of the best-chain block at a height
+   *
+   * @param height - Block height
+   * @returns Promise<string | null> - The block hash, or null above the tip
+   */
+  async getBlockHash(height: number): Promise<string | null> {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error("Block height must be a non-negative integer");
+    }
+
+    try {
+      return await this.call<string>("getblockhash", [height]);
+    } catch (error) {
+      if (
+        error instanceof BitcoindRpcError &&
+        error.code === BITCOIND_RPC_ERRORS.INVALID_PARAMETER
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets fee rate estimates in sat/vB
+   * Falls back to 1 sat/vB when the node has too little data (e.g. regtest)
+   */
+  async estimateFees(): Promise<FeeEstimates> {
+    const estimate = async (target: number): Promise<number> => {
+      const { feerate } = await this.call<{ feerate?: number }>(
+        "estimatesmartfee",
+        [target]
+      );
+      // BTC/kvB to sat/vB
+      return feerate ? Math.max(1, Math.ceil(feerate * 100000)) : 1;
+    };
+
+    return {
+      high: await estimate(1),
+      medium: await estimate(6),
+      low: await estimate(144),
+    };
+  }
+
+  /**
+   * Gets the RPC endpoint being used
+   */
+  getUrl(): string {
+    return this.url;
+  }
+
+  /**
+   * Gets the watch-only wallet name
+   */
+  getWalletName(): string {
+    return this.wallet;
+  }
+}
@@ -1,8 +1,11 @@
 /**
- * Blockcypher API Client for Bitcoin Testnet
+ * Blockcypher API Client for Bitcoin Mainnet and Testnet
  *
  * This module provides a secure HTTP client for interacting with the Blockcypher API.
- * It focuses on webhook registration functionality for payment notifications.
+ * It focuses on webhook registration functionality for payment notifications and
+ * implements the `ChainProvider` interface for address and transaction lookups.
+ * Besides each address's transaction webhooks, one `new-block` webhook per API
+ * token announces new chain tips for reorganization detection.
  *
  * Security Features:
  * - API token authentication
@@ -13,17 +16,21 @@
  * @see https://www.blockcypher.com/dev/bitcoin/
  */
 
-import { isValidTestnetAddress } from "@/lib/bitcoin/wallet";
-import type { WebhookRegistration } from "@/types";
-
-// Environment validation
-const BLOCKCYPHER_TOKEN = process.env.BLOCKCYPHER_TOKEN;
-
-if (!BLOCKCYPHER_TOKEN) {
-  throw new Error(
-    "BLOCKCYPHER_TOKEN environment variable is required for Blockcypher API access"
-  );
-}
+import { isValidAddress } from "@/lib/bitcoin/wallet";
+import { getConfiguredNetwork } from "@/lib/bitcoin/network";
+import { BitcoinNetwork, type WebhookRegistration } from "@/types";
+import {
+  ChainProviderError,
+  isRbfSignalled,
+  spendsUnconfirmedOutputs,
+  toOutpoint,
+  type AddressWatch,
+  type ChainProvider,
+  type ChainTransaction,
+  type FeeEstimates,
+} from "@/lib/api/chain-provider";
+import { calculateBackoffDelay, sleep } from "@/lib/api/retry";
+import { WEBHOOK_SECRET_PARAM } from "@/lib/utils/webhook-secret";
 
 /**
  * Supported Blockcypher networks
@@ -34,6 +41,17 @@ export enum BlockcypherNetwork {
   BLOCKCYPHER_TEST = "bcy/test",
 }
 
+/**
+ * Blockcypher chain for each application network
+ * Blockcypher does not index testnet4, signet or regtest
+ */
+export const BLOCKCYPHER_NETWORKS: Partial<
+  Record<BitcoinNetwork, BlockcypherNetwork>
+> = {
+  [BitcoinNetwork.MAINNET]: BlockcypherNetwork.BITCOIN_MAIN,
+  [BitcoinNetwork.TESTNET]: BlockcypherNetwork.BITCOIN_TESTNET,
+};
+
 /**
  * Base Blockcypher API configuration
  */
@@ -91,6 +109,68 @@ export interface WebhookDeletionResponse {
   message?: string;
 }
 
+/**
+ * Transaction as returned by the Blockcypher API
+ */
+export interface BlockcypherTransaction {
+  /** Transaction hash */
+  hash: string;
+  /** Confirming block height (-1 while unconfirmed) */
+  block_height: number;
+  /** Confirming block hash (absent while unconfirmed) */
+  block_hash?: string;
+  /** Number of confirmations */
+  confirmations: number;
+  /** Fee in satoshis */
+  fees?: number;
+  /** Virtual size in vbytes */
+  vsize?: number;
+  /** Whether the transaction signals replace-by-fee (only reported when it does) */
+  opt_in_rbf?: boolean;
+  /**
+   * Transaction inputs (sequence numbers tell whether it signals
+   * replace-by-fee, `age` is the confirmations of the spent output, and
+   * `prev_hash`/`output_index` the spent output itself, absent for coinbase)
+   */
+  inputs?: Array<{
+    sequence: number;
+    age?: number;
+    prev_hash?: string;
+    output_index?: number;
+  }>;
+  /** Transaction outputs */
+  outputs: Array<{ value: number; addresses?: string[] | null }>;
+}
+
+/**
+ * Address endpoint response (`addrs/{address}/full`)
+ */
+interface BlockcypherAddressResponse {
+  txs?: BlockcypherTransaction[];
+}
+
+/**
+ * Chain endpoint response (network root)
+ */
+interface BlockcypherChainInfo {
+  /** Current best block height */
+  height: number;
+  /** Fee rates in satoshis per kilobyte */
+  high_fee_per_kb: number;
+  medium_fee_per_kb: number;
+  low_fee_per_kb: number;
+}
+
+/**
+ * Block endpoint response (fields used here)
+ */
+interface BlockcypherBlock {
+  /** Block hash */
+  hash: string;
+  /** Block height */
+  height: number;
+}
+
 /**
  * Blockcypher API error response
  */
@@ -104,13 +184,13 @@ export interface BlockcypherError {
 /**
  * Custom error class for Blockcypher API errors
  */
-export class BlockcypherApiError extends Error {
+export class BlockcypherApiError extends ChainProviderError {
   constructor(
     message: string,
-    public statusCode?: number,
+    statusCode?: number,
     public response?: BlockcypherError
   ) {
-    super(message);
+    super(message, statusCode);
     this.name = "BlockcypherApiError";
   }
 }
@@ -138,37 +218,75 @@ function validateWebhookUrl(url: string): boolean {
 }
 
 /**
- * Implements exponential backoff delay
+ * Converts a Blockcypher transaction to the provider-neutral shape
  */
-function calculateBackoffDelay(attempt: number, baseDelay: number): number {
-  return baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
+function toChainTransaction(tx: BlockcypherTransaction): ChainTransaction {
+  const isConfirmed = tx.block_height >= 0;
+  const spends = (tx.inputs ?? []).flatMap((input) =>
+    input.prev_hash !== undefined && input.output_index !== undefined
+      ? [toOutpoint(input.prev_hash, input.output_index)]
+      : []
+  );
+
+  return {
+    txid: tx.hash,
+    confirmations: tx.confirmations ?? 0,
+    blockHeight: isConfirmed ? tx.block_height : undefined,
+    blockHash: isConfirmed ? tx.block_hash : undefined,
+    fee: tx.fees,
+    signalsRbf:
+      tx.opt_in_rbf ??
+      (tx.inputs?.length
+        ? isRbfSignalled(tx.inputs.map((input) => input.sequence))
+        : undefined),
+    vsize: tx.vsize,
+    hasUnconfirmedInputs: spendsUnconfirmedOutputs(
+      (tx.inputs ?? []).map((input) => input.age)
+    ),
+    spends: spends.length > 0 ? spends : undefined,
+    outputs: tx.outputs.map((output) => ({
+      address: output.addresses?.[0],
+      value: output.value,
+    })),
+  };
 }
 
 /**
- * Sleep utility for retry delays
+ * Converts a fee rate from sat/kB to sat/vB
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function perKbToPerVbyte(feePerKb: number): number {
+  return Math.max(1, Math.round(feePerKb / 1000));
 }
 
 /**
- * Blockcypher API client for Bitcoin testnet operations
+ * Blockcypher API client for Bitcoin mainnet and testnet operations
+ *
+ * Without an explicit network the client follows the configured application
+ * network (`NEXT_PUBLIC_BITCOIN_NETWORK`). The API token (`BLOCKCYPHER_TOKEN`)
+ * is only required once a request is made, so deployments using another chain
+ * provider do not need one.
  */
-export class BlockcypherClient {
+export class BlockcypherClient implements ChainProvider {
+  readonly name = "blockcypher";
+  readonly requiresCallbackUrl = true;
   private readonly baseUrl: string;
-  private readonly network: BlockcypherNetwork;
+  private readonly network: BlockcypherNetwork | undefined;
+  private readonly bitcoinNetwork: BitcoinNetwork;
   private readonly token: string;
+  private blockWebhook: Promise<string> | undefined;
 
   constructor(
-    network: BlockcypherNetwork = BLOCKCYPHER_CONFIG.defaultNetwork,
-    token: string = BLOCKCYPHER_TOKEN || ""
+    network?: BlockcypherNetwork,
+    token: string = process.env.BLOCKCYPHER_TOKEN || ""
   ) {
-    if (!token) {
-      throw new Error("Blockcypher API token is required");
-    }
-
     this.baseUrl = BLOCKCYPHER_CONFIG.baseUrl;
-    this.network = network;
+    this.bitcoinNetwork =
+      (Object.keys(BLOCKCYPHER_NETWORKS) as BitcoinNetwork[]).find(
+        (bitcoinNetwork) => BLOCKCYPHER_NETWORKS[bitcoinNetwork] === network
+      ) ?? getConfiguredNetwork();
+    // Unsupported networks are reported on first use rather than here, so that
+    // importing this module never fails on networks Blockcypher does not index
+    this.network = network ?? BLOCKCYPHER_NETWORKS[this.bitcoinNetwork];
     this.token = token;
   }
 
@@ -176,7 +294,13 @@ export class BlockcypherClient {
    * Constructs the full API URL for a given endpoint
    */
   private buildUrl(endpoint: string): string {
-    const url = `${this.baseUrl}/${this.network}/${endpoint}`;
+    if (!this.token) {
+      throw new BlockcypherApiError(
+        "Blockcypher API token is required (set BLOCKCYPHER_TOKEN)"
+      );
+    }
+
+    const url = `${this.baseUrl}/${this.getNetwork()}/${endpoint}`;
     const separator = endpoint.includes("?") ? "&" : "?";
     return `${url}${separator}token=${this.token}`;
   }
@@ -225,6 +349,11 @@ export class BlockcypherClient {
           throw new BlockcypherRateLimitError();
         }
 
+        // Webhook deletion answers with an empty body
+        if (response.status === 204) {
+          return undefined as T;
+        }
+
         // Parse response
         const responseText = await response.text();
         let responseData: T | BlockcypherError;
@@ -278,7 +407,7 @@ export class BlockcypherClient {
       }
     }
 
-    // This should never happen due to the token validation at module level,
+    // This should never happen as every attempt records its error,
     // but we need to handle the case for TypeScript
     if (!lastError) {
       throw new Error(
@@ -325,9 +454,12 @@ export class BlockcypherClient {
     request: WebhookRegistrationRequest
   ): Promise<WebhookRegistrationResponse> {
     // Validate input parameters using existing wallet validation function
-    if (!request.address || !isValidTestnetAddress(request.address)) {
+    if (
+      !request.address ||
+      !isValidAddress(request.address, this.bitcoinNetwork)
+    ) {
       throw new Error(
-        "Invalid Bitcoin testnet address. Address must be a valid testnet address"
+        `Invalid Bitcoin ${this.bitcoinNetwork} address. Address must be a valid ${this.bitcoinNetwork} address`
       );
     }
 
@@ -409,10 +541,220 @@ export class BlockcypherClient {
     }
   }
 
+  /**
+   * Watches an address for payments
+   * Registers for unconfirmed transactions and for every confirmation up to
+   * `confirmations` (1 to 10, default 1)
+   *
+   * @param address - Bitcoin address to monitor
+   * @param callbackUrl - HTTPS URL to receive webhook notifications
+   * @param confirmations - Confirmations to notify up to (clamped to 1-10)
+   * @returns Promise<string[]> - Webhook IDs (unconfirmed first)
+   */
+  async watchAddress(
+    address: string,
+    callbackUrl?: string,
+    confirmations: number = 1
+  ): Promise<string[]> {
+    const unconfirmedWebhook = await this.registerWebhook({
+      event: WebhookEventType.UNCONFIRMED_TX,
+      address,
+      url: callbackUrl ?? "",
+    });
+
+    const confirmedWebhook = await this.registerWebhook({
+      event: WebhookEventType.TX_CONFIRMATION,
+      address,
+      url: callbackUrl ?? "",
+      confirmations: Math.min(Math.max(confirmations, 1), 10),
+    });
+
+    if (callbackUrl) {
+      // Reorganizations are still found by the reconciler without it
+      await this.ensureBlockWebhook(callbackUrl).catch((error) =>
+        console.warn(
+          "[BLOCKCYPHER] Could not register the new-block webhook:",
+          error instanceof Error ? error.message : error
+        )
+      );
+    }
+
+    return [unconfirmedWebhook.id, confirmedWebhook.id];
+  }
+
+  /**
+   * Registers the `new-block` webhook for the API token unless it exists
+   * Block events are not tied to a payment, so the webhook is shared by every
+   * watched address, is never deleted with an address's watches, and its URL
+   * carries no payment's webhook secret. Concurrent calls share one lookup
+   *
+   * @param callbackUrl - HTTPS URL of the payment update endpoint
+   * @returns Promise<string> - ID of the new-block webhook
+   */
+  ensureBlockWebhook(callbackUrl: string): Promise<string> {
+    this.blockWebhook ??= this.findOrRegisterBlockWebhook(callbackUrl).catch(
+      (error) => {
+        // Tried again on the next call
+        this.blockWebhook = undefined;
+        throw error;
+      }
+    );
+    return this.blockWebhook;
+  }
+
+  private async findOrRegisterBlockWebhook(
+    callbackUrl: string
+  ): Promise<string> {
+    const url = new URL(callbackUrl);
+    url.searchParams.delete(WEBHOOK_SECRET_PARAM);
+    const blockUrl = url.toString();
+
+    const existing = (await this.listWebhooks()).find(
+      (webhook) =>
+        webhook.event === WebhookEventType.NEW_BLOCK && webhook.url === blockUrl
+    );
+    if (existing) {
+      return existing.id;
+    }
+
+    const webhook = await this.makeRequest<WebhookRegistrationResponse>(
+      "hooks",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          event: WebhookEventType.NEW_BLOCK,
+          url: blockUrl,
+        }),
+      }
+    );
+    console.log("[BLOCKCYPHER] Registered new-block webhook:", webhook.id);
+    return webhook.id;
+  }
+
+  /**
+   * Stops watching an address by deleting its webhooks
+   * Webhooks that no longer exist are ignored
+   *
+   * @param address - Watched Bitcoin address
+   * @param watchIds - Webhook IDs returned by `watchAddress`
+   */
+  async unwatchAddress(address: string, watchIds: string[]): Promise<void> {
+    for (const webhookId of watchIds) {
+      await this.deleteWebhook(webhookId);
+    }
+  }
+
+  /**
+   * Lists every webhook registered for the API token as address watches
+   *
+   * @returns Promise<AddressWatch[]> - Registered webhooks
+   */
+  async listWatches(): Promise<AddressWatch[]> {
+    const webhooks = await this.listWebhooks();
+    return webhooks.map((webhook) => ({
+      id: webhook.id,
+      address: webhook.address || undefined,
+      callbackUrl: webhook.url,
+    }));
+  }
+
+  /**
+   * Fetches the transactions paying an address, newest first
+   *
+   * @param address - Bitcoin address to look up
+   * @returns Promise<ChainTransaction[]> - Confirmed and unconfirmed transactions
+   */
+  async getAddressTransactions(address: string): Promise<ChainTransaction[]> {
+    if (!address || typeof address !== "string") {
+      throw new Error("Address is required and must be a string");
+    }
+
+    const response = await this.makeRequest<BlockcypherAddressResponse>(
+      `addrs/${address}/full?limit=50`
+    );
+
+    return (response.txs ?? []).map(toChainTransaction);
+  }
+
+  /**
+   * Fetches a transaction by hash
+   *
+   * @param txid - Transaction hash
+   * @returns Promise<ChainTransaction | null> - The transaction, or null if unknown
+   */
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    if (!txid || typeof txid !== "string") {
+      throw new Error("Transaction ID is required and must be a string");
+    }
+
+    try {
+      const tx = await this.makeRequest<BlockcypherTransaction>(`txs/${txid}`);
+      return toChainTransaction(tx);
+    } catch (error) {
+      if (error instanceof BlockcypherApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the height of the current best block
+   */
+  async getTipHeight(): Promise<number> {
+    const chain = await this.makeRequest<BlockcypherChainInfo>("");
+    return chain.height;
+  }
+
+  /**
+   * Gets the hash of the best-chain block at a height
+   *
+   * @param height - Block height
+   * @returns Promise<string | null> - The block hash, or null above the tip
+   */
+  async getBlockHash(height: number): Promise<string | null> {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error("Block height must be a non-negative integer");
+    }
+
+    try {
+      const block = await this.makeRequest<BlockcypherBlock>(
+        `blocks/${height}`
+      );
+      return block.hash;
+    } catch (error) {
+      if (error instanceof BlockcypherApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets fee rate estimates in sat/vB
+   */
+  async estimateFees(): Promise<FeeEstimates> {
+    const chain = await this.makeRequest<BlockcypherChainInfo>("");
+    return {
+      high: perKbToPerVbyte(chain.high_fee_per_kb),
+      medium: perKbToPerVbyte(chain.medium_fee_per_kb),
+      low: perKbToPerVbyte(chain.low_fee_per_kb),
+    };
+  }
+
   /**
    * Gets the current network configuration
+   *
+   * @throws {BlockcypherApiError} When the application network is not indexed by Blockcypher
    */
   getNetwork(): BlockcypherNetwork {
+    if (!this.network) {
+      throw new BlockcypherApiError(
+        `Blockcypher does not support the ${this.bitcoinNetwork} network (supported: ${Object.keys(
+          BLOCKCYPHER_NETWORKS
+        ).join(", ")})`
+      );
+    }
     return this.network;
   }
 
@@ -425,7 +767,7 @@ export class BlockcypherClient {
 }
 
 /**
- * Default Blockcypher client instance using Bitcoin testnet
+ * Default Blockcypher client instance using the configured network
  */
 export const blockcypherClient = new BlockcypherClient();
 
@@ -441,26 +783,7 @@ export async function registerPaymentWebhook(
   address: string,
   callbackUrl: string
 ): Promise<string[]> {
-  const webhookIds: string[] = [];
-
-  // Register for unconfirmed transactions
-  const unconfirmedWebhook = await blockcypherClient.registerWebhook({
-    event: WebhookEventType.UNCONFIRMED_TX,
-    address,
-    url: callbackUrl,
-  });
-  webhookIds.push(unconfirmedWebhook.id);
-
-  // Register for confirmed transactions (1+ confirmations)
-  const confirmedWebhook = await blockcypherClient.registerWebhook({
-    event: WebhookEventType.TX_CONFIRMATION,
-    address,
-    url: callbackUrl,
-    confirmations: 1,
-  });
-  webhookIds.push(confirmedWebhook.id);
-
-  return webhookIds;
+  return blockcypherClient.watchAddress(address, callbackUrl);
 }
 
 /**
@@ -487,9 +810,10 @@ export async function registerAddressWebhook(
   address: string
 ): Promise<string[]> {
   // Validate the address first
-  if (!address || !isValidTestnetAddress(address)) {
+  if (!address || !isValidAddress(address)) {
+    const network = getConfiguredNetwork();
     throw new Error(
-      "Invalid Bitcoin testnet address. Address must be a valid testnet address"
+      `Invalid Bitcoin ${network} address. Address must be a valid ${network} address`
     );
   }
 
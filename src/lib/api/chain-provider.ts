@@ -0,0 +1,225 @@
+/**
+ * Chain Data Provider Interface
+ *
+ * Describes everything the payment flow needs from a blockchain backend,
+ * independent of which service answers:
+ * - Register a watch on a payment address (push notifications)
+ * - Delete and list registered watches (providers that keep watch state)
+ * - Fetch the transactions paying an address
+ * - Fetch a single transaction by ID
+ * - Read the current chain tip height and the best-chain block at a height
+ * - Estimate fee rates
+ *
+ * Backends (Blockcypher, ...) implement `ChainProvider` and report failures
+ * with `ChainProviderError`, so payment code never depends on the specifics of
+ * one service.
+ */
+
+/**
+ * Transaction output as reported by a chain provider
+ */
+export interface ChainTransactionOutput {
+  /** Receiving address (undefined for non-standard scripts such as OP_RETURN) */
+  address?: string;
+  /** Output value in satoshis */
+  value: number;
+}
+
+/**
+ * Transaction as reported by a chain provider
+ */
+export interface ChainTransaction {
+  /** Transaction ID */
+  txid: string;
+  /** Number of confirmations (0 while in the mempool) */
+  confirmations: number;
+  /** Height of the confirming block (undefined while unconfirmed) */
+  blockHeight?: number;
+  /** Hash of the confirming block (undefined while unconfirmed) */
+  blockHash?: string;
+  /** Fee paid in satoshis, when the provider reports it */
+  fee?: number;
+  /** Whether the transaction signals replace-by-fee, when the provider reports it */
+  signalsRbf?: boolean;
+  /** Virtual size in vbytes, when the provider reports it */
+  vsize?: number;
+  /** Whether it spends outputs of unconfirmed transactions, when the provider reports it */
+  hasUnconfirmedInputs?: boolean;
+  /** Previous outputs it spends (see `toOutpoint`), when the provider reports them */
+  spends?: string[];
+  /** Transaction outputs */
+  outputs: ChainTransactionOutput[];
+}
+
+/**
+ * Fee rate estimates in sat/vB
+ */
+export interface FeeEstimates {
+  /** Rate for confirmation in the next block or two */
+  high: number;
+  /** Rate for confirmation within a few blocks */
+  medium: number;
+  /** Rate for economical, slower confirmation */
+  low: number;
+}
+
+/**
+ * Address watch registered with a provider
+ */
+export interface AddressWatch {
+  /** Watch ID, as returned by `watchAddress` */
+  id: string;
+  /** Watched address (undefined for watches not tied to an address) */
+  address?: string;
+  /** URL that receives the notifications, if any */
+  callbackUrl?: string;
+}
+
+/**
+ * Blockchain data backend used by the payment flow
+ */
+export interface ChainProvider {
+  /** Provider identifier for logs and errors */
+  readonly name: string;
+
+  /** Whether watching an address needs a publicly reachable callback URL */
+  readonly requiresCallbackUrl: boolean;
+
+  /**
+   * Starts background work such as long-lived subscriptions (optional)
+   * Called once at server startup by `src/instrumentation.ts`
+   */
+  start?(): Promise<void>;
+
+  /**
+   * Starts watching an address for transactions paying it
+   *
+   * @param address - Payment address to watch
+   * @param callbackUrl - HTTPS URL that receives notifications (webhook providers only)
+   * @param confirmations - Confirmations to notify up to (providers that
+   *   notify on every block ignore it)
+   * @returns Watch IDs for later reference (empty if the provider keeps no watch state)
+   */
+  watchAddress(
+    address: string,
+    callbackUrl?: string,
+    confirmations?: number
+  ): Promise<string[]>;
+
+  /**
+   * Deletes the watches registered for an address (optional)
+   * Only providers that keep watch state upstream implement it
+   *
+   * @param address - Watched payment address
+   * @param watchIds - IDs returned by `watchAddress`
+   */
+  unwatchAddress?(address: string, watchIds: string[]): Promise<void>;
+
+  /**
+   * Lists every watch registered with the provider's credentials (optional)
+   */
+  listWatches?(): Promise<AddressWatch[]>;
+
+  /**
+   * Fetches the transactions paying an address, newest first
+   */
+  getAddressTransactions(address: string): Promise<ChainTransaction[]>;
+
+  /**
+   * Fetches a transaction by ID
+   *
+   * @returns The transaction, or null when the provider does not know it
+   *   (including transactions replaced, conflicted or evicted from the mempool)
+   */
+  getTransaction(txid: string): Promise<ChainTransaction | null>;
+
+  /**
+   * Returns the height of the current best block
+   */
+  getTipHeight(): Promise<number>;
+
+  /**
+   * Returns the hash of the best-chain block at a height
+   * Confirming blocks are compared with it to detect chain reorganizations
+   *
+   * @returns The block hash, or null when the height is above the tip
+   */
+  getBlockHash(height: number): Promise<string | null>;
+
+  /**
+   * Returns current fee rate estimates
+   */
+  estimateFees(): Promise<FeeEstimates>;
+}
+
+/**
+ * Base error for chain provider failures
+ */
+export class ChainProviderError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = "ChainProviderError";
+  }
+}
+
+/**
+ * Raised when a chain provider rejects requests because of rate limiting
+ */
+export class ChainProviderRateLimitError extends ChainProviderError {
+  constructor(message: string = "Rate limit exceeded") {
+    super(message, 429);
+    this.name = "ChainProviderRateLimitError";
+  }
+}
+
+/**
+ * Inputs with a sequence number below this signal replace-by-fee (BIP 125)
+ */
+export const RBF_SEQUENCE_THRESHOLD = 0xfffffffe;
+
+/**
+ * Checks whether a transaction signals replace-by-fee from its input sequence numbers
+ */
+export function isRbfSignalled(sequences: readonly number[]): boolean {
+  return sequences.some((sequence) => sequence < RBF_SEQUENCE_THRESHOLD);
+}
+
+/**
+ * Identifies a transaction output as `txid:vout`, the form in which spent
+ * outputs are compared to detect replacements
+ */
+export function toOutpoint(txid: string, vout: number): string {
+  return `${txid}:${vout}`;
+}
+
+/**
+ * Checks whether a transaction spends outputs of unconfirmed transactions
+ *
+ * @param inputConfirmations - Confirmations of the output each input spends
+ *   (undefined where not reported)
+ * @returns Whether any spent output is unconfirmed, or undefined if no input
+ *   reports its confirmations
+ */
+export function spendsUnconfirmedOutputs(
+  inputConfirmations: readonly (number | undefined)[]
+): boolean | undefined {
+  const known = inputConfirmations.filter(
+    (confirmations): confirmations is number => confirmations !== undefined
+  );
+  return known.length > 0
+    ? known.some((confirmations) => confirmations === 0)
+    : undefined;
+}
+
+/**
+ * Checks whether an error is a provider rate limit rejection
+ *
+ * Providers may subclass their own error types, so this checks the HTTP
+ * status rather than a specific class.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof ChainProviderError && error.statusCode === 429;
+}
@@ -0,0 +1,879 @@
+/**
+ * Electrum Protocol Client
+ *
+ * Chain provider speaking the Electrum server protocol (newline-delimited
+ * JSON-RPC over TCP or TLS), as served by ElectrumX, Fulcrum and electrs.
+ * Electrum servers push notifications over the open connection, so payments
+ * are detected without a publicly reachable webhook URL.
+ *
+ * Features:
+ * - `blockchain.scripthash.subscribe` per watched payment address
+ * - `blockchain.headers.subscribe` for the chain tip
+ * - Every transaction of an address whose status changes is passed to
+ *   `onTransaction` (wired to the payment store in ./providers.ts)
+ * - Transactions below `trackConfirmations` are refreshed on each new block so
+ *   confirmation counts keep moving, and every new block is passed to
+ *   `onBlock` (wired to the reorg check in ./providers.ts)
+ * - Reconnects with exponential backoff and resubscribes every watched address
+ *
+ * Electrum indexes scripts rather than transactions: confirmation heights come
+ * from the address history, block hashes from the block headers, and raw
+ * transactions are decoded locally.
+ *
+ * @see https://electrum-protocol.readthedocs.io/en/latest/protocol-methods.html
+ */
+
+import net from "net";
+import tls from "tls";
+import { createHash } from "crypto";
+import * as bitcoin from "bitcoinjs-lib";
+import { getNetworkProfile } from "@/lib/bitcoin/network";
+import {
+  addressToOutputScript,
+  outputScriptToAddress,
+} from "@/lib/bitcoin/wallet";
+import {
+  ChainProviderError,
+  isRbfSignalled,
+  toOutpoint,
+  type ChainProvider,
+  type ChainTransaction,
+  type ChainTransactionOutput,
+  type FeeEstimates,
+} from "@/lib/api/chain-provider";
+
+/**
+ * Base Electrum client configuration
+ */
+export const ELECTRUM_CONFIG = {
+  clientName: "bitcoin-payment-app",
+  protocolVersion: "1.4",
+  timeout: 30000, // 30 seconds
+  keepAliveInterval: 60000, // servers drop idle sessions after a few minutes
+  reconnectDelay: 1000,
+  maxReconnectDelay: 60000,
+  // Transactions are refreshed on new blocks until this many confirmations
+  trackConfirmations: 6,
+  // Decoded transactions kept in memory (raw transactions never change)
+  transactionCacheSize: 500,
+} as const;
+
+/**
+ * Electrum server endpoint
+ */
+export interface ElectrumServer {
+  host: string;
+  port: number;
+  /** Whether the connection uses TLS (`ssl://`) rather than plain TCP (`tcp://`) */
+  tls: boolean;
+}
+
+/**
+ * Client settings and notification hooks
+ */
+export interface ElectrumClientOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Interval between `server.ping` keep-alives in milliseconds */
+  keepAliveInterval?: number;
+  /** First reconnect delay in milliseconds (doubles per failed attempt) */
+  reconnectDelay?: number;
+  /** Called for every transaction of a watched address when its status changes */
+  onTransaction?: (transaction: ChainTransaction) => Promise<unknown> | unknown;
+  /** Called with the height of every new chain tip the server announces */
+  onBlock?: (height: number) => Promise<unknown> | unknown;
+  /** Addresses to subscribe when the client starts (e.g. unpaid requests after a restart) */
+  getWatchedAddresses?: () => Promise<string[]>;
+}
+
+/**
+ * `blockchain.scripthash.get_history` entry
+ */
+interface ElectrumHistoryEntry {
+  tx_hash: string;
+  /** Block height, 0 in the mempool, -1 in the mempool with unconfirmed inputs */
+  height: number;
+  /** Fee in satoshis (mempool entries only) */
+  fee?: number;
+}
+
+/**
+ * Parts of a raw transaction kept in the transaction cache
+ */
+interface DecodedTransaction {
+  outputs: ChainTransactionOutput[];
+  signalsRbf: boolean;
+  vsize: number;
+  /** Spent outputs as `txid:vout` (empty for coinbase transactions) */
+  spends: string[];
+}
+
+/**
+ * JSON-RPC message received from the server
+ */
+interface ElectrumMessage {
+  id?: number | null;
+  result?: unknown;
+  error?: { code: number; message: string } | null;
+  method?: string;
+  params?: unknown[];
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Custom error class for Electrum protocol errors
+ */
+export class ElectrumApiError extends ChainProviderError {
+  constructor(
+    message: string,
+    statusCode?: number,
+    public code?: number
+  ) {
+    super(message, statusCode);
+    this.name = "ElectrumApiError";
+  }
+}
+
+/**
+ * Parses an Electrum server URL (`ssl://host:port` or `tcp://host:port`)
+ *
+ * @throws {Error} When the URL has another scheme or no port
+ */
+export function parseElectrumUrl(url: string): ElectrumServer {
+  const match = /^(tcp|ssl|tls):\/\/([^/:]+|\[[^\]]+\]):(\d+)\/?$/i.exec(
+    url.trim()
+  );
+  if (!match) {
+    throw new Error(
+      `Invalid Electrum server URL '${url}': expected ssl://host:port or tcp://host:port`
+    );
+  }
+
+  return {
+    host: match[2].replace(/^\[|\]$/g, ""),
+    port: Number(match[3]),
+    tls: match[1].toLowerCase() !== "tcp",
+  };
+}
+
+/**
+ * Returns the Electrum server for the configured network
+ * `ELECTRUM_URL` takes precedence over the network's public default
+ *
+ * @throws {Error} When no server is configured and the network has no default (regtest)
+ */
+export function getDefaultElectrumUrl(): string {
+  const configured = process.env.ELECTRUM_URL?.trim();
+  if (configured) {
+    return configured;
+  }
+
+  const { electrumServer, label } = getNetworkProfile();
+  if (!electrumServer) {
+    throw new Error(`No public Electrum server for ${label}: set ELECTRUM_URL`);
+  }
+
+  return electrumServer;
+}
+
+/**
+ * Computes the Electrum script hash of an address
+ * (SHA-256 of the output script, byte-reversed, hex encoded)
+ *
+ * @param address - Bitcoin address on the configured network
+ * @returns The script hash used by `blockchain.scripthash.*` methods
+ */
+export function addressToScripthash(address: string): string {
+  return createHash("sha256")
+    .update(addressToOutputScript(address))
+    .digest()
+    .reverse()
+    .toString("hex");
+}
+
+/**
+ * Electrum protocol client implementing the chain provider interface
+ */
+export class ElectrumClient implements ChainProvider {
+  readonly name = "electrum";
+  readonly requiresCallbackUrl = false;
+  private readonly server: ElectrumServer;
+  private readonly timeout: number;
+  private readonly keepAliveInterval: number;
+  private readonly reconnectDelay: number;
+  private readonly onTransaction?: ElectrumClientOptions["onTransaction"];
+  private readonly onBlock?: ElectrumClientOptions["onBlock"];
+  private readonly getWatchedAddresses?: ElectrumClientOptions["getWatchedAddresses"];
+
+  private socket?: net.Socket;
+  private connected = false;
+  private connecting?: Promise<void>;
+  private stopped = false;
+  private buffer = "";
+  private requestId = 0;
+  private readonly pending = new Map<number, PendingRequest>();
+  private keepAliveTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempt = 0;
+  private tipHeight?: number;
+
+  /** Watched script hashes and their addresses */
+  private readonly watched = new Map<string, string>();
+  /** Script hashes subscribed on the current connection */
+  private readonly subscribed = new Set<string>();
+  /** Last status reported per script hash (null for no history) */
+  private readonly statuses = new Map<string, string | null>();
+  /** Transactions still gaining confirmations, with their script hash */
+  private readonly tracked = new Map<string, string>();
+  private readonly transactionCache = new Map<string, DecodedTransaction>();
+  /** Best-chain block hashes by height, valid until the tip changes */
+  private readonly blockHashes = new Map<number, string>();
+
+  constructor(
+    url: string = getDefaultElectrumUrl(),
+    options: ElectrumClientOptions = {}
+  ) {
+    this.server = parseElectrumUrl(url);
+    this.timeout = options.timeout ?? ELECTRUM_CONFIG.timeout;
+    this.keepAliveInterval =
+      options.keepAliveInterval ?? ELECTRUM_CONFIG.keepAliveInterval;
+    this.reconnectDelay =
+      options.reconnectDelay ?? ELECTRUM_CONFIG.reconnectDelay;
+    this.onTransaction = options.onTransaction;
+    this.onBlock = options.onBlock;
+    this.getWatchedAddresses = options.getWatchedAddresses;
+  }
+
+  /**
+   * Connects and subscribes the addresses returned by `getWatchedAddresses`
+   * Transactions received while the server was not running are applied on subscribe
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    const addresses = (await this.getWatchedAddresses?.()) ?? [];
+
+    for (const address of addresses) {
+      this.watched.set(addressToScripthash(address), address);
+    }
+
+    await this.connect();
+    console.log(
+      `[ELECTRUM] Connected to ${this.server.host}:${this.server.port}, watching ${this.watched.size} address(es)`
+    );
+  }
+
+  /**
+   * Closes the connection and stops reconnecting
+   */
+  close(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.destroy();
+  }
+
+  /**
+   * Opens the connection if needed; concurrent callers share one attempt
+   */
+  private async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    this.connecting ??= this.openConnection()
+      .catch((error) => {
+        this.scheduleReconnect();
+        throw error;
+      })
+      .finally(() => {
+        this.connecting = undefined;
+      });
+    return this.connecting;
+  }
+
+  private async openConnection(): Promise<void> {
+    const { host, port } = this.server;
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connection = this.server.tls
+        ? tls.connect({
+            host,
+            port,
+            servername: net.isIP(host) ? undefined : host,
+          })
+        : net.connect({ host, port });
+
+      const timer = setTimeout(
+        () => fail(new Error(`timed out after ${this.timeout}ms`)),
+        this.timeout
+      );
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        connection.destroy();
+        reject(
+          new ElectrumApiError(
+            `Failed to connect to Electrum server ${host}:${port}: ${error.message}`
+          )
+        );
+      };
+
+      connection.once("error", fail);
+      connection.once(this.server.tls ? "secureConnect" : "connect", () => {
+        clearTimeout(timer);
+        connection.off("error", fail);
+        resolve(connection);
+      });
+    });
+
+    socket.setEncoding("utf8");
+    socket.setKeepAlive(true);
+    socket.on("data", (chunk: string) => this.handleData(chunk));
+    socket.on("error", (error) =>
+      console.error("[ELECTRUM] Connection error:", error.message)
+    );
+    socket.on("close", () => this.handleClose(socket));
+    this.socket = socket;
+    this.buffer = "";
+
+    try {
+      await this.send("server.version", [
+        ELECTRUM_CONFIG.clientName,
+        ELECTRUM_CONFIG.protocolVersion,
+      ]);
+      const header = await this.send<{ height: number }>(
+        "blockchain.headers.subscribe"
+      );
+      this.tipHeight = header.height;
+      // The chain may have been reorganized while disconnected
+      this.blockHashes.clear();
+
+      // Subscriptions do not survive a reconnect
+      for (const scripthash of this.watched.keys()) {
+        await this.subscribe(scripthash);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.connected = true;
+    this.reconnectAttempt = 0;
+    this.keepAliveTimer = setInterval(() => {
+      this.send("server.ping").catch(() => socket.destroy());
+    }, this.keepAliveInterval);
+    this.keepAliveTimer.unref();
+  }
+
+  private handleClose(socket: net.Socket): void {
+    if (socket !== this.socket) {
+      return;
+    }
+
+    this.socket = undefined;
+    this.connected = false;
+    this.subscribed.clear();
+    clearInterval(this.keepAliveTimer);
+
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(
+        new ElectrumApiError(`${request.method} failed: connection closed`)
+      );
+      this.pending.delete(id);
+    }
+
+    if (!this.stopped) {
+      console.warn("[ELECTRUM] Connection closed, reconnecting");
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Reconnects after an exponentially growing delay while addresses are watched
+   */
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer || this.watched.size === 0) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempt++),
+      ELECTRUM_CONFIG.maxReconnectDelay
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch((error) =>
+        console.error("[ELECTRUM] Reconnect failed:", error.message)
+      );
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Sends a request on the open socket
+   */
+  private send<T>(method: string, params: unknown[] = []): Promise<T> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(
+        new ElectrumApiError(`${method} failed: not connected`)
+      );
+    }
+
+    const id = ++this.requestId;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new ElectrumApiError(
+            `${method} failed: timed out after ${this.timeout}ms`
+          )
+        );
+      }, this.timeout);
+
+      this.pending.set(id, {
+        method,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer,
+      });
+      socket.write(
+        `${JSON.stringify({ jsonrpc: "2.0", id, method, params })}\n`
+      );
+    });
+  }
+
+  /**
+   * Connects if needed, then sends a request
+   */
+  private async request<T>(method: string, params: unknown[] = []): Promise<T> {
+    await this.connect();
+    return this.send<T>(method, params);
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleMessage(line);
+      }
+    }
+  }
+
+  private handleMessage(line: string): void {
+    let message: ElectrumMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.error("[ELECTRUM] Ignoring malformed message:", line);
+      return;
+    }
+
+    if (typeof message.id === "number") {
+      const request = this.pending.get(message.id);
+      if (!request) {
+        return;
+      }
+
+      this.pending.delete(message.id);
+      clearTimeout(request.timer);
+      if (message.error) {
+        request.reject(
+          new ElectrumApiError(
+            `${request.method} failed: ${message.error.message}`,
+            undefined,
+            message.error.code
+          )
+        );
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    const params = message.params ?? [];
+    switch (message.method) {
+      case "blockchain.scripthash.subscribe": {
+        const [scripthash, status] = params as [string, string | null];
+        void this.handleStatus(scripthash, status);
+        break;
+      }
+      case "blockchain.headers.subscribe": {
+        const [header] = params as [{ height: number }];
+        this.tipHeight = header.height;
+        this.blockHashes.clear();
+        void this.refreshTracked();
+        void this.notifyBlock(header.height);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Subscribes a script hash on the current connection
+   */
+  private async subscribe(scripthash: string): Promise<void> {
+    const status = await this.send<string | null>(
+      "blockchain.scripthash.subscribe",
+      [scripthash]
+    );
+    this.subscribed.add(scripthash);
+    await this.handleStatus(scripthash, status);
+  }
+
+  /**
+   * Syncs an address when its status (a hash of its history) changes
+   */
+  private async handleStatus(
+    scripthash: string,
+    status: string | null
+  ): Promise<void> {
+    if (
+      !this.watched.has(scripthash) ||
+      this.statuses.get(scripthash) === status
+    ) {
+      return;
+    }
+
+    this.statuses.set(scripthash, status);
+    if (status !== null) {
+      await this.syncScripthash(scripthash);
+    }
+  }
+
+  /**
+   * Passes every transaction of an address to `onTransaction`, oldest first
+   * Failures are logged: a notification has no caller to report to
+   */
+  private async syncScripthash(scripthash: string): Promise<void> {
+    const address = this.watched.get(scripthash);
+
+    try {
+      const transactions = await this.getScripthashTransactions(scripthash);
+
+      // Stop refreshing transactions that left the history (replaced or reorged out)
+      const txids = new Set(
+        transactions.map((transaction) => transaction.txid)
+      );
+      for (const [txid, trackedScripthash] of this.tracked) {
+        if (trackedScripthash === scripthash && !txids.has(txid)) {
+          this.tracked.delete(txid);
+        }
+      }
+
+      for (const transaction of transactions) {
+        if (transaction.confirmations < ELECTRUM_CONFIG.trackConfirmations) {
+          this.tracked.set(transaction.txid, scripthash);
+        } else {
+          this.tracked.delete(transaction.txid);
+        }
+
+        await this.onTransaction?.(transaction);
+      }
+    } catch (error) {
+      console.error(
+        `[ELECTRUM] Failed to sync address ${address}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Re-syncs addresses with transactions still gaining confirmations
+   */
+  private async refreshTracked(): Promise<void> {
+    for (const scripthash of new Set(this.tracked.values())) {
+      await this.syncScripthash(scripthash);
+    }
+  }
+
+  /**
+   * Passes a new chain tip to `onBlock`
+   * Failures are logged: a notification has no caller to report to
+   */
+  private async notifyBlock(height: number): Promise<void> {
+    try {
+      await this.onBlock?.(height);
+    } catch (error) {
+      console.error(
+        `[ELECTRUM] Failed to handle block ${height}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Fetches the hash of the best-chain block at a height from its header
+   * (double SHA-256 of the 80-byte header, byte-reversed)
+   */
+  private async getHeaderHash(height: number): Promise<string> {
+    const cached = this.blockHashes.get(height);
+    if (cached) {
+      return cached;
+    }
+
+    const header = await this.send<string>("blockchain.block.header", [height]);
+    const hash = createHash("sha256")
+      .update(createHash("sha256").update(Buffer.from(header, "hex")).digest())
+      .digest()
+      .reverse()
+      .toString("hex");
+    this.blockHashes.set(height, hash);
+    return hash;
+  }
+
+  /**
+   * Fetches the history of a script hash, oldest first
+   */
+  private async getScripthashTransactions(
+    scripthash: string
+  ): Promise<ChainTransaction[]> {
+    const history = await this.send<ElectrumHistoryEntry[]>(
+      "blockchain.scripthash.get_history",
+      [scripthash]
+    );
+
+    const transactions: ChainTransaction[] = [];
+    for (const entry of history) {
+      transactions.push(
+        this.toChainTransaction(
+          entry.tx_hash,
+          await this.getDecodedTransaction(entry.tx_hash),
+          entry,
+          entry.height > 0 ? await this.getHeaderHash(entry.height) : undefined
+        )
+      );
+    }
+    return transactions;
+  }
+
+  /**
+   * Fetches and decodes the outputs, replace-by-fee signalling, size and
+   * spent outputs of a raw transaction
+   */
+  private async getDecodedTransaction(
+    txid: string
+  ): Promise<DecodedTransaction> {
+    const cached = this.transactionCache.get(txid);
+    if (cached) {
+      return cached;
+    }
+
+    const hex = await this.send<string>("blockchain.transaction.get", [txid]);
+    const tx = bitcoin.Transaction.fromHex(hex);
+    const decoded: DecodedTransaction = {
+      outputs: tx.outs.map((output) => ({
+        address: outputScriptToAddress(output.script),
+        value: output.value,
+      })),
+      signalsRbf: isRbfSignalled(tx.ins.map((input) => input.sequence)),
+      vsize: tx.virtualSize(),
+      // Input hashes are in internal byte order, txids are displayed reversed
+      spends: tx.isCoinbase()
+        ? []
+        : tx.ins.map((input) =>
+            toOutpoint(
+              Buffer.from(input.hash).reverse().toString("hex"),
+              input.index
+            )
+          ),
+    };
+
+    if (this.transactionCache.size >= ELECTRUM_CONFIG.transactionCacheSize) {
+      // Maps iterate in insertion order: drop the oldest entry
+      this.transactionCache.delete(this.transactionCache.keys().next().value!);
+    }
+    this.transactionCache.set(txid, decoded);
+    return decoded;
+  }
+
+  private toChainTransaction(
+    txid: string,
+    { outputs, signalsRbf, vsize, spends }: DecodedTransaction,
+    entry?: ElectrumHistoryEntry,
+    blockHash?: string
+  ): ChainTransaction {
+    const height = entry && entry.height > 0 ? entry.height : undefined;
+
+    return {
+      txid,
+      confirmations:
+        height !== undefined && this.tipHeight !== undefined
+          ? Math.max(0, this.tipHeight - height + 1)
+          : 0,
+      blockHeight: height,
+      blockHash,
+      fee: entry?.fee,
+      signalsRbf,
+      vsize,
+      // Mempool entries at height -1 spend unconfirmed outputs
+      hasUnconfirmedInputs: entry ? entry.height === -1 : undefined,
+      spends: spends.length > 0 ? spends : undefined,
+      outputs,
+    };
+  }
+
+  /**
+   * Subscribes to an address; status changes are passed to `onTransaction`
+   *
+   * @param address - Bitcoin address to watch
+   * @returns Promise<string[]> - The address's Electrum script hash
+   */
+  async watchAddress(address: string): Promise<string[]> {
+    if (!address || typeof address !== "string") {
+      throw new Error("Address is required and must be a string");
+    }
+
+    const scripthash = addressToScripthash(address);
+    this.watched.set(scripthash, address);
+
+    // Connecting subscribes every watched address
+    await this.connect();
+    if (!this.subscribed.has(scripthash)) {
+      await this.subscribe(scripthash);
+    }
+
+    return [scripthash];
+  }
+
+  /**
+   * Fetches the transactions paying an address, newest first
+   *
+   * @param address - Bitcoin address
+   * @returns Promise<ChainTransaction[]> - Confirmed and unconfirmed transactions
+   */
+  async getAddressTransactions(address: string): Promise<ChainTransaction[]> {
+    if (!address || typeof address !== "string") {
+      throw new Error("Address is required and must be a string");
+    }
+
+    await this.connect();
+    const transactions = await this.getScripthashTransactions(
+      addressToScripthash(address)
+    );
+    return transactions.reverse();
+  }
+
+  /**
+   * Fetches a transaction by ID
+   * The confirmation height is read from the history of its first output
+   * address, and a transaction missing from that history counts as unknown
+   *
+   * @param txid - Transaction ID
+   * @returns Promise<ChainTransaction | null> - The transaction, or null if unknown
+   */
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    if (!txid || !/^[0-9a-fA-F]{64}$/.test(txid)) {
+      throw new Error("Transaction ID must be a 64-character hex string");
+    }
+
+    await this.connect();
+
+    let decoded: DecodedTransaction;
+    try {
+      decoded = await this.getDecodedTransaction(txid);
+    } catch (error) {
+      // ElectrumX/Fulcrum relay bitcoind's "No such mempool or blockchain transaction"
+      if (
+        error instanceof ElectrumApiError &&
+        /no such mempool or blockchain transaction|not found/i.test(
+          error.message
+        )
+      ) {
+        return null;
+      }
+      throw error;
+    }
+
+    const firstAddress = decoded.outputs.find(
+      (output) => output.address
+    )?.address;
+    let entry: ElectrumHistoryEntry | undefined;
+    if (firstAddress) {
+      const history = await this.send<ElectrumHistoryEntry[]>(
+        "blockchain.scripthash.get_history",
+        [addressToScripthash(firstAddress)]
+      );
+      entry = history.find((item) => item.tx_hash === txid);
+      // Decoded transactions are cached: one that left the history was
+      // replaced, conflicted or evicted
+      if (!entry) {
+        return null;
+      }
+    }
+
+    return this.toChainTransaction(
+      txid,
+      decoded,
+      entry,
+      entry && entry.height > 0
+        ? await this.getHeaderHash(entry.height)
+        : undefined
+    );
+  }
+
+  /**
+   * Gets the height of the current best block (kept current by the header subscription)
+   */
+  async getTipHeight(): Promise<number> {
+    await this.connect();
+    if (this.tipHeight === undefined) {
+      throw new ElectrumApiError("Chain tip height is not known yet");
+    }
+    return this.tipHeight;
+  }
+
+  /**
+   * Gets the hash of the best-chain block at a height
+   *
+   * @param height - Block height
+   * @returns Promise<string | null> - The block hash, or null above the tip
+   */
+  async getBlockHash(height: number): Promise<string | null> {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error("Block height must be a non-negative integer");
+    }
+
+    await this.connect();
+    if (this.tipHeight !== undefined && height > this.tipHeight) {
+      return null;
+    }
+    return this.getHeaderHash(height);
+  }
+
+  /**
+   * Gets fee rate estimates in sat/vB
+   * Falls back to 1 sat/vB when the server has no estimate (e.g. regtest)
+   */
+  async estimateFees(): Promise<FeeEstimates> {
+    const estimate = async (target: number): Promise<number> => {
+      const feerate = await this.request<number>("blockchain.estimatefee", [
+        target,
+      ]);
+      // BTC/kvB to sat/vB; -1 means no estimate
+      return feerate > 0 ? Math.max(1, Math.ceil(feerate * 100000)) : 1;
+    };
+
+    return {
+      high: await estimate(1),
+      medium: await estimate(6),
+      low: await estimate(144),
+    };
+  }
+
+  /**
+   * Gets the server being used
+   */
+  getServer(): ElectrumServer {
+    return { ...this.server };
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Esplora REST API Client
+ *
+ * Chain provider for the Esplora HTTP API, served publicly by mempool.space and
+ * Blockstream and self-hostable with electrs. Unlike Blockcypher it needs no API
+ * token and has no account rate limits when self-hosted.
+ *
+ * Features:
+ * - Address transaction lookups with confirmation counts
+ * - Transaction status by ID
+ * - Chain tip height, block hashes by height and fee estimates
+ * - Retry with exponential backoff on network and server errors
+ *
+ * Esplora has no push notifications, so `watchAddress` registers nothing and
+ * payments must be discovered by polling.
+ *
+ * @see https://github.com/Blockstream/esplora/blob/master/API.md
+ */
+
+import { getNetworkProfile } from "@/lib/bitcoin/network";
+import {
+  ChainProviderError,
+  ChainProviderRateLimitError,
+  isRbfSignalled,
+  toOutpoint,
+  type ChainProvider,
+  type ChainTransaction,
+  type FeeEstimates,
+} from "@/lib/api/chain-provider";
+import { calculateBackoffDelay, sleep } from "@/lib/api/retry";
+
+/**
+ * Base Esplora client configuration
+ */
+export const ESPLORA_CONFIG = {
+  timeout: 30000, // 30 seconds
+  retryAttempts: 3,
+  retryDelay: 1000, // 1 second
+} as const;
+
+/**
+ * Optional client tuning (defaults from ESPLORA_CONFIG)
+ */
+export interface EsploraClientOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Attempts per request, including the first */
+  retryAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds */
+  retryDelay?: number;
+}
+
+/**
+ * Transaction as returned by the Esplora API
+ */
+export interface EsploraTransaction {
+  txid: string;
+  fee?: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+  weight?: number;
+  // `txid` and `vout` of the spent output (absent for coinbase inputs)
+  vin?: Array<{ sequence: number; txid?: string; vout?: number }>;
+  vout: Array<{ scriptpubkey_address?: string; value: number }>;
+}
+
+/**
+ * Fee estimates keyed by confirmation target in blocks (sat/vB)
+ */
+type EsploraFeeEstimates = Record<string, number>;
+
+/**
+ * Custom error class for Esplora API errors
+ */
+export class EsploraApiError extends ChainProviderError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = "EsploraApiError";
+  }
+}
+
+/**
+ * Returns the Esplora API base URL for the configured network
+ * `ESPLORA_API_URL` overrides the public mempool.space default
+ *
+ * @throws {Error} When no URL is configured and the network has no public default (regtest)
+ */
+export function getDefaultEsploraUrl(): string {
+  const configuredUrl = process.env.ESPLORA_API_URL?.trim();
+  if (configuredUrl) {
+    return configuredUrl;
+  }
+
+  const profile = getNetworkProfile();
+  if (!profile.esploraApiUrl) {
+    throw new Error(
+      `No public Esplora API for ${profile.network}: set ESPLORA_API_URL`
+    );
+  }
+
+  return profile.esploraApiUrl;
+}
+
+/**
+ * Validates a transaction ID (32-byte hex)
+ */
+function isValidTxid(txid: string): boolean {
+  return /^[0-9a-fA-F]{64}$/.test(txid);
+}
+
+/**
+ * Esplora API client implementing the chain provider interface
+ */
+export class EsploraClient implements ChainProvider {
+  readonly name = "esplora";
+  readonly requiresCallbackUrl = false;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+  private readonly retryAttempts: number;
+  private readonly retryDelay: number;
+
+  constructor(
+    baseUrl: string = getDefaultEsploraUrl(),
+    options: EsploraClientOptions = {}
+  ) {
+    if (!baseUrl) {
+      throw new Error("Esplora API URL is required");
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.timeout = options.timeout ?? ESPLORA_CONFIG.timeout;
+    this.retryAttempts = options.retryAttempts ?? ESPLORA_CONFIG.retryAttempts;
+    this.retryDelay = options.retryDelay ?? ESPLORA_CONFIG.retryDelay;
+  }
+
+  /**
+   * Makes an HTTP GET request with retry logic and returns the body text
+   */
+  private async request(endpoint: string): Promise<string> {
+    const url = `${this.baseUrl}/${endpoint}`;
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt < this.retryAttempts; attempt++) {
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            signal: controller.signal,
+            headers: { "User-Agent": "Bitcoin-Payment-App/1.0.0" },
+          });
+        } finally {
+          clearTimeout(timeoutId);
+        }
+
+        if (response.status === 429) {
+          throw new ChainProviderRateLimitError(
+            "Esplora API rate limit exceeded"
+          );
+        }
+
+        const body = await response.text();
+
+        if (!response.ok) {
+          // Esplora reports errors as plain text
+          throw new EsploraApiError(
+            body.trim() || `HTTP ${response.status}: ${response.statusText}`,
+            response.status
+          );
+        }
+
+        return body;
+      } catch (error) {
+        lastError = error as Error;
+
+        // Don't retry client errors (4xx) other than rate limiting
+        if (
+          error instanceof ChainProviderError &&
+          error.statusCode &&
+          error.statusCode >= 400 &&
+          error.statusCode < 500 &&
+          error.statusCode !== 429
+        ) {
+          throw error;
+        }
+
+        if (attempt === this.retryAttempts - 1) {
+          break;
+        }
+
+        await sleep(calculateBackoffDelay(attempt, this.retryDelay));
+      }
+    }
+
+    if (!lastError) {
+      throw new Error(
+        "Unexpected error: no error recorded after all retry attempts failed"
+      );
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Makes an HTTP GET request and parses the JSON response
+   */
+  private async requestJson<T>(endpoint: string): Promise<T> {
+    const body = await this.request(endpoint);
+
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      throw new EsploraApiError(`Invalid JSON response: ${body}`);
+    }
+  }
+
+  /**
+   * Converts an Esplora transaction to the provider-neutral shape
+   */
+  private toChainTransaction(
+    tx: EsploraTransaction,
+    tipHeight: number
+  ): ChainTransaction {
+    const { confirmed, block_height, block_hash } = tx.status;
+    const isConfirmed = confirmed && block_height !== undefined;
+    const spends = (tx.vin ?? []).flatMap((input) =>
+      input.txid !== undefined && input.vout !== undefined
+        ? [toOutpoint(input.txid, input.vout)]
+        : []
+    );
+
+    return {
+      txid: tx.txid,
+      confirmations: isConfirmed
+        ? Math.max(0, tipHeight - block_height + 1)
+        : 0,
+      blockHeight: isConfirmed ? block_height : undefined,
+      blockHash: isConfirmed ? block_hash : undefined,
+      fee: tx.fee,
+      signalsRbf: tx.vin?.length
+        ? isRbfSignalled(tx.vin.map((input) => input.sequence))
+        : undefined,
+      vsize: tx.weight !== undefined ? Math.ceil(tx.weight / 4) : undefined,
+      spends: spends.length > 0 ? spends : undefined,
+      outputs: tx.vout.map((output) => ({
+        address: output.scriptpubkey_address,
+        value: output.value,
+      })),
+    };
+  }
+
+  /**
+   * Esplora has no push notifications; payments are found by polling
+   *
+   * @returns Promise<string[]> - Always empty
+   */
+  async watchAddress(): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Fetches the transactions paying an address, newest first
+   * Returns mempool transactions plus the most recent confirmed ones
+   *
+   * @param address - Bitcoin address to look up
+   * @returns Promise<ChainTransaction[]> - Confirmed and unconfirmed transactions
+   */
+  async getAddressTransactions(address: string): Promise<ChainTransaction[]> {
+    if (!address || typeof address !== "string") {
+      throw new Error("Address is required and must be a string");
+    }
+
+    const transactions = await this.requestJson<EsploraTransaction[]>(
+      `address/${encodeURIComponent(address)}/txs`
+    );
+
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const tipHeight = await this.getTipHeight();
+    return transactions.map((tx) => this.toChainTransaction(tx, tipHeight));
+  }
+
+  /**
+   * Fetches a transaction by ID
+   *
+   * @param txid - Transaction ID
+   * @returns Promise<ChainTransaction | null> - The transaction, or null if unknown
+   */
+  async getTransaction(txid: string): Promise<ChainTransaction | null> {
+    if (!txid || !isValidTxid(txid)) {
+      throw new Error("Transaction ID must be a 64-character hex string");
+    }
+
+    let tx: EsploraTransaction;
+    try {
+      tx = await this.requestJson<EsploraTransaction>(`tx/${txid}`);
+    } catch (error) {
+      if (error instanceof EsploraApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const tipHeight = tx.status.confirmed ? await this.getTipHeight() : 0;
+    return this.toChainTransaction(tx, tipHeight);
+  }
+
+  /**
+   * Gets the height of the current best block
+   */
+  async getTipHeight(): Promise<number> {
+    const body = await this.request("blocks/tip/height");
+    const height = Number.parseInt(body.trim(), 10);
+
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new EsploraApiError(`Invalid tip height response: ${body}`);
+    }
+
+    return height;
+  }
+
+  /**
+   * Gets the hash of the best-chain block at a height
+   *
+   * @param height - Block height
+   * @returns Promise<string | null> - The block hash, or null above the tip
+   */
+  async getBlockHash(height: number): Promise<string | null> {
+    if (!Number.isSafeInteger(height) || height < 0) {
+      throw new Error("Block height must be a non-negative integer");
+    }
+
+    let body: string;
+    try {
+      body = await this.request(`block-height/${height}`);
+    } catch (error) {
+      if (error instanceof EsploraApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const hash = body.trim();
+    if (!/^[0-9a-f]{64}$/i.test(hash)) {
+      throw new EsploraApiError(`Invalid block hash response: ${body}`);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Gets fee rate estimates in sat/vB
+   * Uses the 1-, 6- and 144-block confirmation targets
+   */
+  async estimateFees(): Promise<FeeEstimates> {
+    const estimates =
+      await this.requestJson<EsploraFeeEstimates>("fee-estimates");
+    const rate = (target: string) =>
+      Math.max(1, Math.ceil(estimates[target] ?? 1));
+
+    return {
+      high: rate("1"),
+      medium: rate("6"),
+      low: rate("144"),
+    };
+  }
+
+  /**
+   * Gets the base URL being used
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Chain Provider Selection
+ *
+ * Resolves the `ChainProvider` the application uses, selected with the
+ * `CHAIN_PROVIDER` environment variable (default `blockcypher`):
+ * - `blockcypher`: Blockcypher API with webhook push notifications
+ * - `esplora`: Esplora REST API (mempool.space, Blockstream or self-hosted electrs)
+ * - `bitcoind`: Bitcoin Core JSON-RPC with a watch-only descriptor wallet
+ * - `electrum`: Electrum server protocol with scripthash subscriptions
+ *
+ * Payment code should obtain its provider here instead of importing a backend
+ * directly.
+ */
+
+import { blockcypherClient } from "@/lib/api/blockcypher";
+import { EsploraClient } from "@/lib/api/esplora";
+import { BitcoindClient } from "@/lib/api/bitcoind";
+import { ELECTRUM_CONFIG, ElectrumClient } from "@/lib/api/electrum";
+import type { ChainProvider } from "@/lib/api/chain-provider";
+import {
+  applyChainTransaction,
+  getActivePaymentAddresses,
+} from "@/lib/services/payment-updates";
+
+/**
+ * Supported chain provider backends
+ */
+export enum ChainProviderType {
+  BLOCKCYPHER = "blockcypher",
+  ESPLORA = "esplora",
+  BITCOIND = "bitcoind",
+  ELECTRUM = "electrum",
+}
+
+/**
+ * Backend used when `CHAIN_PROVIDER` is not set
+ */
+export const DEFAULT_CHAIN_PROVIDER = ChainProviderType.BLOCKCYPHER;
+
+// Created on first use: their endpoints depend on configuration that may be
+// missing when another provider is selected
+let esploraClient: EsploraClient | undefined;
+let bitcoindClient: BitcoindClient | undefined;
+let electrumClient: ElectrumClient | undefined;
+
+/**
+ * Returns the configured provider type
+ *
+ * @throws {Error} When `CHAIN_PROVIDER` names an unsupported backend
+ */
+export function getConfiguredChainProviderType(): ChainProviderType {
+  const raw = process.env.CHAIN_PROVIDER?.trim().toLowerCase();
+
+  if (!raw) {
+    return DEFAULT_CHAIN_PROVIDER;
+  }
+
+  const supported = Object.values(ChainProviderType) as string[];
+  if (!supported.includes(raw)) {
+    throw new Error(
+      `Unsupported CHAIN_PROVIDER '${raw}': expected one of ${supported.join(
+        ", "
+      )}`
+    );
+  }
+
+  return raw as ChainProviderType;
+}
+
+/**
+ * Returns the chain provider selected by `CHAIN_PROVIDER`
+ *
+ * @returns {ChainProvider} Provider for the configured backend
+ * @throws {Error} When `CHAIN_PROVIDER` names an unsupported backend
+ *
+ * @example
+ * const provider = getChainProvider();
+ * const transactions = await provider.getAddressTransactions(address);
+ */
+export function getChainProvider(): ChainProvider {
+  switch (getConfiguredChainProviderType()) {
+    case ChainProviderType.BLOCKCYPHER:
+      return blockcypherClient;
+    case ChainProviderType.ESPLORA:
+      esploraClient ??= new EsploraClient();
+      return esploraClient;
+    case ChainProviderType.BITCOIND:
+      bitcoindClient ??= new BitcoindClient();
+      return bitcoindClient;
+    case ChainProviderType.ELECTRUM:
+      // Subscription notifications go straight to the payment store
+      electrumClient ??= new ElectrumClient(undefined, {
+        onTransaction: (transaction) =>
+          applyChainTransaction(transaction, "subscription"),
+        // Loaded on use: the reorg check reads its provider from this module
+        onBlock: async () =>
+          (await import("@/lib/services/reorg-detection")).checkForReorgs(
+            "subscription"
+          ),
+        getWatchedAddresses: () =>
+          getActivePaymentAddresses(ELECTRUM_CONFIG.trackConfirmations),
+      });
+      return electrumClient;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Retry helpers shared by the HTTP chain provider clients
+ */
+
+/**
+ * Implements exponential backoff delay
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  baseDelay: number
+): number {
+  return baseDelay * Math.pow(2, attempt) + Math.random() * 1000;
+}
+
+/**
+ * Sleep utility for retry delays
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
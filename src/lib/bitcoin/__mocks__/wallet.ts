@@ -10,3 +10,7 @@ export const generateWalletAddress = jest.fn(() => {
 export const isValidTestnetAddress = jest.fn((address: string) => {
   return typeof address === "string" && address.startsWith("tb1");
 });
+
+export const isValidAddress = jest.fn((address: string) => {
+  return typeof address === "string" && address.startsWith("tb1");
+});
@@ -0,0 +1,142 @@
+/**
+ * Gap-Limit Aware Address Allocator (Server-Side Only)
+ *
+ * Allocates payment addresses derived from the configured account xpub while
+ * keeping the wallet recoverable. Wallets such as Electrum or Sparrow restored
+ * from the account xpub stop scanning after `gapLimit` consecutive unused
+ * addresses (BIP44 gap limit, 20 by default), so payments to addresses beyond
+ * that gap would be invisible to them.
+ *
+ * Allocation strategy:
+ * 1. Recycle the lowest-indexed derived address whose payment request expired
+ *    without ever being funded
+ * 2. Otherwise derive the next index, unless the gap limit would be exceeded
+ *
+ * Each address type (P2WPKH, P2TR, ...) is its own BIP account with its own
+ * xpub, so indexes and gaps are tracked per address type.
+ */
+
+import { deriveAddressFromXPub } from "@/lib/bitcoin/wallet";
+import {
+  allocateAddressIndex,
+  type AddressAllocatorState,
+} from "@/lib/store/payment-status";
+import type { PaymentStatusData } from "@/lib/store/payment-store";
+import { AddressType, type DerivedAddress } from "@/types";
+
+/**
+ * Allocator configuration defaults
+ */
+export const ADDRESS_ALLOCATOR_CONFIG = {
+  defaultGapLimit: 20,
+  defaultRecycleAfterMinutes: 24 * 60, // 24 hours
+} as const;
+
+/**
+ * Error thrown when no address can be allocated without exceeding the gap limit
+ */
+export class AddressGapLimitError extends Error {
+  constructor(
+    public gapLimit: number,
+    public state: AddressAllocatorState
+  ) {
+    super(
+      `Address gap limit of ${gapLimit} reached: ${state.unusedCount} consecutive derived addresses are unpaid. ` +
+        "Wait for pending payment requests to be paid or expire."
+    );
+    this.name = "AddressGapLimitError";
+  }
+}
+
+/**
+ * Address allocated for a new payment request
+ */
+export interface AllocatedAddress extends DerivedAddress {
+  /** Whether an expired, never-funded address was reused */
+  recycled: boolean;
+  /** The recycled address's previous payment, as it was before the claim */
+  previousPayment?: PaymentStatusData;
+}
+
+/**
+ * Reads a positive integer from an environment variable
+ */
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got '${raw}'`);
+  }
+
+  return value;
+}
+
+/**
+ * Returns the configured gap limit (`ADDRESS_GAP_LIMIT`, default 20)
+ */
+export function getConfiguredGapLimit(): number {
+  return readPositiveIntEnv(
+    "ADDRESS_GAP_LIMIT",
+    ADDRESS_ALLOCATOR_CONFIG.defaultGapLimit
+  );
+}
+
+/**
+ * Returns how long a never-funded request must be idle before its address is
+ * recycled (`ADDRESS_RECYCLE_AFTER_MINUTES`, default 24 hours), in milliseconds
+ */
+export function getConfiguredRecycleAfterMs(): number {
+  return (
+    readPositiveIntEnv(
+      "ADDRESS_RECYCLE_AFTER_MINUTES",
+      ADDRESS_ALLOCATOR_CONFIG.defaultRecycleAfterMinutes
+    ) *
+    60 *
+    1000
+  );
+}
+
+/**
+ * Allocates a payment address from the account xpub
+ *
+ * @param xpub - Account-level extended public key to derive from
+ * @param addressType - Address type the xpub's account derives (defaults to P2WPKH)
+ * @returns The allocated address with its derivation path and index
+ * @throws {AddressGapLimitError} When the gap limit would be exceeded
+ *
+ * @example
+ * const allocated = await allocatePaymentAddress(getConfiguredAccountXpub()!);
+ * console.log(allocated.address, allocated.derivationPath, allocated.recycled);
+ */
+export async function allocatePaymentAddress(
+  xpub: string,
+  addressType: AddressType = AddressType.P2WPKH
+): Promise<AllocatedAddress> {
+  const gapLimit = getConfiguredGapLimit();
+  const allocation = await allocateAddressIndex({
+    gapLimit,
+    recycleCreatedBefore: Date.now() - getConfiguredRecycleAfterMs(),
+    addressType,
+  });
+
+  if (allocation.kind === "gap-limit-reached") {
+    throw new AddressGapLimitError(gapLimit, allocation.state);
+  }
+
+  const derived = deriveAddressFromXPub(xpub, allocation.index, addressType);
+
+  // A recycled record must still match the configured xpub
+  if (allocation.kind === "recycled" && derived.address !== allocation.address) {
+    throw new Error(
+      `Recycled address ${allocation.address} does not match index ${allocation.index} of the configured xpub`
+    );
+  }
+
+  return allocation.kind === "recycled"
+    ? { ...derived, recycled: true, previousPayment: allocation.previous }
+    : { ...derived, recycled: false };
+}
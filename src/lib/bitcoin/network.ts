@@ -0,0 +1,191 @@
+/**
+ * Bitcoin Network Configuration
+ *
+ * Single source of truth for the Bitcoin network this deployment runs on.
+ * The network is selected with `NEXT_PUBLIC_BITCOIN_NETWORK` (default `testnet`)
+ * and drives:
+ * - Address derivation (bitcoinjs network parameters and BIP44 coin type)
+ * - Address validation (bech32 HRP and base58 version bytes)
+ * - BIP21 payment URI generation
+ * - Block explorer links shown to the payer
+ * - Chain provider endpoints (Esplora API, Electrum server, Bitcoin Core RPC port)
+ *
+ * The setting is public so that server code and client components always agree
+ * on the network. It contains no secrets.
+ */
+
+import * as bitcoin from "bitcoinjs-lib";
+import { BitcoinNetwork } from "@/types";
+
+/**
+ * Static parameters of a supported network
+ */
+export interface NetworkProfile {
+  /** Network identifier */
+  network: BitcoinNetwork;
+  /** Human-readable name for the UI */
+  label: string;
+  /** bitcoinjs-lib network parameters (address prefixes, bip32 versions) */
+  bitcoinjsNetwork: bitcoin.Network;
+  /** BIP44 coin type: 0 for mainnet, 1 for every test network */
+  coinType: 0 | 1;
+  /** Whether coins on this network have no real value */
+  isTestNetwork: boolean;
+  /** Value of the `network` BIP21 parameter (omitted for mainnet) */
+  bip21Network?: string;
+  /** Default block explorer base URL (none for regtest) */
+  explorerBaseUrl?: string;
+  /** Default public Esplora REST API (none for regtest) */
+  esploraApiUrl?: string;
+  /** Default public Electrum server as `ssl://host:port` (none for regtest) */
+  electrumServer?: string;
+  /** Default Bitcoin Core JSON-RPC port */
+  rpcPort: number;
+}
+
+/**
+ * Parameters for every supported network
+ *
+ * testnet3, testnet4 and signet share the `tb` address format, so they also
+ * share bitcoinjs-lib's testnet parameters.
+ */
+export const NETWORK_PROFILES: Record<BitcoinNetwork, NetworkProfile> = {
+  [BitcoinNetwork.MAINNET]: {
+    network: BitcoinNetwork.MAINNET,
+    label: "Mainnet",
+    bitcoinjsNetwork: bitcoin.networks.bitcoin,
+    coinType: 0,
+    isTestNetwork: false,
+    explorerBaseUrl: "https://mempool.space",
+    esploraApiUrl: "https://mempool.space/api",
+    electrumServer: "ssl://electrum.blockstream.info:50002",
+    rpcPort: 8332,
+  },
+  [BitcoinNetwork.TESTNET]: {
+    network: BitcoinNetwork.TESTNET,
+    label: "Testnet",
+    bitcoinjsNetwork: bitcoin.networks.testnet,
+    coinType: 1,
+    isTestNetwork: true,
+    bip21Network: "testnet",
+    explorerBaseUrl: "https://mempool.space/testnet",
+    esploraApiUrl: "https://mempool.space/testnet/api",
+    electrumServer: "ssl://electrum.blockstream.info:60002",
+    rpcPort: 18332,
+  },
+  [BitcoinNetwork.TESTNET4]: {
+    network: BitcoinNetwork.TESTNET4,
+    label: "Testnet4",
+    bitcoinjsNetwork: bitcoin.networks.testnet,
+    coinType: 1,
+    isTestNetwork: true,
+    bip21Network: "testnet4",
+    explorerBaseUrl: "https://mempool.space/testnet4",
+    esploraApiUrl: "https://mempool.space/testnet4/api",
+    electrumServer: "ssl://mempool.space:40002",
+    rpcPort: 48332,
+  },
+  [BitcoinNetwork.SIGNET]: {
+    network: BitcoinNetwork.SIGNET,
+    label: "Signet",
+    bitcoinjsNetwork: bitcoin.networks.testnet,
+    coinType: 1,
+    isTestNetwork: true,
+    bip21Network: "signet",
+    explorerBaseUrl: "https://mempool.space/signet",
+    esploraApiUrl: "https://mempool.space/signet/api",
+    electrumServer: "ssl://mempool.space:60602",
+    rpcPort: 38332,
+  },
+  [BitcoinNetwork.REGTEST]: {
+    network: BitcoinNetwork.REGTEST,
+    label: "Regtest",
+    bitcoinjsNetwork: bitcoin.networks.regtest,
+    coinType: 1,
+    isTestNetwork: true,
+    bip21Network: "regtest",
+    rpcPort: 18443,
+  },
+};
+
+/**
+ * Default network when `NEXT_PUBLIC_BITCOIN_NETWORK` is not set
+ */
+export const DEFAULT_NETWORK = BitcoinNetwork.TESTNET;
+
+/**
+ * Checks whether a string names a supported network
+ */
+export function isBitcoinNetwork(value: string): value is BitcoinNetwork {
+  return (Object.values(BitcoinNetwork) as string[]).includes(value);
+}
+
+/**
+ * Returns the configured network (`NEXT_PUBLIC_BITCOIN_NETWORK`, default testnet)
+ *
+ * @returns {BitcoinNetwork} The configured network
+ * @throws {Error} When the setting names an unsupported network
+ *
+ * @example
+ * // NEXT_PUBLIC_BITCOIN_NETWORK=signet
+ * getConfiguredNetwork(); // BitcoinNetwork.SIGNET
+ */
+export function getConfiguredNetwork(): BitcoinNetwork {
+  const raw = process.env.NEXT_PUBLIC_BITCOIN_NETWORK?.trim().toLowerCase();
+
+  if (!raw) {
+    return DEFAULT_NETWORK;
+  }
+
+  if (!isBitcoinNetwork(raw)) {
+    throw new Error(
+      `Unsupported NEXT_PUBLIC_BITCOIN_NETWORK '${raw}': expected one of ${Object.values(
+        BitcoinNetwork
+      ).join(", ")}`
+    );
+  }
+
+  return raw;
+}
+
+/**
+ * Returns the parameters of a network
+ *
+ * @param {BitcoinNetwork} [network] - Network to look up (defaults to the configured network)
+ * @returns {NetworkProfile} The network parameters
+ */
+export function getNetworkProfile(
+  network: BitcoinNetwork = getConfiguredNetwork()
+): NetworkProfile {
+  return NETWORK_PROFILES[network];
+}
+
+/**
+ * Builds a block explorer link for a transaction
+ *
+ * `NEXT_PUBLIC_EXPLORER_TX_URL` (a prefix the transaction ID is appended to)
+ * overrides the network's default explorer, e.g. for a local regtest explorer.
+ *
+ * @param {string} transactionId - Transaction hash
+ * @param {BitcoinNetwork} [network] - Network of the transaction (defaults to the configured network)
+ * @returns {string | undefined} Explorer URL, or undefined when the network has no explorer
+ *
+ * @example
+ * getExplorerTxUrl("d5f9...", BitcoinNetwork.SIGNET);
+ * // "https://mempool.space/signet/tx/d5f9..."
+ */
+export function getExplorerTxUrl(
+  transactionId: string,
+  network: BitcoinNetwork = getConfiguredNetwork()
+): string | undefined {
+  // NEXT_PUBLIC_TESTNET_EXPLORER_ADDRESS is the pre-network-abstraction name
+  const override =
+    process.env.NEXT_PUBLIC_EXPLORER_TX_URL ||
+    process.env.NEXT_PUBLIC_TESTNET_EXPLORER_ADDRESS;
+  if (override) {
+    return `${override}${transactionId}`;
+  }
+
+  const { explorerBaseUrl } = getNetworkProfile(network);
+  return explorerBaseUrl ? `${explorerBaseUrl}/tx/${transactionId}` : undefined;
+}
@@ -4,16 +4,147 @@
  * CRITICAL SECURITY NOTE: This module contains functions that generate and handle
  * private keys and mnemonics. These should NEVER be exposed to the client-side.
  * All functions in this module are intended for server-side use only.
+ *
+ * Addresses are derived and validated for the configured network
+ * (`NEXT_PUBLIC_BITCOIN_NETWORK`, see ./network.ts). Function names containing
+ * "testnet" predate the network abstraction and are kept for compatibility.
  */
 
 import * as bip39 from "bip39";
 import { BIP32Factory, BIP32Interface } from "bip32";
 import * as ecc from "tiny-secp256k1";
 import * as bitcoin from "bitcoinjs-lib";
+import { AddressType, BitcoinNetwork, type DerivedAddress } from "@/types";
+import { getConfiguredNetwork, getNetworkProfile } from "./network";
 
 // You must wrap a tiny-secp256k1 compatible implementation
 const bip32 = BIP32Factory(ecc);
 
+// Taproot (P2TR) payments require an ECC library for key tweaking
+bitcoin.initEccLib(ecc);
+
+/**
+ * BIP32 offset for hardened child indexes (2^31)
+ */
+const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * Extended key version bytes accepted for test network account keys (SLIP-0132)
+ * tpub is the generic BIP32 testnet prefix, upub is the BIP49 nested SegWit
+ * prefix and vpub is the BIP84 native SegWit prefix
+ */
+const TESTNET_XPUB_VERSIONS: Record<string, { public: number; private: number }> =
+  {
+    tpub: { public: 0x043587cf, private: 0x04358394 },
+    upub: { public: 0x044a5262, private: 0x044a4e28 },
+    vpub: { public: 0x045f1cf6, private: 0x045f18bc },
+  };
+
+/**
+ * Extended key version bytes accepted for mainnet account keys (SLIP-0132)
+ * xpub, ypub and zpub are the mainnet counterparts of tpub, upub and vpub
+ */
+const MAINNET_XPUB_VERSIONS: Record<string, { public: number; private: number }> =
+  {
+    xpub: { public: 0x0488b21e, private: 0x0488ade4 },
+    ypub: { public: 0x049d7cb2, private: 0x049d7878 },
+    zpub: { public: 0x04b24746, private: 0x04b2430c },
+  };
+
+/**
+ * Derivation standard for each supported address type
+ */
+const ADDRESS_TYPE_STANDARDS: Record<
+  AddressType,
+  {
+    purpose: number;
+    bip: string;
+    description: string;
+    xpubPrefixes: { mainnet: string[]; test: string[] };
+    xpubEnvVar: string;
+  }
+> = {
+  [AddressType.P2WPKH]: {
+    purpose: 84,
+    bip: "BIP84",
+    description: "native SegWit",
+    xpubPrefixes: { mainnet: ["zpub", "xpub"], test: ["vpub", "tpub"] },
+    xpubEnvVar: "WALLET_ACCOUNT_XPUB",
+  },
+  [AddressType.P2TR]: {
+    purpose: 86,
+    bip: "BIP86",
+    description: "Taproot",
+    xpubPrefixes: { mainnet: ["xpub"], test: ["tpub"] },
+    xpubEnvVar: "WALLET_ACCOUNT_XPUB_P2TR",
+  },
+  [AddressType.P2SH_P2WPKH]: {
+    purpose: 49,
+    bip: "BIP49",
+    description: "nested SegWit",
+    xpubPrefixes: { mainnet: ["ypub", "xpub"], test: ["upub", "tpub"] },
+    xpubEnvVar: "WALLET_ACCOUNT_XPUB_P2SH_P2WPKH",
+  },
+  [AddressType.P2PKH]: {
+    purpose: 44,
+    bip: "BIP44",
+    description: "legacy",
+    xpubPrefixes: { mainnet: ["xpub"], test: ["tpub"] },
+    xpubEnvVar: "WALLET_ACCOUNT_XPUB_P2PKH",
+  },
+};
+
+/**
+ * Returns the default derivation path (first receiving address) for an address type
+ *
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Receive address type
+ * @param {BitcoinNetwork} [network] - Network whose coin type to use (defaults to the configured network)
+ * @returns {string} Path of the form m/purpose'/coin_type'/0'/0/0
+ *
+ * @example
+ * getDefaultDerivationPath(AddressType.P2TR); // "m/86'/1'/0'/0/0" on test networks
+ */
+export function getDefaultDerivationPath(
+  addressType: AddressType = AddressType.P2WPKH,
+  network: BitcoinNetwork = getConfiguredNetwork()
+): string {
+  const { coinType } = getNetworkProfile(network);
+  return `m/${ADDRESS_TYPE_STANDARDS[addressType].purpose}'/${coinType}'/0'/0/0`;
+}
+
+/**
+ * Encodes a compressed public key as an address of the given type
+ */
+function encodePublicKeyAddress(
+  publicKey: Uint8Array,
+  addressType: AddressType,
+  network: bitcoin.Network
+): string | undefined {
+  const pubkey = Buffer.from(publicKey);
+
+  switch (addressType) {
+    case AddressType.P2TR:
+      // BIP86: key-path only output using the x-only internal key
+      return bitcoin.payments.p2tr({
+        internalPubkey: pubkey.subarray(1, 33),
+        network,
+      }).address;
+
+    case AddressType.P2SH_P2WPKH:
+      return bitcoin.payments.p2sh({
+        redeem: bitcoin.payments.p2wpkh({ pubkey, network }),
+        network,
+      }).address;
+
+    case AddressType.P2PKH:
+      return bitcoin.payments.p2pkh({ pubkey, network }).address;
+
+    case AddressType.P2WPKH:
+    default:
+      return bitcoin.payments.p2wpkh({ pubkey, network }).address;
+  }
+}
+
 /**
  * Generates a new BIP39 mnemonic phrase with 12 words
  *
@@ -115,7 +246,7 @@ export function validateMnemonic(mnemonic: string): boolean {
  * Generates an HD (Hierarchical Deterministic) root key from a seed
  *
  * @param {Buffer} seed - The 64-byte seed derived from a mnemonic
- * @param {bitcoin.Network} [network=bitcoin.networks.testnet] - Bitcoin network (defaults to testnet)
+ * @param {bitcoin.Network} [network] - Bitcoin network parameters (defaults to the configured network)
  * @returns {BIP32Interface} The HD root key object containing master private/public keys and derivation methods
  *
  * @example
@@ -134,7 +265,7 @@ export function validateMnemonic(mnemonic: string): boolean {
  */
 export function generateHDRoot(
   seed: Buffer,
-  network: bitcoin.Network = bitcoin.networks.testnet
+  network: bitcoin.Network = getNetworkProfile().bitcoinjsNetwork
 ): BIP32Interface {
   try {
     // Validate seed length (should be 64 bytes from BIP39)
@@ -185,11 +316,12 @@ export function generateHDRoot(
 }
 
 /**
- * Derives a testnet Bitcoin address from an HD root key using a specified derivation path
+ * Derives a Bitcoin address for the configured network from an HD root key
  *
  * @param {BIP32Interface} hdRoot - The HD root key generated from generateHDRoot()
- * @param {string} [path="m/84'/1'/0'/0/0"] - BIP84 derivation path for testnet native SegWit (defaults to first receiving address)
- * @returns {string} A testnet Bitcoin address string (starts with 'tb1')
+ * @param {string} [path] - Derivation path (defaults to the first receiving address of the address type's BIP purpose)
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Receive address type (P2WPKH/BIP84, P2TR/BIP86, P2SH-P2WPKH/BIP49, P2PKH/BIP44)
+ * @returns {string} A testnet Bitcoin address string (tb1q, tb1p, 2 or m/n depending on type)
  *
  * @example
  * const mnemonic = generateMnemonic();
@@ -202,17 +334,29 @@ export function generateHDRoot(
  * // Custom derivation path
  * const address = deriveTestnetAddress(hdRoot, "m/84'/1'/0'/0/1"); // Second receiving address
  *
+ * @example
+ * // Taproot address (BIP86)
+ * const taproot = deriveTestnetAddress(hdRoot, undefined, AddressType.P2TR); // "tb1p..."
+ *
  * @security This function only returns the public address string.
  * Private keys are never exposed and remain internal to the HD wallet structure.
  * This function is safe to use for generating addresses that will be shared with clients.
  */
 export function deriveTestnetAddress(
   hdRoot: BIP32Interface,
-  path?: string
+  path?: string,
+  addressType: AddressType = AddressType.P2WPKH
 ): string {
   try {
+    const standard = ADDRESS_TYPE_STANDARDS[addressType];
+    if (!standard) {
+      throw new Error(`Unsupported address type: ${addressType}`);
+    }
+
+    const profile = getNetworkProfile();
+
     // Set default path if not provided
-    const derivationPath = path ?? "m/84'/1'/0'/0/0";
+    const derivationPath = path ?? getDefaultDerivationPath(addressType);
 
     // Validate that hdRoot is provided and has the expected structure
     if (!hdRoot) {
@@ -227,10 +371,10 @@ export function deriveTestnetAddress(
       throw new Error("Invalid HD root: missing network information");
     }
 
-    // Validate that we're working with testnet
-    if (hdRoot.network !== bitcoin.networks.testnet) {
+    // Validate that we're working with the configured network
+    if (hdRoot.network !== profile.bitcoinjsNetwork) {
       throw new Error(
-        "HD root must be configured for testnet network. Use bitcoin.networks.testnet when calling generateHDRoot()"
+        `HD root must be configured for ${profile.network} network. Use the configured network's parameters when calling generateHDRoot()`
       );
     }
 
@@ -254,7 +398,7 @@ export function deriveTestnetAddress(
       );
     }
 
-    // Validate that path follows BIP84 pattern for testnet (m/84'/1'/...)
+    // Validate that path follows the address type's BIP pattern for the network (e.g. m/84'/1'/...)
     const pathParts = derivationPath.split("/");
     if (pathParts.length < 4) {
       throw new Error(
@@ -262,15 +406,15 @@ export function deriveTestnetAddress(
       );
     }
 
-    if (pathParts[1] !== "84'") {
+    if (pathParts[1] !== `${standard.purpose}'`) {
       throw new Error(
-        "Invalid derivation path: must use purpose 84' for native SegWit (BIP84)"
+        `Invalid derivation path: must use purpose ${standard.purpose}' for ${standard.description} (${standard.bip})`
       );
     }
 
-    if (pathParts[2] !== "1'") {
+    if (pathParts[2] !== `${profile.coinType}'`) {
       throw new Error(
-        "Invalid derivation path: must use coin_type 1' for Bitcoin testnet"
+        `Invalid derivation path: must use coin_type ${profile.coinType}' for Bitcoin ${profile.network}`
       );
     }
 
@@ -292,32 +436,22 @@ export function deriveTestnetAddress(
       );
     }
 
-    // Create P2WPKH (Pay to Witness Public Key Hash) address for native SegWit
-    // This creates a testnet address starting with 'tb1'
-    const { address } = bitcoin.payments.p2wpkh({
-      pubkey: Buffer.from(childKey.publicKey),
-      network: bitcoin.networks.testnet,
-    });
+    // Encode the public key using the requested script type
+    // (P2WPKH tb1q..., P2TR tb1p..., P2SH-P2WPKH 2..., P2PKH m/n...)
+    const address = encodePublicKeyAddress(
+      childKey.publicKey,
+      addressType,
+      profile.bitcoinjsNetwork
+    );
 
     if (!address) {
-      throw new Error("Failed to generate P2WPKH address from public key");
+      throw new Error(`Failed to generate ${addressType} address from public key`);
     }
 
-    // Validate that the generated address has the correct testnet format
-    if (!address.startsWith("tb1")) {
+    // Validate that the generated address has the correct network format for its type
+    if (!validateGeneratedAddress(address, addressType)) {
       throw new Error(
-        `Generated address has incorrect format: expected to start with 'tb1', got '${address.substring(
-          0,
-          3
-        )}'`
-      );
-    }
-
-    // Additional validation: testnet bech32 addresses should be 42 or 62 characters
-    // 42 for P2WPKH (20-byte hash), 62 for P2WSH (32-byte hash)
-    if (address.length !== 42 && address.length !== 62) {
-      throw new Error(
-        `Generated address has unexpected length: expected 42 or 62 characters, got ${address.length}`
+        `Generated address has incorrect format for ${addressType}: '${address}'`
       );
     }
 
@@ -338,8 +472,9 @@ export function deriveTestnetAddress(
  * This function combines all wallet generation steps internally and only exposes
  * the final public address. It is the main function to be used by Server Actions.
  *
- * @param {string} [derivationPath="m/84'/1'/0'/0/0"] - BIP84 derivation path for testnet native SegWit
- * @returns {string} A testnet Bitcoin address string (starts with 'tb1')
+ * @param {string} [derivationPath] - Derivation path (defaults to the first receiving address of the address type's BIP purpose)
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Receive address type
+ * @returns {string} A testnet Bitcoin address string
  *
  * @example
  * const address = generateWalletAddress();
@@ -349,6 +484,10 @@ export function deriveTestnetAddress(
  * // Generate with custom derivation path
  * const address = generateWalletAddress("m/84'/1'/0'/0/1");
  *
+ * @example
+ * // Generate a nested SegWit address for wallets without bech32 support
+ * const address = generateWalletAddress(undefined, AddressType.P2SH_P2WPKH); // "2..."
+ *
  * @security CRITICAL SECURITY IMPLEMENTATION:
  * - Mnemonic, seed, and private keys are generated and used ONLY within this function
  * - NO private key material is ever exposed outside this function
@@ -357,7 +496,8 @@ export function deriveTestnetAddress(
  * - This function is safe to use in Server Actions as it never exposes sensitive data
  */
 export function generateWalletAddress(
-  derivationPath: string = "m/84'/1'/0'/0/0"
+  derivationPath?: string,
+  addressType: AddressType = AddressType.P2WPKH
 ): string {
   try {
     // Step 1: Generate a new mnemonic phrase (kept internal)
@@ -367,10 +507,10 @@ export function generateWalletAddress(
     const seed = mnemonicToSeed(mnemonic);
 
     // Step 3: Generate HD root key from seed (kept internal)
-    const hdRoot = generateHDRoot(seed, bitcoin.networks.testnet);
+    const hdRoot = generateHDRoot(seed, getNetworkProfile().bitcoinjsNetwork);
 
-    // Step 4: Derive the testnet address using specified path
-    const address = deriveTestnetAddress(hdRoot, derivationPath);
+    // Step 4: Derive the address for the configured network using specified path
+    const address = deriveTestnetAddress(hdRoot, derivationPath, addressType);
 
     // SECURITY NOTE: At this point, mnemonic, seed, and hdRoot containing
     // private keys will be garbage collected and removed from memory.
@@ -387,25 +527,214 @@ export function generateWalletAddress(
 }
 
 /**
- * Validates a Bitcoin testnet address format and structure
+ * Returns the account extended public key configured for deterministic address derivation
  *
- * @param {string} address - The Bitcoin address to validate
- * @returns {boolean} True if the address is a valid testnet address, false otherwise
+ * When set, payment addresses of that type are derived from this key (recoverable
+ * by the merchant's wallet) instead of from an ephemeral mnemonic. Each address type
+ * uses its own BIP purpose and therefore its own account key (zpub/ypub/xpub
+ * and coin type 0' on mainnet):
+ * - P2WPKH: `WALLET_ACCOUNT_XPUB` (vpub/tpub at m/84'/1'/0')
+ * - P2TR: `WALLET_ACCOUNT_XPUB_P2TR` (tpub at m/86'/1'/0')
+ * - P2SH-P2WPKH: `WALLET_ACCOUNT_XPUB_P2SH_P2WPKH` (upub/tpub at m/49'/1'/0')
+ * - P2PKH: `WALLET_ACCOUNT_XPUB_P2PKH` (tpub at m/44'/1'/0')
+ *
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Receive address type
+ * @returns {string | undefined} The configured account key, or undefined when not configured
+ */
+export function getConfiguredAccountXpub(
+  addressType: AddressType = AddressType.P2WPKH
+): string | undefined {
+  const xpub = process.env[ADDRESS_TYPE_STANDARDS[addressType].xpubEnvVar]?.trim();
+  return xpub ? xpub : undefined;
+}
+
+/**
+ * Returns the environment variable holding the account xpub for an address type
+ *
+ * @param {AddressType} addressType - Receive address type
+ * @returns {string} Environment variable name
+ */
+export function getAccountXpubEnvVar(addressType: AddressType): string {
+  return ADDRESS_TYPE_STANDARDS[addressType].xpubEnvVar;
+}
+
+/**
+ * Checks whether deterministic xpub derivation is configured for any address type
+ *
+ * When it is, address types without their own account xpub must be refused rather
+ * than silently falling back to unrecoverable ephemeral addresses.
+ *
+ * @returns {boolean} True if at least one account xpub is configured
+ */
+export function isXpubDerivationEnabled(): boolean {
+  return Object.values(AddressType).some(
+    (addressType) => getConfiguredAccountXpub(addressType) !== undefined
+  );
+}
+
+/**
+ * Parses an account extended public key for the configured network
+ * (vpub, upub or tpub on test networks; zpub, ypub or xpub on mainnet)
+ *
+ * @param {string} xpub - Account-level extended public key (depth 3, m/purpose'/coin_type'/account')
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Address type the key will derive
+ * @returns {BIP32Interface} Public-only BIP32 node for the account
  *
  * @example
- * const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
- * const isValid = isValidTestnetAddress(address);
- * console.log(isValid); // true
+ * const account = parseAccountXpub("vpub5Y6cjg78GGuNLsaPhmYsiw4gYX3HoQiRBiSwDaBXKUafCt9bNwWQiitDk5VZ5BVxYnQdwoTyXSs2JHRPAgjAvtbBrf8ZhDYe2jWAqvZVnsc");
+ *
+ * @security Only extended PUBLIC keys are accepted. Extended private keys are rejected
+ * so that spending keys are never configured on the payment server.
+ */
+export function parseAccountXpub(
+  xpub: string,
+  addressType: AddressType = AddressType.P2WPKH
+): BIP32Interface {
+  try {
+    if (!xpub || typeof xpub !== "string") {
+      throw new Error("Extended public key is required");
+    }
+
+    const profile = getNetworkProfile();
+    const trimmedXpub = xpub.trim();
+    const prefix = trimmedXpub.substring(0, 4);
+    const versions = profile.isTestNetwork
+      ? TESTNET_XPUB_VERSIONS[prefix]
+      : MAINNET_XPUB_VERSIONS[prefix];
+
+    if (!versions) {
+      throw new Error(
+        profile.isTestNetwork
+          ? `Unsupported extended key prefix '${prefix}': expected a testnet vpub, upub or tpub`
+          : `Unsupported extended key prefix '${prefix}': expected a mainnet zpub, ypub or xpub`
+      );
+    }
+
+    const allowedPrefixes = profile.isTestNetwork
+      ? ADDRESS_TYPE_STANDARDS[addressType].xpubPrefixes.test
+      : ADDRESS_TYPE_STANDARDS[addressType].xpubPrefixes.mainnet;
+    if (!allowedPrefixes.includes(prefix)) {
+      throw new Error(
+        `Extended key prefix '${prefix}' cannot be used for ${addressType} addresses: expected ${allowedPrefixes.join(
+          " or "
+        )}`
+      );
+    }
+
+    const accountNode = bip32.fromBase58(trimmedXpub, {
+      ...profile.bitcoinjsNetwork,
+      bip32: versions,
+    });
+
+    if (!accountNode.isNeutered()) {
+      throw new Error("Extended private keys are not accepted");
+    }
+
+    // Account keys live at m/purpose'/coin_type'/account'
+    if (accountNode.depth !== 3) {
+      throw new Error(
+        `Extended public key must be at account depth 3, got depth ${accountNode.depth}`
+      );
+    }
+
+    if (accountNode.index < HARDENED_OFFSET) {
+      throw new Error("Extended public key must be a hardened account key");
+    }
+
+    return accountNode;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse account extended public key: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Derives a receiving address from an account extended public key
+ *
+ * Derives the child at `m/purpose'/coin_type'/account'/0/index` without any private key material,
+ * so the resulting addresses can be restored by any wallet holding the account xpub.
+ *
+ * @param {string} xpub - Account-level extended public key (m/purpose'/coin_type'/account')
+ * @param {number} index - Non-hardened child index on the receiving chain
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Receive address type
+ * @returns {DerivedAddress} The derived address with its full derivation path and index
  *
  * @example
- * const invalidAddress = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
- * const isValid = isValidTestnetAddress(invalidAddress);
- * console.log(isValid); // false (mainnet address)
+ * const derived = deriveAddressFromXPub(process.env.WALLET_ACCOUNT_XPUB!, 0);
+ * console.log(derived.address); // "tb1q..."
+ * console.log(derived.derivationPath); // "m/84'/1'/0'/0/0"
+ *
+ * @security Works on public keys only. Safe to use in Server Actions.
+ */
+export function deriveAddressFromXPub(
+  xpub: string,
+  index: number,
+  addressType: AddressType = AddressType.P2WPKH
+): DerivedAddress {
+  try {
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+      throw new Error(
+        `Invalid address index: must be an integer between 0 and ${
+          HARDENED_OFFSET - 1
+        }`
+      );
+    }
+
+    const accountNode = parseAccountXpub(xpub, addressType);
+
+    // External (receiving) chain is 0 per BIP44
+    const childKey = accountNode.derive(0).derive(index);
+
+    const profile = getNetworkProfile();
+    const address = encodePublicKeyAddress(
+      childKey.publicKey,
+      addressType,
+      profile.bitcoinjsNetwork
+    );
+
+    if (!address) {
+      throw new Error(`Failed to generate ${addressType} address from public key`);
+    }
+
+    const purpose = ADDRESS_TYPE_STANDARDS[addressType].purpose;
+    const account = accountNode.index - HARDENED_OFFSET;
+
+    return {
+      address,
+      derivationPath: `m/${purpose}'/${profile.coinType}'/${account}'/0/${index}`,
+      derivationIndex: index,
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to derive address from xpub: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Validates a Bitcoin address format and structure for a network
+ *
+ * @param {string} address - The Bitcoin address to validate
+ * @param {BitcoinNetwork} [network] - Network the address must belong to (defaults to the configured network)
+ * @returns {boolean} True if the address is valid on the network, false otherwise
+ *
+ * @example
+ * isValidAddress("tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx", BitcoinNetwork.SIGNET); // true
+ * isValidAddress("bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080", BitcoinNetwork.REGTEST); // true
+ * isValidAddress("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4", BitcoinNetwork.TESTNET); // false
  *
  * @security This function only validates address format and does not interact with private keys.
  * It's safe to use with client-provided addresses for validation purposes.
  */
-export function isValidTestnetAddress(address: string): boolean {
+export function isValidAddress(
+  address: string,
+  network: BitcoinNetwork = getConfiguredNetwork()
+): boolean {
   try {
     // Check basic format requirements
     if (!address || typeof address !== "string") {
@@ -414,60 +743,46 @@ export function isValidTestnetAddress(address: string): boolean {
 
     // Trim whitespace
     const trimmedAddress = address.trim();
-
-    // Testnet bech32 addresses (native SegWit) start with 'tb1'
-    if (trimmedAddress.startsWith("tb1")) {
-      // P2WPKH addresses are 42 characters, P2WSH addresses are 62 characters
-      const isValidLength =
-        trimmedAddress.length === 42 || trimmedAddress.length === 62;
-
-      if (!isValidLength) {
+    const params = getNetworkProfile(network).bitcoinjsNetwork;
+    const bech32Prefix = `${params.bech32}1`;
+
+    // Bech32 addresses (native SegWit and Taproot) start with the network's HRP
+    // (bc1 on mainnet, tb1 on testnet/testnet4/signet, bcrt1 on regtest)
+    if (trimmedAddress.startsWith(bech32Prefix)) {
+      // 20-byte programs (P2WPKH) have 39 data characters, 32-byte programs (P2WSH, P2TR) 59
+      const dataLength = trimmedAddress.length - bech32Prefix.length;
+      if (dataLength !== 39 && dataLength !== 59) {
         return false;
       }
 
       // Normalize to lowercase as per BIP173 (bech32 should be all lowercase or all uppercase)
       const normalizedAddress = trimmedAddress.toLowerCase();
 
-      // Check bech32 format: tb1 followed by 39 or 59 lowercase alphanumeric characters
-      const bech32Pattern = /^tb1[a-z0-9]{39}$|^tb1[a-z0-9]{59}$/;
-      if (!bech32Pattern.test(normalizedAddress)) {
+      if (!/^[a-z0-9]+$/.test(normalizedAddress.slice(bech32Prefix.length))) {
         return false;
       }
 
-      // Use bitcoinjs-lib to validate the address more thoroughly
+      // Use bitcoinjs-lib to validate the checksum and encoding
       try {
         const decoded = bitcoin.address.fromBech32(normalizedAddress);
-        // Verify it's actually for testnet
-        return decoded.prefix === "tb";
+        return decoded.prefix === params.bech32;
       } catch {
         return false;
       }
     }
 
-    // Legacy testnet addresses start with 'm' or 'n' (P2PKH) or '2' (P2SH)
-    if (
-      trimmedAddress.startsWith("m") ||
-      trimmedAddress.startsWith("n") ||
-      trimmedAddress.startsWith("2")
-    ) {
-      try {
-        // Use bitcoinjs-lib to validate legacy testnet addresses
-        const decoded = bitcoin.address.fromBase58Check(trimmedAddress);
-
-        // Check if it's a valid testnet address by comparing version bytes
-        const testnetP2PKH = bitcoin.networks.testnet.pubKeyHash; // 111 (0x6f)
-        const testnetP2SH = bitcoin.networks.testnet.scriptHash; // 196 (0xc4)
+    // Legacy addresses (P2PKH and P2SH) are base58check encoded
+    try {
+      const decoded = bitcoin.address.fromBase58Check(trimmedAddress);
 
-        return (
-          decoded.version === testnetP2PKH || decoded.version === testnetP2SH
-        );
-      } catch {
-        return false;
-      }
+      // Check the version byte against the network's P2PKH and P2SH versions
+      return (
+        decoded.version === params.pubKeyHash ||
+        decoded.version === params.scriptHash
+      );
+    } catch {
+      return false;
     }
-
-    // If it doesn't match any testnet address patterns, it's invalid
-    return false;
   } catch {
     // Any unexpected error means the address is invalid
     return false;
@@ -475,10 +790,78 @@ export function isValidTestnetAddress(address: string): boolean {
 }
 
 /**
- * Validates that a generated wallet address is properly formatted for testnet usage
+ * Validates a Bitcoin testnet address format and structure
+ *
+ * Equivalent to `isValidAddress(address, BitcoinNetwork.TESTNET)`. Application code
+ * should use `isValidAddress`, which follows the configured network.
+ *
+ * @param {string} address - The Bitcoin address to validate
+ * @returns {boolean} True if the address is a valid testnet address, false otherwise
+ *
+ * @example
+ * const address = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+ * const isValid = isValidTestnetAddress(address);
+ * console.log(isValid); // true
+ *
+ * @example
+ * const invalidAddress = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+ * const isValid = isValidTestnetAddress(invalidAddress);
+ * console.log(isValid); // false (mainnet address)
+ */
+export function isValidTestnetAddress(address: string): boolean {
+  return isValidAddress(address, BitcoinNetwork.TESTNET);
+}
+
+/**
+ * Returns the output script (scriptPubKey) that pays an address
+ *
+ * @param {string} address - Bitcoin address
+ * @param {BitcoinNetwork} [network] - Network the address belongs to (defaults to the configured network)
+ * @returns {Buffer} The output script
+ * @throws {Error} When the address is not valid on the network
+ *
+ * @example
+ * addressToOutputScript("tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx").toString("hex");
+ * // "0014751e76e8199196d454941c45d1b3a323f1433bd6"
+ */
+export function addressToOutputScript(
+  address: string,
+  network: BitcoinNetwork = getConfiguredNetwork()
+): Buffer {
+  return bitcoin.address.toOutputScript(
+    address,
+    getNetworkProfile(network).bitcoinjsNetwork
+  );
+}
+
+/**
+ * Returns the address an output script pays
+ *
+ * @param {Buffer} script - Output script (scriptPubKey)
+ * @param {BitcoinNetwork} [network] - Network to encode the address for (defaults to the configured network)
+ * @returns {string | undefined} The address, or undefined for scripts without one (e.g. OP_RETURN)
+ */
+export function outputScriptToAddress(
+  script: Buffer,
+  network: BitcoinNetwork = getConfiguredNetwork()
+): string | undefined {
+  try {
+    return bitcoin.address.fromOutputScript(
+      script,
+      getNetworkProfile(network).bitcoinjsNetwork
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validates that a generated wallet address is properly formatted for the network
  *
  * @param {string} address - The address generated by wallet functions
- * @returns {boolean} True if the address is valid for testnet use, false otherwise
+ * @param {AddressType} [addressType=AddressType.P2WPKH] - Address type the address was generated as
+ * @param {BitcoinNetwork} [network] - Network the address was generated for (defaults to the configured network)
+ * @returns {boolean} True if the address is a valid address of that type, false otherwise
  *
  * @example
  * const address = generateWalletAddress();
@@ -486,28 +869,39 @@ export function isValidTestnetAddress(address: string): boolean {
  * console.log(isValid); // true
  *
  * @security This function validates addresses generated by our wallet functions
- * to ensure they meet the expected testnet format requirements.
+ * to ensure they meet the expected format requirements.
  */
-export function validateGeneratedAddress(address: string): boolean {
+export function validateGeneratedAddress(
+  address: string,
+  addressType: AddressType = AddressType.P2WPKH,
+  network: BitcoinNetwork = getConfiguredNetwork()
+): boolean {
   try {
-    // First, check if it's a valid testnet address
-    if (!isValidTestnetAddress(address)) {
+    // First, check if it's a valid address on the network
+    if (!isValidAddress(address, network)) {
       return false;
     }
 
-    // Additional validation for addresses generated by our wallet functions
-    // Our wallet functions specifically generate native SegWit P2WPKH addresses
-    if (!address.startsWith("tb1")) {
-      return false;
-    }
+    const params = getNetworkProfile(network).bitcoinjsNetwork;
+    const bech32Prefix = `${params.bech32}1`;
 
-    // Our wallet generates P2WPKH addresses which are exactly 42 characters
-    if (address.length !== 42) {
-      return false;
+    if (
+      addressType === AddressType.P2SH_P2WPKH ||
+      addressType === AddressType.P2PKH
+    ) {
+      const decoded = bitcoin.address.fromBase58Check(address);
+      return addressType === AddressType.P2SH_P2WPKH
+        ? decoded.version === params.scriptHash
+        : decoded.version === params.pubKeyHash;
     }
 
-    // Validate the bech32 format more strictly for generated addresses
-    const bech32Pattern = /^tb1[a-z0-9]{39}$/;
+    // Our wallet functions generate lowercase bech32 addresses:
+    // P2WPKH (20-byte program, version 0) or P2TR (32-byte program, version 1)
+    const isTaproot = addressType === AddressType.P2TR;
+    const expectedDataLength = isTaproot ? 59 : 39;
+    const bech32Pattern = new RegExp(
+      `^${bech32Prefix}${isTaproot ? "p" : "q"}[a-z0-9]{${expectedDataLength - 1}}$`
+    );
     if (!bech32Pattern.test(address)) {
       return false;
     }
@@ -516,22 +910,18 @@ export function validateGeneratedAddress(address: string): boolean {
     try {
       const decoded = bitcoin.address.fromBech32(address);
 
-      // Verify it's for testnet
-      if (decoded.prefix !== "tb") {
+      // Verify it's for the expected network
+      if (decoded.prefix !== params.bech32) {
         return false;
       }
 
-      // Verify it's a P2WPKH address (20-byte witness program)
-      if (decoded.data.length !== 20) {
+      // Verify the witness program length (20 bytes for P2WPKH, 32 for P2TR)
+      if (decoded.data.length !== (isTaproot ? 32 : 20)) {
         return false;
       }
 
-      // Verify witness version is 0 (for P2WPKH)
-      if (decoded.version !== 0) {
-        return false;
-      }
-
-      return true;
+      // Verify witness version (0 for P2WPKH, 1 for P2TR)
+      return decoded.version === (isTaproot ? 1 : 0);
     } catch {
       return false;
     }
@@ -587,7 +977,11 @@ export function validateMultipleAddresses(addresses: string[]): boolean {
 /**
  * Enhanced validation that checks if an address was likely generated by our wallet system
  *
+ * Addresses are checked against the configured network; addresses of other
+ * networks are reported with the network they belong to.
+ *
  * @param {string} address - The address to validate
+ * @param {AddressType} [expectedAddressType] - When given, the address must be of this type
  * @returns {object} Validation result with detailed information
  *
  * @example
@@ -599,18 +993,26 @@ export function validateMultipleAddresses(addresses: string[]): boolean {
  * //   isTestnet: true,
  * //   isNativeSegWit: true,
  * //   isP2WPKH: true,
+ * //   isTaproot: false,
  * //   addressType: "P2WPKH",
  * //   network: "testnet"
  * // }
  *
+ * const taproot = validateAddressDetailed("tb1p...", AddressType.P2TR);
+ * console.log(taproot.addressType); // "P2TR"
+ *
  * @security This function provides detailed validation information for audit and debugging purposes.
  * It does not expose any private key material.
  */
-export function validateAddressDetailed(address: string): {
+export function validateAddressDetailed(
+  address: string,
+  expectedAddressType?: AddressType
+): {
   isValid: boolean;
   isTestnet: boolean;
   isNativeSegWit: boolean;
   isP2WPKH: boolean;
+  isTaproot: boolean;
   addressType: string;
   network: string;
   errors: string[];
@@ -620,6 +1022,7 @@ export function validateAddressDetailed(address: string): {
     isTestnet: false,
     isNativeSegWit: false,
     isP2WPKH: false,
+    isTaproot: false,
     addressType: "unknown",
     network: "unknown",
     errors: [] as string[],
@@ -637,16 +1040,44 @@ export function validateAddressDetailed(address: string): {
       result.errors.push("Address contains leading/trailing whitespace");
     }
 
-    // Check if it's a testnet address
-    if (trimmedAddress.startsWith("tb1")) {
-      result.isTestnet = true;
+    const profile = getNetworkProfile();
+    const params = profile.bitcoinjsNetwork;
+
+    // Bech32 HRPs: bc (mainnet), tb (testnet, testnet4 and signet), bcrt (regtest)
+    const bech32Network = trimmedAddress.startsWith("bcrt1")
+      ? BitcoinNetwork.REGTEST
+      : trimmedAddress.startsWith("bc1")
+        ? BitcoinNetwork.MAINNET
+        : trimmedAddress.startsWith("tb1")
+          ? BitcoinNetwork.TESTNET
+          : undefined;
+
+    // Base58 leading characters: 1/3 (mainnet), m/n/2 (all test networks)
+    const base58Network = /^[13]/.test(trimmedAddress)
+      ? BitcoinNetwork.MAINNET
+      : /^[mn2]/.test(trimmedAddress)
+        ? BitcoinNetwork.TESTNET
+        : undefined;
+
+    if (bech32Network) {
       result.isNativeSegWit = true;
-      result.network = "testnet";
+      result.isTestnet = bech32Network !== BitcoinNetwork.MAINNET;
+      result.network = bech32Network;
+
+      if (getNetworkProfile(bech32Network).bitcoinjsNetwork.bech32 !== params.bech32) {
+        result.errors.push(
+          `Address is for ${bech32Network}, not ${profile.network}`
+        );
+        return result;
+      }
+
+      // The HRP matches the configured network (tb is shared by several test networks)
+      result.network = profile.network;
 
       try {
         const decoded = bitcoin.address.fromBech32(trimmedAddress);
 
-        if (decoded.prefix === "tb") {
+        if (decoded.prefix === params.bech32) {
           if (decoded.version === 0) {
             if (decoded.data.length === 20) {
               result.isP2WPKH = true;
@@ -660,6 +1091,10 @@ export function validateAddressDetailed(address: string): {
                 `Invalid witness program length: ${decoded.data.length}`
               );
             }
+          } else if (decoded.version === 1 && decoded.data.length === 32) {
+            result.isTaproot = true;
+            result.addressType = "P2TR";
+            result.isValid = true;
           } else {
             result.errors.push(
               `Unsupported witness version: ${decoded.version}`
@@ -675,28 +1110,31 @@ export function validateAddressDetailed(address: string): {
           }`
         );
       }
-    } else if (
-      trimmedAddress.startsWith("m") ||
-      trimmedAddress.startsWith("n") ||
-      trimmedAddress.startsWith("2")
-    ) {
-      result.isTestnet = true;
-      result.network = "testnet";
+    } else if (base58Network) {
+      result.isTestnet = base58Network !== BitcoinNetwork.MAINNET;
+      result.network = base58Network;
+
+      if (result.isTestnet !== profile.isTestNetwork) {
+        result.errors.push(
+          `Address is for ${base58Network}, not ${profile.network}`
+        );
+        return result;
+      }
+
+      result.network = profile.network;
 
       try {
         const decoded = bitcoin.address.fromBase58Check(trimmedAddress);
-        const testnetP2PKH = bitcoin.networks.testnet.pubKeyHash;
-        const testnetP2SH = bitcoin.networks.testnet.scriptHash;
 
-        if (decoded.version === testnetP2PKH) {
+        if (decoded.version === params.pubKeyHash) {
           result.addressType = "P2PKH";
           result.isValid = true;
-        } else if (decoded.version === testnetP2SH) {
+        } else if (decoded.version === params.scriptHash) {
           result.addressType = "P2SH";
           result.isValid = true;
         } else {
           result.errors.push(
-            `Invalid version byte for testnet: ${decoded.version}`
+            `Invalid version byte for ${profile.network}: ${decoded.version}`
           );
         }
       } catch (error) {
@@ -706,20 +1144,25 @@ export function validateAddressDetailed(address: string): {
           }`
         );
       }
-    } else if (trimmedAddress.startsWith("bc1")) {
-      result.network = "mainnet";
-      result.isNativeSegWit = true;
-      result.errors.push("Address is for mainnet, not testnet");
-    } else if (
-      trimmedAddress.startsWith("1") ||
-      trimmedAddress.startsWith("3")
-    ) {
-      result.network = "mainnet";
-      result.errors.push("Address is for mainnet, not testnet");
     } else {
       result.errors.push("Address format not recognized");
     }
 
+    if (result.isValid && expectedAddressType) {
+      // P2SH cannot be distinguished from P2SH-P2WPKH without the redeem script
+      const detectedType =
+        result.addressType === "P2SH"
+          ? AddressType.P2SH_P2WPKH
+          : result.addressType;
+
+      if (detectedType !== expectedAddressType) {
+        result.isValid = false;
+        result.errors.push(
+          `Expected a ${expectedAddressType} address, got ${result.addressType}`
+        );
+      }
+    }
+
     return result;
   } catch (error) {
     result.errors.push(
@@ -0,0 +1,142 @@
+/**
+ * Confirmation Policy
+ *
+ * How many confirmations a payment needs before it counts as CONFIRMED
+ * depends on its amount. `CONFIRMATION_POLICY` lists amount tiers in
+ * ascending order as `<max BTC>:<confirmations>`, followed by the
+ * confirmations required above the last tier:
+ *
+ *   CONFIRMATION_POLICY=0.001:0,0.01:1,0.5:3,6
+ *
+ * accepts payments up to 0.001 BTC unconfirmed, needs 1 confirmation up to
+ * 0.01 BTC, 3 up to 0.5 BTC and 6 above. Unset, every payment needs 1.
+ *
+ * The requirement is computed once when a request is created and stored on
+ * the payment (`requiredConfirmations`), so changing the policy only affects
+ * new requests. Unconfirmed transactions are only accepted when they are
+ * rated low-risk (see `zero-conf-risk.ts`).
+ */
+
+/**
+ * Confirmation policy defaults
+ */
+export const CONFIRMATION_POLICY_CONFIG = {
+  // Required confirmations when no policy is configured
+  defaultConfirmations: 1,
+} as const;
+
+/**
+ * Confirmations required for payments up to an amount
+ */
+export interface ConfirmationTier {
+  /** Largest amount in BTC covered by the tier */
+  maxAmount: number;
+  /** Confirmations required */
+  confirmations: number;
+}
+
+/**
+ * Required confirmations by payment amount
+ */
+export interface ConfirmationPolicy {
+  /** Tiers in ascending order of amount */
+  tiers: ConfirmationTier[];
+  /** Confirmations required above the last tier */
+  confirmations: number;
+}
+
+/**
+ * Parses a confirmation count of the policy
+ */
+function parseConfirmations(raw: string, setting: string): number {
+  const value = Number(raw);
+  if (!raw || !Number.isInteger(value) || value < 0) {
+    throw new Error(
+      `CONFIRMATION_POLICY confirmations must be non-negative integers, got '${raw}' in '${setting}'`
+    );
+  }
+  return value;
+}
+
+/**
+ * Parses a policy in the `CONFIRMATION_POLICY` format
+ *
+ * @param raw - Comma-separated `<max BTC>:<confirmations>` tiers, then the
+ *   confirmations required above the last tier
+ * @returns The parsed policy
+ * @throws {Error} When the policy is malformed or its tiers are not in
+ *   ascending order of amount
+ */
+export function parseConfirmationPolicy(raw: string): ConfirmationPolicy {
+  const parts = raw.split(",").map((part) => part.trim());
+  const last = parts.pop()!;
+
+  if (last.includes(":")) {
+    throw new Error(
+      `CONFIRMATION_POLICY must end with the confirmations required above the last tier, got '${raw}'`
+    );
+  }
+
+  const tiers = parts.map((part) => {
+    const [amount, confirmations, ...rest] = part.split(":");
+    const maxAmount = Number(amount);
+    if (
+      confirmations === undefined ||
+      rest.length > 0 ||
+      !amount ||
+      !Number.isFinite(maxAmount) ||
+      maxAmount <= 0
+    ) {
+      throw new Error(
+        `CONFIRMATION_POLICY tiers must be '<max BTC>:<confirmations>' with a positive amount, got '${part}'`
+      );
+    }
+    return {
+      maxAmount,
+      confirmations: parseConfirmations(confirmations, raw),
+    };
+  });
+
+  tiers.forEach((tier, index) => {
+    if (index > 0 && tier.maxAmount <= tiers[index - 1].maxAmount) {
+      throw new Error(
+        `CONFIRMATION_POLICY tiers must be in ascending order of amount, got '${raw}'`
+      );
+    }
+  });
+
+  return { tiers, confirmations: parseConfirmations(last, raw) };
+}
+
+/**
+ * Returns the configured policy (`CONFIRMATION_POLICY`; 1 confirmation for
+ * every payment if unset)
+ *
+ * @throws {Error} When the setting is malformed
+ */
+export function getConfirmationPolicy(): ConfirmationPolicy {
+  const raw = process.env.CONFIRMATION_POLICY?.trim();
+  if (!raw) {
+    return {
+      tiers: [],
+      confirmations: CONFIRMATION_POLICY_CONFIG.defaultConfirmations,
+    };
+  }
+
+  return parseConfirmationPolicy(raw);
+}
+
+/**
+ * Returns the confirmations a payment of the given amount requires
+ *
+ * @param amount - Requested amount in BTC
+ * @param policy - Policy to apply (the configured policy if omitted)
+ * @returns Required confirmations (0 accepts unconfirmed payments)
+ */
+export function getRequiredConfirmations(
+  amount: number,
+  policy: ConfirmationPolicy = getConfirmationPolicy()
+): number {
+  const tier = policy.tiers.find((entry) => amount <= entry.maxAmount);
+  return tier?.confirmations ?? policy.confirmations;
+}
@@ -0,0 +1,57 @@
+/**
+ * Payment Request Expiry
+ *
+ * Every payment request created by `createPaymentRequest` expires if it is
+ * not paid within its expiry window: `PAYMENT_EXPIRY_MINUTES` (default 60),
+ * or the `expiresInMinutes` given with the request (up to one week).
+ *
+ * The store moves overdue requests from AWAITING_PAYMENT to EXPIRED, lazily
+ * when their status is read and on every reconciler pass
+ * (`expireOverduePayments`). Funds arriving after expiry are recorded on the
+ * expired payment and flagged with `latePayment` for manual review instead of
+ * being confirmed.
+ */
+
+/**
+ * Expiry configuration defaults
+ */
+export const PAYMENT_EXPIRY_CONFIG = {
+  defaultExpiryMinutes: 60,
+} as const;
+
+/**
+ * Returns the default expiry window (`PAYMENT_EXPIRY_MINUTES`, default 60)
+ * in minutes
+ *
+ * @throws {Error} When the setting is not a positive integer
+ */
+export function getConfiguredExpiryMinutes(): number {
+  const raw = process.env.PAYMENT_EXPIRY_MINUTES?.trim();
+  if (!raw) {
+    return PAYMENT_EXPIRY_CONFIG.defaultExpiryMinutes;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(
+      `PAYMENT_EXPIRY_MINUTES must be a positive integer, got '${raw}'`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Computes when a payment request expires
+ *
+ * @param createdAt - When the request is created in milliseconds
+ * @param expiresInMinutes - Per-request override (the configured default if omitted)
+ * @returns Expiry timestamp in milliseconds
+ */
+export function getPaymentExpiresAt(
+  createdAt: number,
+  expiresInMinutes?: number
+): number {
+  const minutes = expiresInMinutes ?? getConfiguredExpiryMinutes();
+  return createdAt + minutes * 60 * 1000;
+}
@@ -0,0 +1,354 @@
+/**
+ * Payment Update Service
+ *
+ * Single path from "a transaction touched our addresses" to the payment store,
+ * shared by every notification source:
+ * - BlockCypher webhooks (`/api/webhook/payment-update`)
+ * - Chain provider lookups such as bitcoind `-walletnotify` (`/api/webhook/wallet-notify`)
+ * - Chain provider subscriptions such as Electrum scripthash notifications
+ *
+ * Provider transactions are converted to the webhook payload shape so that all
+ * sources go through `parseWebhookTransactionForAllAddresses` and
+ * `updatePaymentStatus` with identical status mapping. Each payment's own
+ * required confirmations (see `confirmation-policy.ts`) decide when it counts
+ * as confirmed. Unconfirmed transactions are rated for risk (see
+ * `zero-conf-risk.ts`) when they are assessed (`assessParsedTransactions`),
+ * which settles the status they are verified and stored with. The outputs each transaction
+ * spends are passed on so the store can follow replacements, and the block
+ * it confirmed in so chain reorganizations can be detected (see
+ * `reorg-detection.ts`).
+ */
+
+import type { ChainTransaction } from "@/lib/api/chain-provider";
+import type { BlockcypherWebhookPayload } from "@/lib/validation/webhook";
+import {
+  applyConfirmationPolicy,
+  parseWebhookTransactionForAllAddresses,
+  isValidTransaction,
+  type ParsedTransactionData,
+} from "@/lib/utils/webhook-parser";
+import {
+  updatePaymentStatus,
+  getAllPaymentStatuses,
+  getFullPaymentData,
+} from "@/lib/store/payment-status";
+import { DEFAULT_REQUIRED_CONFIRMATIONS } from "@/lib/store/payment-state-machine";
+import {
+  assessZeroConfRisk,
+  isZeroConfRiskAccepted,
+} from "@/lib/services/zero-conf-risk";
+import { getConfiguredRecycleAfterMs } from "@/lib/bitcoin/address-allocator";
+import { PaymentStatus, type PaymentUpdateSource } from "@/types";
+
+/**
+ * Outcome of a payment status update for one address
+ */
+export interface PaymentUpdateResult {
+  address: string;
+  /** Status the transaction maps to under the payment's confirmation policy */
+  status: PaymentStatus;
+  confirmations: number;
+  /** Confirmations the payment needs to be CONFIRMED */
+  requiredConfirmations: number;
+  updated: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of applying a transaction to the payment store
+ */
+export interface PaymentUpdateSummary {
+  /** Parsed receiving addresses (monitored or not) */
+  parsedTransactions: ParsedTransactionData[];
+  successfulUpdates: number;
+  failedUpdates: number;
+  updateResults: PaymentUpdateResult[];
+}
+
+/**
+ * Returns the webhook event equivalent to a transaction's state
+ */
+export function getChainTransactionEventType(tx: ChainTransaction): string {
+  return tx.confirmations >= 1 ? "tx-confirmation" : "unconfirmed-tx";
+}
+
+/**
+ * Converts a provider transaction to the BlockCypher webhook payload shape
+ * Fields the provider does not report get neutral placeholder values
+ *
+ * @param tx - Transaction reported by a chain provider
+ * @returns Payload accepted by the webhook parser
+ */
+export function toWebhookPayload(
+  tx: ChainTransaction
+): BlockcypherWebhookPayload {
+  const outputs = tx.outputs.filter(
+    (output): output is { address: string; value: number } =>
+      output.address !== undefined
+  );
+
+  return {
+    hash: tx.txid,
+    addresses: [...new Set(outputs.map((output) => output.address))],
+    total: outputs.reduce((sum, output) => sum + output.value, 0),
+    fees: tx.fee ?? 0,
+    confirmations: tx.confirmations,
+    double_spend: false,
+    block_height: tx.blockHeight ?? -1,
+    block_index: -1,
+    block_hash: tx.blockHash,
+    size: 0,
+    // A fee rate needs both the fee and the size
+    vsize: tx.fee !== undefined ? tx.vsize : undefined,
+    preference: "unknown",
+    received: new Date().toISOString(),
+    ver: 2,
+    vin_sz: 0,
+    opt_in_rbf: tx.signalsRbf,
+    vout_sz: tx.outputs.length,
+    outputs: outputs.map((output) => ({
+      value: output.value,
+      script: "",
+      addresses: [output.address],
+      script_type: "unknown",
+    })),
+  };
+}
+
+/**
+ * Maps parsed data to the status it has under a payment's confirmation
+ * policy, rating an unconfirmed transaction for risk first
+ *
+ * @param parsed - Parsed data for one receiving address
+ * @param requiredConfirmations - Confirmations the payment needs
+ * @returns Promise<ParsedTransactionData> - The data with its status and rating
+ */
+export async function assessParsedTransaction(
+  parsed: ParsedTransactionData,
+  requiredConfirmations: number
+): Promise<ParsedTransactionData> {
+  const risk =
+    parsed.confirmations === 0 && parsed.status !== PaymentStatus.ERROR
+      ? await assessZeroConfRisk(parsed)
+      : undefined;
+
+  return {
+    ...applyConfirmationPolicy(
+      parsed,
+      requiredConfirmations,
+      risk !== undefined && isZeroConfRiskAccepted(risk)
+    ),
+    risk,
+  };
+}
+
+/**
+ * Assesses the parsed data of every monitored address under its payment's
+ * confirmation policy; other addresses pass through unchanged
+ *
+ * @param parsedTransactions - Parsed data, one entry per receiving address
+ * @returns Promise<ParsedTransactionData[]> - The data with statuses and ratings
+ */
+export async function assessParsedTransactions(
+  parsedTransactions: ParsedTransactionData[]
+): Promise<ParsedTransactionData[]> {
+  const assessed: ParsedTransactionData[] = [];
+
+  for (const parsed of parsedTransactions) {
+    const payment = await getFullPaymentData(parsed.address);
+    assessed.push(
+      payment
+        ? await assessParsedTransaction(
+            parsed,
+            payment.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS
+          )
+        : parsed
+    );
+  }
+
+  return assessed;
+}
+
+/**
+ * Updates the payment store for every monitored address in the parsed data
+ * The data is stored with the status it was assessed with
+ * (`assessParsedTransactions`). Failures are recorded per address rather than thrown
+ *
+ * @param parsedTransactions - Assessed data, one entry per receiving address
+ * @param source - What reported the transaction (recorded in the payment history)
+ * @returns Promise<PaymentUpdateSummary> - Update counts and per-address results
+ */
+export async function applyParsedTransactions(
+  parsedTransactions: ParsedTransactionData[],
+  source: PaymentUpdateSource = "webhook"
+): Promise<PaymentUpdateSummary> {
+  let successfulUpdates = 0;
+  let failedUpdates = 0;
+  const updateResults: PaymentUpdateResult[] = [];
+
+  for (const parsedTransaction of parsedTransactions) {
+    // Validate the parsed transaction data
+    if (!isValidTransaction(parsedTransaction)) {
+      console.error(
+        "[PAYMENT_UPDATES] Parsed transaction data is invalid:",
+        parsedTransaction
+      );
+      failedUpdates++;
+      continue;
+    }
+
+    // Check if this address is being monitored by our system
+    const payment = await getFullPaymentData(parsedTransaction.address);
+    if (!payment) {
+      console.log(
+        "[PAYMENT_UPDATES] Skipping unmonitored address:",
+        parsedTransaction.address
+      );
+      continue;
+    }
+
+    const requiredConfirmations =
+      payment.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS;
+
+    try {
+      const applied = await updatePaymentStatus(
+        parsedTransaction.address,
+        parsedTransaction.status,
+        {
+          transactionId: parsedTransaction.transactionHash,
+          confirmations: parsedTransaction.confirmations,
+          receivedAmount: parsedTransaction.totalAmount,
+          confidence: parsedTransaction.confidence,
+          isDoubleSpend: parsedTransaction.isDoubleSpend,
+          source,
+          signalsRbf: parsedTransaction.signalsRbf,
+          risk: parsedTransaction.risk,
+          spends: parsedTransaction.spends,
+          blockHash: parsedTransaction.blockHash,
+          blockHeight: parsedTransaction.blockHeight,
+        }
+      );
+
+      // Out-of-order updates are ignored by the store, not failures
+      if (!applied) {
+        updateResults.push({
+          address: parsedTransaction.address,
+          status: parsedTransaction.status,
+          confirmations: parsedTransaction.confirmations,
+          requiredConfirmations,
+          updated: false,
+        });
+        continue;
+      }
+
+      console.log("[PAYMENT_UPDATES] Payment status updated in store:", {
+        address: parsedTransaction.address,
+        status: parsedTransaction.status,
+        confirmations: parsedTransaction.confirmations,
+        requiredConfirmations,
+        riskLevel: parsedTransaction.risk?.level,
+        transactionHash: parsedTransaction.transactionHash,
+      });
+
+      successfulUpdates++;
+      updateResults.push({
+        address: parsedTransaction.address,
+        status: parsedTransaction.status,
+        confirmations: parsedTransaction.confirmations,
+        requiredConfirmations,
+        updated: true,
+      });
+    } catch (error) {
+      console.error(
+        "[PAYMENT_UPDATES] Failed to update payment status for address:",
+        parsedTransaction.address,
+        error
+      );
+      failedUpdates++;
+      updateResults.push({
+        address: parsedTransaction.address,
+        status: parsedTransaction.status,
+        confirmations: parsedTransaction.confirmations,
+        requiredConfirmations,
+        updated: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return {
+    parsedTransactions,
+    successfulUpdates,
+    failedUpdates,
+    updateResults,
+  };
+}
+
+/**
+ * Applies a transaction reported by a chain provider to the payment store
+ *
+ * @param tx - Transaction reported by a chain provider
+ * @param source - What reported the transaction (recorded in the payment history)
+ * @returns Promise<PaymentUpdateSummary> - Update counts and per-address results
+ */
+export async function applyChainTransaction(
+  tx: ChainTransaction,
+  source: PaymentUpdateSource = "webhook"
+): Promise<PaymentUpdateSummary> {
+  const parsedTransactions = parseWebhookTransactionForAllAddresses(
+    toWebhookPayload(tx),
+    getChainTransactionEventType(tx)
+  ).map((parsed) => ({
+    ...parsed,
+    // Not expressible in the webhook payload shape
+    hasUnconfirmedInputs: tx.hasUnconfirmedInputs,
+    spends: tx.spends,
+  }));
+
+  return applyParsedTransactions(
+    await assessParsedTransactions(parsedTransactions),
+    source
+  );
+}
+
+/**
+ * Returns the payment addresses whose status can still change: awaiting
+ * payment, underpaid and waiting for a top-up, or detected or confirmed
+ * (including overpaid payments) by fewer than `confirmationTarget` blocks,
+ * or than the payment's own required confirmations if higher.
+ * Expired payments are watched for
+ * late funds until their address may be recycled, and late payments until
+ * they have `confirmationTarget` confirmations.
+ *
+ * @param confirmationTarget - Confirmations after which a payment is settled
+ * @returns Promise<string[]> - Addresses a subscription-based provider should watch
+ */
+export async function getActivePaymentAddresses(
+  confirmationTarget: number
+): Promise<string[]> {
+  // Settled and failed payments are filtered out by the store (indexed for SQLite)
+  const payments = await getAllPaymentStatuses([
+    PaymentStatus.AWAITING_PAYMENT,
+    PaymentStatus.PAYMENT_DETECTED,
+    PaymentStatus.CONFIRMED,
+    PaymentStatus.UNDERPAID,
+    PaymentStatus.OVERPAID,
+    PaymentStatus.EXPIRED,
+  ]);
+  const recycleCutoff = Date.now() - getConfiguredRecycleAfterMs();
+
+  return payments
+    .filter((payment) => {
+      if (payment.status === PaymentStatus.EXPIRED && !payment.transactionId) {
+        return payment.createdAt >= recycleCutoff;
+      }
+      return (
+        payment.status === PaymentStatus.AWAITING_PAYMENT ||
+        payment.status === PaymentStatus.PAYMENT_DETECTED ||
+        payment.status === PaymentStatus.UNDERPAID ||
+        (payment.confirmations ?? 0) <
+          Math.max(confirmationTarget, payment.requiredConfirmations ?? 0)
+      );
+    })
+    .map((payment) => payment.address);
+}
@@ -0,0 +1,328 @@
+/**
+ * Payment Status Reconciler
+ *
+ * Periodically asks the chain provider about every payment whose status can
+ * still change and applies what it finds through the same path as webhooks
+ * (`applyChainTransaction`). Payment requests therefore converge to the
+ * correct state when no push notification ever arrives:
+ * - `NEXT_PUBLIC_APP_URL` is unset (local development), so no webhook is registered
+ * - Webhook registration failed or the webhook provider had an outage
+ * - The provider has no push notifications at all (Esplora)
+ *
+ * Each pass first checks that the blocks credited transactions confirmed in
+ * are still in the best chain (see `reorg-detection.ts`), so payments whose
+ * blocks were reorganized out are rolled back before they are re-checked.
+ * Per payment, every transaction paying the address is credited, oldest first,
+ * so payments made in several transactions add up. Transactions whose
+ * confirmation count already matches the store are not applied again.
+ * Unconfirmed credited transactions the provider no longer knows were evicted
+ * from the mempool or double-spent, and are dropped from the payment (see
+ * `recordEvictedTransaction`). Each pass then expires the payment
+ * requests that are still unpaid after their `expiresAt`.
+ *
+ * The interval is set with `RECONCILE_INTERVAL_SECONDS` (default 60, 0 disables).
+ * The reconciler starts with the server (`src/instrumentation.ts`).
+ */
+
+import { getChainProvider } from "@/lib/api/providers";
+import { isRateLimitError, type ChainProvider } from "@/lib/api/chain-provider";
+import {
+  expireOverduePayments,
+  getFullPaymentData,
+  recordEvictedTransaction,
+} from "@/lib/store/payment-status";
+import { isActivePaymentTransaction } from "@/lib/store/payment-transactions";
+import {
+  applyChainTransaction,
+  getActivePaymentAddresses,
+} from "@/lib/services/payment-updates";
+import { checkForReorgs } from "@/lib/services/reorg-detection";
+
+/**
+ * Reconciler configuration defaults
+ */
+export const RECONCILER_CONFIG = {
+  defaultIntervalSeconds: 60,
+  // Confirmed payments are re-checked until this many confirmations
+  confirmationTarget: 6,
+  // Unconfirmed transactions first seen less than this long ago are not
+  // considered evicted (mempools of different providers briefly disagree)
+  evictionGraceMs: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Outcome of reconciling one payment
+ */
+export type ReconcileOutcome =
+  "updated" | "unchanged" | "no-transactions" | "failed";
+
+/**
+ * Outcome of one reconciliation pass
+ */
+export interface ReconcileSummary {
+  /** Payments checked against the chain provider */
+  checked: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  /** Unpaid payment requests moved to EXPIRED */
+  expired: number;
+  /** Payments rolled back because their blocks left the best chain */
+  reorged: number;
+  /** Whether the pass stopped early because the provider rate limited it */
+  rateLimited: boolean;
+}
+
+let reconcileTimer: NodeJS.Timeout | undefined;
+let reconcileInProgress: Promise<ReconcileSummary> | undefined;
+
+/**
+ * Returns the reconcile interval (`RECONCILE_INTERVAL_SECONDS`, default 60) in
+ * milliseconds, or 0 when the reconciler is disabled
+ *
+ * @throws {Error} When the setting is not a non-negative integer
+ */
+export function getReconcileIntervalMs(): number {
+  const raw = process.env.RECONCILE_INTERVAL_SECONDS?.trim();
+  if (!raw) {
+    return RECONCILER_CONFIG.defaultIntervalSeconds * 1000;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(
+      `RECONCILE_INTERVAL_SECONDS must be a non-negative integer, got '${raw}'`
+    );
+  }
+
+  return value * 1000;
+}
+
+/**
+ * Brings one payment in line with the chain
+ *
+ * @param address - Monitored payment address
+ * @param provider - Chain provider to query (defaults to the configured provider)
+ * @returns Promise<ReconcileOutcome> - What happened to the payment
+ * @throws Rate limit errors, so a pass can stop early
+ */
+export async function reconcilePayment(
+  address: string,
+  provider: ChainProvider = getChainProvider()
+): Promise<ReconcileOutcome> {
+  const payment = await getFullPaymentData(address);
+  if (!payment) {
+    return "unchanged";
+  }
+
+  const transactions = await provider.getAddressTransactions(address);
+
+  const credited = new Map(
+    (payment.transactions ?? []).map((transaction) => [
+      transaction.transactionId,
+      transaction.confirmations,
+    ])
+  );
+  // Providers return transactions newest first
+  const changed = transactions
+    .filter(
+      (transaction) =>
+        credited.get(transaction.txid) !== transaction.confirmations
+    )
+    .reverse();
+
+  let updated = 0;
+  let failed = 0;
+  for (const transaction of changed) {
+    const { successfulUpdates, failedUpdates } = await applyChainTransaction(
+      transaction,
+      "reconciler"
+    );
+    updated += successfulUpdates;
+    failed += failedUpdates;
+  }
+
+  // After crediting, so replaced transactions are not taken for evicted ones
+  updated += await evictMissingTransactions(
+    address,
+    new Set(transactions.map((transaction) => transaction.txid)),
+    provider
+  );
+
+  if (failed > 0) {
+    return "failed";
+  }
+  if (updated === 0 && transactions.length === 0) {
+    return "no-transactions";
+  }
+  return updated > 0 ? "updated" : "unchanged";
+}
+
+/**
+ * Drops the unconfirmed credited transactions of a payment that the provider
+ * neither lists for the address nor finds by ID
+ *
+ * @param address - Monitored payment address
+ * @param listed - IDs of the transactions the provider lists for the address
+ * @param provider - Chain provider to query
+ * @returns Promise<number> - Transactions dropped
+ */
+async function evictMissingTransactions(
+  address: string,
+  listed: ReadonlySet<string>,
+  provider: ChainProvider
+): Promise<number> {
+  const payment = await getFullPaymentData(address);
+  const cutoff = Date.now() - RECONCILER_CONFIG.evictionGraceMs;
+  const missing = (payment?.transactions ?? []).filter(
+    (transaction) =>
+      transaction.confirmations === 0 &&
+      isActivePaymentTransaction(transaction) &&
+      !listed.has(transaction.transactionId) &&
+      transaction.firstSeen <= cutoff
+  );
+
+  let evicted = 0;
+  for (const transaction of missing) {
+    // Address listings can be truncated; only a failed lookup is conclusive
+    if ((await provider.getTransaction(transaction.transactionId)) !== null) {
+      continue;
+    }
+    if (await recordEvictedTransaction(address, transaction.transactionId)) {
+      evicted++;
+    }
+  }
+  return evicted;
+}
+
+/**
+ * Reconciles every payment whose status can still change
+ * Concurrent calls share the pass already in progress
+ *
+ * @returns Promise<ReconcileSummary> - Counts for the pass
+ */
+export function reconcilePayments(): Promise<ReconcileSummary> {
+  reconcileInProgress ??= runReconcilePass().finally(() => {
+    reconcileInProgress = undefined;
+  });
+  return reconcileInProgress;
+}
+
+async function runReconcilePass(): Promise<ReconcileSummary> {
+  const summary: ReconcileSummary = {
+    checked: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+    expired: 0,
+    reorged: 0,
+    rateLimited: false,
+  };
+
+  const provider = getChainProvider();
+
+  try {
+    summary.reorged = (await checkForReorgs("reconciler", provider)).reorged;
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      // The payments are checked by the next pass
+      console.warn(
+        `[RECONCILER] ${provider.name} rate limit reached during the reorganization check`
+      );
+      summary.rateLimited = true;
+    } else {
+      console.error(
+        "[RECONCILER] Reorganization check failed:",
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  const addresses = summary.rateLimited
+    ? []
+    : await getActivePaymentAddresses(RECONCILER_CONFIG.confirmationTarget);
+
+  for (const address of addresses) {
+    try {
+      const outcome = await reconcilePayment(address, provider);
+      summary.checked++;
+
+      if (outcome === "updated") {
+        summary.updated++;
+      } else if (outcome === "failed") {
+        summary.failed++;
+      } else {
+        summary.unchanged++;
+      }
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        // The remaining payments are picked up by the next pass
+        console.warn(
+          `[RECONCILER] ${provider.name} rate limit reached after ${summary.checked} of ${addresses.length} payments`
+        );
+        summary.rateLimited = true;
+        break;
+      }
+
+      console.error(
+        `[RECONCILER] Failed to reconcile payment for address ${address}:`,
+        error instanceof Error ? error.message : error
+      );
+      summary.checked++;
+      summary.failed++;
+    }
+  }
+
+  // Payments were checked first, so one paid just before expiry is not expired
+  summary.expired = (await expireOverduePayments()).length;
+
+  if (
+    summary.updated > 0 ||
+    summary.failed > 0 ||
+    summary.expired > 0 ||
+    summary.reorged > 0
+  ) {
+    console.log("[RECONCILER] Reconciliation pass finished:", summary);
+  }
+
+  return summary;
+}
+
+/**
+ * Starts reconciling on the configured interval (no-op when disabled or running)
+ *
+ * @returns Whether the reconciler is running
+ */
+export function startReconciler(): boolean {
+  const intervalMs = getReconcileIntervalMs();
+  if (intervalMs === 0) {
+    console.log(
+      "[RECONCILER] Disabled (RECONCILE_INTERVAL_SECONDS=0): payment statuses rely on push notifications"
+    );
+    return false;
+  }
+
+  if (!reconcileTimer) {
+    reconcileTimer = setInterval(() => {
+      reconcilePayments().catch((error) =>
+        console.error("[RECONCILER] Reconciliation pass failed:", error)
+      );
+    }, intervalMs);
+    // Never keep the process alive just for reconciliation
+    reconcileTimer.unref();
+
+    console.log(
+      `[RECONCILER] Reconciling unsettled payments every ${intervalMs / 1000}s`
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Stops the periodic reconciliation
+ */
+export function stopReconciler(): void {
+  clearInterval(reconcileTimer);
+  reconcileTimer = undefined;
+}
@@ -0,0 +1,254 @@
+/**
+ * Chain Reorganization Detection
+ *
+ * Every credited transaction keeps the hash and height of the block it
+ * confirmed in. On each new chain tip (the BlockCypher `new-block` webhook
+ * event, an Electrum header notification or a reconciler pass), those blocks
+ * are compared with the provider's best chain at the same heights. When a
+ * block was reorganized out, the provider is asked where its transactions
+ * are now:
+ * - Confirmed in another block: the transaction keeps that block and its
+ *   new (usually lower) confirmations
+ * - Back in the mempool: the transaction is unconfirmed again
+ * - Unknown: the transaction is evicted (e.g. a conflicting one was mined)
+ *
+ * Affected payments fall back to the status their transactions support
+ * (see `recordReorgedTransactions`), e.g. CONFIRMED to PAYMENT_DETECTED or
+ * AWAITING_PAYMENT, with a REORGED history entry. Only blocks up to
+ * `REORG_DETECTION_CONFIG.maxDepth` below the tip are checked; deeper blocks
+ * are considered final.
+ *
+ * `new-block` webhooks carry no secret, so the checks they trigger are
+ * throttled (see `checkForReorgsOnNewBlock`): a burst of deliveries, forged or
+ * not, costs the provider one check.
+ */
+
+import { getChainProvider } from "@/lib/api/providers";
+import type { ChainProvider } from "@/lib/api/chain-provider";
+import {
+  getAllPaymentStatuses,
+  recordReorgedTransactions,
+} from "@/lib/store/payment-status";
+import {
+  isActivePaymentTransaction,
+  type ReorgedTransactionState,
+} from "@/lib/store/payment-transactions";
+import { FUNDED_PAYMENT_STATUSES } from "@/lib/store/payment-state-machine";
+import { PaymentStatus, type PaymentUpdateSource } from "@/types";
+
+/**
+ * Reorganization detection defaults
+ */
+export const REORG_DETECTION_CONFIG = {
+  // Blocks deeper than this below the tip are not checked again
+  maxDepth: 100,
+  // New-block notifications within this long of the last check they
+  // triggered are skipped (the reconciler still checks every pass)
+  minNewBlockIntervalMs: 30 * 1000,
+} as const;
+
+/**
+ * Outcome of one reorganization check
+ */
+export interface ReorgCheckSummary {
+  /** Confirming blocks compared with the best chain */
+  checked: number;
+  /** Payments rolled back because their blocks left the best chain */
+  reorged: number;
+}
+
+/**
+ * A credited transaction and the block it confirmed in
+ */
+interface ConfirmedTransaction {
+  address: string;
+  transactionId: string;
+  blockHash: string;
+  blockHeight: number;
+}
+
+// Best-chain block hashes by height, valid while the tip stays the same
+let bestChainCache: { tipHash: string; blocks: Map<number, string> } | null =
+  null;
+let reorgCheckInProgress: Promise<ReorgCheckSummary> | undefined;
+let lastNewBlockCheckAt: number | undefined;
+
+/**
+ * Checks that the blocks credited transactions confirmed in are still in the
+ * best chain, and rolls back the payments whose blocks are not
+ * Concurrent calls share the check already in progress
+ *
+ * @param source - What announced the new tip (recorded in the history)
+ * @param provider - Chain provider to query (defaults to the configured provider)
+ * @returns Promise<ReorgCheckSummary> - Counts for the check
+ */
+export function checkForReorgs(
+  source: PaymentUpdateSource = "reconciler",
+  provider: ChainProvider = getChainProvider()
+): Promise<ReorgCheckSummary> {
+  reorgCheckInProgress ??= runReorgCheck(source, provider).finally(() => {
+    reorgCheckInProgress = undefined;
+  });
+  return reorgCheckInProgress;
+}
+
+/**
+ * Checks for reorganizations on a new-block notification, at most once per
+ * `REORG_DETECTION_CONFIG.minNewBlockIntervalMs`; a failed check does not
+ * hold back the next one
+ *
+ * @param source - What announced the new tip (recorded in the history)
+ * @param provider - Chain provider to query (defaults to the configured provider)
+ * @returns Promise<ReorgCheckSummary | null> - Counts for the check, or null
+ *   if it was skipped
+ */
+export async function checkForReorgsOnNewBlock(
+  source: PaymentUpdateSource,
+  provider: ChainProvider = getChainProvider()
+): Promise<ReorgCheckSummary | null> {
+  const now = Date.now();
+  if (
+    lastNewBlockCheckAt !== undefined &&
+    now - lastNewBlockCheckAt < REORG_DETECTION_CONFIG.minNewBlockIntervalMs
+  ) {
+    return null;
+  }
+
+  lastNewBlockCheckAt = now;
+  try {
+    return await checkForReorgs(source, provider);
+  } catch (error) {
+    lastNewBlockCheckAt = undefined;
+    throw error;
+  }
+}
+
+/**
+ * Returns the credited transactions that confirmed in a known block
+ */
+async function getConfirmedTransactions(): Promise<ConfirmedTransaction[]> {
+  // Late payments keep their transactions on the expired payment
+  const payments = await getAllPaymentStatuses([
+    ...FUNDED_PAYMENT_STATUSES,
+    PaymentStatus.EXPIRED,
+  ]);
+
+  return payments.flatMap((payment) =>
+    (payment.transactions ?? [])
+      .filter(
+        (transaction) =>
+          isActivePaymentTransaction(transaction) &&
+          transaction.confirmations > 0 &&
+          transaction.blockHash !== undefined &&
+          transaction.blockHeight !== undefined
+      )
+      .map((transaction) => ({
+        address: payment.address,
+        transactionId: transaction.transactionId,
+        blockHash: transaction.blockHash!,
+        blockHeight: transaction.blockHeight!,
+      }))
+  );
+}
+
+/**
+ * Returns the best-chain block hash at a height, cached for the current tip
+ */
+async function getBestChainBlockHash(
+  provider: ChainProvider,
+  blocks: Map<number, string>,
+  height: number
+): Promise<string | null> {
+  const cached = blocks.get(height);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const hash = await provider.getBlockHash(height);
+  if (hash !== null) {
+    blocks.set(height, hash);
+  }
+  return hash;
+}
+
+async function runReorgCheck(
+  source: PaymentUpdateSource,
+  provider: ChainProvider
+): Promise<ReorgCheckSummary> {
+  const summary: ReorgCheckSummary = { checked: 0, reorged: 0 };
+
+  const confirmed = await getConfirmedTransactions();
+  if (confirmed.length === 0) {
+    return summary;
+  }
+
+  const tipHeight = await provider.getTipHeight();
+  const tipHash = await provider.getBlockHash(tipHeight);
+  if (!bestChainCache || bestChainCache.tipHash !== tipHash) {
+    bestChainCache = tipHash ? { tipHash, blocks: new Map() } : null;
+  }
+  const blocks = bestChainCache?.blocks ?? new Map<number, string>();
+
+  const reorged = new Map<
+    string,
+    Map<string, ReorgedTransactionState | null>
+  >();
+  for (const transaction of confirmed) {
+    if (
+      tipHeight - transaction.blockHeight >=
+      REORG_DETECTION_CONFIG.maxDepth
+    ) {
+      continue;
+    }
+
+    summary.checked++;
+    const bestHash = await getBestChainBlockHash(
+      provider,
+      blocks,
+      transaction.blockHeight
+    );
+    if (bestHash === transaction.blockHash) {
+      continue;
+    }
+
+    const current = await provider.getTransaction(transaction.transactionId);
+    // The provider's own view of the transaction settles disagreements
+    if (current?.blockHash === transaction.blockHash) {
+      continue;
+    }
+
+    console.warn("[REORG_DETECTION] Confirming block left the best chain:", {
+      address: transaction.address,
+      transactionId: transaction.transactionId,
+      blockHash: transaction.blockHash,
+      blockHeight: transaction.blockHeight,
+      bestHash,
+    });
+
+    const states = reorged.get(transaction.address) ?? new Map();
+    states.set(
+      transaction.transactionId,
+      current && {
+        confirmations: current.confirmations,
+        blockHash: current.blockHash,
+        blockHeight: current.blockHeight,
+      }
+    );
+    reorged.set(transaction.address, states);
+  }
+
+  for (const [address, states] of reorged) {
+    if (await recordReorgedTransactions(address, states, source)) {
+      summary.reorged++;
+    }
+  }
+
+  if (summary.reorged > 0) {
+    console.log("[REORG_DETECTION] Reorganization check finished:", {
+      tipHeight,
+      ...summary,
+    });
+  }
+
+  return summary;
+}
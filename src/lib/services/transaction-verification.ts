@@ -0,0 +1,208 @@
+/**
+ * Transaction Verification Service
+ *
+ * Webhook payloads are authenticated but their contents are still claims.
+ * Before a notification may credit funds to a payment, detected or
+ * confirmed, the transaction is fetched again from the chain provider and
+ * compared with the payload:
+ * - The transaction exists and pays the payment address
+ * - The amount paid to the address equals the reported amount
+ * - The chain shows at least the reported number of confirmations
+ *
+ * Transactions arrive assessed (see `assessParsedTransactions`), so the
+ * status that is verified is the status that is stored. Replace-by-fee
+ * signalling, whether the inputs are unconfirmed, which outputs they spend
+ * and the confirming block are taken from the chain whenever the provider
+ * reports them; an unconfirmed transaction whose risk signals differ from the
+ * payload is rated again with the chain's.
+ *
+ * Mismatches are recorded on the payment as suspicious events and the update
+ * is dropped. When the provider cannot be reached the update is held back
+ * without a suspicious event; the reconciler applies the chain state later.
+ */
+
+import { getChainProvider } from "@/lib/api/providers";
+import type { ChainProvider, ChainTransaction } from "@/lib/api/chain-provider";
+import type { ParsedTransactionData } from "@/lib/utils/webhook-parser";
+import { recordSuspiciousEvent } from "@/lib/store/payment-status";
+import { FUNDED_PAYMENT_STATUSES } from "@/lib/store/payment-state-machine";
+import { assessParsedTransactions } from "@/lib/services/payment-updates";
+
+/**
+ * Result of comparing a notification with the chain
+ */
+export type TransactionVerification =
+  | { verified: true; transaction: ChainTransaction }
+  | {
+      verified: false;
+      reason: string;
+      observed?: { confirmations: number; amount: number };
+    };
+
+/**
+ * Outcome of screening a batch of parsed transactions
+ */
+export interface TransactionScreening {
+  /** Transactions that may be applied to the store */
+  accepted: ParsedTransactionData[];
+  /** Transactions rejected and recorded as suspicious */
+  suspicious: number;
+  /** Transactions held back because the provider could not be queried */
+  unverified: number;
+}
+
+/**
+ * Sums the outputs of a transaction paying an address
+ */
+function amountPaidTo(transaction: ChainTransaction, address: string): number {
+  return transaction.outputs
+    .filter((output) => output.address === address)
+    .reduce((sum, output) => sum + output.value, 0);
+}
+
+/**
+ * Compares a parsed notification with the transaction on chain
+ *
+ * @param parsedTransaction - Notification data for one receiving address
+ * @param provider - Chain provider to query (defaults to the configured provider)
+ * @returns Promise<TransactionVerification> - Whether the chain confirms the claims
+ * @throws Provider errors (the claims could not be checked)
+ */
+export async function verifyParsedTransaction(
+  parsedTransaction: ParsedTransactionData,
+  provider: ChainProvider = getChainProvider()
+): Promise<TransactionVerification> {
+  const transaction = await provider.getTransaction(
+    parsedTransaction.transactionHash
+  );
+  if (!transaction) {
+    return { verified: false, reason: "Transaction not found on chain" };
+  }
+
+  const observed = {
+    confirmations: transaction.confirmations,
+    amount: amountPaidTo(transaction, parsedTransaction.address),
+  };
+
+  if (observed.amount === 0) {
+    return {
+      verified: false,
+      reason: "Transaction does not pay the payment address",
+      observed,
+    };
+  }
+
+  if (
+    parsedTransaction.totalAmount !== undefined &&
+    parsedTransaction.totalAmount !== observed.amount
+  ) {
+    return {
+      verified: false,
+      reason: `Amount mismatch: reported ${parsedTransaction.totalAmount} sat, found ${observed.amount} sat`,
+      observed,
+    };
+  }
+
+  // More confirmations on chain than reported just means a block arrived since
+  if (observed.confirmations < parsedTransaction.confirmations) {
+    return {
+      verified: false,
+      reason: `Confirmation mismatch: reported ${parsedTransaction.confirmations}, found ${observed.confirmations}`,
+      observed,
+    };
+  }
+
+  return { verified: true, transaction };
+}
+
+/**
+ * Takes the signals the chain reports about a verified transaction over the
+ * payload's, rating an unconfirmed transaction again when they differ
+ */
+async function withChainSignals(
+  parsedTransaction: ParsedTransactionData,
+  transaction: ChainTransaction
+): Promise<ParsedTransactionData> {
+  const verified: ParsedTransactionData = {
+    ...parsedTransaction,
+    signalsRbf: transaction.signalsRbf ?? parsedTransaction.signalsRbf,
+    hasUnconfirmedInputs:
+      transaction.hasUnconfirmedInputs ??
+      parsedTransaction.hasUnconfirmedInputs,
+    spends: transaction.spends ?? parsedTransaction.spends,
+    blockHash: transaction.blockHash ?? parsedTransaction.blockHash,
+    blockHeight: transaction.blockHeight ?? parsedTransaction.blockHeight,
+  };
+
+  if (
+    parsedTransaction.risk === undefined ||
+    (verified.signalsRbf === parsedTransaction.signalsRbf &&
+      verified.hasUnconfirmedInputs === parsedTransaction.hasUnconfirmedInputs)
+  ) {
+    return verified;
+  }
+
+  const [reassessed] = await assessParsedTransactions([verified]);
+  return reassessed;
+}
+
+/**
+ * Verifies every assessed transaction that would credit funds to a payment
+ * Other status changes pass through unchanged
+ *
+ * @param parsedTransactions - Assessed notification data, one entry per address
+ * @param source - Notification source recorded with suspicious events
+ * @returns Promise<TransactionScreening> - Transactions to apply and rejection counts
+ */
+export async function screenParsedTransactions(
+  parsedTransactions: ParsedTransactionData[],
+  source: string
+): Promise<TransactionScreening> {
+  const screening: TransactionScreening = {
+    accepted: [],
+    suspicious: 0,
+    unverified: 0,
+  };
+
+  for (const parsedTransaction of parsedTransactions) {
+    if (!FUNDED_PAYMENT_STATUSES.includes(parsedTransaction.status)) {
+      screening.accepted.push(parsedTransaction);
+      continue;
+    }
+
+    let verification: TransactionVerification;
+    try {
+      verification = await verifyParsedTransaction(parsedTransaction);
+    } catch (error) {
+      console.error(
+        "[TX_VERIFICATION] Could not verify transaction, leaving it to the reconciler:",
+        parsedTransaction.transactionHash,
+        error instanceof Error ? error.message : error
+      );
+      screening.unverified++;
+      continue;
+    }
+
+    if (verification.verified) {
+      screening.accepted.push(
+        await withChainSignals(parsedTransaction, verification.transaction)
+      );
+      continue;
+    }
+
+    screening.suspicious++;
+    await recordSuspiciousEvent(parsedTransaction.address, {
+      detectedAt: Date.now(),
+      source,
+      transactionId: parsedTransaction.transactionHash,
+      reason: verification.reason,
+      reported: {
+        confirmations: parsedTransaction.confirmations,
+        amount: parsedTransaction.totalAmount,
+      },
+      observed: verification.observed,
+    });
+  }
+
+  return screening;
+}
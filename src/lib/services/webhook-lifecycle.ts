@@ -0,0 +1,367 @@
+/**
+ * Webhook Lifecycle Management
+ *
+ * Address watches registered upstream (BlockCypher webhooks) count against a
+ * per-token limit and are never removed by the provider, so they are cleaned
+ * up here:
+ * - A payment's watches are deleted once it no longer needs them: confirmed to
+ *   the final target or its own required confirmations, whichever is higher
+ *   (the point where the reconciler stops checking it), or
+ *   expired without ever being funded (the allocator may recycle the address)
+ * - When an address is recycled, the watches of its previous request are
+ *   deleted once the new request is created
+ * - A sweep lists every watch registered with the provider credentials and
+ *   deletes those whose address is not a live payment, e.g. left behind by a
+ *   recycled address or by entries removed from the store
+ *
+ * The sweep treats every watch on the token as ours, so the token must not be
+ * shared with another deployment. Providers without upstream watch state
+ * (Esplora, bitcoind, Electrum) have nothing to clean up.
+ *
+ * Cleanup runs on an interval set with `WEBHOOK_CLEANUP_INTERVAL_MINUTES`
+ * (default 10, 0 disables) and starts with the server (`src/instrumentation.ts`).
+ */
+
+import { getChainProvider } from "@/lib/api/providers";
+import { isRateLimitError, type ChainProvider } from "@/lib/api/chain-provider";
+import {
+  clearPaymentWebhooks,
+  getAllPaymentStatuses,
+  getFullPaymentData,
+} from "@/lib/store/payment-status";
+import { getConfiguredRecycleAfterMs } from "@/lib/bitcoin/address-allocator";
+import { RECONCILER_CONFIG } from "@/lib/services/reconciler";
+import { PaymentStatus } from "@/types";
+
+/**
+ * Webhook cleanup configuration defaults
+ */
+export const WEBHOOK_LIFECYCLE_CONFIG = {
+  defaultIntervalMinutes: 10,
+  // Payments confirmed this deep are final and need no further notifications
+  confirmationTarget: RECONCILER_CONFIG.confirmationTarget,
+} as const;
+
+type StoredPayment = Awaited<ReturnType<typeof getAllPaymentStatuses>>[number];
+
+/**
+ * Outcome of one cleanup pass
+ */
+export interface WebhookCleanupSummary {
+  /** Payments whose watches were deleted because they are done */
+  released: number;
+  /** Orphaned watches deleted by the sweep */
+  swept: number;
+  failed: number;
+  /** Whether the pass stopped early because the provider rate limited it */
+  rateLimited: boolean;
+}
+
+let cleanupTimer: NodeJS.Timeout | undefined;
+let cleanupInProgress: Promise<WebhookCleanupSummary> | undefined;
+
+/**
+ * Returns the cleanup interval (`WEBHOOK_CLEANUP_INTERVAL_MINUTES`, default 10)
+ * in milliseconds, or 0 when cleanup is disabled
+ *
+ * @throws {Error} When the setting is not a non-negative integer
+ */
+export function getWebhookCleanupIntervalMs(): number {
+  const raw = process.env.WEBHOOK_CLEANUP_INTERVAL_MINUTES?.trim();
+  if (!raw) {
+    return WEBHOOK_LIFECYCLE_CONFIG.defaultIntervalMinutes * 60 * 1000;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(
+      `WEBHOOK_CLEANUP_INTERVAL_MINUTES must be a non-negative integer, got '${raw}'`
+    );
+  }
+
+  return value * 60 * 1000;
+}
+
+/**
+ * Checks whether a payment still needs notifications: its status can change
+ * and, if unfunded, its address is not due for recycling yet (expired requests
+ * are watched until then so late payments are noticed). Funded payments are
+ * live until the final target or their own required confirmations, whichever
+ * is higher, as in `getActivePaymentAddresses`
+ *
+ * @param payment - Stored payment entry
+ * @param now - Current time in milliseconds
+ */
+export function isPaymentLive(
+  payment: StoredPayment,
+  now: number = Date.now()
+): boolean {
+  const confirmationTarget = Math.max(
+    WEBHOOK_LIFECYCLE_CONFIG.confirmationTarget,
+    payment.requiredConfirmations ?? 0
+  );
+
+  switch (payment.status) {
+    case PaymentStatus.AWAITING_PAYMENT:
+      return (
+        payment.transactionId !== undefined ||
+        payment.createdAt >= now - getConfiguredRecycleAfterMs()
+      );
+    case PaymentStatus.EXPIRED:
+      return payment.transactionId !== undefined
+        ? (payment.confirmations ?? 0) < confirmationTarget
+        : payment.createdAt >= now - getConfiguredRecycleAfterMs();
+    case PaymentStatus.PAYMENT_DETECTED:
+      return true;
+    case PaymentStatus.CONFIRMED:
+    case PaymentStatus.UNDERPAID:
+    case PaymentStatus.OVERPAID:
+      return (payment.confirmations ?? 0) < confirmationTarget;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the watch IDs recorded for a payment
+ */
+function getRecordedWatchIds(payment: StoredPayment): string[] {
+  return payment.webhookIds ?? (payment.webhookId ? [payment.webhookId] : []);
+}
+
+/**
+ * Deletes a payment's watches once it no longer needs them
+ *
+ * @param address - Payment address
+ * @param provider - Chain provider holding the watches (defaults to the configured provider)
+ * @returns Promise<boolean> - Whether watches were deleted
+ * @throws Provider errors, so a pass can count failures and stop at rate limits
+ */
+export async function releasePaymentWatches(
+  address: string,
+  provider: ChainProvider = getChainProvider()
+): Promise<boolean> {
+  const payment = await getFullPaymentData(address);
+  if (!payment || !provider.unwatchAddress || isPaymentLive(payment)) {
+    return false;
+  }
+
+  const watchIds = getRecordedWatchIds(payment);
+  if (watchIds.length === 0) {
+    return false;
+  }
+
+  await provider.unwatchAddress(address, watchIds);
+  await clearPaymentWebhooks(address);
+
+  console.log(
+    `[WEBHOOK_LIFECYCLE] Deleted ${watchIds.length} ${provider.name} watches for ${payment.status.toLowerCase()} payment ${address}`
+  );
+  return true;
+}
+
+/**
+ * Deletes the watches a recycled address's previous request left registered
+ * Failures are logged and left to the sweep, so they never fail the new request
+ *
+ * @param previous - The recycled address's previous payment
+ * @param provider - Chain provider holding the watches (defaults to the configured provider)
+ * @returns Promise<boolean> - Whether watches were deleted
+ */
+export async function releaseRecycledWatches(
+  previous: StoredPayment,
+  provider: ChainProvider = getChainProvider()
+): Promise<boolean> {
+  const watchIds = getRecordedWatchIds(previous);
+  if (watchIds.length === 0 || !provider.unwatchAddress) {
+    return false;
+  }
+
+  try {
+    await provider.unwatchAddress(previous.address, watchIds);
+  } catch (error) {
+    console.warn(
+      `[WEBHOOK_LIFECYCLE] Could not delete the previous watches of recycled address ${previous.address}:`,
+      error instanceof Error ? error.message : error
+    );
+    return false;
+  }
+
+  console.log(
+    `[WEBHOOK_LIFECYCLE] Deleted ${watchIds.length} ${provider.name} watches of the previous request for recycled address ${previous.address}`
+  );
+  return true;
+}
+
+/**
+ * Releases done payments, then sweeps orphaned watches
+ * Concurrent calls share the pass already in progress
+ *
+ * @returns Promise<WebhookCleanupSummary> - Counts for the pass
+ */
+export function cleanupWebhooks(): Promise<WebhookCleanupSummary> {
+  cleanupInProgress ??= runCleanupPass().finally(() => {
+    cleanupInProgress = undefined;
+  });
+  return cleanupInProgress;
+}
+
+async function runCleanupPass(): Promise<WebhookCleanupSummary> {
+  const summary: WebhookCleanupSummary = {
+    released: 0,
+    swept: 0,
+    failed: 0,
+    rateLimited: false,
+  };
+
+  const provider = getChainProvider();
+  if (!provider.unwatchAddress) {
+    return summary;
+  }
+
+  const handleError = (error: unknown, context: string): void => {
+    if (isRateLimitError(error)) {
+      // Whatever is left is picked up by the next pass
+      console.warn(
+        `[WEBHOOK_LIFECYCLE] ${provider.name} rate limit reached while ${context}`
+      );
+      summary.rateLimited = true;
+      return;
+    }
+
+    console.error(
+      `[WEBHOOK_LIFECYCLE] Failed ${context}:`,
+      error instanceof Error ? error.message : error
+    );
+    summary.failed++;
+  };
+
+  const payments = await getAllPaymentStatuses();
+  const now = Date.now();
+
+  for (const payment of payments) {
+    if (
+      isPaymentLive(payment, now) ||
+      getRecordedWatchIds(payment).length === 0
+    ) {
+      continue;
+    }
+
+    try {
+      if (await releasePaymentWatches(payment.address, provider)) {
+        summary.released++;
+      }
+    } catch (error) {
+      handleError(error, `releasing watches for ${payment.address}`);
+      if (summary.rateLimited) {
+        break;
+      }
+    }
+  }
+
+  if (!summary.rateLimited && provider.listWatches) {
+    try {
+      await sweepOrphanedWatches(provider, summary, handleError);
+    } catch (error) {
+      handleError(error, "listing watches");
+    }
+  }
+
+  if (summary.released > 0 || summary.swept > 0 || summary.failed > 0) {
+    console.log("[WEBHOOK_LIFECYCLE] Cleanup pass finished:", summary);
+  }
+
+  return summary;
+}
+
+/**
+ * Deletes every watch whose address is not a live payment, as well as watches
+ * on live payments that recorded a different set of IDs (superseded watches of
+ * a recycled address)
+ */
+async function sweepOrphanedWatches(
+  provider: ChainProvider,
+  summary: WebhookCleanupSummary,
+  handleError: (error: unknown, context: string) => void
+): Promise<void> {
+  const watches = await provider.listWatches!();
+
+  // Read the store after listing: requests are stored before their watches
+  // are registered, so every listed watch of a new request finds its payment
+  // (without recorded IDs until registration finishes, which keeps them all)
+  const livePayments = new Map<string, StoredPayment>();
+  const now = Date.now();
+  for (const payment of await getAllPaymentStatuses()) {
+    if (isPaymentLive(payment, now)) {
+      livePayments.set(payment.address, payment);
+    }
+  }
+
+  for (const watch of watches) {
+    if (!watch.address) {
+      continue;
+    }
+
+    const payment = livePayments.get(watch.address);
+    if (
+      payment &&
+      (!payment.webhookIds || payment.webhookIds.includes(watch.id))
+    ) {
+      continue;
+    }
+
+    try {
+      await provider.unwatchAddress!(watch.address, [watch.id]);
+      summary.swept++;
+    } catch (error) {
+      handleError(error, `deleting orphaned watch ${watch.id}`);
+      if (summary.rateLimited) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Starts webhook cleanup on the configured interval (no-op when disabled,
+ * running, or the provider keeps no upstream watches)
+ *
+ * @returns Whether cleanup is running
+ */
+export function startWebhookCleanup(): boolean {
+  const intervalMs = getWebhookCleanupIntervalMs();
+  if (intervalMs === 0) {
+    console.log(
+      "[WEBHOOK_LIFECYCLE] Disabled (WEBHOOK_CLEANUP_INTERVAL_MINUTES=0): watches stay registered"
+    );
+    return false;
+  }
+
+  if (!getChainProvider().unwatchAddress) {
+    return false;
+  }
+
+  if (!cleanupTimer) {
+    cleanupTimer = setInterval(() => {
+      cleanupWebhooks().catch((error) =>
+        console.error("[WEBHOOK_LIFECYCLE] Cleanup pass failed:", error)
+      );
+    }, intervalMs);
+    // Never keep the process alive just for cleanup
+    cleanupTimer.unref();
+
+    console.log(
+      `[WEBHOOK_LIFECYCLE] Cleaning up watches every ${intervalMs / 60000}min`
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Stops the periodic webhook cleanup
+ */
+export function stopWebhookCleanup(): void {
+  clearInterval(cleanupTimer);
+  cleanupTimer = undefined;
+}
@@ -0,0 +1,492 @@
+/**
+ * Webhook Processing Pipeline
+ *
+ * Turns one BlockCypher webhook delivery into payment status updates. Used by
+ * `/api/webhook/payment-update` for live deliveries and by the dead-letter
+ * replay for stored ones, so both go through identical steps:
+ * 1. Parse the JSON body and check the event type header
+ * 2. Validate with `BlockcypherWebhookPayloadSchema`
+ * 3. Extract per-address data with `parseWebhookTransactionForAllAddresses`
+ * 4. Authenticate with the payment's webhook secret
+ * 5. Claim the event in the event ledger, skipping events already claimed
+ *    or processed (the claim is atomic, so of concurrent deliveries of the
+ *    same event only one is applied)
+ * 6. Assess each transaction under its payment's confirmation policy (rating
+ *    unconfirmed ones for risk), verify it on chain, then apply it with the
+ *    verified status
+ *
+ * `new-block` events carry a block instead of a transaction: they skip steps
+ * 3-6 and check the confirming blocks of credited transactions against the
+ * new chain tip (see `reorg-detection.ts`), at most once per
+ * `REORG_DETECTION_CONFIG.minNewBlockIntervalMs`.
+ *
+ * Deliveries that cannot be parsed, whose payment updates fail, or whose
+ * transactions could not be verified on chain come back with a dead-letter
+ * reason so the caller can store them for replay, marked authenticated only
+ * once they passed step 4.
+ * `replayDeadLetter` feeds a stored delivery through the pipeline again and
+ * removes it once it is processed.
+ */
+
+import {
+  BlockcypherBlockPayloadSchema,
+  BlockcypherWebhookPayloadSchema,
+} from "@/lib/validation/webhook";
+import {
+  parseWebhookTransactionForAllAddresses,
+  type ParsedTransactionData,
+} from "@/lib/utils/webhook-parser";
+import { isWebhookSecretValid } from "@/lib/utils/webhook-secret";
+import {
+  applyParsedTransactions,
+  assessParsedTransactions,
+  type PaymentUpdateSummary,
+} from "@/lib/services/payment-updates";
+import {
+  screenParsedTransactions,
+  type TransactionScreening,
+} from "@/lib/services/transaction-verification";
+import { checkForReorgsOnNewBlock } from "@/lib/services/reorg-detection";
+import {
+  getFullPaymentData,
+  claimWebhookEvent,
+  getWebhookEventKey,
+  releaseWebhookEvent,
+} from "@/lib/store/payment-status";
+import {
+  getDeadLetter,
+  listDeadLetters,
+  recordDeadLetterAttempt,
+  removeDeadLetter,
+  type DeadLetterReason,
+  type WebhookDelivery,
+} from "@/lib/store/dead-letters";
+
+/**
+ * Event types accepted from BlockCypher
+ */
+export const SUPPORTED_WEBHOOK_EVENTS = [
+  "unconfirmed-tx",
+  "confirmed-tx",
+  "tx-confirmation",
+  "new-block",
+  "double-spend-tx",
+] as const;
+
+/**
+ * Outcome of processing a delivery
+ */
+export interface WebhookProcessingResult {
+  /** HTTP status to answer the delivery with */
+  status: number;
+  /** Response body */
+  body: Record<string, unknown>;
+  /** Set when the delivery should be kept for replay */
+  deadLetter?: {
+    reason: DeadLetterReason;
+    error: string;
+    /** Whether the delivery passed the webhook secret check */
+    authenticated: boolean;
+  };
+}
+
+/**
+ * Outcome of replaying a dead letter
+ */
+export interface DeadLetterReplayResult {
+  /** Dead letter ID */
+  id: string;
+  /** Whether the delivery was processed (and removed from the store) */
+  processed: boolean;
+  /** HTTP status the delivery would have been answered with */
+  status: number;
+  /** Response body the delivery would have been answered with */
+  body: Record<string, unknown>;
+}
+
+/**
+ * Builds a 400 result for a delivery that cannot be processed
+ */
+function rejected(
+  reason: DeadLetterReason,
+  body: Record<string, unknown> & { error: string }
+): WebhookProcessingResult {
+  return {
+    status: 400,
+    body,
+    deadLetter: { reason, error: body.error, authenticated: false },
+  };
+}
+
+/**
+ * Keeps the parsed transactions for payments whose stored webhook secret
+ * matches the secret the request was sent with
+ *
+ * Each webhook watches a single address, so a genuine request matches the
+ * payment it was registered for; addresses of other payments in the same
+ * transaction are updated by their own webhooks.
+ */
+async function filterAuthenticatedTransactions(
+  parsedTransactions: ParsedTransactionData[],
+  secret: string | null
+): Promise<ParsedTransactionData[]> {
+  const authenticated: ParsedTransactionData[] = [];
+
+  for (const parsedTransaction of parsedTransactions) {
+    const payment = await getFullPaymentData(parsedTransaction.address);
+    if (payment && isWebhookSecretValid(secret, payment.webhookSecret)) {
+      authenticated.push(parsedTransaction);
+    }
+  }
+
+  return authenticated;
+}
+
+/**
+ * Checks the blocks credited transactions confirmed in against the new chain
+ * tip announced by a `new-block` event
+ *
+ * The block is not applied to any payment, so no webhook secret is required:
+ * a forged event can only trigger a check of the provider's chain, and the
+ * checks are throttled so that a flood of them cannot exhaust the provider.
+ */
+async function processNewBlock(
+  payload: unknown
+): Promise<WebhookProcessingResult> {
+  const validationResult = BlockcypherBlockPayloadSchema.safeParse(payload);
+
+  if (!validationResult.success) {
+    console.error(
+      "[WEBHOOK_ERROR] Block payload validation failed:",
+      validationResult.error.errors
+    );
+    return rejected("invalid-payload", {
+      error: "Invalid payload structure",
+      details: validationResult.error.format(),
+    });
+  }
+
+  const { hash, height } = validationResult.data;
+  console.log("[WEBHOOK_INFO] Processing new block:", height, hash);
+
+  try {
+    const summary = await checkForReorgsOnNewBlock("webhook");
+    if (!summary) {
+      return {
+        status: 200,
+        body: {
+          message: "Block received, reorganizations were checked recently",
+          blockHash: hash,
+          blockHeight: height,
+          skipped: true,
+        },
+      };
+    }
+
+    const { checked, reorged } = summary;
+    return {
+      status: 200,
+      body: {
+        message: "Block processed successfully",
+        blockHash: hash,
+        blockHeight: height,
+        checkedTransactions: checked,
+        reorgedPayments: reorged,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[WEBHOOK_ERROR] Reorganization check failed:", message);
+
+    // Answered with 200 like failed payment updates, and kept for replay
+    return {
+      status: 200,
+      body: {
+        message: "Block received, reorganization check failed",
+        blockHash: hash,
+        blockHeight: height,
+      },
+      deadLetter: {
+        reason: "update-failed",
+        error: message,
+        authenticated: false,
+      },
+    };
+  }
+}
+
+/**
+ * Processes one webhook delivery
+ *
+ * @param delivery - Raw body, headers and secret of the delivery
+ * @returns Promise<WebhookProcessingResult> - Response to send and dead-letter details
+ */
+export async function processWebhookDelivery(
+  delivery: WebhookDelivery
+): Promise<WebhookProcessingResult> {
+  let payload;
+  try {
+    payload = JSON.parse(delivery.rawBody);
+  } catch (error) {
+    console.error("[WEBHOOK_ERROR] Error parsing webhook JSON payload:", error);
+    return rejected("invalid-json", { error: "Invalid JSON payload" });
+  }
+
+  // Log key webhook information
+  console.log(
+    "[WEBHOOK_DEBUG] Webhook received for transaction:",
+    payload?.hash
+  );
+
+  // Get event type from headers (BlockCypher sends it as x-eventtype)
+  const eventType = delivery.headers["x-eventtype"];
+  const webhookId = delivery.headers["x-eventid"];
+
+  if (!eventType) {
+    console.error("[WEBHOOK_ERROR] Missing x-eventtype header");
+    return rejected("missing-event-type", {
+      error: "Missing event type header",
+    });
+  }
+
+  // Validate supported event types
+  if (!(SUPPORTED_WEBHOOK_EVENTS as readonly string[]).includes(eventType)) {
+    console.error("[WEBHOOK_ERROR] Unsupported event type:", eventType);
+    return rejected("unsupported-event", {
+      error: `Unsupported event type: ${eventType}`,
+    });
+  }
+
+  if (eventType === "new-block") {
+    return processNewBlock(payload);
+  }
+
+  const validationResult = BlockcypherWebhookPayloadSchema.safeParse(payload);
+
+  if (!validationResult.success) {
+    console.error(
+      "[WEBHOOK_ERROR] Webhook payload validation failed:",
+      validationResult.error.errors
+    );
+    return rejected("invalid-payload", {
+      error: "Invalid payload structure",
+      details: validationResult.error.format(),
+    });
+  }
+
+  const validatedPayload = validationResult.data;
+
+  // ========================================================================
+  // Task 5.1.3: Parse transaction data from webhook
+  // ========================================================================
+
+  console.log(
+    "[WEBHOOK_INFO] Processing webhook for event:",
+    eventType,
+    "tx_hash:",
+    validatedPayload.hash,
+    "webhook_id:",
+    webhookId
+  );
+
+  // Parse transaction data for all receiving addresses in the webhook payload
+  const parsedTransactions = parseWebhookTransactionForAllAddresses(
+    validatedPayload,
+    eventType
+  );
+
+  if (parsedTransactions.length === 0) {
+    console.error(
+      "[WEBHOOK_ERROR] Could not parse any transaction data from webhook payload"
+    );
+    return rejected("unparseable", {
+      error: "Unable to parse transaction data",
+    });
+  }
+
+  // Log all receiving addresses
+  console.log(
+    "[WEBHOOK_INFO] Found receiving addresses:",
+    parsedTransactions.map((tx) => tx.address).join(", ")
+  );
+
+  const authenticatedTransactions = await filterAuthenticatedTransactions(
+    parsedTransactions,
+    delivery.secret
+  );
+
+  if (authenticatedTransactions.length === 0) {
+    console.error(
+      "[WEBHOOK_ERROR] Webhook secret does not match any payment in the transaction:",
+      validatedPayload.hash
+    );
+    return { status: 401, body: { error: "Invalid webhook secret" } };
+  }
+
+  // BlockCypher retries deliveries until it receives a 2xx response
+  const eventKey = getWebhookEventKey(
+    webhookId ?? eventType,
+    validatedPayload.hash,
+    validatedPayload.confirmations,
+    validatedPayload.block_hash
+  );
+  if (!(await claimWebhookEvent(eventKey, eventType))) {
+    console.log("[WEBHOOK_INFO] Ignoring duplicate webhook event:", eventKey);
+    return {
+      status: 200,
+      body: {
+        message: "Duplicate webhook ignored",
+        transactionHash: validatedPayload.hash,
+        duplicate: true,
+      },
+    };
+  }
+
+  // ========================================================================
+  // Task 5.2.2: Update payment status in store for all relevant addresses
+  // ========================================================================
+
+  let screened: TransactionScreening;
+  let applied: PaymentUpdateSummary;
+  try {
+    // The status is settled before verification, so the verified status is
+    // the one stored. Funds are only credited once the chain agrees with the payload
+    screened = await screenParsedTransactions(
+      await assessParsedTransactions(authenticatedTransactions),
+      eventType
+    );
+
+    // Failed updates are dead-lettered but don't fail the webhook response:
+    // BlockCypher should still receive a 200 OK to prevent retries
+    applied = await applyParsedTransactions(screened.accepted, "webhook");
+  } catch (error) {
+    await releaseWebhookEvent(eventKey);
+    throw error;
+  }
+  const { suspicious, unverified } = screened;
+  const { successfulUpdates, failedUpdates, updateResults } = applied;
+
+  // Events that could not be fully handled give their claim back, so that
+  // their replay (they are dead-lettered below; BlockCypher does not redeliver
+  // a 200) is not taken for a duplicate
+  if (unverified > 0 || failedUpdates > 0) {
+    await releaseWebhookEvent(eventKey);
+  }
+
+  const primaryTransaction = authenticatedTransactions[0];
+  // Status and requirement under the payment's own confirmation policy
+  const primaryResult = updateResults.find(
+    (result) => result.address === primaryTransaction.address
+  );
+  console.log("[WEBHOOK_SUCCESS] Webhook processed successfully:", {
+    event: eventType,
+    transactionHash: primaryTransaction.transactionHash,
+    addressesProcessed: authenticatedTransactions.length,
+    successfulUpdates,
+    failedUpdates,
+    suspiciousEvents: suspicious,
+    unverifiedUpdates: unverified,
+    updateResults,
+  });
+
+  const failures = updateResults.filter((result) => result.error);
+
+  return {
+    status: 200,
+    body: {
+      message: "Webhook processed successfully",
+      transactionHash: primaryTransaction.transactionHash,
+      status: primaryResult?.status ?? primaryTransaction.status,
+      confirmations: primaryTransaction.confirmations,
+      requiredConfirmations: primaryResult?.requiredConfirmations,
+      addressesProcessed: authenticatedTransactions.length,
+      successfulUpdates,
+      failedUpdates,
+      suspiciousEvents: suspicious,
+      unverifiedUpdates: unverified,
+    },
+    deadLetter:
+      failedUpdates > 0
+        ? {
+            reason: "update-failed",
+            error:
+              failures
+                .map((result) => `${result.address}: ${result.error}`)
+                .join("; ") || "Payment status update failed",
+            authenticated: true,
+          }
+        : unverified > 0
+          ? {
+              reason: "unverified",
+              error: `${unverified} transaction(s) could not be verified with the chain provider`,
+              authenticated: true,
+            }
+          : undefined,
+  };
+}
+
+/**
+ * Replays a dead letter through the processing pipeline
+ * Processed deliveries are removed; failed ones record another attempt.
+ * Deliveries whose body was truncated when stored are not replayed
+ *
+ * @param id - Dead letter ID
+ * @returns Promise<DeadLetterReplayResult | null> - Replay outcome, or null if unknown
+ */
+export async function replayDeadLetter(
+  id: string
+): Promise<DeadLetterReplayResult | null> {
+  const deadLetter = await getDeadLetter(id);
+  if (!deadLetter) {
+    return null;
+  }
+
+  if (deadLetter.rawBodyLength !== undefined) {
+    return {
+      id,
+      processed: false,
+      status: 413,
+      body: {
+        error: `Stored body was truncated from ${deadLetter.rawBodyLength} characters`,
+      },
+    };
+  }
+
+  const result = await processWebhookDelivery(deadLetter.delivery);
+  const processed = result.status < 300 && !result.deadLetter;
+
+  if (processed) {
+    await removeDeadLetter(id);
+    console.log("[DEAD_LETTERS] Replayed webhook delivery:", id);
+  } else {
+    await recordDeadLetterAttempt(
+      id,
+      result.deadLetter?.reason ?? deadLetter.reason,
+      result.deadLetter?.error ??
+        String(result.body.error ?? `HTTP ${result.status}`)
+    );
+    console.warn("[DEAD_LETTERS] Replay failed for webhook delivery:", id);
+  }
+
+  return { id, processed, status: result.status, body: result.body };
+}
+
+/**
+ * Replays every dead letter, oldest first
+ *
+ * @returns Promise<DeadLetterReplayResult[]> - One outcome per dead letter
+ */
+export async function replayAllDeadLetters(): Promise<
+  DeadLetterReplayResult[]
+> {
+  const results: DeadLetterReplayResult[] = [];
+
+  for (const deadLetter of await listDeadLetters()) {
+    const result = await replayDeadLetter(deadLetter.id);
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
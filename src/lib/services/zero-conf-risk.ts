@@ -0,0 +1,252 @@
+/**
+ * Zero-Confirmation Risk Scoring
+ *
+ * Rates how likely an unconfirmed transaction is to be replaced or to never
+ * confirm, from what the notification or chain provider reports about it:
+ * - Double-spend flags
+ * - Replace-by-fee signalling (BIP 125)
+ * - Fee rate against the provider's current estimates
+ * - Inputs spending outputs of unconfirmed transactions
+ * - The provider's confidence that it will not be double-spent (BlockCypher)
+ *
+ * Each factor adds its weight to a score from 0 to 100, which maps to a risk
+ * level. The rating is stored with the transaction. Payments whose
+ * confirmation policy requires 0 confirmations (see `confirmation-policy.ts`)
+ * are accepted unconfirmed while every unconfirmed transaction rates at most
+ * `ZERO_CONF_MAX_RISK` (`low` by default, or `medium`).
+ */
+
+import type { FeeEstimates } from "@/lib/api/chain-provider";
+import type {
+  ZeroConfRisk,
+  ZeroConfRiskFactor,
+  ZeroConfRiskLevel,
+} from "@/types";
+
+/**
+ * Risk scoring defaults
+ */
+export const ZERO_CONF_RISK_CONFIG = {
+  // Score added by each factor (capped at 100)
+  weights: {
+    "double-spend": 100,
+    "rbf-signalled": 60,
+    "rbf-unknown": 30,
+    "fee-below-economy": 40,
+    "fee-below-target": 15,
+    "fee-rate-unknown": 15,
+    "unconfirmed-inputs": 25,
+    "inputs-unknown": 10,
+    "low-confidence": 25,
+  },
+  // Scores below these are low and medium risk, anything else is high
+  lowRiskBelow: 20,
+  mediumRiskBelow: 50,
+  // Provider confidence (percent) below which it counts against a transaction
+  minConfidence: 90,
+  // How long fetched fee estimates are reused
+  feeEstimateCacheMs: 5 * 60 * 1000,
+  // Highest risk accepted unconfirmed when ZERO_CONF_MAX_RISK is not set
+  defaultMaxRisk: "low",
+} as const;
+
+/**
+ * Risk levels from lowest to highest
+ */
+export const ZERO_CONF_RISK_LEVELS: readonly ZeroConfRiskLevel[] = [
+  "low",
+  "medium",
+  "high",
+];
+
+/**
+ * What is known about an unconfirmed transaction
+ */
+export interface ZeroConfRiskSignals {
+  /** Whether a conflicting transaction was seen */
+  isDoubleSpend: boolean;
+  /** Whether it signals replace-by-fee (undefined if not reported) */
+  signalsRbf?: boolean;
+  /** Fee rate in sat/vB (undefined if not reported) */
+  feeRate?: number;
+  /** Whether it spends unconfirmed outputs (undefined if not reported) */
+  hasUnconfirmedInputs?: boolean;
+  /** Provider confidence as a fraction (0-1, as BlockCypher reports it) or percentage */
+  confidence?: number;
+}
+
+// Estimates shared by all ratings until they are older than the cache period
+let feeEstimateCache: { estimates: FeeEstimates; fetchedAt: number } | null =
+  null;
+
+/**
+ * Returns the risk level of a score
+ */
+export function getZeroConfRiskLevel(score: number): ZeroConfRiskLevel {
+  if (score < ZERO_CONF_RISK_CONFIG.lowRiskBelow) {
+    return "low";
+  }
+  if (score < ZERO_CONF_RISK_CONFIG.mediumRiskBelow) {
+    return "medium";
+  }
+  return "high";
+}
+
+/**
+ * Rates an unconfirmed transaction
+ *
+ * @param signals - What is known about the transaction
+ * @param feeEstimates - Current fee rate estimates (the fee rate counts as
+ *   unknown without them)
+ * @param now - Time of the assessment (default now)
+ * @returns The score, its level and the factors that raised it
+ */
+export function scoreZeroConfRisk(
+  signals: ZeroConfRiskSignals,
+  feeEstimates?: FeeEstimates,
+  now: number = Date.now()
+): ZeroConfRisk {
+  const factors: ZeroConfRiskFactor[] = [];
+
+  if (signals.isDoubleSpend) {
+    factors.push("double-spend");
+  }
+
+  if (signals.signalsRbf === undefined) {
+    factors.push("rbf-unknown");
+  } else if (signals.signalsRbf) {
+    factors.push("rbf-signalled");
+  }
+
+  if (signals.feeRate === undefined || !feeEstimates) {
+    factors.push("fee-rate-unknown");
+  } else if (signals.feeRate < feeEstimates.low) {
+    factors.push("fee-below-economy");
+  } else if (signals.feeRate < feeEstimates.medium) {
+    factors.push("fee-below-target");
+  }
+
+  if (signals.hasUnconfirmedInputs === undefined) {
+    factors.push("inputs-unknown");
+  } else if (signals.hasUnconfirmedInputs) {
+    factors.push("unconfirmed-inputs");
+  }
+
+  if (signals.confidence !== undefined) {
+    // BlockCypher reports a fraction; percentages are accepted as well
+    const confidence =
+      signals.confidence <= 1 ? signals.confidence * 100 : signals.confidence;
+    if (confidence < ZERO_CONF_RISK_CONFIG.minConfidence) {
+      factors.push("low-confidence");
+    }
+  }
+
+  const score = Math.min(
+    100,
+    factors.reduce(
+      (sum, factor) => sum + ZERO_CONF_RISK_CONFIG.weights[factor],
+      0
+    )
+  );
+
+  return {
+    score,
+    level: getZeroConfRiskLevel(score),
+    factors,
+    feeRate: signals.feeRate,
+    assessedAt: now,
+  };
+}
+
+/**
+ * Returns the highest risk accepted unconfirmed (`ZERO_CONF_MAX_RISK`,
+ * `low` if unset)
+ *
+ * @throws {Error} When the setting is not `low` or `medium`
+ */
+export function getZeroConfMaxRisk(): ZeroConfRiskLevel {
+  const raw = process.env.ZERO_CONF_MAX_RISK?.trim().toLowerCase();
+  if (!raw) {
+    return ZERO_CONF_RISK_CONFIG.defaultMaxRisk;
+  }
+
+  if (raw !== "low" && raw !== "medium") {
+    throw new Error(
+      `ZERO_CONF_MAX_RISK must be 'low' or 'medium', got '${raw}'`
+    );
+  }
+
+  return raw;
+}
+
+/**
+ * Returns whether a rated transaction may be accepted unconfirmed
+ *
+ * @param risk - Rating of the transaction
+ * @param maxRisk - Highest accepted level (the configured level if omitted)
+ */
+export function isZeroConfRiskAccepted(
+  risk: ZeroConfRisk,
+  maxRisk: ZeroConfRiskLevel = getZeroConfMaxRisk()
+): boolean {
+  return (
+    ZERO_CONF_RISK_LEVELS.indexOf(risk.level) <=
+    ZERO_CONF_RISK_LEVELS.indexOf(maxRisk)
+  );
+}
+
+/**
+ * Returns the chain provider's fee estimates, fetched at most once per cache
+ * period
+ *
+ * @returns Promise<FeeEstimates | undefined> - The estimates, or undefined if
+ *   the provider could not be reached
+ */
+export async function getCachedFeeEstimates(): Promise<
+  FeeEstimates | undefined
+> {
+  const now = Date.now();
+  if (
+    feeEstimateCache &&
+    now - feeEstimateCache.fetchedAt < ZERO_CONF_RISK_CONFIG.feeEstimateCacheMs
+  ) {
+    return feeEstimateCache.estimates;
+  }
+
+  try {
+    // Loaded on use: the provider module wires subscription notifications
+    // into the payment update service, which rates transactions
+    const { getChainProvider } = await import("@/lib/api/providers");
+    const estimates = await getChainProvider().estimateFees();
+    feeEstimateCache = { estimates, fetchedAt: now };
+    return estimates;
+  } catch (error) {
+    console.warn(
+      "[ZERO_CONF_RISK] Fee estimates unavailable, fee rates are rated unknown:",
+      error instanceof Error ? error.message : error
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Rates an unconfirmed transaction against the current fee estimates
+ *
+ * @param signals - What is known about the transaction
+ * @returns Promise<ZeroConfRisk> - The rating
+ */
+export async function assessZeroConfRisk(
+  signals: ZeroConfRiskSignals
+): Promise<ZeroConfRisk> {
+  // Estimates only matter when the fee rate is known
+  const feeEstimates =
+    signals.feeRate !== undefined ? await getCachedFeeEstimates() : undefined;
+
+  const risk = scoreZeroConfRisk(signals, feeEstimates);
+  console.log("[ZERO_CONF_RISK] Rated unconfirmed transaction:", {
+    score: risk.score,
+    level: risk.level,
+    factors: risk.factors,
+  });
+  return risk;
+}
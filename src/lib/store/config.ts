@@ -0,0 +1,32 @@
+/**
+ * Store Configuration
+ *
+ * Locations of the files the stores persist to. Tests get a directory per
+ * Jest worker so that parallel suites never share state.
+ */
+
+import path from "path";
+
+/**
+ * File-based store configuration
+ * Uses unique directories for tests to prevent concurrent access issues
+ */
+export function getStoreConfig() {
+  const isTest = process.env.NODE_ENV === "test" || process.env.JEST_WORKER_ID;
+  const baseDir = isTest
+    ? path.join(
+        process.cwd(),
+        ".payment-store-test",
+        `worker-${process.env.JEST_WORKER_ID || "main"}`
+      )
+    : path.join(process.cwd(), ".payment-store");
+
+  return {
+    STORE_DIR: baseDir,
+    STORE_FILE: path.join(baseDir, "payment-statuses.json"),
+    SQLITE_FILE: path.join(baseDir, "payments.db"),
+    WALLET_STATE_FILE: path.join(baseDir, "wallet-state.json"),
+    WEBHOOK_EVENTS_FILE: path.join(baseDir, "webhook-events.json"),
+    DEAD_LETTER_FILE: path.join(baseDir, "dead-letters.json"),
+  };
+}
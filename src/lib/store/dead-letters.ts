@@ -0,0 +1,241 @@
+/**
+ * Webhook Dead-Letter Store
+ *
+ * Webhook deliveries that could not be processed (unparseable payloads or
+ * payment updates that failed) are kept here with their raw body, headers and
+ * secret, so they can be inspected and replayed through the same pipeline
+ * once the cause is fixed.
+ *
+ * Stored next to the payment statuses in `dead-letters.json`. Deliveries
+ * that passed the webhook secret check and unauthenticated ones (unparseable
+ * bodies, `new-block` events) are capped separately, oldest dropped first, so
+ * a flood of anonymous garbage cannot grow the file without bound or push out
+ * genuine failures. Bodies are stored up to
+ * `DEAD_LETTER_CONFIG.maxRawBodyLength` characters.
+ */
+
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import { getStoreConfig } from "@/lib/store/config";
+import { withFileLock, writeFileAtomic } from "@/lib/store/file-lock";
+
+/**
+ * Dead-letter store limits
+ */
+export const DEAD_LETTER_CONFIG = {
+  // Authenticated deliveries kept
+  maxEntries: 1000,
+  // Unauthenticated deliveries kept
+  maxUnauthenticatedEntries: 100,
+  // Longer bodies are truncated (BlockCypher payloads are a few kilobytes)
+  maxRawBodyLength: 64 * 1024,
+} as const;
+
+/**
+ * Why a delivery was dead-lettered
+ */
+export type DeadLetterReason =
+  | "invalid-json"
+  | "missing-event-type"
+  | "unsupported-event"
+  | "invalid-payload"
+  | "unparseable"
+  | "update-failed"
+  | "unverified";
+
+/**
+ * A webhook delivery as received
+ */
+export interface WebhookDelivery {
+  /** Request body exactly as received */
+  rawBody: string;
+  /** Request headers relevant to webhooks (lower-case names) */
+  headers: Record<string, string>;
+  /** Secret from the callback URL query string, if any */
+  secret: string | null;
+}
+
+/**
+ * A delivery that could not be processed
+ */
+export interface DeadLetter {
+  /** Dead letter ID */
+  id: string;
+  /** When the delivery was received */
+  receivedAt: number;
+  reason: DeadLetterReason;
+  /** Error from the most recent attempt */
+  error: string;
+  /** Processing attempts, including the original delivery */
+  attempts: number;
+  /** When the delivery was last replayed */
+  lastAttemptAt?: number;
+  /** Whether the delivery carried the webhook secret of a payment it names */
+  authenticated: boolean;
+  /** Length of the body as received, if it was truncated (it cannot be replayed) */
+  rawBodyLength?: number;
+  delivery: WebhookDelivery;
+}
+
+/**
+ * Load all dead letters, oldest first
+ */
+async function loadDeadLetters(): Promise<DeadLetter[]> {
+  try {
+    const data = await fs.readFile(getStoreConfig().DEAD_LETTER_FILE, "utf-8");
+    return JSON.parse(data) as DeadLetter[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Keep the newest `maxEntries` authenticated and `maxUnauthenticatedEntries`
+ * unauthenticated dead letters, oldest first
+ */
+function pruneDeadLetters(deadLetters: DeadLetter[]): DeadLetter[] {
+  const kept = new Set([
+    ...deadLetters
+      .filter((deadLetter) => deadLetter.authenticated)
+      .slice(-DEAD_LETTER_CONFIG.maxEntries),
+    ...deadLetters
+      .filter((deadLetter) => !deadLetter.authenticated)
+      .slice(-DEAD_LETTER_CONFIG.maxUnauthenticatedEntries),
+  ]);
+  return deadLetters.filter((deadLetter) => kept.has(deadLetter));
+}
+
+/**
+ * Save dead letters, keeping only the newest of each kind
+ */
+async function saveDeadLetters(deadLetters: DeadLetter[]): Promise<void> {
+  await writeFileAtomic(
+    getStoreConfig().DEAD_LETTER_FILE,
+    JSON.stringify(pruneDeadLetters(deadLetters), null, 2)
+  );
+}
+
+/**
+ * Run a read-modify-write cycle on the dead letters under their file lock
+ */
+function withDeadLetterLock<T>(operation: () => Promise<T>): Promise<T> {
+  return withFileLock(getStoreConfig().DEAD_LETTER_FILE, operation);
+}
+
+/**
+ * Store a delivery that could not be processed
+ *
+ * @param delivery - The delivery as received
+ * @param reason - Why processing failed
+ * @param error - Error description
+ * @param authenticated - Whether the delivery passed the webhook secret check
+ * @returns The stored dead letter
+ */
+export async function addDeadLetter(
+  delivery: WebhookDelivery,
+  reason: DeadLetterReason,
+  error: string,
+  authenticated: boolean = false
+): Promise<DeadLetter> {
+  const { maxRawBodyLength } = DEAD_LETTER_CONFIG;
+  const truncated = delivery.rawBody.length > maxRawBodyLength;
+  const deadLetter: DeadLetter = {
+    id: randomUUID(),
+    receivedAt: Date.now(),
+    reason,
+    error,
+    attempts: 1,
+    authenticated,
+    ...(truncated && { rawBodyLength: delivery.rawBody.length }),
+    delivery: truncated
+      ? { ...delivery, rawBody: delivery.rawBody.slice(0, maxRawBodyLength) }
+      : delivery,
+  };
+
+  await withDeadLetterLock(async () => {
+    const deadLetters = await loadDeadLetters();
+    deadLetters.push(deadLetter);
+    await saveDeadLetters(deadLetters);
+  });
+
+  console.warn("[DEAD_LETTERS] Stored failed webhook delivery:", {
+    id: deadLetter.id,
+    reason,
+    error,
+    authenticated,
+  });
+  return deadLetter;
+}
+
+/**
+ * List all dead letters, oldest first
+ */
+export async function listDeadLetters(): Promise<DeadLetter[]> {
+  return loadDeadLetters();
+}
+
+/**
+ * Get a dead letter by ID
+ *
+ * @returns The dead letter, or null if unknown
+ */
+export async function getDeadLetter(id: string): Promise<DeadLetter | null> {
+  const deadLetters = await loadDeadLetters();
+  return deadLetters.find((deadLetter) => deadLetter.id === id) ?? null;
+}
+
+/**
+ * Record another failed attempt of a dead letter
+ *
+ * @param id - Dead letter ID
+ * @param reason - Why the attempt failed
+ * @param error - Error description
+ */
+export async function recordDeadLetterAttempt(
+  id: string,
+  reason: DeadLetterReason,
+  error: string
+): Promise<void> {
+  await withDeadLetterLock(async () => {
+    const deadLetters = await loadDeadLetters();
+    const deadLetter = deadLetters.find((entry) => entry.id === id);
+    if (!deadLetter) {
+      return;
+    }
+
+    deadLetter.reason = reason;
+    deadLetter.error = error;
+    deadLetter.attempts++;
+    deadLetter.lastAttemptAt = Date.now();
+    await saveDeadLetters(deadLetters);
+  });
+}
+
+/**
+ * Remove a dead letter (after a successful replay, or to discard it)
+ *
+ * @returns True if the dead letter existed
+ */
+export async function removeDeadLetter(id: string): Promise<boolean> {
+  return withDeadLetterLock(async () => {
+    const deadLetters = await loadDeadLetters();
+    const remaining = deadLetters.filter((deadLetter) => deadLetter.id !== id);
+    if (remaining.length === deadLetters.length) {
+      return false;
+    }
+
+    await saveDeadLetters(remaining);
+    return true;
+  });
+}
+
+/**
+ * Remove all dead letters
+ * Useful for testing or cleanup
+ */
+export async function clearDeadLetters(): Promise<void> {
+  await withDeadLetterLock(() => saveDeadLetters([]));
+}
@@ -0,0 +1,277 @@
+/**
+ * File Locking and Atomic Writes
+ *
+ * The stores keep their state in JSON files that are read, modified and
+ * written back whole. Without coordination two concurrent requests (or two
+ * server processes sharing the store directory) can both read the same
+ * version and the second write silently discards the first one's changes.
+ *
+ * `withFileLock` serializes read-modify-write cycles on a file:
+ * - Within a process, callers queue behind each other per file
+ * - Across processes, an exclusive `<file>.lock` file is created with
+ *   `O_EXCL`; other processes retry until it is removed
+ * - The holder touches the lock file every `FILE_LOCK_CONFIG.refreshMs`, so
+ *   a lock file untouched for `FILE_LOCK_CONFIG.staleMs` was left behind by a
+ *   crashed process and is broken. Breaking renames the file aside first
+ *   (only one process can), then checks that it is still the stale file and
+ *   puts it back otherwise
+ * - Each lock file holds a unique token, and the holder only removes the
+ *   lock if it still holds its token: a holder stalled for longer than
+ *   `staleMs` whose lock was broken and taken by another process leaves that
+ *   process's lock in place
+ *
+ * `writeFileAtomic` writes to a temporary file in the same directory and
+ * renames it over the target, so readers never see a partially written file.
+ *
+ * Operations run under a lock must not take the same lock again.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+/**
+ * Lock timing
+ */
+export const FILE_LOCK_CONFIG = {
+  /** Delay between attempts to create a lock held by another process */
+  retryDelayMs: 10,
+  /** How long to wait for a lock before giving up */
+  timeoutMs: 10_000,
+  /** Age after which a lock file is considered abandoned */
+  staleMs: 30_000,
+  /** How often the holder touches its lock file */
+  refreshMs: 10_000,
+} as const;
+
+// Tail of the in-process queue for each lock file
+const lockQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Remove a lock file if it has not been touched for `staleMs`
+ *
+ * Another process may release and retake the lock, or its holder touch it,
+ * between the stat and the removal, so the file is renamed aside first and
+ * only removed if it is still the stale one; otherwise it is linked back.
+ *
+ * @returns True if the lock was removed or released meanwhile
+ */
+async function breakStaleLock(lockPath: string): Promise<boolean> {
+  const stalePath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+
+  try {
+    const stats = await fs.stat(lockPath);
+    if (Date.now() - stats.mtimeMs < FILE_LOCK_CONFIG.staleMs) {
+      return false;
+    }
+
+    await fs.rename(lockPath, stalePath);
+    const moved = await fs.stat(stalePath);
+    if (moved.ino !== stats.ino || moved.mtimeMs !== stats.mtimeMs) {
+      // Not the file found stale: hand it back unless a new lock was taken
+      await fs.link(stalePath, lockPath).catch((error) => {
+        console.warn(
+          "[FILE_LOCK] Could not restore a lock taken over while breaking it:",
+          lockPath,
+          error instanceof Error ? error.message : error
+        );
+      });
+      await fs.rm(stalePath, { force: true });
+      return false;
+    }
+
+    console.warn("[FILE_LOCK] Breaking stale lock:", lockPath);
+    await fs.rm(stalePath, { force: true });
+    return true;
+  } catch (error) {
+    // Released, or broken by another process, before it could be moved
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Touch a held lock file every `refreshMs` so that it is not taken for stale
+ *
+ * @returns Stops refreshing
+ */
+function keepLockFresh(lockPath: string): () => void {
+  const timer = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch((error) => {
+      console.warn(
+        "[FILE_LOCK] Could not refresh lock:",
+        lockPath,
+        error instanceof Error ? error.message : error
+      );
+    });
+  }, FILE_LOCK_CONFIG.refreshMs);
+  // Never keep the process alive just for the refresh
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Create the lock file, waiting while another process holds it
+ *
+ * @returns The token written to the lock file, identifying this holder
+ * @throws Error if the lock is not acquired within `timeoutMs`
+ */
+async function acquireLock(lockPath: string): Promise<string> {
+  const deadline = Date.now() + FILE_LOCK_CONFIG.timeoutMs;
+  const token = `${process.pid} ${randomUUID()}\n`;
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, "wx");
+      await handle.writeFile(token, "utf-8");
+      await handle.close();
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    if (await breakStaleLock(lockPath)) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for file lock: ${lockPath}`);
+    }
+    await delay(FILE_LOCK_CONFIG.retryDelayMs);
+  }
+}
+
+/**
+ * Read a lock file's token (null if there is no lock file)
+ */
+async function readLockToken(lockPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(lockPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove the lock file if it still holds this holder's token
+ *
+ * The lock may have been broken as stale while held (e.g. during an event
+ * loop stall) and taken by another process, whose lock must stay. Like
+ * breaking, the file is renamed aside before it is removed, and put back if
+ * it turns out to be another process's lock after all.
+ */
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+  const releasedPath = `${lockPath}.${process.pid}.${randomUUID()}.released`;
+
+  try {
+    if ((await readLockToken(lockPath)) === token) {
+      await fs.rename(lockPath, releasedPath);
+      if ((await readLockToken(releasedPath)) === token) {
+        return;
+      }
+
+      // Taken over between the check and the rename: hand it back
+      await fs.link(releasedPath, lockPath).catch((error) => {
+        console.warn(
+          "[FILE_LOCK] Could not restore a lock taken over while releasing it:",
+          lockPath,
+          error instanceof Error ? error.message : error
+        );
+      });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  } finally {
+    await fs.rm(releasedPath, { force: true });
+  }
+
+  console.warn(
+    "[FILE_LOCK] Lock was broken while held; leaving the current lock in place:",
+    lockPath
+  );
+}
+
+/**
+ * Run an operation while holding the exclusive lock of a file
+ *
+ * @param filePath - File the operation reads and writes
+ * @param operation - Read-modify-write cycle to run under the lock
+ * @returns The operation's result
+ * @throws Error if the lock cannot be acquired, or the operation's error
+ */
+export function withFileLock<T>(
+  filePath: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const previous = lockQueues.get(lockPath) ?? Promise.resolve();
+
+  const result = previous.then(async () => {
+    const token = await acquireLock(lockPath);
+    const stopRefreshing = keepLockFresh(lockPath);
+    try {
+      return await operation();
+    } finally {
+      stopRefreshing();
+      await releaseLock(lockPath, token);
+    }
+  });
+
+  // Keep the queue alive even if this operation fails
+  const tail = result.catch(() => undefined);
+  lockQueues.set(lockPath, tail);
+  void tail.then(() => {
+    if (lockQueues.get(lockPath) === tail) {
+      lockQueues.delete(lockPath);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Replace a file's contents atomically
+ *
+ * @param filePath - File to write
+ * @param data - New contents
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string
+): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  try {
+    const handle = await fs.open(tempPath, "w");
+    try {
+      await handle.writeFile(data, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
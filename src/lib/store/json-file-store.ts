@@ -0,0 +1,256 @@
+/**
+ * JSON File Payment Store
+ *
+ * Keeps every payment record in one JSON file (`payment-statuses.json`),
+ * loaded and rewritten whole on each call. Simple and dependency free, but
+ * every request costs O(n) in the number of payments; use the SQLite store
+ * beyond a few thousand payments.
+ *
+ * Changes hold the file's lock and replace the file atomically, so they are
+ * safe across requests and processes. Reads need no lock.
+ *
+ * The file holds `{ schemaVersion, payments }`. Older files are migrated in
+ * memory when loaded and rewritten in the current format by the next change
+ * (or by `migrate`); files with a newer schema version are refused.
+ */
+
+import { promises as fs } from "fs";
+import { existsSync } from "fs";
+import path from "path";
+import { withFileLock, writeFileAtomic } from "@/lib/store/file-lock";
+import {
+  computeStoreStats,
+  type PaymentRecordUpdate,
+  type PaymentStatusData,
+  type PaymentStore,
+  type PaymentStoreStats,
+} from "@/lib/store/payment-store";
+import {
+  LEGACY_SCHEMA_VERSION,
+  PAYMENT_SCHEMA_VERSION,
+  UnsupportedSchemaVersionError,
+  createMigrationReport,
+  getPendingMigrations,
+  migratePaymentRecord,
+  type MigrationReport,
+  type StoredPaymentRecord,
+} from "@/lib/store/migrations";
+import type { PaymentStatus } from "@/types";
+
+/**
+ * Contents of the store file
+ */
+interface PaymentStoreFile {
+  schemaVersion: number;
+  payments: Record<string, PaymentStatusData>;
+}
+
+/**
+ * Records as found in the file, before migration
+ */
+interface StoredPayments {
+  schemaVersion: number;
+  payments: Record<string, StoredPaymentRecord>;
+}
+
+/**
+ * Payment store backed by a single JSON file
+ */
+export class JsonFilePaymentStore implements PaymentStore {
+  readonly name = "json";
+
+  /**
+   * @param filePath - JSON file holding the records
+   */
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the file without migrating it
+   * Files written before schema versioning are a bare address → record map
+   */
+  private async read(): Promise<StoredPayments> {
+    if (!existsSync(this.filePath)) {
+      return { schemaVersion: PAYMENT_SCHEMA_VERSION, payments: {} };
+    }
+
+    const data = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+    if (typeof data?.schemaVersion === "number") {
+      return {
+        schemaVersion: data.schemaVersion,
+        payments: data.payments ?? {},
+      };
+    }
+    return { schemaVersion: LEGACY_SCHEMA_VERSION, payments: data };
+  }
+
+  /**
+   * Load all records from the file, migrated to the current schema
+   * Reads treat an unreadable file as empty; changes (`strict`) refuse it, so
+   * the empty map is never written over the records
+   *
+   * @param strict - Rethrow read and parse errors instead of returning no records
+   * @throws {UnsupportedSchemaVersionError} When the file has a newer schema
+   */
+  private async load(strict = false): Promise<Map<string, PaymentStatusData>> {
+    try {
+      const { schemaVersion, payments } = await this.read();
+      const migrations = getPendingMigrations(schemaVersion, this.filePath);
+
+      return new Map(
+        Object.entries(payments).map(([address, record]) => [
+          address,
+          migratePaymentRecord(record, migrations)
+            .record as unknown as PaymentStatusData,
+        ])
+      );
+    } catch (error) {
+      if (strict || error instanceof UnsupportedSchemaVersionError) {
+        throw error;
+      }
+      console.error("[PAYMENT_STORE] Error loading payment statuses:", error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Save all records to the file
+   */
+  private async save(records: Map<string, PaymentStatusData>): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const file: PaymentStoreFile = {
+        schemaVersion: PAYMENT_SCHEMA_VERSION,
+        payments: Object.fromEntries(records),
+      };
+      await writeFileAtomic(this.filePath, JSON.stringify(file, null, 2));
+    } catch (error) {
+      console.error("[PAYMENT_STORE] Error saving payment statuses:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a read-modify-write cycle under the file lock
+   * Fails without writing when the file cannot be read
+   */
+  private mutate<T>(
+    operation: (records: Map<string, PaymentStatusData>) => Promise<T>
+  ): Promise<T> {
+    return withFileLock(this.filePath, async () =>
+      operation(await this.load(true))
+    );
+  }
+
+  async initializePaymentStatus(record: PaymentStatusData): Promise<void> {
+    await this.mutate(async (records) => {
+      records.set(record.address, record);
+      await this.save(records);
+    });
+  }
+
+  async updatePaymentStatus(
+    address: string,
+    update: PaymentRecordUpdate
+  ): Promise<PaymentStatusData | null> {
+    return this.mutate(async (records) => {
+      const current = records.get(address);
+      const updated = current ? update({ ...current }) : null;
+      if (!updated) {
+        return null;
+      }
+
+      records.set(address, updated);
+      await this.save(records);
+      return { ...updated };
+    });
+  }
+
+  async getFullPaymentData(address: string): Promise<PaymentStatusData | null> {
+    const record = (await this.load()).get(address);
+    return record ? { ...record } : null;
+  }
+
+  async hasPaymentStatus(address: string): Promise<boolean> {
+    return (await this.load()).has(address);
+  }
+
+  async getAllPaymentStatuses(
+    statuses?: readonly PaymentStatus[]
+  ): Promise<PaymentStatusData[]> {
+    return Array.from((await this.load()).values())
+      .filter((record) => !statuses || statuses.includes(record.status))
+      .map((record) => ({ ...record }));
+  }
+
+  async deletePaymentStatus(address: string): Promise<boolean> {
+    return this.mutate(async (records) => {
+      const deleted = records.delete(address);
+      if (deleted) {
+        await this.save(records);
+      }
+      return deleted;
+    });
+  }
+
+  async clearAllPaymentStatuses(): Promise<number> {
+    return this.mutate(async (records) => {
+      await this.save(new Map());
+      return records.size;
+    });
+  }
+
+  async cleanupOldEntries(createdBefore: number): Promise<number> {
+    return this.mutate(async (records) => {
+      let removedCount = 0;
+      for (const [address, record] of records.entries()) {
+        if (record.createdAt < createdBefore) {
+          records.delete(address);
+          removedCount++;
+        }
+      }
+
+      if (removedCount > 0) {
+        await this.save(records);
+      }
+      return removedCount;
+    });
+  }
+
+  async getStoreStats(): Promise<PaymentStoreStats> {
+    return computeStoreStats(Array.from((await this.load()).values()));
+  }
+
+  async migrate(options: { dryRun: boolean }): Promise<MigrationReport> {
+    return withFileLock(this.filePath, async () => {
+      const { schemaVersion, payments } = await this.read();
+      const migrations = getPendingMigrations(schemaVersion, this.filePath);
+
+      const records = new Map<string, PaymentStatusData>();
+      let changedRecords = 0;
+      for (const [address, stored] of Object.entries(payments)) {
+        const { record, changed } = migratePaymentRecord(stored, migrations);
+        records.set(address, record as unknown as PaymentStatusData);
+        if (changed) {
+          changedRecords++;
+        }
+      }
+
+      if (!options.dryRun && schemaVersion < PAYMENT_SCHEMA_VERSION) {
+        await this.save(records);
+        console.log(
+          `[PAYMENT_STORE] Migrated payment records from schema v${schemaVersion} to v${PAYMENT_SCHEMA_VERSION}:`,
+          this.filePath
+        );
+      }
+
+      return createMigrationReport(
+        this.name,
+        schemaVersion,
+        migrations,
+        records.size,
+        changedRecords,
+        options.dryRun
+      );
+    });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * In-Memory Payment Store
+ *
+ * Keeps payment records in a process-local map. Nothing survives a restart
+ * and processes do not share records, so it suits tests and throwaway
+ * instances only. Calls never interleave: every operation completes
+ * synchronously once started.
+ */
+
+import {
+  computeStoreStats,
+  type PaymentRecordUpdate,
+  type PaymentStatusData,
+  type PaymentStore,
+  type PaymentStoreStats,
+} from "@/lib/store/payment-store";
+import type { PaymentStatus } from "@/types";
+
+/**
+ * Payment store backed by a map
+ */
+export class MemoryPaymentStore implements PaymentStore {
+  readonly name = "memory";
+
+  private readonly records = new Map<string, PaymentStatusData>();
+
+  async initializePaymentStatus(record: PaymentStatusData): Promise<void> {
+    this.records.set(record.address, structuredClone(record));
+  }
+
+  async updatePaymentStatus(
+    address: string,
+    update: PaymentRecordUpdate
+  ): Promise<PaymentStatusData | null> {
+    const current = this.records.get(address);
+    const updated = current ? update(structuredClone(current)) : null;
+    if (!updated) {
+      return null;
+    }
+
+    this.records.set(address, structuredClone(updated));
+    return structuredClone(updated);
+  }
+
+  async getFullPaymentData(address: string): Promise<PaymentStatusData | null> {
+    const record = this.records.get(address);
+    return record ? structuredClone(record) : null;
+  }
+
+  async hasPaymentStatus(address: string): Promise<boolean> {
+    return this.records.has(address);
+  }
+
+  async getAllPaymentStatuses(
+    statuses?: readonly PaymentStatus[]
+  ): Promise<PaymentStatusData[]> {
+    return Array.from(this.records.values())
+      .filter((record) => !statuses || statuses.includes(record.status))
+      .map((record) => structuredClone(record));
+  }
+
+  async deletePaymentStatus(address: string): Promise<boolean> {
+    return this.records.delete(address);
+  }
+
+  async clearAllPaymentStatuses(): Promise<number> {
+    const count = this.records.size;
+    this.records.clear();
+    return count;
+  }
+
+  async cleanupOldEntries(createdBefore: number): Promise<number> {
+    let removedCount = 0;
+    for (const [address, record] of this.records.entries()) {
+      if (record.createdAt < createdBefore) {
+        this.records.delete(address);
+        removedCount++;
+      }
+    }
+    return removedCount;
+  }
+
+  async getStoreStats(): Promise<PaymentStoreStats> {
+    return computeStoreStats(Array.from(this.records.values()));
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Payment Record Schema Migrations
+ *
+ * Persisted payment records carry a schema version so their shape can evolve
+ * without breaking existing deployments:
+ * - The JSON file store writes `{ schemaVersion, payments }`; files written
+ *   before versioning (a bare address → record map) are version 1
+ * - The SQLite store keeps the version in `PRAGMA user_version`
+ *
+ * Backends upgrade older data the first time they are used, by running every
+ * migration above the stored version over each record, and refuse data
+ * written by a newer version rather than overwrite it.
+ *
+ * To change the record shape, append a migration with the next version and
+ * bump `PAYMENT_SCHEMA_VERSION`. Migrations must be pure and idempotent.
+ * `npm run store:migrate` shows what would change (add `--apply` to write).
+ */
+
+import { AddressType, PaymentStatus } from "@/types";
+
+/**
+ * Schema version written by this code
+ */
+export const PAYMENT_SCHEMA_VERSION = 3;
+
+/**
+ * Version of data persisted before schema versioning
+ */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+/**
+ * A persisted record of any schema version
+ */
+export type StoredPaymentRecord = Record<string, unknown>;
+
+/**
+ * Upgrade of payment records to one schema version
+ */
+export interface PaymentMigration {
+  /** Version the migration upgrades to */
+  version: number;
+  /** What the migration changes */
+  description: string;
+  /** Upgrades a record of the previous version */
+  migrate(record: StoredPaymentRecord): StoredPaymentRecord;
+}
+
+/**
+ * Outcome of migrating a store (or of a dry run)
+ */
+export interface MigrationReport {
+  /** Backend that was migrated */
+  store: string;
+  /** Schema version found */
+  fromVersion: number;
+  /** Schema version after migration */
+  toVersion: number;
+  /** Migrations run, oldest first */
+  migrations: { version: number; description: string }[];
+  /** Records in the store */
+  totalRecords: number;
+  /** Records the migrations changed */
+  changedRecords: number;
+  /** Whether nothing was written */
+  dryRun: boolean;
+}
+
+/**
+ * Raised when persisted data was written by a newer version of the app
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(
+    public version: number,
+    public location: string
+  ) {
+    super(
+      `${location} uses payment schema version ${version}, newer than the supported version ${PAYMENT_SCHEMA_VERSION}`
+    );
+    this.name = "UnsupportedSchemaVersionError";
+  }
+}
+
+/**
+ * All migrations, in version order
+ */
+export const PAYMENT_MIGRATIONS: readonly PaymentMigration[] = [
+  {
+    version: 2,
+    description:
+      "Record the P2WPKH default of derived addresses and fill lastUpdated from createdAt",
+    migrate(record) {
+      const migrated = { ...record };
+      if (
+        migrated.addressType === undefined &&
+        migrated.derivationIndex !== undefined
+      ) {
+        migrated.addressType = AddressType.P2WPKH;
+      }
+      if (migrated.lastUpdated === undefined) {
+        migrated.lastUpdated = migrated.createdAt;
+      }
+      return migrated;
+    },
+  },
+  {
+    version: 3,
+    description:
+      "Credit the single recorded transaction of each funded payment to its transaction list",
+    migrate(record) {
+      if (
+        record.transactions !== undefined ||
+        typeof record.transactionId !== "string" ||
+        record.status === PaymentStatus.ERROR
+      ) {
+        return record;
+      }
+      return {
+        ...record,
+        transactions: [
+          {
+            transactionId: record.transactionId,
+            amount: record.receivedAmount,
+            confirmations: record.confirmations ?? 0,
+            firstSeen: record.lastUpdated ?? record.createdAt,
+          },
+        ],
+      };
+    },
+  },
+];
+
+/**
+ * Returns the migrations that upgrade data of a given version
+ *
+ * @param fromVersion - Stored schema version
+ * @param location - Where the data is stored (for errors)
+ * @throws {UnsupportedSchemaVersionError} When the data is newer than this code
+ */
+export function getPendingMigrations(
+  fromVersion: number,
+  location: string
+): PaymentMigration[] {
+  if (fromVersion > PAYMENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(fromVersion, location);
+  }
+
+  return PAYMENT_MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion
+  );
+}
+
+/**
+ * Runs migrations over one record
+ *
+ * @returns The upgraded record and whether any migration changed it
+ */
+export function migratePaymentRecord(
+  record: StoredPaymentRecord,
+  migrations: readonly PaymentMigration[]
+): { record: StoredPaymentRecord; changed: boolean } {
+  const migrated = migrations.reduce(
+    (current, migration) => migration.migrate(current),
+    record
+  );
+
+  return {
+    record: migrated,
+    changed: JSON.stringify(migrated) !== JSON.stringify(record),
+  };
+}
+
+/**
+ * Builds a migration report
+ */
+export function createMigrationReport(
+  store: string,
+  fromVersion: number,
+  migrations: readonly PaymentMigration[],
+  totalRecords: number,
+  changedRecords: number,
+  dryRun: boolean
+): MigrationReport {
+  return {
+    store,
+    fromVersion,
+    toVersion: PAYMENT_SCHEMA_VERSION,
+    migrations: migrations.map(({ version, description }) => ({
+      version,
+      description,
+    })),
+    totalRecords,
+    changedRecords,
+    dryRun,
+  };
+}
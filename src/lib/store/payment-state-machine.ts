@@ -0,0 +1,340 @@
+/**
+ * Payment Status State Machine
+ *
+ * Defines which `PaymentStatus` changes are legal and under which conditions.
+ * Every write of a payment's status goes through `checkPaymentTransition`
+ * (see `updatePaymentStatus` and `transitionPaymentStatus` in
+ * `payment-status.ts`), so no notification source can move a payment
+ * backwards or out of a final state:
+ *
+ *   AWAITING_PAYMENT ─┬─> PAYMENT_DETECTED ─┬─> CONFIRMED ──> OVERPAID, REFUNDED
+ *                     │                     ├─> UNDERPAID ──> REFUNDED
+ *                     │                     ├─> OVERPAID ───> REFUNDED
+ *                     │                     └─> ERROR ──────> REFUNDED
+ *                     └─> EXPIRED ─┬─> CONFIRMED / UNDERPAID / OVERPAID (review)
+ *                                  └─> REFUNDED
+ *
+ * A payment may also skip states (e.g. AWAITING_PAYMENT straight to
+ * CONFIRMED when the first notification is a confirmation), an underpaid
+ * payment can still be completed, a paid payment becomes OVERPAID when more
+ * funds arrive, and a status may be reported again with more confirmations.
+ * The only way back is a rollback: when credited transactions are dropped
+ * (replaced or evicted from the mempool) or their blocks are reorganized out
+ * of the best chain, a funded payment falls back to the status its remaining
+ * transactions support, down to AWAITING_PAYMENT.
+ * Guards on top of the transition table:
+ * - Confirmations of the same transaction never decrease, except in a rollback
+ * - CONFIRMED and OVERPAID need the payment's required confirmations (1
+ *   unless the confirmation policy says otherwise); zero only for
+ *   transactions rated low-risk enough to accept unconfirmed (see
+ *   `zero-conf-risk.ts`)
+ * - Only payments that received funds can be refunded
+ * - Only a manual review can accept a payment that arrived after expiry
+ *
+ * `resolveAmountStatus` turns a detected or confirmed payment into UNDERPAID
+ * when less than the amount requested was received, and a confirmed one into
+ * OVERPAID when more was, beyond the tolerance. A detected overpayment stays
+ * PAYMENT_DETECTED until it meets the confirmation target, so OVERPAID is
+ * never reached without the confirmations CONFIRMED needs.
+ */
+
+import { PaymentStatus, type PaymentUpdateSource } from "@/types";
+import { btcToSatoshis } from "@/lib/validation/payment";
+
+/**
+ * Statuses a payment can move to from each status (including itself when a
+ * status can be reported again with new details)
+ */
+export const PAYMENT_TRANSITIONS: Readonly<
+  Record<PaymentStatus, readonly PaymentStatus[]>
+> = {
+  [PaymentStatus.AWAITING_PAYMENT]: [
+    PaymentStatus.PAYMENT_DETECTED,
+    PaymentStatus.CONFIRMED,
+    PaymentStatus.UNDERPAID,
+    PaymentStatus.OVERPAID,
+    PaymentStatus.ERROR,
+    PaymentStatus.EXPIRED,
+  ],
+  [PaymentStatus.PAYMENT_DETECTED]: [
+    PaymentStatus.PAYMENT_DETECTED,
+    PaymentStatus.CONFIRMED,
+    PaymentStatus.UNDERPAID,
+    PaymentStatus.OVERPAID,
+    PaymentStatus.ERROR,
+  ],
+  [PaymentStatus.CONFIRMED]: [
+    PaymentStatus.CONFIRMED,
+    PaymentStatus.OVERPAID,
+    PaymentStatus.ERROR,
+    PaymentStatus.REFUNDED,
+  ],
+  [PaymentStatus.UNDERPAID]: [
+    PaymentStatus.UNDERPAID,
+    PaymentStatus.PAYMENT_DETECTED,
+    PaymentStatus.CONFIRMED,
+    PaymentStatus.OVERPAID,
+    PaymentStatus.ERROR,
+    PaymentStatus.REFUNDED,
+  ],
+  [PaymentStatus.OVERPAID]: [
+    PaymentStatus.OVERPAID,
+    PaymentStatus.ERROR,
+    PaymentStatus.REFUNDED,
+  ],
+  [PaymentStatus.ERROR]: [PaymentStatus.ERROR, PaymentStatus.REFUNDED],
+  [PaymentStatus.EXPIRED]: [
+    PaymentStatus.EXPIRED,
+    PaymentStatus.CONFIRMED,
+    PaymentStatus.UNDERPAID,
+    PaymentStatus.OVERPAID,
+    PaymentStatus.REFUNDED,
+  ],
+  [PaymentStatus.REFUNDED]: [],
+};
+
+/**
+ * Confirmations required of payments stored without a confirmation policy
+ */
+export const DEFAULT_REQUIRED_CONFIRMATIONS = 1;
+
+/**
+ * Statuses a payment can never leave
+ */
+export const FINAL_PAYMENT_STATUSES: readonly PaymentStatus[] = [
+  PaymentStatus.REFUNDED,
+];
+
+/**
+ * Statuses of a payment that received funds
+ */
+export const FUNDED_PAYMENT_STATUSES: readonly PaymentStatus[] = [
+  PaymentStatus.PAYMENT_DETECTED,
+  PaymentStatus.CONFIRMED,
+  PaymentStatus.UNDERPAID,
+  PaymentStatus.OVERPAID,
+];
+
+/**
+ * Why a transition was rejected
+ */
+export type PaymentTransitionRejection =
+  | "transition-not-allowed"
+  | "confirmations-decreased"
+  | "confirmations-required"
+  | "nothing-to-refund"
+  | "review-required";
+
+/**
+ * The state a transition starts from
+ */
+export interface PaymentTransitionState {
+  status: PaymentStatus;
+  transactionId?: string;
+  confirmations?: number;
+}
+
+/**
+ * The state a transition leads to
+ */
+export interface PaymentTransitionTarget {
+  status: PaymentStatus;
+  transactionId?: string;
+  confirmations: number;
+  /** Confirmations the payment needs to be CONFIRMED (default 1) */
+  requiredConfirmations?: number;
+  /** Whether the unconfirmed funds are rated acceptable unconfirmed */
+  acceptsUnconfirmed?: boolean;
+  /** Whether credited transactions were dropped (see `canRollBack`) */
+  rollback?: boolean;
+  /** What requested the change (anything but `manual` if omitted) */
+  source?: PaymentUpdateSource;
+}
+
+/**
+ * Raised when a payment status change violates the state machine
+ */
+export class PaymentTransitionError extends Error {
+  constructor(
+    public reason: PaymentTransitionRejection,
+    public from: PaymentStatus,
+    public to: PaymentStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = "PaymentTransitionError";
+  }
+}
+
+/**
+ * Returns whether the transition table allows moving between two statuses
+ */
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Returns whether a payment may fall back between two statuses after
+ * credited transactions were dropped or reorganized: from any funded status to
+ * AWAITING_PAYMENT or another funded status
+ */
+export function canRollBack(from: PaymentStatus, to: PaymentStatus): boolean {
+  return (
+    FUNDED_PAYMENT_STATUSES.includes(from) &&
+    (to === PaymentStatus.AWAITING_PAYMENT ||
+      FUNDED_PAYMENT_STATUSES.includes(to))
+  );
+}
+
+/**
+ * Returns whether a payment has the confirmations it requires
+ * A requirement of zero is only met by unconfirmed funds rated acceptable;
+ * others still need one confirmation
+ *
+ * @param confirmations - Confirmations of the payment
+ * @param requiredConfirmations - Confirmations the payment requires (default 1)
+ * @param acceptsUnconfirmed - Whether the unconfirmed funds are rated
+ *   acceptable unconfirmed (default false)
+ */
+export function meetsConfirmationTarget(
+  confirmations: number,
+  requiredConfirmations: number = DEFAULT_REQUIRED_CONFIRMATIONS,
+  acceptsUnconfirmed: boolean = false
+): boolean {
+  return (
+    confirmations >= Math.max(requiredConfirmations, acceptsUnconfirmed ? 0 : 1)
+  );
+}
+
+/**
+ * Checks a status change against the transition table and guards
+ *
+ * @param current - Stored state of the payment
+ * @param next - State the update would lead to
+ * @returns The rejection, or null if the change is allowed
+ */
+export function checkPaymentTransition(
+  current: PaymentTransitionState,
+  next: PaymentTransitionTarget
+): PaymentTransitionError | null {
+  const reject = (reason: PaymentTransitionRejection, message: string) =>
+    new PaymentTransitionError(reason, current.status, next.status, message);
+
+  if (
+    !canTransition(current.status, next.status) &&
+    !(next.rollback && canRollBack(current.status, next.status))
+  ) {
+    return reject(
+      "transition-not-allowed",
+      `Payment cannot move from ${current.status} to ${next.status}`
+    );
+  }
+
+  if (
+    !next.rollback &&
+    next.transactionId !== undefined &&
+    next.transactionId === current.transactionId &&
+    next.confirmations < (current.confirmations ?? 0)
+  ) {
+    return reject(
+      "confirmations-decreased",
+      `Confirmations of ${next.transactionId} cannot decrease from ${current.confirmations} to ${next.confirmations}`
+    );
+  }
+
+  if (
+    (next.status === PaymentStatus.CONFIRMED ||
+      next.status === PaymentStatus.OVERPAID) &&
+    !meetsConfirmationTarget(
+      next.confirmations,
+      next.requiredConfirmations,
+      next.acceptsUnconfirmed
+    )
+  ) {
+    const required = Math.max(
+      next.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS,
+      next.acceptsUnconfirmed ? 0 : 1
+    );
+    return reject(
+      "confirmations-required",
+      `${next.status} requires ${required} confirmation${
+        required === 1 ? "" : "s"
+      }, got ${next.confirmations}`
+    );
+  }
+
+  if (next.status === PaymentStatus.REFUNDED && !current.transactionId) {
+    return reject(
+      "nothing-to-refund",
+      "Only payments that received funds can be refunded"
+    );
+  }
+
+  if (
+    current.status === PaymentStatus.EXPIRED &&
+    FUNDED_PAYMENT_STATUSES.includes(next.status) &&
+    next.source !== "manual"
+  ) {
+    return reject(
+      "review-required",
+      "Payments received after expiry must be accepted manually"
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Checks a status change and throws if it is not allowed
+ *
+ * @throws {PaymentTransitionError} When the change violates the state machine
+ */
+export function assertPaymentTransition(
+  current: PaymentTransitionState,
+  next: PaymentTransitionTarget
+): void {
+  const rejection = checkPaymentTransition(current, next);
+  if (rejection) {
+    throw rejection;
+  }
+}
+
+/**
+ * Classifies a detected or confirmed payment by the amount received
+ * Other statuses, and payments without both amounts, are returned unchanged.
+ * Only a confirmed payment can be OVERPAID; a detected one stays detected
+ *
+ * @param status - Status reported for the transaction
+ * @param expectedAmount - Amount requested in BTC (optional)
+ * @param receivedAmount - Amount received in satoshis (optional)
+ * @param toleranceSatoshis - Difference still accepted as paid in full (default 0)
+ * @returns UNDERPAID or (when confirmed) OVERPAID when the amounts differ by
+ *   more than the tolerance, otherwise `status`
+ */
+export function resolveAmountStatus(
+  status: PaymentStatus,
+  expectedAmount?: number,
+  receivedAmount?: number,
+  toleranceSatoshis: number = 0
+): PaymentStatus {
+  if (
+    (status !== PaymentStatus.PAYMENT_DETECTED &&
+      status !== PaymentStatus.CONFIRMED) ||
+    expectedAmount === undefined ||
+    receivedAmount === undefined
+  ) {
+    return status;
+  }
+
+  const expectedSatoshis = btcToSatoshis(expectedAmount);
+  if (receivedAmount < expectedSatoshis - toleranceSatoshis) {
+    return PaymentStatus.UNDERPAID;
+  }
+  if (
+    status === PaymentStatus.CONFIRMED &&
+    receivedAmount > expectedSatoshis + toleranceSatoshis
+  ) {
+    return PaymentStatus.OVERPAID;
+  }
+  return status;
+}
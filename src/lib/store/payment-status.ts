@@ -8,10 +8,31 @@
  * the client through the status API endpoint.
  *
  * Key features:
- * - File-based persistent storage for payment statuses
- * - Thread-safe operations using atomic file writes
- * - Status types: AWAITING_PAYMENT, PAYMENT_DETECTED, CONFIRMED, ERROR
+ * - Persistent storage through a pluggable `PaymentStore` backend (JSON file,
+ *   in-memory or SQLite, selected with `PAYMENT_STORE`; see `stores.ts`)
+ * - Mutations hold an exclusive lock (safe across requests and processes)
+ *   and replace files atomically, so concurrent updates never overwrite each other
+ * - Status types: AWAITING_PAYMENT, PAYMENT_DETECTED, CONFIRMED, UNDERPAID,
+ *   OVERPAID, ERROR, EXPIRED, REFUNDED
  * - Stores transaction details including confirmations and transaction ID
+ * - Persists the next xpub derivation index so addresses are never reused
+ * - Tracks the highest funded index to enforce the BIP44 gap limit
+ * - Keeps separate derivation indexes per address type (one account per BIP purpose)
+ * - Records suspicious notifications that disagreed with the chain
+ * - Status changes are checked by the state machine in `payment-state-machine.ts`,
+ *   so a payment never moves backwards (out-of-order notifications are ignored)
+ * - Keeps an append-only history of status transitions per payment
+ * - Expires unpaid requests once their `expiresAt` passes, and flags funds
+ *   arriving after that for manual review instead of confirming them
+ * - Keeps a ledger of processed webhook events so redeliveries are not re-applied
+ * - Confirms each payment at the confirmations its amount requires
+ *   (`requiredConfirmations`, set by the confirmation policy at creation)
+ * - Keeps the risk rating of unconfirmed transactions, which decides whether
+ *   a payment requiring 0 confirmations accepts them
+ * - Follows replacements (e.g. replace-by-fee bumps) and evictions of
+ *   unconfirmed transactions, rolling the payment back if they leave it unpaid
+ * - Keeps the block each transaction confirmed in, and rolls payments back
+ *   when a chain reorganization removes those blocks
  *
  * Security considerations:
  * - Only stores public information (addresses, transaction IDs)
@@ -19,50 +40,185 @@
  * - Data persists across server restarts
  */
 
-import { PaymentStatus, type PaymentStatusResponse } from "@/types";
+import {
+  AddressType,
+  PaymentHistoryEvent,
+  PaymentStatus,
+  type PaymentStatusResponse,
+  type PaymentStatusTransition,
+  type PaymentUpdateSource,
+  type ZeroConfRisk,
+} from "@/types";
 import { promises as fs } from "fs";
-import path from "path";
 import { existsSync } from "fs";
+import { withFileLock, writeFileAtomic } from "@/lib/store/file-lock";
+import { getStoreConfig } from "@/lib/store/config";
+import { getPaymentStore } from "@/lib/store/stores";
+import {
+  assertPaymentTransition,
+  checkPaymentTransition,
+  DEFAULT_REQUIRED_CONFIRMATIONS,
+  FUNDED_PAYMENT_STATUSES,
+} from "@/lib/store/payment-state-machine";
+import {
+  acceptsUnconfirmedFunds,
+  creditPaymentTransaction,
+  evictPaymentTransaction,
+  getAmountToleranceSatoshis,
+  isActivePaymentTransaction,
+  reorgPaymentTransactions,
+  replacePaymentTransactions,
+  summarizePaymentTransactions,
+  type ReorgedTransactionState,
+} from "@/lib/store/payment-transactions";
+import type {
+  ArchivedPaymentRequest,
+  PaymentStatusData,
+  PaymentStoreStats,
+  SuspiciousPaymentEvent,
+} from "@/lib/store/payment-store";
 
 /**
- * Extended payment status data stored internally
- * Includes additional metadata beyond what's exposed to clients
+ * Optional metadata recorded when a payment request is created
  */
-interface PaymentStatusData extends PaymentStatusResponse {
-  /** Bitcoin address for this payment */
-  address: string;
-  /** Amount expected in BTC (optional) */
-  expectedAmount?: number;
-  /** Amount received in satoshis (optional) */
-  receivedAmount?: number;
-  /** Webhook ID from BlockCypher (optional) */
-  webhookId?: string;
-  /** When the payment request was created */
-  createdAt: number;
-  /** Confidence level for unconfirmed transactions (0-100) */
-  confidence?: number;
-  /** Whether this is a double spend attempt */
-  isDoubleSpend?: boolean;
+export interface InitializePaymentOptions {
+  /** BIP32 derivation path of the payment address */
+  derivationPath?: string;
+  /** Child index of the payment address on the receiving chain */
+  derivationIndex?: number;
+  /** Receive address type of the payment address */
+  addressType?: AddressType;
+  /** All watch IDs returned by the chain provider */
+  webhookIds?: string[];
+  /** Secret embedded in the webhook callback URL */
+  webhookSecret?: string;
+  /** When the request expires if still unpaid (never if omitted) */
+  expiresAt?: number;
+  /** Confirmations needed to be CONFIRMED (1 if omitted) */
+  requiredConfirmations?: number;
+  /** Never-funded payment the address was recycled from, archived with the new one */
+  previousPayment?: PaymentStatusData;
 }
 
 /**
- * File-based store configuration
- * Uses unique directories for tests to prevent concurrent access issues
+ * Derivation state of a single account (one per address type)
  */
-function getStoreConfig() {
-  const isTest = process.env.NODE_ENV === "test" || process.env.JEST_WORKER_ID;
-  const baseDir = isTest
-    ? path.join(
-        process.cwd(),
-        ".payment-store-test",
-        `worker-${process.env.JEST_WORKER_ID || "main"}`
-      )
-    : path.join(process.cwd(), ".payment-store");
+interface AccountState {
+  /** Next unused child index on the receiving chain */
+  nextAddressIndex: number;
+  /** Highest child index that has received a payment (-1 if none) */
+  highestUsedIndex: number;
+}
 
-  return {
-    STORE_DIR: baseDir,
-    STORE_FILE: path.join(baseDir, "payment-statuses.json"),
-  };
+/**
+ * Persistent wallet state stored next to the payment statuses
+ */
+interface WalletState {
+  /** Derivation state per address type, each derived from its own account xpub */
+  accounts: Partial<Record<AddressType, AccountState>>;
+}
+
+/**
+ * Address allocator state exposed for diagnostics
+ */
+export interface AddressAllocatorState {
+  /** Next child index that would be derived */
+  nextAddressIndex: number;
+  /** Highest child index that has received a payment (-1 if none) */
+  highestUsedIndex: number;
+  /** Consecutive derived indexes after the highest used one (the current gap) */
+  unusedCount: number;
+}
+
+/**
+ * Options for allocating an address index
+ */
+export interface AllocateAddressIndexOptions {
+  /** Maximum number of consecutive unused indexes (BIP44 gap limit) */
+  gapLimit: number;
+  /** Never-funded payments created before this timestamp may be recycled */
+  recycleCreatedBefore: number;
+  /** Address type whose account to allocate from (defaults to P2WPKH) */
+  addressType?: AddressType;
+}
+
+/**
+ * Result of an address index allocation
+ */
+export type AddressIndexAllocation =
+  | { kind: "new"; index: number }
+  | {
+      kind: "recycled";
+      index: number;
+      address: string;
+      /** The never-funded payment as it was before the address was claimed */
+      previous: PaymentStatusData;
+    }
+  | { kind: "gap-limit-reached"; state: AddressAllocatorState };
+
+/**
+ * How many rejected notifications a payment keeps in `suspiciousEvents`
+ * A source that keeps reporting bad data must not grow the record without bound
+ */
+export const MAX_SUSPICIOUS_EVENTS = 50;
+
+/**
+ * How many earlier requests a recycled address keeps in `previousRequests`
+ */
+export const MAX_ARCHIVED_REQUESTS = 10;
+
+/**
+ * How long processed webhook events are remembered
+ * BlockCypher stops retrying a delivery long before this
+ */
+export const WEBHOOK_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Processed webhook event recorded in the ledger
+ */
+export interface WebhookEventRecord {
+  /** Webhook event type (x-eventtype) */
+  eventType: string;
+  /** When the event was processed */
+  processedAt: number;
+}
+
+/**
+ * Options for a status change that is not reported by a transaction
+ */
+export interface TransitionPaymentOptions {
+  /** What requested the change (defaults to `manual`) */
+  source?: PaymentUpdateSource;
+  /** Shown to the client as the error message (optional) */
+  message?: string;
+}
+
+/**
+ * The transaction a status update reports and what else is known about it
+ */
+export interface UpdatePaymentOptions {
+  /** Transaction hash/ID */
+  transactionId: string;
+  /** Number of confirmations (defaults to 0) */
+  confirmations?: number;
+  /** Amount received in satoshis */
+  receivedAmount?: number;
+  /** Confidence level of an unconfirmed transaction */
+  confidence?: number;
+  /** Whether the transaction is a double spend */
+  isDoubleSpend?: boolean;
+  /** What reported the update (defaults to `manual`) */
+  source?: PaymentUpdateSource;
+  /** Whether the transaction signals replace-by-fee */
+  signalsRbf?: boolean;
+  /** Risk rating of an unconfirmed transaction */
+  risk?: ZeroConfRisk;
+  /** Outputs the transaction spends as `txid:vout` */
+  spends?: string[];
+  /** Hash of the block the transaction confirmed in */
+  blockHash?: string;
+  /** Height of the block the transaction confirmed in */
+  blockHeight?: number;
 }
 
 /**
@@ -76,42 +232,366 @@ async function ensureStoreDir(): Promise<void> {
 }
 
 /**
- * Load payment statuses from file
+ * Validate a persisted account state
  */
-async function loadPaymentStatuses(): Promise<Map<string, PaymentStatusData>> {
-  try {
-    const { STORE_FILE } = getStoreConfig();
-    await ensureStoreDir();
+function parseAccountState(value: unknown): AccountState {
+  const parsed = (value ?? {}) as Partial<AccountState>;
 
-    if (!existsSync(STORE_FILE)) {
-      return new Map();
-    }
+  if (
+    typeof parsed.nextAddressIndex !== "number" ||
+    !Number.isInteger(parsed.nextAddressIndex) ||
+    parsed.nextAddressIndex < 0
+  ) {
+    throw new Error("Wallet state file contains an invalid address index");
+  }
 
-    const data = await fs.readFile(STORE_FILE, "utf-8");
-    const parsed = JSON.parse(data);
-    return new Map(Object.entries(parsed));
-  } catch (error) {
-    console.error("[PAYMENT_STORE] Error loading payment statuses:", error);
-    return new Map();
+  return {
+    nextAddressIndex: parsed.nextAddressIndex,
+    highestUsedIndex:
+      typeof parsed.highestUsedIndex === "number"
+        ? parsed.highestUsedIndex
+        : -1,
+  };
+}
+
+/**
+ * Load wallet state from file
+ */
+async function loadWalletState(): Promise<WalletState> {
+  const { WALLET_STATE_FILE } = getStoreConfig();
+  await ensureStoreDir();
+
+  if (!existsSync(WALLET_STATE_FILE)) {
+    return { accounts: {} };
+  }
+
+  // Unlike payment statuses, a corrupt wallet state must not silently reset
+  // the index to 0, which would hand out already-used addresses again
+  const data = await fs.readFile(WALLET_STATE_FILE, "utf-8");
+  const parsed = JSON.parse(data) as {
+    accounts?: Record<string, unknown>;
+    nextAddressIndex?: unknown;
+  };
+
+  // State written before address types existed tracked the P2WPKH account only
+  if (!parsed.accounts && parsed.nextAddressIndex !== undefined) {
+    return { accounts: { [AddressType.P2WPKH]: parseAccountState(parsed) } };
+  }
+
+  const accounts: WalletState["accounts"] = {};
+  for (const [addressType, account] of Object.entries(parsed.accounts ?? {})) {
+    accounts[addressType as AddressType] = parseAccountState(account);
   }
+
+  return { accounts };
 }
 
 /**
- * Save payment statuses to file
+ * Get the derivation state of one account, starting fresh if never used
  */
-async function savePaymentStatuses(
-  store: Map<string, PaymentStatusData>
+function getAccountState(
+  state: WalletState,
+  addressType: AddressType
+): AccountState {
+  return (
+    state.accounts[addressType] ?? { nextAddressIndex: 0, highestUsedIndex: -1 }
+  );
+}
+
+/**
+ * Return a copy of the wallet state with one account replaced
+ */
+function withAccountState(
+  state: WalletState,
+  addressType: AddressType,
+  account: AccountState
+): WalletState {
+  return { accounts: { ...state.accounts, [addressType]: account } };
+}
+
+/**
+ * Save wallet state to file
+ */
+async function saveWalletState(state: WalletState): Promise<void> {
+  const { WALLET_STATE_FILE } = getStoreConfig();
+  await ensureStoreDir();
+  await writeFileAtomic(WALLET_STATE_FILE, JSON.stringify(state, null, 2));
+}
+
+/**
+ * Run a wallet state operation under the wallet state lock, so that
+ * concurrent payment requests never receive the same derivation index
+ *
+ * Operations may take the payment store lock, never the other way round.
+ */
+function enqueueWalletStateOperation<T>(operation: () => Promise<T>): Promise<T> {
+  return withFileLock(getStoreConfig().WALLET_STATE_FILE, operation);
+}
+
+/**
+ * Compute the allocator diagnostics view of the wallet state
+ */
+function toAllocatorState(state: AccountState): AddressAllocatorState {
+  return {
+    nextAddressIndex: state.nextAddressIndex,
+    highestUsedIndex: state.highestUsedIndex,
+    unusedCount: Math.max(
+      0,
+      state.nextAddressIndex - (state.highestUsedIndex + 1)
+    ),
+  };
+}
+
+/**
+ * Reserve the next receiving-chain index for xpub address derivation
+ * The counter is persisted so indexes are never reused across restarts
+ *
+ * @param addressType - Address type whose account to reserve from (defaults to P2WPKH)
+ * @returns The reserved child index
+ */
+export async function reserveNextAddressIndex(
+  addressType: AddressType = AddressType.P2WPKH
+): Promise<number> {
+  const index = await enqueueWalletStateOperation(async () => {
+    const state = await loadWalletState();
+    const account = getAccountState(state, addressType);
+    await saveWalletState(
+      withAccountState(state, addressType, {
+        ...account,
+        nextAddressIndex: account.nextAddressIndex + 1,
+      })
+    );
+    return account.nextAddressIndex;
+  });
+
+  console.log("[PAYMENT_STORE] Reserved address index:", index, {
+    addressType,
+  });
+  return index;
+}
+
+/**
+ * Check whether a payment's address may be handed out again: derived from the
+ * given account, created before the cutoff, never funded (awaiting payment or
+ * expired) and not within its expiry window
+ */
+function isRecyclable(
+  status: PaymentStatusData,
+  addressType: AddressType,
+  createdBefore: number
+): boolean {
+  return (
+    status.derivationIndex !== undefined &&
+    (status.addressType ?? AddressType.P2WPKH) === addressType &&
+    (status.status === PaymentStatus.AWAITING_PAYMENT ||
+      status.status === PaymentStatus.EXPIRED) &&
+    !status.transactionId &&
+    status.createdAt < createdBefore &&
+    (status.expiresAt === undefined || status.expiresAt <= Date.now())
+  );
+}
+
+/**
+ * Claim the lowest-indexed recyclable address by resetting its createdAt
+ * Candidates funded between the query and the claim are skipped
+ *
+ * @returns The claimed payment as it was before the claim, or undefined if
+ *   none is recyclable
+ */
+async function claimRecyclableAddress(
+  addressType: AddressType,
+  createdBefore: number
+): Promise<PaymentStatusData | undefined> {
+  const store = getPaymentStore();
+  const candidates = (
+    await store.getAllPaymentStatuses([
+      PaymentStatus.AWAITING_PAYMENT,
+      PaymentStatus.EXPIRED,
+    ])
+  )
+    .filter((status) => isRecyclable(status, addressType, createdBefore))
+    .sort((a, b) => a.derivationIndex! - b.derivationIndex!);
+
+  for (const candidate of candidates) {
+    const now = Date.now();
+    let previous: PaymentStatusData | undefined;
+    const claimed = await store.updatePaymentStatus(
+      candidate.address,
+      (current) => {
+        if (!isRecyclable(current, addressType, createdBefore)) {
+          return null;
+        }
+        previous = current;
+        return { ...current, createdAt: now, lastUpdated: now };
+      }
+    );
+    if (claimed) {
+      return previous;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Allocate an address index while respecting the gap limit
+ *
+ * Prefers recycling the lowest-indexed derived address that expired without
+ * ever being funded. Otherwise reserves a new index, unless that would leave
+ * more than `gapLimit` consecutive unused addresses after the highest used one,
+ * which wallets restored from the account xpub would not scan.
+ *
+ * A recycled payment is claimed immediately (its createdAt is reset) so that
+ * concurrent allocations cannot hand out the same address twice.
+ *
+ * Each address type has its own account, so recycling and the gap limit only
+ * consider payments of the requested type.
+ *
+ * @param options - Gap limit, recycling cutoff and address type
+ * @returns The allocation result
+ */
+export async function allocateAddressIndex(
+  options: AllocateAddressIndexOptions
+): Promise<AddressIndexAllocation> {
+  const addressType = options.addressType ?? AddressType.P2WPKH;
+
+  return enqueueWalletStateOperation(async () => {
+    const recyclable = await claimRecyclableAddress(
+      addressType,
+      options.recycleCreatedBefore
+    );
+
+    if (recyclable) {
+      console.log("[PAYMENT_STORE] Recycled never-funded address:", {
+        address: recyclable.address,
+        derivationIndex: recyclable.derivationIndex,
+        addressType,
+      });
+
+      return {
+        kind: "recycled" as const,
+        index: recyclable.derivationIndex!,
+        address: recyclable.address,
+        previous: recyclable,
+      };
+    }
+
+    const state = await loadWalletState();
+    const account = getAccountState(state, addressType);
+    const allocatorState = toAllocatorState(account);
+
+    if (allocatorState.unusedCount >= options.gapLimit) {
+      console.warn("[PAYMENT_STORE] Address gap limit reached:", {
+        ...allocatorState,
+        addressType,
+      });
+      return { kind: "gap-limit-reached" as const, state: allocatorState };
+    }
+
+    await saveWalletState(
+      withAccountState(state, addressType, {
+        ...account,
+        nextAddressIndex: account.nextAddressIndex + 1,
+      })
+    );
+
+    console.log(
+      "[PAYMENT_STORE] Allocated new address index:",
+      account.nextAddressIndex,
+      { addressType }
+    );
+
+    return { kind: "new" as const, index: account.nextAddressIndex };
+  });
+}
+
+/**
+ * Record that a derived address index has received a payment
+ * Advances the highest used index, shrinking the current gap
+ *
+ * @param index - Child index that received funds
+ * @param addressType - Address type of the funded address
+ */
+async function markAddressIndexUsed(
+  index: number,
+  addressType: AddressType
 ): Promise<void> {
-  try {
-    const { STORE_FILE } = getStoreConfig();
-    await ensureStoreDir();
+  await enqueueWalletStateOperation(async () => {
+    const state = await loadWalletState();
+    const account = getAccountState(state, addressType);
+    if (index > account.highestUsedIndex) {
+      await saveWalletState(
+        withAccountState(state, addressType, {
+          ...account,
+          highestUsedIndex: index,
+        })
+      );
+    }
+  });
+}
 
-    const data = JSON.stringify(Object.fromEntries(store), null, 2);
-    await fs.writeFile(STORE_FILE, data, "utf-8");
-  } catch (error) {
-    console.error("[PAYMENT_STORE] Error saving payment statuses:", error);
-    throw error;
+/**
+ * Get address allocator state (for diagnostics)
+ *
+ * @param addressType - Address type whose account to inspect (defaults to P2WPKH)
+ * @returns Highest used index, next index and current unused gap
+ */
+export async function getAddressAllocatorState(
+  addressType: AddressType = AddressType.P2WPKH
+): Promise<AddressAllocatorState> {
+  const state = await enqueueWalletStateOperation(() => loadWalletState());
+  return toAllocatorState(getAccountState(state, addressType));
+}
+
+/**
+ * Archive a recycled address's previous request after those it archived
+ * itself, keeping the newest `MAX_ARCHIVED_REQUESTS`
+ */
+function archivePaymentRequest(
+  previous: PaymentStatusData,
+  recycledAt: number
+): ArchivedPaymentRequest[] {
+  const archived: ArchivedPaymentRequest = {
+    status: previous.status,
+    expectedAmount: previous.expectedAmount,
+    createdAt: previous.createdAt,
+    expiresAt: previous.expiresAt,
+    webhookIds:
+      previous.webhookIds ??
+      (previous.webhookId ? [previous.webhookId] : undefined),
+    history: previous.history,
+    recycledAt,
+  };
+  return [...(previous.previousRequests ?? []), archived].slice(
+    -MAX_ARCHIVED_REQUESTS
+  );
+}
+
+/**
+ * Give a recycled address back when the request it was claimed for failed
+ * The previous payment is restored as it was, so the address stays
+ * recyclable, unless the address has meanwhile been funded
+ *
+ * @param previous - The payment as it was before the claim
+ * @returns True if the previous payment was restored
+ */
+export async function releaseRecycledAddress(
+  previous: PaymentStatusData
+): Promise<boolean> {
+  const restored = await getPaymentStore().updatePaymentStatus(
+    previous.address,
+    (current) => (current.transactionId ? null : previous)
+  );
+
+  if (!restored) {
+    return false;
   }
+
+  console.log(
+    "[PAYMENT_STORE] Released recycled address after a failed request:",
+    previous.address
+  );
+  return true;
 }
 
 /**
@@ -121,11 +601,13 @@ async function savePaymentStatuses(
  * @param address - Bitcoin testnet address
  * @param expectedAmount - Expected payment amount in BTC (optional)
  * @param webhookId - BlockCypher webhook ID (optional)
+ * @param options - Address type and derivation metadata (optional)
  */
 export async function initializePaymentStatus(
   address: string,
   expectedAmount?: number,
-  webhookId?: string
+  webhookId?: string,
+  options: InitializePaymentOptions = {}
 ): Promise<void> {
   const now = Date.now();
 
@@ -134,13 +616,21 @@ export async function initializePaymentStatus(
     status: PaymentStatus.AWAITING_PAYMENT,
     expectedAmount,
     webhookId,
+    webhookIds: options.webhookIds,
+    webhookSecret: options.webhookSecret,
+    derivationPath: options.derivationPath,
+    derivationIndex: options.derivationIndex,
+    addressType: options.addressType,
+    expiresAt: options.expiresAt,
+    requiredConfirmations: options.requiredConfirmations,
+    previousRequests:
+      options.previousPayment &&
+      archivePaymentRequest(options.previousPayment, now),
     createdAt: now,
     lastUpdated: now,
   };
 
-  const store = await loadPaymentStatuses();
-  store.set(address, initialStatus);
-  await savePaymentStatuses(store);
+  await getPaymentStore().initializePaymentStatus(initialStatus);
 
   console.log(
     "[PAYMENT_STORE] Initialized payment status for address:",
@@ -148,76 +638,895 @@ export async function initializePaymentStatus(
     {
       expectedAmount,
       webhookId,
+      derivationPath: options.derivationPath,
+      addressType: options.addressType,
+      expiresAt: options.expiresAt,
+      requiredConfirmations: options.requiredConfirmations,
       status: PaymentStatus.AWAITING_PAYMENT,
     }
   );
 }
 
+/**
+ * Append a transition to the history of an updated record
+ * Repeated notifications of the same state are not transitions, but dropped
+ * transactions are always recorded
+ */
+function withTransition(
+  existing: PaymentStatusData,
+  updated: PaymentStatusData,
+  source: PaymentUpdateSource,
+  dropped?: { event: PaymentHistoryEvent; transactionIds: string[] }
+): PaymentStatusData {
+  if (
+    !dropped &&
+    updated.status === existing.status &&
+    updated.transactionId === existing.transactionId &&
+    updated.confirmations === existing.confirmations
+  ) {
+    return updated;
+  }
+
+  const transition: PaymentStatusTransition = {
+    from: existing.status,
+    to: updated.status,
+    transactionId: updated.transactionId,
+    confirmations: updated.confirmations ?? 0,
+    source,
+    ...(dropped && {
+      event: dropped.event,
+      droppedTransactionIds: dropped.transactionIds,
+    }),
+    timestamp: updated.lastUpdated ?? Date.now(),
+  };
+  return { ...updated, history: [...(existing.history ?? []), transition] };
+}
+
 /**
  * Update payment status from webhook data
  * Called when BlockCypher sends a webhook notification
  *
+ * Every detected or confirmed transaction is credited to the payment with its
+ * own amount and confirmations (see `payment-transactions.ts`). The status is
+ * derived from all of them: a payment whose total falls short of the
+ * expected amount by more than the tolerance is UNDERPAID, and its
+ * confirmations are those at which the transactions cover the expected
+ * amount. A payment paid in full is CONFIRMED once it has its required
+ * confirmations, and OVERPAID once its confirmed funds exceed the expected
+ * amount; with a requirement of zero, unconfirmed funds are only accepted if
+ * every unconfirmed transaction is rated low-risk enough (see
+ * `zero-conf-risk.ts`). A transaction spending the same outputs as an
+ * unconfirmed credited one replaces it: the payment follows the replacement,
+ * falling back if it pays less, and records the replacement in its history.
+ * An unconfirmed transaction reported as a double spend is credited with its
+ * high-risk rating, so a payment that accepted it unconfirmed falls back to
+ * PAYMENT_DETECTED until it confirms.
+ * Replaced and evicted transactions are only credited again once confirmed.
+ * Updates that would lower a transaction's confirmations (e.g. a
+ * 1-confirmation event delivered after a 3-confirmation one) and updates the
+ * state machine rejects (e.g. any update of a refunded payment) are ignored. Applied updates that change
+ * the status, transaction or confirmations are appended to the payment's history.
+ *
+ * Funds received by an expired request are recorded, but the payment stays
+ * EXPIRED and is flagged with `latePayment` until an operator accepts it with
+ * `transitionPaymentStatus` (or refunds it).
+ *
  * @param address - Bitcoin testnet address
  * @param status - New payment status
- * @param transactionId - Transaction hash/ID
- * @param confirmations - Number of confirmations
- * @param receivedAmount - Amount received in satoshis (optional)
- * @param confidence - Confidence level for unconfirmed tx (optional)
- * @param isDoubleSpend - Whether this is a double spend (optional)
+ * @param options - The transaction with its confirmations, amount,
+ *   confidence and double-spend flag, and the source, replace-by-fee
+ *   signalling, risk rating, spent outputs and confirming block
+ * @returns True if the update was applied
  */
 export async function updatePaymentStatus(
   address: string,
   status: PaymentStatus,
-  transactionId: string,
-  confirmations: number = 0,
-  receivedAmount?: number,
-  confidence?: number,
-  isDoubleSpend?: boolean
-): Promise<void> {
-  const store = await loadPaymentStatuses();
-  const existingStatus = store.get(address);
+  options: UpdatePaymentOptions
+): Promise<boolean> {
+  const {
+    transactionId,
+    confirmations = 0,
+    receivedAmount,
+    confidence,
+    isDoubleSpend,
+    source = "manual",
+    signalsRbf,
+    risk,
+    spends,
+    blockHash,
+    blockHeight,
+  } = options;
+  const store = getPaymentStore();
 
-  if (!existingStatus) {
+  // Do NOT create new entries for unknown addresses
+  // Only update addresses that were initialized by createPaymentRequest
+  if (!(await store.hasPaymentStatus(address))) {
     console.warn(
       "[PAYMENT_STORE] Attempted to update non-existent payment status for address:",
       address
     );
-    // Do NOT create new entries for unknown addresses
-    // Only update addresses that were initialized by createPaymentRequest
-    return;
+    return false;
   }
 
-  // Update the status
-  const updatedStatus: PaymentStatusData = {
-    ...existingStatus,
-    status,
-    transactionId,
-    confirmations,
-    receivedAmount: receivedAmount ?? existingStatus.receivedAmount,
-    confidence: confidence ?? existingStatus.confidence,
-    isDoubleSpend: isDoubleSpend ?? existingStatus.isDoubleSpend,
-    lastUpdated: Date.now(),
-  };
+  // The wallet state is updated after the store lock is released
+  const updated = await store.updatePaymentStatus(address, (existingStatus) => {
+    const now = Date.now();
+    const ignore = (reason: string, nextStatus: PaymentStatus) => {
+      console.log("[PAYMENT_STORE] Ignored update for address:", address, {
+        reason,
+        current: existingStatus.status,
+        currentConfirmations: existingStatus.confirmations,
+        status: nextStatus,
+        transactionId,
+        confirmations,
+      });
+      return null;
+    };
 
-  // Handle error status
-  if (status === PaymentStatus.ERROR) {
-    if (isDoubleSpend) {
-      updatedStatus.errorMessage = "Double spend detected";
-    } else {
-      updatedStatus.errorMessage = "Payment processing error";
+    // Transactions already credited only gain confirmations
+    const credited = existingStatus.transactions?.find(
+      (transaction) => transaction.transactionId === transactionId
+    );
+    if (credited && confirmations < credited.confirmations) {
+      return ignore("confirmations-decreased", status);
+    }
+    // e.g. a late notification of a transaction that was since replaced
+    if (
+      credited &&
+      !isActivePaymentTransaction(credited) &&
+      confirmations === 0
+    ) {
+      return ignore("transaction-dropped", status);
+    }
+
+    // Funds are credited per transaction; the status follows their aggregate
+    const replacement = FUNDED_PAYMENT_STATUSES.includes(status)
+      ? replacePaymentTransactions(
+          creditPaymentTransaction(existingStatus.transactions, {
+            transactionId,
+            amount: receivedAmount,
+            confirmations,
+            signalsRbf,
+            risk,
+            spends,
+            blockHash,
+            blockHeight,
+            firstSeen: now,
+          }),
+          transactionId
+        )
+      : undefined;
+    const transactions = replacement?.transactions;
+    const replaced = replacement?.replaced ?? [];
+    const summary =
+      transactions &&
+      summarizePaymentTransactions(
+        transactions,
+        existingStatus.expectedAmount,
+        getAmountToleranceSatoshis(),
+        existingStatus.requiredConfirmations
+      );
+    const resolvedStatus = summary?.status ?? status;
+    const nextConfirmations = summary?.confirmations ?? confirmations;
+
+    // Late funds are kept on the expired payment for manual review
+    const isLatePayment =
+      existingStatus.status === PaymentStatus.EXPIRED &&
+      FUNDED_PAYMENT_STATUSES.includes(resolvedStatus);
+    const nextStatus = isLatePayment ? PaymentStatus.EXPIRED : resolvedStatus;
+
+    const rejection = checkPaymentTransition(existingStatus, {
+      status: nextStatus,
+      transactionId,
+      confirmations: nextConfirmations,
+      requiredConfirmations: existingStatus.requiredConfirmations,
+      acceptsUnconfirmed: acceptsUnconfirmedFunds(
+        transactions ?? existingStatus.transactions
+      ),
+      // A double spend withdraws the acceptance of unconfirmed funds
+      rollback:
+        replaced.length > 0 ||
+        (isDoubleSpend === true && confirmations === 0),
+      source,
+    });
+    if (rejection) {
+      return ignore(rejection.reason, nextStatus);
+    }
+
+    if (replaced.length > 0) {
+      console.warn(
+        "[PAYMENT_STORE] Transaction replaced for address:",
+        address,
+        { replaced, replacement: transactionId }
+      );
+    }
+
+    // Update the status
+    const updatedStatus: PaymentStatusData = {
+      ...existingStatus,
+      status: nextStatus,
+      transactionId,
+      confirmations: nextConfirmations,
+      transactions: transactions ?? existingStatus.transactions,
+      receivedAmount: summary
+        ? summary.receivedAmount
+        : (receivedAmount ?? existingStatus.receivedAmount),
+      outstandingAmount: summary
+        ? summary.outstandingAmount
+        : existingStatus.outstandingAmount,
+      confidence: confidence ?? existingStatus.confidence,
+      isDoubleSpend: isDoubleSpend ?? existingStatus.isDoubleSpend,
+      lastUpdated: now,
+    };
+
+    if (isLatePayment) {
+      updatedStatus.latePayment = true;
+      if (!existingStatus.latePayment) {
+        console.warn(
+          "[PAYMENT_STORE] Payment received after expiry, flagged for review:",
+          address,
+          {
+            transactionId,
+            receivedAmount: updatedStatus.receivedAmount,
+            status: resolvedStatus,
+          }
+        );
+      }
+    }
+
+    // Handle error status
+    if (status === PaymentStatus.ERROR) {
+      if (isDoubleSpend) {
+        updatedStatus.errorMessage = "Double spend detected";
+      } else {
+        updatedStatus.errorMessage = "Payment processing error";
+      }
     }
+
+    return withTransition(
+      existingStatus,
+      updatedStatus,
+      source,
+      replaced.length > 0
+        ? { event: PaymentHistoryEvent.REPLACED, transactionIds: replaced }
+        : undefined
+    );
+  });
+
+  if (!updated) {
+    return false;
   }
 
-  store.set(address, updatedStatus);
-  await savePaymentStatuses(store);
+  // A funded derived address closes the gap up to its index
+  if (
+    updated.derivationIndex !== undefined &&
+    status !== PaymentStatus.AWAITING_PAYMENT
+  ) {
+    await markAddressIndexUsed(
+      updated.derivationIndex,
+      updated.addressType ?? AddressType.P2WPKH
+    );
+  }
 
   console.log("[PAYMENT_STORE] Updated payment status for address:", address, {
-    status,
+    status: updated.status,
     transactionId,
     confirmations,
     receivedAmount,
     isDoubleSpend,
+    source,
   });
+  return true;
+}
+
+/**
+ * Move a payment to a status that no transaction reports, such as EXPIRED
+ * or REFUNDED, or accept a late payment after review (e.g. EXPIRED to
+ * CONFIRMED, which only the `manual` source may do)
+ *
+ * @param address - Bitcoin testnet address
+ * @param status - New payment status
+ * @param options - Source and client-facing message (optional)
+ * @returns The updated payment, or null if the address is unknown
+ * @throws {PaymentTransitionError} When the state machine rejects the change
+ */
+export async function transitionPaymentStatus(
+  address: string,
+  status: PaymentStatus,
+  options: TransitionPaymentOptions = {}
+): Promise<PaymentStatusData | null> {
+  const updated = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => {
+      assertPaymentTransition(existingStatus, {
+        status,
+        transactionId: existingStatus.transactionId,
+        confirmations: existingStatus.confirmations ?? 0,
+        requiredConfirmations: existingStatus.requiredConfirmations,
+        acceptsUnconfirmed: acceptsUnconfirmedFunds(
+          existingStatus.transactions
+        ),
+        source: options.source ?? "manual",
+      });
+
+      return withTransition(
+        existingStatus,
+        {
+          ...existingStatus,
+          status,
+          errorMessage: options.message ?? existingStatus.errorMessage,
+          lastUpdated: Date.now(),
+        },
+        options.source ?? "manual"
+      );
+    }
+  );
+
+  if (updated) {
+    console.log("[PAYMENT_STORE] Moved payment to status:", address, {
+      status,
+      source: options.source ?? "manual",
+    });
+  }
+  return updated;
+}
+
+/**
+ * Drop a credited transaction that left the mempool without confirming
+ * (evicted, or double-spent by a transaction that does not pay the address)
+ *
+ * The payment falls back to the status its remaining transactions support,
+ * or to AWAITING_PAYMENT without any; an expired payment stays EXPIRED and
+ * is no longer flagged as a late payment. The eviction is recorded in the
+ * payment's history.
+ *
+ * @param address - Bitcoin testnet address
+ * @param transactionId - Credited transaction that left the mempool
+ * @param source - What found the eviction (recorded in the history)
+ * @returns The updated payment, or null if the address is unknown, the
+ *   transaction is not an unconfirmed credited one, or the state machine
+ *   rejects the rollback (e.g. of a refunded payment)
+ */
+export async function recordEvictedTransaction(
+  address: string,
+  transactionId: string,
+  source: PaymentUpdateSource = "reconciler"
+): Promise<PaymentStatusData | null> {
+  const updated = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => {
+      const credited = existingStatus.transactions?.find(
+        (transaction) => transaction.transactionId === transactionId
+      );
+      if (
+        !credited ||
+        !isActivePaymentTransaction(credited) ||
+        credited.confirmations > 0
+      ) {
+        return null;
+      }
+
+      const now = Date.now();
+      const transactions = evictPaymentTransaction(
+        existingStatus.transactions!,
+        transactionId,
+        now
+      );
+      const remaining = transactions.filter(isActivePaymentTransaction);
+      const summary = summarizePaymentTransactions(
+        transactions,
+        existingStatus.expectedAmount,
+        getAmountToleranceSatoshis(),
+        existingStatus.requiredConfirmations
+      );
+      const nextStatus =
+        existingStatus.status === PaymentStatus.EXPIRED
+          ? PaymentStatus.EXPIRED
+          : summary.status;
+      const nextTransactionId = remaining[remaining.length - 1]?.transactionId;
+
+      const rejection = checkPaymentTransition(existingStatus, {
+        status: nextStatus,
+        transactionId: nextTransactionId,
+        confirmations: summary.confirmations,
+        requiredConfirmations: existingStatus.requiredConfirmations,
+        acceptsUnconfirmed: acceptsUnconfirmedFunds(transactions),
+        rollback: true,
+        source,
+      });
+      if (rejection) {
+        console.log("[PAYMENT_STORE] Ignored eviction for address:", address, {
+          reason: rejection.reason,
+          current: existingStatus.status,
+          transactionId,
+        });
+        return null;
+      }
+
+      return withTransition(
+        existingStatus,
+        {
+          ...existingStatus,
+          status: nextStatus,
+          transactionId: nextTransactionId,
+          confirmations: summary.confirmations,
+          transactions,
+          receivedAmount: summary.receivedAmount,
+          outstandingAmount: summary.outstandingAmount,
+          latePayment:
+            remaining.length > 0 ? existingStatus.latePayment : undefined,
+          lastUpdated: now,
+        },
+        source,
+        { event: PaymentHistoryEvent.EVICTED, transactionIds: [transactionId] }
+      );
+    }
+  );
+
+  if (updated) {
+    console.warn("[PAYMENT_STORE] Transaction evicted for address:", address, {
+      transactionId,
+      status: updated.status,
+      source,
+    });
+  }
+  return updated;
+}
+
+/**
+ * Apply a chain reorganization to credited transactions whose confirming
+ * block left the best chain
+ *
+ * Each transaction takes on the state the chain reports now: confirmed in
+ * another block, back in the mempool, or unknown (evicted, e.g. because a
+ * conflicting transaction was mined instead). The payment falls back to the
+ * status its transactions support, down to PAYMENT_DETECTED or
+ * AWAITING_PAYMENT; an expired payment stays EXPIRED and is no longer
+ * flagged as a late payment without active transactions. The
+ * reorganization is recorded in the payment's history.
+ *
+ * @param address - Bitcoin testnet address
+ * @param reorged - Chain state per reorganized transaction ID (null if the
+ *   chain no longer knows the transaction)
+ * @param source - What found the reorganization (recorded in the history)
+ * @returns The updated payment, or null if the address is unknown, none of
+ *   the transactions is an active credited one, or the state machine
+ *   rejects the rollback (e.g. of a refunded payment)
+ */
+export async function recordReorgedTransactions(
+  address: string,
+  reorged: ReadonlyMap<string, ReorgedTransactionState | null>,
+  source: PaymentUpdateSource = "reconciler"
+): Promise<PaymentStatusData | null> {
+  let transactionIds: string[] = [];
+
+  const updated = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => {
+      const credited = (existingStatus.transactions ?? []).filter(
+        (transaction) =>
+          isActivePaymentTransaction(transaction) &&
+          reorged.has(transaction.transactionId)
+      );
+      if (credited.length === 0) {
+        return null;
+      }
+      transactionIds = credited.map((transaction) => transaction.transactionId);
+
+      const now = Date.now();
+      const transactions = reorgPaymentTransactions(
+        existingStatus.transactions!,
+        new Map(transactionIds.map((id) => [id, reorged.get(id) ?? null])),
+        now
+      );
+      const remaining = transactions.filter(isActivePaymentTransaction);
+      const summary = summarizePaymentTransactions(
+        transactions,
+        existingStatus.expectedAmount,
+        getAmountToleranceSatoshis(),
+        existingStatus.requiredConfirmations
+      );
+      const nextStatus =
+        existingStatus.status === PaymentStatus.EXPIRED
+          ? PaymentStatus.EXPIRED
+          : summary.status;
+      const nextTransactionId = remaining.some(
+        (transaction) =>
+          transaction.transactionId === existingStatus.transactionId
+      )
+        ? existingStatus.transactionId
+        : remaining[remaining.length - 1]?.transactionId;
+
+      const rejection = checkPaymentTransition(existingStatus, {
+        status: nextStatus,
+        transactionId: nextTransactionId,
+        confirmations: summary.confirmations,
+        requiredConfirmations: existingStatus.requiredConfirmations,
+        acceptsUnconfirmed: acceptsUnconfirmedFunds(transactions),
+        rollback: true,
+        source,
+      });
+      if (rejection) {
+        console.log(
+          "[PAYMENT_STORE] Ignored reorganization for address:",
+          address,
+          {
+            reason: rejection.reason,
+            current: existingStatus.status,
+            transactionIds,
+          }
+        );
+        return null;
+      }
+
+      return withTransition(
+        existingStatus,
+        {
+          ...existingStatus,
+          status: nextStatus,
+          transactionId: nextTransactionId,
+          confirmations: summary.confirmations,
+          transactions,
+          receivedAmount: summary.receivedAmount,
+          outstandingAmount: summary.outstandingAmount,
+          latePayment:
+            remaining.length > 0 ? existingStatus.latePayment : undefined,
+          lastUpdated: now,
+        },
+        source,
+        { event: PaymentHistoryEvent.REORGED, transactionIds }
+      );
+    }
+  );
+
+  if (updated) {
+    console.warn(
+      "[PAYMENT_STORE] Chain reorganization rolled back payment:",
+      address,
+      {
+        transactionIds,
+        status: updated.status,
+        confirmations: updated.confirmations,
+        source,
+      }
+    );
+  }
+  return updated;
+}
+
+/**
+ * Check whether an unpaid payment's expiry has passed
+ */
+function isOverdue(status: PaymentStatusData, now: number): boolean {
+  return (
+    status.status === PaymentStatus.AWAITING_PAYMENT &&
+    status.expiresAt !== undefined &&
+    status.expiresAt <= now
+  );
+}
+
+/**
+ * Move a payment to EXPIRED if it is still unpaid after its expiry
+ * Payments funded in the meantime are left unchanged
+ *
+ * @returns The expired payment, or null if it was not overdue
+ */
+async function expirePaymentIfOverdue(
+  address: string,
+  now: number
+): Promise<PaymentStatusData | null> {
+  const expired = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => {
+      if (!isOverdue(existingStatus, now)) {
+        return null;
+      }
+
+      assertPaymentTransition(existingStatus, {
+        status: PaymentStatus.EXPIRED,
+        confirmations: 0,
+        source: "expiry",
+      });
+
+      return withTransition(
+        existingStatus,
+        {
+          ...existingStatus,
+          status: PaymentStatus.EXPIRED,
+          lastUpdated: now,
+        },
+        "expiry"
+      );
+    }
+  );
+
+  if (expired) {
+    console.log("[PAYMENT_STORE] Expired unpaid payment request:", address, {
+      expiresAt: expired.expiresAt,
+    });
+  }
+  return expired;
+}
+
+/**
+ * Expire every unpaid payment request whose expiry has passed
+ * Called periodically by the reconciler; reads expire single payments lazily
+ *
+ * @param now - Current time (defaults to Date.now())
+ * @returns Addresses of the payments that were expired
+ */
+export async function expireOverduePayments(
+  now: number = Date.now()
+): Promise<string[]> {
+  const candidates = (
+    await getPaymentStore().getAllPaymentStatuses([
+      PaymentStatus.AWAITING_PAYMENT,
+    ])
+  ).filter((status) => isOverdue(status, now));
+
+  const expired: string[] = [];
+  for (const candidate of candidates) {
+    if (await expirePaymentIfOverdue(candidate.address, now)) {
+      expired.push(candidate.address);
+    }
+  }
+  return expired;
+}
+
+/**
+ * Get expired payments that received funds and await manual review
+ *
+ * @returns Payments flagged with `latePayment` that are still EXPIRED
+ */
+export async function getLatePayments(): Promise<PaymentStatusData[]> {
+  const expired = await getPaymentStore().getAllPaymentStatuses([
+    PaymentStatus.EXPIRED,
+  ]);
+  return expired.filter((status) => status.latePayment);
+}
+
+/**
+ * Record the watches registered for a new payment request
+ * The request is stored before its watches are registered, so that the
+ * cleanup sweep never takes them for orphans; its webhook secret is kept only
+ * if webhooks were registered
+ *
+ * @param address - Bitcoin testnet address
+ * @param webhookIds - Watch IDs returned by the chain provider (undefined if
+ *   registration was skipped or failed)
+ * @returns True if the entry changed
+ */
+export async function recordPaymentWebhooks(
+  address: string,
+  webhookIds: string[] | undefined
+): Promise<boolean> {
+  const updated = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => {
+      const { webhookSecret, ...rest } = existingStatus;
+      if (!webhookIds?.length) {
+        return webhookSecret || webhookIds
+          ? { ...rest, ...(webhookIds && { webhookIds }) }
+          : null;
+      }
+
+      return {
+        ...existingStatus,
+        webhookId: webhookIds[0],
+        webhookIds,
+      };
+    }
+  );
+
+  if (!updated) {
+    return false;
+  }
+
+  console.log("[PAYMENT_STORE] Recorded webhook IDs for address:", address, {
+    webhookIds,
+  });
+  return true;
+}
+
+/**
+ * Forget the watch IDs of a payment once they have been deleted upstream
+ *
+ * @param address - Bitcoin testnet address
+ * @returns True if the entry had watch IDs to clear
+ */
+export async function clearPaymentWebhooks(address: string): Promise<boolean> {
+  let cleared: string[] = [];
+
+  const updated = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => {
+      if (!existingStatus.webhookId && !existingStatus.webhookIds) {
+        return null;
+      }
+
+      const { webhookId, webhookIds, ...rest } = existingStatus;
+      cleared = webhookIds ?? [webhookId!];
+      return rest;
+    }
+  );
+
+  if (!updated) {
+    return false;
+  }
+
+  console.log("[PAYMENT_STORE] Cleared webhook IDs for address:", address, {
+    webhookIds: cleared,
+  });
+  return true;
+}
+
+/**
+ * Record a notification that was rejected because the chain disagreed
+ * The payment's status is left unchanged; only the newest
+ * `MAX_SUSPICIOUS_EVENTS` events are kept
+ *
+ * @param address - Bitcoin testnet address
+ * @param event - What the notification claimed and what the chain showed
+ * @returns True if the event was recorded (false for unknown addresses)
+ */
+export async function recordSuspiciousEvent(
+  address: string,
+  event: SuspiciousPaymentEvent
+): Promise<boolean> {
+  const updated = await getPaymentStore().updatePaymentStatus(
+    address,
+    (existingStatus) => ({
+      ...existingStatus,
+      suspiciousEvents: [
+        ...(existingStatus.suspiciousEvents ?? []),
+        event,
+      ].slice(-MAX_SUSPICIOUS_EVENTS),
+    })
+  );
+
+  if (!updated) {
+    return false;
+  }
+
+  console.warn(
+    "[PAYMENT_STORE] Recorded suspicious event for address:",
+    address,
+    event
+  );
+  return true;
+}
+
+/**
+ * Build the ledger key of a webhook event
+ * BlockCypher redelivers the same event with the same ID, and a
+ * `tx-confirmation` webhook fires once per confirmation count. After a
+ * reorganization the same count can be reported again for another block.
+ *
+ * @param eventId - Webhook event ID (x-eventid), or the event type if absent
+ * @param transactionId - Transaction hash
+ * @param confirmations - Confirmation count reported by the event
+ * @param blockHash - Confirming block reported by the event, if any
+ */
+export function getWebhookEventKey(
+  eventId: string,
+  transactionId: string,
+  confirmations: number,
+  blockHash?: string
+): string {
+  const key = `${eventId}:${transactionId}:${confirmations}`;
+  return blockHash ? `${key}:${blockHash}` : key;
+}
+
+/**
+ * Load the processed webhook event ledger, dropping expired entries
+ */
+async function loadWebhookEvents(): Promise<Map<string, WebhookEventRecord>> {
+  try {
+    const { WEBHOOK_EVENTS_FILE } = getStoreConfig();
+    await ensureStoreDir();
+
+    if (!existsSync(WEBHOOK_EVENTS_FILE)) {
+      return new Map();
+    }
+
+    const parsed = JSON.parse(await fs.readFile(WEBHOOK_EVENTS_FILE, "utf-8"));
+    const cutoff = Date.now() - WEBHOOK_EVENT_RETENTION_MS;
+    return new Map(
+      Object.entries(parsed as Record<string, WebhookEventRecord>).filter(
+        ([, record]) => record.processedAt >= cutoff
+      )
+    );
+  } catch (error) {
+    // Losing the ledger only means a redelivery may be applied again, which
+    // updatePaymentStatus tolerates
+    console.error("[PAYMENT_STORE] Error loading webhook event ledger:", error);
+    return new Map();
+  }
+}
+
+/**
+ * Check whether a webhook event has already been processed
+ *
+ * @param key - Ledger key from getWebhookEventKey
+ */
+export async function isWebhookEventProcessed(key: string): Promise<boolean> {
+  const events = await loadWebhookEvents();
+  return events.has(key);
+}
+
+/**
+ * Change the webhook event ledger under its file lock
+ *
+ * @param update - Changes the ledger and returns whether to save it
+ * @returns Whether the ledger was saved
+ */
+async function updateWebhookEvents(
+  update: (events: Map<string, WebhookEventRecord>) => boolean
+): Promise<boolean> {
+  const { WEBHOOK_EVENTS_FILE } = getStoreConfig();
+
+  return withFileLock(WEBHOOK_EVENTS_FILE, async () => {
+    const events = await loadWebhookEvents();
+    if (!update(events)) {
+      return false;
+    }
+
+    await writeFileAtomic(
+      WEBHOOK_EVENTS_FILE,
+      JSON.stringify(Object.fromEntries(events), null, 2)
+    );
+    return true;
+  });
+}
+
+/**
+ * Record a webhook event as processed
+ *
+ * @param key - Ledger key from getWebhookEventKey
+ * @param eventType - Webhook event type
+ */
+export async function recordWebhookEvent(
+  key: string,
+  eventType: string
+): Promise<void> {
+  await updateWebhookEvents((events) => {
+    events.set(key, { eventType, processedAt: Date.now() });
+    return true;
+  });
+}
+
+/**
+ * Claim a webhook event for processing
+ * The check and the record happen under the ledger's lock, so of concurrent
+ * deliveries of the same event only one is processed. A claim that could not
+ * be processed is given back with `releaseWebhookEvent`.
+ *
+ * @param key - Ledger key from getWebhookEventKey
+ * @param eventType - Webhook event type
+ * @returns False if the event was already claimed or processed
+ */
+export async function claimWebhookEvent(
+  key: string,
+  eventType: string
+): Promise<boolean> {
+  return updateWebhookEvents((events) => {
+    if (events.has(key)) {
+      return false;
+    }
+
+    events.set(key, { eventType, processedAt: Date.now() });
+    return true;
+  });
+}
+
+/**
+ * Give back the claim of a webhook event that could not be processed, so a
+ * redelivery or replay processes it again
+ *
+ * @param key - Ledger key from getWebhookEventKey
+ */
+export async function releaseWebhookEvent(key: string): Promise<void> {
+  await updateWebhookEvents((events) => events.delete(key));
 }
 
 /**
@@ -227,22 +1536,31 @@ export async function updatePaymentStatus(
  * @returns True if the address exists in the store
  */
 export async function isAddressMonitored(address: string): Promise<boolean> {
-  const store = await loadPaymentStatuses();
-  return store.has(address);
+  return getPaymentStore().hasPaymentStatus(address);
 }
 
 /**
  * Get payment status for a specific address
- * Returns a client-safe subset of the stored data
+ * Returns a client-safe subset of the stored data, expiring the payment first
+ * if it is still unpaid after its expiry
  *
  * @param address - Bitcoin testnet address
+ * @param recycleAfterMs - Idle time after which an unfunded address may be
+ *   recycled; when given, expired unfunded requests report `watchedUntil`
  * @returns Payment status response or null if not found
  */
 export async function getPaymentStatus(
-  address: string
+  address: string,
+  recycleAfterMs?: number
 ): Promise<PaymentStatusResponse | null> {
-  const store = await loadPaymentStatuses();
-  const statusData = store.get(address);
+  let statusData = await getPaymentStore().getFullPaymentData(address);
+
+  const now = Date.now();
+  if (statusData && isOverdue(statusData, now)) {
+    statusData =
+      (await expirePaymentIfOverdue(address, now)) ??
+      (await getPaymentStore().getFullPaymentData(address));
+  }
 
   if (!statusData) {
     console.log(
@@ -256,14 +1574,41 @@ export async function getPaymentStatus(
   const response: PaymentStatusResponse = {
     status: statusData.status,
     confirmations: statusData.confirmations,
+    requiredConfirmations:
+      statusData.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS,
     transactionId: statusData.transactionId,
     errorMessage: statusData.errorMessage,
     lastUpdated: statusData.lastUpdated,
+    history: statusData.history,
+    expiresAt: statusData.expiresAt,
+    latePayment: statusData.latePayment,
+    transactions: statusData.transactions,
+    receivedAmount: statusData.receivedAmount,
+    outstandingAmount: statusData.outstandingAmount,
+    // Expired requests stay watched until their address may be recycled
+    ...(recycleAfterMs !== undefined &&
+      statusData.status === PaymentStatus.EXPIRED &&
+      !statusData.transactionId && {
+        watchedUntil: statusData.createdAt + recycleAfterMs,
+      }),
   };
 
   return response;
 }
 
+/**
+ * Get the status transitions of a payment, oldest first
+ *
+ * @param address - Bitcoin testnet address
+ * @returns Transitions (empty if no update was applied yet), or null if not found
+ */
+export async function getPaymentHistory(
+  address: string
+): Promise<PaymentStatusTransition[] | null> {
+  const statusData = await getPaymentStore().getFullPaymentData(address);
+  return statusData ? (statusData.history ?? []) : null;
+}
+
 /**
  * Check if a payment status exists for an address
  *
@@ -271,8 +1616,7 @@ export async function getPaymentStatus(
  * @returns True if status exists, false otherwise
  */
 export async function hasPaymentStatus(address: string): Promise<boolean> {
-  const store = await loadPaymentStatuses();
-  return store.has(address);
+  return getPaymentStore().hasPaymentStatus(address);
 }
 
 /**
@@ -283,11 +1627,9 @@ export async function hasPaymentStatus(address: string): Promise<boolean> {
  * @returns True if deleted, false if not found
  */
 export async function deletePaymentStatus(address: string): Promise<boolean> {
-  const store = await loadPaymentStatuses();
-  const deleted = store.delete(address);
+  const deleted = await getPaymentStore().deletePaymentStatus(address);
 
   if (deleted) {
-    await savePaymentStatuses(store);
     console.log("[PAYMENT_STORE] Deleted payment status for address:", address);
   }
 
@@ -299,10 +1641,10 @@ export async function deletePaymentStatus(address: string): Promise<boolean> {
  * Useful for testing or cleanup
  */
 export async function clearAllPaymentStatuses(): Promise<void> {
-  const store = await loadPaymentStatuses();
-  const count = store.size;
-  store.clear();
-  await savePaymentStatuses(store);
+  const count = await getPaymentStore().clearAllPaymentStatuses();
+
+  const { WEBHOOK_EVENTS_FILE } = getStoreConfig();
+  await fs.rm(WEBHOOK_EVENTS_FILE, { force: true });
   console.log(`[PAYMENT_STORE] Cleared all ${count} payment statuses`);
 }
 
@@ -316,8 +1658,7 @@ export async function clearAllPaymentStatuses(): Promise<void> {
 export async function getFullPaymentData(
   address: string
 ): Promise<PaymentStatusData | null> {
-  const store = await loadPaymentStatuses();
-  const statusData = store.get(address);
+  const statusData = await getPaymentStore().getFullPaymentData(address);
 
   if (!statusData) {
     console.log(
@@ -327,19 +1668,20 @@ export async function getFullPaymentData(
     return null;
   }
 
-  // Return a safe copy of the complete data
-  return { ...statusData };
+  return statusData;
 }
 
 /**
  * Get all payment statuses (for debugging/monitoring)
  * Returns a safe copy of the data
  *
+ * @param statuses - Only return payments with one of these statuses (optional)
  * @returns Array of all payment statuses
  */
-export async function getAllPaymentStatuses(): Promise<PaymentStatusData[]> {
-  const store = await loadPaymentStatuses();
-  return Array.from(store.values()).map((status) => ({ ...status }));
+export async function getAllPaymentStatuses(
+  statuses?: readonly PaymentStatus[]
+): Promise<PaymentStatusData[]> {
+  return getPaymentStore().getAllPaymentStatuses(statuses);
 }
 
 /**
@@ -347,28 +1689,8 @@ export async function getAllPaymentStatuses(): Promise<PaymentStatusData[]> {
  *
  * @returns Store statistics
  */
-export async function getStoreStats(): Promise<{
-  totalEntries: number;
-  statusCounts: Record<PaymentStatus, number>;
-  oldestEntry?: number;
-  newestEntry?: number;
-}> {
-  const store = await loadPaymentStatuses();
-  const statuses = Array.from(store.values());
-
-  const statusCounts = statuses.reduce((acc, status) => {
-    acc[status.status] = (acc[status.status] || 0) + 1;
-    return acc;
-  }, {} as Record<PaymentStatus, number>);
-
-  const timestamps = statuses.map((s) => s.createdAt).sort();
-
-  return {
-    totalEntries: store.size,
-    statusCounts,
-    oldestEntry: timestamps[0],
-    newestEntry: timestamps[timestamps.length - 1],
-  };
+export async function getStoreStats(): Promise<PaymentStoreStats> {
+  return getPaymentStore().getStoreStats();
 }
 
 /**
@@ -379,20 +1701,11 @@ export async function getStoreStats(): Promise<{
  * @returns Number of entries removed
  */
 export async function cleanupOldEntries(maxAgeMs: number): Promise<number> {
-  const store = await loadPaymentStatuses();
-  const now = Date.now();
-  const cutoffTime = now - maxAgeMs;
-  let removedCount = 0;
-
-  for (const [address, status] of store.entries()) {
-    if (status.createdAt < cutoffTime) {
-      store.delete(address);
-      removedCount++;
-    }
-  }
+  const removedCount = await getPaymentStore().cleanupOldEntries(
+    Date.now() - maxAgeMs
+  );
 
   if (removedCount > 0) {
-    await savePaymentStatuses(store);
     console.log(
       `[PAYMENT_STORE] Cleaned up ${removedCount} old entries older than ${maxAgeMs}ms`
     );
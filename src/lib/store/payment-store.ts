@@ -0,0 +1,226 @@
+/**
+ * Payment Store Interface
+ *
+ * Describes the storage operations behind `src/lib/store/payment-status.ts`,
+ * independent of where payment records are kept:
+ * - `json`: a single JSON file, rewritten on every change (the original store)
+ * - `memory`: a process-local map, for tests and throwaway instances
+ * - `sqlite`: an embedded SQLite database indexed on status and creation time
+ *
+ * Backends only store and query records. Payment rules (which updates are
+ * stale, error messages, derivation bookkeeping) live in `payment-status.ts`
+ * and reach the backend through `updatePaymentStatus`, which applies a change
+ * to one record atomically.
+ *
+ * Persistent backends version their data (see `migrations.ts`) and upgrade
+ * older records transparently.
+ */
+
+import type {
+  AddressType,
+  PaymentStatus,
+  PaymentStatusResponse,
+  PaymentStatusTransition,
+} from "@/types";
+import type { MigrationReport } from "@/lib/store/migrations";
+
+/**
+ * Extended payment status data stored internally
+ * Includes additional metadata beyond what's exposed to clients
+ */
+export interface PaymentStatusData extends PaymentStatusResponse {
+  /** Bitcoin address for this payment */
+  address: string;
+  /** Amount expected in BTC (optional) */
+  expectedAmount?: number;
+  /** Webhook ID from BlockCypher (optional) */
+  webhookId?: string;
+  /** Every watch ID registered for the address, deleted once the payment is done (optional) */
+  webhookIds?: string[];
+  /** Secret embedded in the webhook callback URL; webhooks without it are rejected (optional) */
+  webhookSecret?: string;
+  /** When the payment request was created */
+  createdAt: number;
+  /** Confidence level for unconfirmed transactions (0-100) */
+  confidence?: number;
+  /** Whether this is a double spend attempt */
+  isDoubleSpend?: boolean;
+  /** BIP32 derivation path when derived from the account xpub (optional) */
+  derivationPath?: string;
+  /** Child index on the receiving chain when derived from the account xpub (optional) */
+  derivationIndex?: number;
+  /** Receive address type (entries created before address types default to P2WPKH) */
+  addressType?: AddressType;
+  /** Notifications that were not applied because the chain disagreed (optional) */
+  suspiciousEvents?: SuspiciousPaymentEvent[];
+  /** Earlier never-funded requests for this address, oldest first (recycled addresses only) */
+  previousRequests?: ArchivedPaymentRequest[];
+}
+
+/**
+ * A never-funded payment request whose address was recycled for a new one
+ */
+export interface ArchivedPaymentRequest {
+  /** Status the request ended in */
+  status: PaymentStatus;
+  /** Amount it expected in BTC (optional) */
+  expectedAmount?: number;
+  /** When it was created */
+  createdAt: number;
+  /** When it expired (optional) */
+  expiresAt?: number;
+  /** Watch IDs it registered, deleted once the new request is created (optional) */
+  webhookIds?: string[];
+  /** Its status history (optional) */
+  history?: PaymentStatusTransition[];
+  /** When the address was handed to the new request */
+  recycledAt: number;
+}
+
+/**
+ * A notification whose claims did not match the transaction on chain
+ */
+export interface SuspiciousPaymentEvent {
+  /** When the mismatch was detected */
+  detectedAt: number;
+  /** Notification source (e.g. webhook event type) */
+  source: string;
+  /** Transaction ID the notification referred to */
+  transactionId: string;
+  /** Why the notification was rejected */
+  reason: string;
+  /** Confirmations and amount (satoshis) the notification claimed */
+  reported: { confirmations: number; amount?: number };
+  /** Confirmations and amount (satoshis) found on chain (absent if the transaction was not found) */
+  observed?: { confirmations: number; amount: number };
+}
+
+/**
+ * Computes the new version of a record, or null to leave it unchanged
+ * Runs synchronously while the backend holds the record's lock
+ */
+export type PaymentRecordUpdate = (
+  current: PaymentStatusData
+) => PaymentStatusData | null;
+
+/**
+ * Store statistics (for monitoring)
+ */
+export interface PaymentStoreStats {
+  totalEntries: number;
+  statusCounts: Record<PaymentStatus, number>;
+  oldestEntry?: number;
+  newestEntry?: number;
+}
+
+/**
+ * Storage backend for payment records
+ */
+export interface PaymentStore {
+  /** Backend identifier for logs */
+  readonly name: string;
+
+  /**
+   * Stores a new record, replacing any record for the same address
+   */
+  initializePaymentStatus(record: PaymentStatusData): Promise<void>;
+
+  /**
+   * Applies a change to one record atomically
+   * Concurrent updates of the same record never overwrite each other
+   *
+   * @param address - Payment address
+   * @param update - Computes the new record from the current one
+   * @returns The stored record, or null if the address is unknown or the
+   *   update left it unchanged
+   */
+  updatePaymentStatus(
+    address: string,
+    update: PaymentRecordUpdate
+  ): Promise<PaymentStatusData | null>;
+
+  /**
+   * Returns the record of an address, or null if unknown
+   */
+  getFullPaymentData(address: string): Promise<PaymentStatusData | null>;
+
+  /**
+   * Returns whether a record exists for an address
+   */
+  hasPaymentStatus(address: string): Promise<boolean>;
+
+  /**
+   * Returns all records, or only those with one of the given statuses
+   */
+  getAllPaymentStatuses(
+    statuses?: readonly PaymentStatus[]
+  ): Promise<PaymentStatusData[]>;
+
+  /**
+   * Deletes the record of an address
+   *
+   * @returns True if a record was deleted
+   */
+  deletePaymentStatus(address: string): Promise<boolean>;
+
+  /**
+   * Deletes all records
+   *
+   * @returns Number of records deleted
+   */
+  clearAllPaymentStatuses(): Promise<number>;
+
+  /**
+   * Deletes records created before a point in time
+   *
+   * @param createdBefore - Cutoff timestamp (milliseconds)
+   * @returns Number of records deleted
+   */
+  cleanupOldEntries(createdBefore: number): Promise<number>;
+
+  /**
+   * Returns record counts per status and the creation time range
+   */
+  getStoreStats(): Promise<PaymentStoreStats>;
+
+  /**
+   * Upgrades persisted records to the current schema version (persistent
+   * backends only)
+   *
+   * @param options.dryRun - Report what would change without writing
+   * @throws {UnsupportedSchemaVersionError} When the data has a newer schema
+   */
+  migrate?(options: { dryRun: boolean }): Promise<MigrationReport>;
+
+  /**
+   * Releases resources such as database handles (optional)
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Computes store statistics from a list of records
+ * Shared by backends that have no cheaper way to aggregate
+ */
+export function computeStoreStats(
+  records: PaymentStatusData[]
+): PaymentStoreStats {
+  const statusCounts = records.reduce(
+    (acc, record) => {
+      acc[record.status] = (acc[record.status] || 0) + 1;
+      return acc;
+    },
+    {} as Record<PaymentStatus, number>
+  );
+
+  const timestamps = records
+    .map((record) => record.createdAt)
+    .sort((a, b) => a - b);
+
+  return {
+    totalEntries: records.length,
+    statusCounts,
+    oldestEntry: timestamps[0],
+    newestEntry: timestamps[timestamps.length - 1],
+  };
+}
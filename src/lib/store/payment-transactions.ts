@@ -0,0 +1,350 @@
+/**
+ * Payment Transaction Accounting
+ *
+ * A customer may pay a request in several transactions (e.g. topping up an
+ * underpayment), so every transaction credited to a payment address is kept
+ * with its own amount and confirmations. The payment's status is derived from
+ * the aggregate:
+ * - The sum of all amounts is compared against the expected amount, within
+ *   `PAYMENT_AMOUNT_TOLERANCE_SATOSHIS` (default 0), giving UNDERPAID or paid
+ *   in full (PAYMENT_DETECTED or CONFIRMED). A confirmed payment is OVERPAID
+ *   once the transactions meeting the confirmation target alone exceed it
+ * - The payment's confirmations are those at which the credited transactions
+ *   cover the expected amount: the most-confirmed transactions are counted
+ *   first, and the confirmations of the last one needed are reported. Until
+ *   the amount is covered, the least-confirmed transaction counts
+ *
+ * Adding a transaction or a confirmation therefore never lowers the payment's
+ * confirmations, so a paid payment is not moved backwards by a later top-up.
+ * A payment paid in full is CONFIRMED once those confirmations reach its
+ * required confirmations (see `confirmation-policy.ts`).
+ *
+ * Transactions that will not confirm are kept but no longer count:
+ * - Replaced: a newly credited transaction spends the same outputs as an
+ *   unconfirmed one (a replace-by-fee bump, or any other double spend that
+ *   pays the address again)
+ * - Evicted: the transaction left the mempool without confirming (found by
+ *   the reconciler), or its block left the best chain and the provider no
+ *   longer knows it
+ *
+ * A dropped transaction that is reported again is credited again. Confirmed
+ * transactions keep the block they confirmed in; when a chain reorganization
+ * removes that block, they take on the state the chain reports now (see
+ * `reorg-detection.ts`).
+ */
+
+import { PaymentStatus, type PaymentTransaction } from "@/types";
+import { btcToSatoshis } from "@/lib/validation/payment";
+import {
+  meetsConfirmationTarget,
+  resolveAmountStatus,
+} from "@/lib/store/payment-state-machine";
+import { isZeroConfRiskAccepted } from "@/lib/services/zero-conf-risk";
+
+/**
+ * What the chain reports about a transaction whose block was reorganized out
+ * of the best chain: confirmed again in another block, or back in the mempool
+ */
+export interface ReorgedTransactionState {
+  confirmations: number;
+  /** Hash of the new confirming block (undefined while unconfirmed) */
+  blockHash?: string;
+  /** Height of the new confirming block (undefined while unconfirmed) */
+  blockHeight?: number;
+}
+
+/**
+ * Amount accounting defaults
+ */
+export const PAYMENT_AMOUNT_CONFIG = {
+  defaultToleranceSatoshis: 0,
+} as const;
+
+/**
+ * Aggregate state of the transactions credited to a payment
+ */
+export interface PaymentTransactionSummary {
+  /** Status derived from the confirmations and the amount received */
+  status: PaymentStatus;
+  /** Confirmations at which the transactions cover the expected amount */
+  confirmations: number;
+  /** Sum of all amounts in satoshis (undefined if any amount is unknown) */
+  receivedAmount?: number;
+  /** Satoshis still to pay (only for UNDERPAID) */
+  outstandingAmount?: number;
+}
+
+/**
+ * Returns the accepted difference between the amount received and the amount
+ * requested (`PAYMENT_AMOUNT_TOLERANCE_SATOSHIS`, default 0)
+ *
+ * @throws {Error} When the setting is not a non-negative integer
+ */
+export function getAmountToleranceSatoshis(): number {
+  const raw = process.env.PAYMENT_AMOUNT_TOLERANCE_SATOSHIS?.trim();
+  if (!raw) {
+    return PAYMENT_AMOUNT_CONFIG.defaultToleranceSatoshis;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(
+      `PAYMENT_AMOUNT_TOLERANCE_SATOSHIS must be a non-negative integer, got '${raw}'`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Returns whether a credited transaction still counts towards the payment
+ * (it was neither replaced nor evicted)
+ */
+export function isActivePaymentTransaction(
+  transaction: PaymentTransaction
+): boolean {
+  return (
+    transaction.replacedBy === undefined && transaction.evictedAt === undefined
+  );
+}
+
+/**
+ * Returns whether unconfirmed funds of a payment may be accepted: every
+ * unconfirmed transaction is rated within `ZERO_CONF_MAX_RISK` (see
+ * `zero-conf-risk.ts`)
+ *
+ * @param transactions - Transactions credited to the payment
+ */
+export function acceptsUnconfirmedFunds(
+  transactions: readonly PaymentTransaction[] | undefined
+): boolean {
+  const active = (transactions ?? []).filter(isActivePaymentTransaction);
+  return (
+    active.length > 0 &&
+    active.every(
+      (transaction) =>
+        transaction.confirmations > 0 ||
+        (transaction.risk !== undefined &&
+          isZeroConfRiskAccepted(transaction.risk))
+    )
+  );
+}
+
+/**
+ * Adds a transaction to the credited transactions, or updates the entry with
+ * the same ID (keeping its first-seen time and, if not reported again, its
+ * amount, replace-by-fee signalling, risk rating, spent outputs and
+ * confirming block). An entry that was replaced or evicted counts again
+ *
+ * @param transactions - Transactions credited so far (optional)
+ * @param transaction - Transaction as reported now
+ * @returns The credited transactions, in the order first seen
+ */
+export function creditPaymentTransaction(
+  transactions: readonly PaymentTransaction[] | undefined,
+  transaction: PaymentTransaction
+): PaymentTransaction[] {
+  const credited = transactions ?? [];
+  const existing = credited.find(
+    (entry) => entry.transactionId === transaction.transactionId
+  );
+
+  if (!existing) {
+    return [...credited, transaction];
+  }
+
+  return credited.map((entry) =>
+    entry === existing
+      ? {
+          ...transaction,
+          amount: transaction.amount ?? existing.amount,
+          signalsRbf: transaction.signalsRbf ?? existing.signalsRbf,
+          risk: transaction.risk ?? existing.risk,
+          spends: transaction.spends ?? existing.spends,
+          blockHash: transaction.blockHash ?? existing.blockHash,
+          blockHeight: transaction.blockHeight ?? existing.blockHeight,
+          firstSeen: existing.firstSeen,
+        }
+      : entry
+  );
+}
+
+/**
+ * Marks the unconfirmed transactions that spend any of the outputs a credited
+ * transaction spends as replaced by it
+ *
+ * @param transactions - Credited transactions, including the replacement
+ * @param transactionId - ID of the transaction that may replace others
+ * @returns The credited transactions and the IDs of those it replaced
+ */
+export function replacePaymentTransactions(
+  transactions: readonly PaymentTransaction[],
+  transactionId: string
+): { transactions: PaymentTransaction[]; replaced: string[] } {
+  const spends = new Set(
+    transactions.find((entry) => entry.transactionId === transactionId)
+      ?.spends ?? []
+  );
+  const replaced: string[] = [];
+
+  const updated = transactions.map((entry) => {
+    if (
+      entry.transactionId === transactionId ||
+      entry.confirmations > 0 ||
+      !isActivePaymentTransaction(entry) ||
+      !entry.spends?.some((outpoint) => spends.has(outpoint))
+    ) {
+      return entry;
+    }
+    replaced.push(entry.transactionId);
+    return { ...entry, replacedBy: transactionId };
+  });
+
+  return { transactions: updated, replaced };
+}
+
+/**
+ * Marks a credited transaction as evicted from the mempool
+ *
+ * @param transactions - Credited transactions
+ * @param transactionId - ID of the evicted transaction
+ * @param evictedAt - When the eviction was found (default now)
+ * @returns The credited transactions
+ */
+export function evictPaymentTransaction(
+  transactions: readonly PaymentTransaction[],
+  transactionId: string,
+  evictedAt: number = Date.now()
+): PaymentTransaction[] {
+  return transactions.map((entry) =>
+    entry.transactionId === transactionId ? { ...entry, evictedAt } : entry
+  );
+}
+
+/**
+ * Applies the current chain state to credited transactions whose blocks were
+ * reorganized out of the best chain
+ * Transactions the chain no longer knows (null) are marked as evicted
+ *
+ * @param transactions - Credited transactions
+ * @param reorged - Chain state per reorganized transaction ID
+ * @param evictedAt - When the reorganization was found (default now)
+ * @returns The credited transactions
+ */
+export function reorgPaymentTransactions(
+  transactions: readonly PaymentTransaction[],
+  reorged: ReadonlyMap<string, ReorgedTransactionState | null>,
+  evictedAt: number = Date.now()
+): PaymentTransaction[] {
+  return transactions.map((entry) => {
+    if (!reorged.has(entry.transactionId)) {
+      return entry;
+    }
+
+    const state = reorged.get(entry.transactionId);
+    const isConfirmed = (state?.confirmations ?? 0) > 0;
+    return {
+      ...entry,
+      confirmations: state?.confirmations ?? 0,
+      blockHash: isConfirmed ? state?.blockHash : undefined,
+      blockHeight: isConfirmed ? state?.blockHeight : undefined,
+      ...(!state && { evictedAt }),
+    };
+  });
+}
+
+/**
+ * Derives a payment's status, confirmations and amounts from its transactions
+ * Replaced and evicted transactions are left out; without any other the
+ * payment is AWAITING_PAYMENT again
+ *
+ * @param transactions - Transactions credited to the address
+ * @param expectedAmount - Amount requested in BTC (optional)
+ * @param toleranceSatoshis - Difference still accepted as paid in full
+ * @param requiredConfirmations - Confirmations needed to be CONFIRMED (optional, default 1)
+ * @returns Aggregate state of the payment
+ */
+export function summarizePaymentTransactions(
+  transactions: readonly PaymentTransaction[],
+  expectedAmount: number | undefined,
+  toleranceSatoshis: number,
+  requiredConfirmations?: number
+): PaymentTransactionSummary {
+  const active = transactions.filter(isActivePaymentTransaction);
+  if (active.length === 0) {
+    return { status: PaymentStatus.AWAITING_PAYMENT, confirmations: 0 };
+  }
+
+  const amounts = active.map((transaction) => transaction.amount);
+  const receivedAmount = amounts.every((amount) => amount !== undefined)
+    ? amounts.reduce<number>((sum, amount) => sum + amount!, 0)
+    : undefined;
+
+  const byConfirmations = [...active].sort(
+    (a, b) => b.confirmations - a.confirmations
+  );
+
+  let confirmations = byConfirmations[0]?.confirmations ?? 0;
+  if (
+    expectedAmount !== undefined &&
+    receivedAmount !== undefined &&
+    byConfirmations.length > 0
+  ) {
+    const required = btcToSatoshis(expectedAmount) - toleranceSatoshis;
+    let covered = 0;
+    // Least-confirmed transaction if the amount is never covered
+    confirmations = byConfirmations[byConfirmations.length - 1].confirmations;
+    for (const transaction of byConfirmations) {
+      covered += transaction.amount!;
+      if (covered >= required) {
+        confirmations = transaction.confirmations;
+        break;
+      }
+    }
+  }
+
+  const isConfirmed = meetsConfirmationTarget(
+    confirmations,
+    requiredConfirmations,
+    acceptsUnconfirmedFunds(active)
+  );
+  // Funds still waiting for confirmations don't make a payment overpaid
+  const confirmedAmounts = active
+    .filter((transaction) =>
+      meetsConfirmationTarget(
+        transaction.confirmations,
+        requiredConfirmations,
+        acceptsUnconfirmedFunds([transaction])
+      )
+    )
+    .map((transaction) => transaction.amount);
+  const confirmedAmount = confirmedAmounts.every(
+    (amount) => amount !== undefined
+  )
+    ? confirmedAmounts.reduce<number>((sum, amount) => sum + amount!, 0)
+    : undefined;
+
+  const status = isConfirmed
+    ? resolveAmountStatus(
+        PaymentStatus.CONFIRMED,
+        expectedAmount,
+        confirmedAmount,
+        toleranceSatoshis
+      )
+    : resolveAmountStatus(
+        PaymentStatus.PAYMENT_DETECTED,
+        expectedAmount,
+        receivedAmount,
+        toleranceSatoshis
+      );
+
+  return {
+    status,
+    confirmations,
+    receivedAmount,
+    outstandingAmount:
+      status === PaymentStatus.UNDERPAID
+        ? btcToSatoshis(expectedAmount!) - receivedAmount!
+        : undefined,
+  };
+}
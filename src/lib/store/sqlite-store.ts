@@ -0,0 +1,324 @@
+/**
+ * SQLite Payment Store
+ *
+ * Keeps payment records in an embedded SQLite database (`payments.db`), one
+ * row per payment. The full record is stored as JSON next to the columns
+ * queries filter on, which are indexed:
+ * - `status`: finding unsettled payments without reading settled ones
+ * - `created_at`: age-based cleanup and address recycling
+ *
+ * The database runs in WAL mode so readers never block the writer. Updates
+ * run in `BEGIN IMMEDIATE` transactions and other processes wait up to
+ * `SQLITE_STORE_CONFIG.busyTimeoutMs` for the write lock, so concurrent
+ * updates of one payment are serialized across processes.
+ *
+ * The schema version lives in `PRAGMA user_version` (0 for databases created
+ * before versioning). Older databases are migrated in one transaction on
+ * first use; databases with a newer version are refused.
+ */
+
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type {
+  PaymentRecordUpdate,
+  PaymentStatusData,
+  PaymentStore,
+  PaymentStoreStats,
+} from "@/lib/store/payment-store";
+import {
+  LEGACY_SCHEMA_VERSION,
+  PAYMENT_SCHEMA_VERSION,
+  createMigrationReport,
+  getPendingMigrations,
+  migratePaymentRecord,
+  type MigrationReport,
+} from "@/lib/store/migrations";
+import type { PaymentStatus } from "@/types";
+
+/**
+ * SQLite connection settings
+ */
+export const SQLITE_STORE_CONFIG = {
+  /** How long to wait for another connection's write lock */
+  busyTimeoutMs: 5000,
+} as const;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS payments (
+    address TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_updated INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS payments_status_idx ON payments (status);
+  CREATE INDEX IF NOT EXISTS payments_created_at_idx ON payments (created_at);
+`;
+
+/**
+ * Row of the payments table
+ */
+interface PaymentRow {
+  address: string;
+  data: string;
+}
+
+/**
+ * Payment store backed by an SQLite database
+ */
+export class SqlitePaymentStore implements PaymentStore {
+  readonly name = "sqlite";
+
+  private readonly db: Database.Database;
+
+  // Set once the database is known to be at the current schema version
+  private migrated = false;
+
+  /**
+   * @param filePath - Database file (created if missing), or ":memory:"
+   */
+  constructor(private readonly filePath: string) {
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath, {
+      timeout: SQLITE_STORE_CONFIG.busyTimeoutMs,
+    });
+    this.db.pragma("journal_mode = WAL");
+
+    // New databases start at the current version, others keep theirs
+    this.db
+      .transaction(() => {
+        const exists = this.db
+          .prepare(
+            "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'payments'"
+          )
+          .get();
+        this.db.exec(SCHEMA);
+        if (!exists) {
+          this.db.pragma(`user_version = ${PAYMENT_SCHEMA_VERSION}`);
+        }
+      })
+      .immediate();
+  }
+
+  /**
+   * Stored schema version (databases created before versioning report 0)
+   */
+  private schemaVersion(): number {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    return version === 0 ? LEGACY_SCHEMA_VERSION : version;
+  }
+
+  /**
+   * Run pending migrations over every row
+   * Must run inside a transaction
+   */
+  private runMigrations(dryRun: boolean): MigrationReport {
+    const fromVersion = this.schemaVersion();
+    const migrations = getPendingMigrations(fromVersion, this.filePath);
+    const rows = this.db
+      .prepare("SELECT address, data FROM payments ORDER BY rowid")
+      .all() as PaymentRow[];
+
+    let changedRecords = 0;
+    for (const row of rows) {
+      const { record, changed } = migratePaymentRecord(
+        JSON.parse(row.data),
+        migrations
+      );
+      if (!changed) {
+        continue;
+      }
+
+      changedRecords++;
+      if (!dryRun) {
+        this.write(record as unknown as PaymentStatusData);
+      }
+    }
+
+    if (!dryRun && fromVersion < PAYMENT_SCHEMA_VERSION) {
+      this.db.pragma(`user_version = ${PAYMENT_SCHEMA_VERSION}`);
+      console.log(
+        `[PAYMENT_STORE] Migrated payment records from schema v${fromVersion} to v${PAYMENT_SCHEMA_VERSION}:`,
+        this.filePath
+      );
+    }
+
+    return createMigrationReport(
+      this.name,
+      fromVersion,
+      migrations,
+      rows.length,
+      changedRecords,
+      dryRun
+    );
+  }
+
+  /**
+   * Migrate the database before its first use
+   *
+   * @throws {UnsupportedSchemaVersionError} When the database has a newer schema
+   */
+  private ensureMigrated(): void {
+    if (this.migrated) {
+      return;
+    }
+
+    this.db.transaction(() => this.runMigrations(false)).immediate();
+    this.migrated = true;
+  }
+
+  /**
+   * Insert or replace a record
+   */
+  private write(record: PaymentStatusData): void {
+    this.db
+      .prepare(
+        `INSERT INTO payments (address, status, created_at, last_updated, data)
+         VALUES (@address, @status, @createdAt, @lastUpdated, @data)
+         ON CONFLICT (address) DO UPDATE SET
+           status = excluded.status,
+           created_at = excluded.created_at,
+           last_updated = excluded.last_updated,
+           data = excluded.data`
+      )
+      .run({
+        address: record.address,
+        status: record.status,
+        createdAt: record.createdAt,
+        lastUpdated: record.lastUpdated ?? record.createdAt,
+        data: JSON.stringify(record),
+      });
+  }
+
+  /**
+   * Read the record of an address
+   */
+  private read(address: string): PaymentStatusData | null {
+    const row = this.db
+      .prepare("SELECT data FROM payments WHERE address = ?")
+      .get(address) as PaymentRow | undefined;
+    return row ? (JSON.parse(row.data) as PaymentStatusData) : null;
+  }
+
+  async initializePaymentStatus(record: PaymentStatusData): Promise<void> {
+    this.ensureMigrated();
+    this.write(record);
+  }
+
+  async updatePaymentStatus(
+    address: string,
+    update: PaymentRecordUpdate
+  ): Promise<PaymentStatusData | null> {
+    this.ensureMigrated();
+    const transaction = this.db.transaction(() => {
+      const current = this.read(address);
+      const updated = current ? update(current) : null;
+      if (updated) {
+        this.write(updated);
+      }
+      return updated;
+    });
+
+    return transaction.immediate();
+  }
+
+  async getFullPaymentData(address: string): Promise<PaymentStatusData | null> {
+    this.ensureMigrated();
+    return this.read(address);
+  }
+
+  async hasPaymentStatus(address: string): Promise<boolean> {
+    this.ensureMigrated();
+    return (
+      this.db
+        .prepare("SELECT 1 FROM payments WHERE address = ?")
+        .get(address) !== undefined
+    );
+  }
+
+  async getAllPaymentStatuses(
+    statuses?: readonly PaymentStatus[]
+  ): Promise<PaymentStatusData[]> {
+    this.ensureMigrated();
+    const rows = statuses
+      ? (this.db
+          .prepare(
+            `SELECT data FROM payments WHERE status IN (${statuses
+              .map(() => "?")
+              .join(", ")}) ORDER BY rowid`
+          )
+          .all(...statuses) as PaymentRow[])
+      : (this.db
+          .prepare("SELECT data FROM payments ORDER BY rowid")
+          .all() as PaymentRow[]);
+
+    return rows.map((row) => JSON.parse(row.data) as PaymentStatusData);
+  }
+
+  async deletePaymentStatus(address: string): Promise<boolean> {
+    this.ensureMigrated();
+    return (
+      this.db.prepare("DELETE FROM payments WHERE address = ?").run(address)
+        .changes > 0
+    );
+  }
+
+  async clearAllPaymentStatuses(): Promise<number> {
+    this.ensureMigrated();
+    return this.db.prepare("DELETE FROM payments").run().changes;
+  }
+
+  async cleanupOldEntries(createdBefore: number): Promise<number> {
+    this.ensureMigrated();
+    return this.db
+      .prepare("DELETE FROM payments WHERE created_at < ?")
+      .run(createdBefore).changes;
+  }
+
+  async getStoreStats(): Promise<PaymentStoreStats> {
+    this.ensureMigrated();
+    const counts = this.db
+      .prepare("SELECT status, COUNT(*) AS count FROM payments GROUP BY status")
+      .all() as { status: PaymentStatus; count: number }[];
+    const range = this.db
+      .prepare(
+        "SELECT MIN(created_at) AS oldest, MAX(created_at) AS newest FROM payments"
+      )
+      .get() as { oldest: number | null; newest: number | null };
+
+    const statusCounts = {} as Record<PaymentStatus, number>;
+    for (const { status, count } of counts) {
+      statusCounts[status] = count;
+    }
+
+    return {
+      totalEntries: counts.reduce((sum, { count }) => sum + count, 0),
+      statusCounts,
+      oldestEntry: range.oldest ?? undefined,
+      newestEntry: range.newest ?? undefined,
+    };
+  }
+
+  async migrate(options: { dryRun: boolean }): Promise<MigrationReport> {
+    const transaction = this.db.transaction(() =>
+      this.runMigrations(options.dryRun)
+    );
+    // A dry run only reads, so it must not wait for the write lock
+    const report = options.dryRun
+      ? transaction.deferred()
+      : transaction.immediate();
+
+    if (!options.dryRun) {
+      this.migrated = true;
+    }
+    return report;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Payment Store Selection
+ *
+ * Resolves the `PaymentStore` the application uses, selected with the
+ * `PAYMENT_STORE` environment variable (default `json`):
+ * - `json`: `payment-statuses.json` in the store directory
+ * - `memory`: process-local map (nothing persists; tests only)
+ * - `sqlite`: `payments.db` in the store directory
+ *
+ * Payment code should go through `src/lib/store/payment-status.ts` instead of
+ * using a backend directly.
+ */
+
+import { getStoreConfig } from "@/lib/store/config";
+import { JsonFilePaymentStore } from "@/lib/store/json-file-store";
+import { MemoryPaymentStore } from "@/lib/store/memory-store";
+import { SqlitePaymentStore } from "@/lib/store/sqlite-store";
+import type { PaymentStore } from "@/lib/store/payment-store";
+
+/**
+ * Supported payment store backends
+ */
+export enum PaymentStoreType {
+  JSON = "json",
+  MEMORY = "memory",
+  SQLITE = "sqlite",
+}
+
+/**
+ * Backend used when `PAYMENT_STORE` is not set
+ */
+export const DEFAULT_PAYMENT_STORE = PaymentStoreType.JSON;
+
+// Created on first use, one instance per backend
+const stores = new Map<PaymentStoreType, PaymentStore>();
+
+/**
+ * Returns the configured store type
+ *
+ * @throws {Error} When `PAYMENT_STORE` names an unsupported backend
+ */
+export function getConfiguredPaymentStoreType(): PaymentStoreType {
+  const raw = process.env.PAYMENT_STORE?.trim().toLowerCase();
+
+  if (!raw) {
+    return DEFAULT_PAYMENT_STORE;
+  }
+
+  const supported = Object.values(PaymentStoreType) as string[];
+  if (!supported.includes(raw)) {
+    throw new Error(
+      `Unsupported PAYMENT_STORE '${raw}': expected one of ${supported.join(
+        ", "
+      )}`
+    );
+  }
+
+  return raw as PaymentStoreType;
+}
+
+/**
+ * Creates a store of the given type
+ */
+function createPaymentStore(type: PaymentStoreType): PaymentStore {
+  switch (type) {
+    case PaymentStoreType.JSON:
+      return new JsonFilePaymentStore(getStoreConfig().STORE_FILE);
+    case PaymentStoreType.MEMORY:
+      return new MemoryPaymentStore();
+    case PaymentStoreType.SQLITE:
+      return new SqlitePaymentStore(getStoreConfig().SQLITE_FILE);
+  }
+}
+
+/**
+ * Returns the payment store selected by `PAYMENT_STORE`
+ *
+ * @returns {PaymentStore} Store for the configured backend
+ * @throws {Error} When `PAYMENT_STORE` names an unsupported backend
+ */
+export function getPaymentStore(): PaymentStore {
+  const type = getConfiguredPaymentStoreType();
+
+  let store = stores.get(type);
+  if (!store) {
+    store = createPaymentStore(type);
+    stores.set(type, store);
+    console.log("[PAYMENT_STORE] Using payment store backend:", store.name);
+  }
+
+  return store;
+}
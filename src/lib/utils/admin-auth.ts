@@ -0,0 +1,42 @@
+/**
+ * Admin API Authentication
+ *
+ * Routes under `/api/admin` expose stored webhook deliveries and can replay
+ * them, so they require `Authorization: Bearer <ADMIN_API_TOKEN>`. When
+ * `ADMIN_API_TOKEN` is unset the admin API is disabled and answers 404.
+ *
+ * Tokens are compared in constant time (see `isWebhookSecretValid`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isWebhookSecretValid } from "@/lib/utils/webhook-secret";
+
+/**
+ * Checks the bearer token of an admin request
+ *
+ * @param request - Incoming admin request
+ * @returns An error response to return, or null if the request is authorized
+ */
+export function authorizeAdminRequest(
+  request: NextRequest
+): NextResponse | null {
+  const expected = process.env.ADMIN_API_TOKEN?.trim();
+  if (!expected) {
+    return NextResponse.json(
+      { error: "Admin API is disabled" },
+      { status: 404 }
+    );
+  }
+
+  const authorization = request.headers.get("authorization") ?? "";
+  const received = authorization.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length).trim()
+    : null;
+
+  if (!isWebhookSecretValid(received, expected)) {
+    console.warn("[ADMIN_API] Rejected unauthorized request:", request.url);
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
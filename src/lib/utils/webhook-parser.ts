@@ -8,13 +8,27 @@
  *
  * Features:
  * - Extract transaction hash, confirmations, and address
- * - Map BlockCypher events to PaymentStatus enum
+ * - Map BlockCypher events to PaymentStatus enum, confirming at the
+ *   payment's required confirmations (see `confirmation-policy.ts`)
  * - Handle different event types (unconfirmed-tx, confirmed-tx, tx-confirmation)
+ * - Flag double spends (the `double_spend` field or a double-spend-tx event)
+ *   on the transaction, which is still credited: a fee-bumped replacement is
+ *   flagged too, and the payment store follows it (see `payment-transactions.ts`)
  * - Validate payment amounts and outputs
  */
 
 import type { BlockcypherWebhookPayload } from "@/lib/validation/webhook";
-import { PaymentStatus } from "@/types";
+import { PaymentStatus, type ZeroConfRisk } from "@/types";
+import { isValidAddress } from "@/lib/bitcoin/wallet";
+import {
+  isRbfSignalled,
+  spendsUnconfirmedOutputs,
+  toOutpoint,
+} from "@/lib/api/chain-provider";
+import {
+  DEFAULT_REQUIRED_CONFIRMATIONS,
+  meetsConfirmationTarget,
+} from "@/lib/store/payment-state-machine";
 
 /**
  * Parsed transaction data extracted from webhook
@@ -36,55 +50,207 @@ export interface ParsedTransactionData {
   confidence?: number;
   /** Whether this is a double spend attempt */
   isDoubleSpend: boolean;
+  /** Whether the transaction signals replace-by-fee (undefined if not reported) */
+  signalsRbf?: boolean;
+  /** Fee rate in sat/vB (undefined if the size is not reported) */
+  feeRate?: number;
+  /** Whether it spends unconfirmed outputs (undefined if not reported) */
+  hasUnconfirmedInputs?: boolean;
+  /** Outputs it spends as `txid:vout` (undefined if not reported) */
+  spends?: string[];
+  /** Hash of the block it confirmed in (undefined while unconfirmed or not reported) */
+  blockHash?: string;
+  /** Height of the block it confirmed in (undefined with the hash) */
+  blockHeight?: number;
+  /** Risk rating of an unconfirmed transaction (set by `assessParsedTransaction`) */
+  risk?: ZeroConfRisk;
   /** Timestamp when webhook was processed */
   lastUpdated: number;
 }
 
 /**
  * Maps BlockCypher webhook events to internal PaymentStatus enum
+ * The result is what the event reports; whether the payment may move to it
+ * is decided by the payment state machine when the store is updated.
+ * Double spends map by their confirmations like any other transaction
  *
  * @param event - BlockCypher event type
  * @param confirmations - Number of confirmations
- * @param isDoubleSpend - Whether this is a double spend
+ * @param isDoubleSpend - Whether this is a double spend; unconfirmed double
+ *   spends are never accepted
+ * @param requiredConfirmations - Confirmations the payment needs (default 1)
+ * @param signalsRbf - Whether the transaction signals replace-by-fee; unconfirmed
+ *   transactions are only accepted if this is known to be false
  * @returns Mapped PaymentStatus
  */
 export function mapEventToPaymentStatus(
   event: string,
   confirmations: number = 0,
-  isDoubleSpend: boolean = false
+  isDoubleSpend: boolean = false,
+  requiredConfirmations: number = DEFAULT_REQUIRED_CONFIRMATIONS,
+  signalsRbf?: boolean
 ): PaymentStatus {
-  // Handle double spend attempts
-  if (isDoubleSpend) {
-    return PaymentStatus.ERROR;
-  }
+  // Consider transactions with the required confirmations as confirmed
+  const byConfirmations = (count: number) =>
+    meetsConfirmationTarget(
+      count,
+      requiredConfirmations,
+      signalsRbf === false && !isDoubleSpend
+    )
+      ? PaymentStatus.CONFIRMED
+      : PaymentStatus.PAYMENT_DETECTED;
 
   switch (event) {
     case "unconfirmed-tx":
-      return PaymentStatus.PAYMENT_DETECTED;
+      return byConfirmations(0);
 
     case "confirmed-tx":
     case "tx-confirmation":
-      // Consider transactions with 1+ confirmations as confirmed
-      return confirmations >= 1
-        ? PaymentStatus.CONFIRMED
-        : PaymentStatus.PAYMENT_DETECTED;
+      return byConfirmations(confirmations);
 
     case "double-spend-tx":
-      return PaymentStatus.ERROR;
+      // A conflicting transaction was seen; this one may still confirm
+      return byConfirmations(confirmations);
 
     case "new-block":
       // Block events don't directly affect payment status
       // Return current status based on confirmations
-      return confirmations >= 1
-        ? PaymentStatus.CONFIRMED
-        : PaymentStatus.PAYMENT_DETECTED;
+      return byConfirmations(confirmations);
 
     default:
       console.warn(`[WEBHOOK_PARSER] Unknown event type: ${event}`);
-      return confirmations >= 1
-        ? PaymentStatus.CONFIRMED
-        : PaymentStatus.PAYMENT_DETECTED;
+      return byConfirmations(confirmations);
+  }
+}
+
+/**
+ * Applies a payment's required confirmations to parsed transaction data
+ * Payloads are parsed before the payment is known, with the default of 1
+ *
+ * @param data - Parsed transaction data for the payment's address
+ * @param requiredConfirmations - Confirmations the payment needs (default 1)
+ * @param acceptsUnconfirmed - Whether the transaction may be accepted
+ *   unconfirmed (default: when it is no double spend and does not signal
+ *   replace-by-fee; the payment store decides from its risk rating)
+ * @returns The data with its status mapped for the payment
+ */
+export function applyConfirmationPolicy(
+  data: ParsedTransactionData,
+  requiredConfirmations: number = DEFAULT_REQUIRED_CONFIRMATIONS,
+  acceptsUnconfirmed: boolean = data.signalsRbf === false && !data.isDoubleSpend
+): ParsedTransactionData {
+  if (data.status === PaymentStatus.ERROR) {
+    return data;
+  }
+
+  return {
+    ...data,
+    status: meetsConfirmationTarget(
+      data.confirmations,
+      requiredConfirmations,
+      acceptsUnconfirmed
+    )
+      ? PaymentStatus.CONFIRMED
+      : PaymentStatus.PAYMENT_DETECTED,
+  };
+}
+
+/**
+ * Reads whether a transaction signals replace-by-fee
+ * BlockCypher only sets `opt_in_rbf` when it does, so the input sequence
+ * numbers decide otherwise
+ *
+ * @param payload - Validated BlockCypher webhook payload
+ * @returns The signalling, or undefined if the payload carries neither
+ */
+export function extractRbfSignal(
+  payload: BlockcypherWebhookPayload
+): boolean | undefined {
+  if (payload.opt_in_rbf !== undefined) {
+    return payload.opt_in_rbf;
   }
+  return payload.inputs && payload.inputs.length > 0
+    ? isRbfSignalled(payload.inputs.map((input) => input.sequence))
+    : undefined;
+}
+
+/**
+ * Reads whether a transaction is reported as a double spend: BlockCypher
+ * flags both conflicting transactions, including fee-bumped replacements
+ *
+ * @param payload - Validated BlockCypher webhook payload
+ * @param eventType - Event type from webhook headers
+ * @returns True for a `double_spend` payload or a double-spend-tx event
+ */
+export function isDoubleSpendEvent(
+  payload: BlockcypherWebhookPayload,
+  eventType: string
+): boolean {
+  return (payload.double_spend ?? false) || eventType === "double-spend-tx";
+}
+
+/**
+ * Calculates the fee rate of a transaction from its fee and (virtual) size
+ *
+ * @param payload - Validated BlockCypher webhook payload
+ * @returns Fee rate in sat/vB (two decimals), or undefined without a size
+ */
+export function extractFeeRate(
+  payload: BlockcypherWebhookPayload
+): number | undefined {
+  const size = payload.vsize ?? payload.size;
+  if (!size || size <= 0) {
+    return undefined;
+  }
+  return Math.round((payload.fees / size) * 100) / 100;
+}
+
+/**
+ * Reads whether a transaction spends outputs of unconfirmed transactions
+ * from the confirmations (`age`) BlockCypher reports for each input
+ *
+ * @param payload - Validated BlockCypher webhook payload
+ * @returns Whether it does, or undefined if no input reports its age
+ */
+export function extractUnconfirmedInputs(
+  payload: BlockcypherWebhookPayload
+): boolean | undefined {
+  return spendsUnconfirmedOutputs(
+    (payload.inputs ?? []).map((input) => input.age)
+  );
+}
+
+/**
+ * Lists the outputs a transaction spends, by which replacements of a credited
+ * transaction are recognized
+ *
+ * @param payload - Validated BlockCypher webhook payload
+ * @returns Spent outputs as `txid:vout`, or undefined without inputs
+ */
+export function extractSpentOutpoints(
+  payload: BlockcypherWebhookPayload
+): string[] | undefined {
+  return payload.inputs && payload.inputs.length > 0
+    ? payload.inputs.map((input) =>
+        toOutpoint(input.prev_hash, input.output_index)
+      )
+    : undefined;
+}
+
+/**
+ * Reads the block a transaction confirmed in, by which chain reorganizations
+ * are detected later
+ *
+ * @param payload - Validated BlockCypher webhook payload
+ * @returns The block's hash and height, or undefined while unconfirmed or
+ *   without a reported hash
+ */
+export function extractConfirmingBlock(
+  payload: BlockcypherWebhookPayload
+): { blockHash: string; blockHeight: number } | undefined {
+  return payload.block_hash && payload.block_height >= 0
+    ? { blockHash: payload.block_hash, blockHeight: payload.block_height }
+    : undefined;
 }
 
 /**
@@ -184,11 +350,14 @@ export function parseWebhookTransaction(
   }
 
   const confirmations = payload.confirmations ?? 0;
-  const isDoubleSpend = payload.double_spend ?? false;
+  const isDoubleSpend = isDoubleSpendEvent(payload, eventType);
+  const signalsRbf = extractRbfSignal(payload);
   const status = mapEventToPaymentStatus(
     eventType,
     confirmations,
-    isDoubleSpend
+    isDoubleSpend,
+    undefined,
+    signalsRbf
   );
   const totalAmount = calculateAmountReceived(payload, address);
 
@@ -201,6 +370,11 @@ export function parseWebhookTransaction(
     fees: payload.fees,
     confidence: payload.confidence as number,
     isDoubleSpend,
+    signalsRbf,
+    feeRate: extractFeeRate(payload),
+    hasUnconfirmedInputs: extractUnconfirmedInputs(payload),
+    spends: extractSpentOutpoints(payload),
+    ...extractConfirmingBlock(payload),
     lastUpdated: Date.now(),
   };
 
@@ -241,11 +415,14 @@ export function parseWebhookTransactionForAllAddresses(
   }
 
   const confirmations = payload.confirmations ?? 0;
-  const isDoubleSpend = payload.double_spend ?? false;
+  const isDoubleSpend = isDoubleSpendEvent(payload, eventType);
+  const signalsRbf = extractRbfSignal(payload);
   const status = mapEventToPaymentStatus(
     eventType,
     confirmations,
-    isDoubleSpend
+    isDoubleSpend,
+    undefined,
+    signalsRbf
   );
 
   const parsedDataArray: ParsedTransactionData[] = [];
@@ -268,6 +445,11 @@ export function parseWebhookTransactionForAllAddresses(
       fees: payload.fees,
       confidence: payload.confidence as number,
       isDoubleSpend,
+      signalsRbf,
+      feeRate: extractFeeRate(payload),
+      hasUnconfirmedInputs: extractUnconfirmedInputs(payload),
+      spends: extractSpentOutpoints(payload),
+      ...extractConfirmingBlock(payload),
       lastUpdated: Date.now(),
     };
 
@@ -298,14 +480,8 @@ export function isValidTransaction(data: ParsedTransactionData): boolean {
     return false;
   }
 
-  // Must have valid address
-  if (
-    !data.address ||
-    (!data.address.startsWith("tb1") &&
-      !data.address.startsWith("2") &&
-      !data.address.startsWith("m") &&
-      !data.address.startsWith("n"))
-  ) {
+  // Must be a valid address for the configured network
+  if (!data.address || !isValidAddress(data.address)) {
     return false;
   }
 
@@ -0,0 +1,62 @@
+/**
+ * Webhook Secret Utility
+ *
+ * BlockCypher webhooks carry no signature, so each payment's webhooks are
+ * registered with a random secret in the callback URL's query string
+ * (`?secret=...`). The secret is stored with the payment, and
+ * `/api/webhook/payment-update` only applies a notification to payments whose
+ * stored secret matches the one the request was sent with.
+ *
+ * Security considerations:
+ * - Secrets are 256-bit values from the system CSPRNG
+ * - Comparison hashes both sides first and uses `timingSafeEqual`, so its
+ *   duration reveals neither the secret nor its length
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Query string parameter carrying the webhook secret
+ */
+export const WEBHOOK_SECRET_PARAM = "secret";
+
+/**
+ * Generates a new random webhook secret
+ *
+ * @returns 64 character hex string
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Adds a webhook secret to a callback URL
+ *
+ * @param callbackUrl - URL the provider will call
+ * @param secret - Secret generated for the payment
+ * @returns The callback URL with the secret in its query string
+ */
+export function withWebhookSecret(callbackUrl: string, secret: string): string {
+  const url = new URL(callbackUrl);
+  url.searchParams.set(WEBHOOK_SECRET_PARAM, secret);
+  return url.toString();
+}
+
+/**
+ * Compares a received webhook secret with the stored one in constant time
+ *
+ * @param received - Secret from the incoming request (null if absent)
+ * @param expected - Secret stored with the payment (undefined if none)
+ * @returns True only when both are present and equal
+ */
+export function isWebhookSecretValid(
+  received: string | null | undefined,
+  expected: string | undefined
+): boolean {
+  if (!received || !expected) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(received), digest(expected));
+}
@@ -1,10 +1,12 @@
 import { z } from "zod";
-import { isValidTestnetAddress } from "../bitcoin/wallet";
+import { isValidAddress } from "../bitcoin/wallet";
+import { getConfiguredNetwork, getNetworkProfile } from "../bitcoin/network";
+import { AddressType, type BitcoinNetwork } from "@/types";
 
 /**
  * Bitcoin Payment Form Validation Schema
  *
- * This schema validates Bitcoin payment requests for testnet payments.
+ * This schema validates Bitcoin payment requests for the configured network.
  * Key considerations:
  * - Bitcoin has 8 decimal places maximum (satoshis)
  * - Minimum amount to avoid dust transactions
@@ -18,6 +20,9 @@ const MIN_BTC_AMOUNT = 0.00000546; // 546 satoshis (dust limit for P2WPKH)
 const MAX_BTC_AMOUNT = 21_000_000; // Total Bitcoin supply
 const MAX_DECIMAL_PLACES = 8;
 
+// Payment request expiry limits
+const MAX_EXPIRY_MINUTES = 7 * 24 * 60; // One week
+
 /**
  * Validates BTC amount with proper decimal precision
  */
@@ -77,29 +82,65 @@ const btcAmountNumberSchema = z
   }, "Amount precision exceeds Bitcoin satoshi precision");
 
 /**
- * Validates Bitcoin testnet address using the robust wallet validation
+ * Validates a Bitcoin address for the configured network using the robust wallet validation
  * This uses bitcoinjs-lib for production-ready address validation
  */
-const testnetAddressSchema = z
+const networkAddressSchema = z
   .string()
   .trim()
   .min(1, "Address is required")
-  .refine((val) => {
-    return isValidTestnetAddress(val);
-  }, "Invalid Bitcoin testnet address format");
+  .refine(
+    (val) => {
+      return isValidAddress(val);
+    },
+    () => ({
+      message: `Invalid Bitcoin ${getConfiguredNetwork()} address format`,
+    })
+  );
+
+/**
+ * Human-readable labels for the supported receive address types
+ */
+const ADDRESS_TYPE_LABELS: Record<AddressType, string> = {
+  [AddressType.P2WPKH]: "Native SegWit (P2WPKH)",
+  [AddressType.P2TR]: "Taproot (P2TR)",
+  [AddressType.P2SH_P2WPKH]: "Nested SegWit (P2SH-P2WPKH)",
+  [AddressType.P2PKH]: "Legacy (P2PKH)",
+};
+
+/**
+ * Receive address type schema (native SegWit when omitted)
+ */
+const addressTypeSchema = z
+  .nativeEnum(AddressType, {
+    errorMap: () => ({ message: "Unsupported address type" }),
+  })
+  .optional();
+
+/**
+ * Expiry override in minutes (the configured default applies when omitted)
+ */
+const expiresInMinutesSchema = z.coerce
+  .number({ invalid_type_error: "Expiry must be a number of minutes" })
+  .int("Expiry must be a whole number of minutes")
+  .min(1, "Expiry must be at least 1 minute")
+  .max(MAX_EXPIRY_MINUTES, `Expiry cannot exceed ${MAX_EXPIRY_MINUTES} minutes`)
+  .optional();
 
 /**
  * Payment request form schema
  */
 export const paymentRequestSchema = z.object({
   amount: btcAmountSchema,
+  addressType: addressTypeSchema,
+  expiresInMinutes: expiresInMinutesSchema,
 });
 
 /**
  * Payment verification schema for manual address verification
  */
 export const paymentVerificationSchema = z.object({
-  address: testnetAddressSchema,
+  address: networkAddressSchema,
   amount: btcAmountSchema,
 });
 
@@ -120,7 +161,7 @@ export const bip21UriSchema = z.string().refine((val) => {
  */
 export const webhookPayloadSchema = z.object({
   event: z.string(),
-  address: testnetAddressSchema,
+  address: networkAddressSchema,
   hash: z.string().optional(),
   confirmations: z.number().optional(),
   value: z.number().optional(),
@@ -135,9 +176,13 @@ export const paymentStatusSchema = z.object({
     "AWAITING_PAYMENT",
     "PAYMENT_DETECTED",
     "CONFIRMED",
+    "UNDERPAID",
+    "OVERPAID",
     "ERROR",
+    "EXPIRED",
+    "REFUNDED",
   ]),
-  address: testnetAddressSchema,
+  address: networkAddressSchema,
   amount: btcAmountNumberSchema,
   confirmations: z.number().optional(),
   transactionId: z.string().optional(),
@@ -172,6 +217,13 @@ export function formatBtcAmount(amount: number): string {
   return amount.toFixed(8).replace(/\.?0+$/, "");
 }
 
+/**
+ * Utility function to get the display label of an address type
+ */
+export function getAddressTypeLabel(addressType: AddressType): string {
+  return ADDRESS_TYPE_LABELS[addressType];
+}
+
 /**
  * Utility function to validate if amount is above dust limit
  */
@@ -181,19 +233,23 @@ export function isAboveDustLimit(btcAmount: number): boolean {
 
 /**
  * Utility function to generate a BIP21 payment URI
+ *
+ * Adds a `network` parameter on test networks so wallets do not mistake the
+ * request for a mainnet payment. Defaults to the configured network.
  */
 export function generateBip21Uri(
   address: string,
   amount: number,
-  network: "testnet" | "mainnet" = "testnet"
+  network: BitcoinNetwork | `${BitcoinNetwork}` = getConfiguredNetwork()
 ): string {
   const formattedAmount = formatBtcAmount(amount);
   const params = new URLSearchParams({
     amount: formattedAmount,
   });
 
-  if (network === "testnet") {
-    params.set("network", "testnet");
+  const { bip21Network } = getNetworkProfile(network as BitcoinNetwork);
+  if (bip21Network) {
+    params.set("network", bip21Network);
   }
 
   return `bitcoin:${address}?${params.toString()}`;
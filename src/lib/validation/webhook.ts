@@ -27,6 +27,7 @@ export const BlockcypherWebhookPayloadSchema = z
     // Block information (-1 for unconfirmed)
     block_height: z.number().int(),
     block_index: z.number().int(),
+    block_hash: z.string().optional(), // Absent while unconfirmed
     
     // Transaction metadata
     size: z.number().int(),
@@ -61,3 +62,16 @@ export const BlockcypherWebhookPayloadSchema = z
 export type BlockcypherWebhookPayload = z.infer<
   typeof BlockcypherWebhookPayloadSchema
 >;
+
+// Payload of `new-block` events: the block that became the chain tip
+// Only its height and hash are read; the chain is checked with the provider
+export const BlockcypherBlockPayloadSchema = z
+  .object({
+    hash: z.string().min(1),
+    height: z.number().int().min(0),
+  })
+  .passthrough();
+
+export type BlockcypherBlockPayload = z.infer<
+  typeof BlockcypherBlockPayloadSchema
+>;
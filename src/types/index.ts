@@ -1,4 +1,4 @@
-// Core type definitions for Bitcoin Testnet Payment Application
+// Core type definitions for Bitcoin Payment Application
 // Note: No private key types are included - all private key operations stay server-side
 
 /**
@@ -28,11 +28,52 @@ export interface WalletData {
   /** BIP32 derivation path used */
   derivationPath: string;
   /** Network type */
-  network: "testnet";
+  network: BitcoinNetwork;
   /** Timestamp when wallet address was generated */
   createdAt: number;
 }
 
+/**
+ * Bitcoin networks the application can be configured for
+ * Selected once per deployment via NEXT_PUBLIC_BITCOIN_NETWORK
+ */
+export enum BitcoinNetwork {
+  MAINNET = "mainnet",
+  /** testnet3 (the historical default of this application) */
+  TESTNET = "testnet",
+  TESTNET4 = "testnet4",
+  SIGNET = "signet",
+  REGTEST = "regtest",
+}
+
+/**
+ * Receive address types supported for payment requests
+ * Each type uses its own BIP purpose for derivation
+ */
+export enum AddressType {
+  /** Native SegWit, BIP84 (tb1q...) */
+  P2WPKH = "P2WPKH",
+  /** Taproot, BIP86 (tb1p...) */
+  P2TR = "P2TR",
+  /** Nested SegWit, BIP49 (2...) */
+  P2SH_P2WPKH = "P2SH-P2WPKH",
+  /** Legacy, BIP44 (m... / n...) */
+  P2PKH = "P2PKH",
+}
+
+/**
+ * Address derived from the configured account extended public key
+ * Contains ONLY public information - the xpub itself never leaves the server
+ */
+export interface DerivedAddress {
+  /** Bitcoin testnet address */
+  address: string;
+  /** Full BIP32 derivation path (e.g. m/84'/1'/0'/0/5) */
+  derivationPath: string;
+  /** Child index on the receiving chain */
+  derivationIndex: number;
+}
+
 /**
  * Payment status enumeration
  */
@@ -43,8 +84,16 @@ export enum PaymentStatus {
   PAYMENT_DETECTED = "PAYMENT_DETECTED",
   /** Payment confirmed on blockchain */
   CONFIRMED = "CONFIRMED",
+  /** Less than the requested amount was received */
+  UNDERPAID = "UNDERPAID",
+  /** More than the requested amount was received */
+  OVERPAID = "OVERPAID",
   /** Error occurred during payment processing */
   ERROR = "ERROR",
+  /** Payment request expired before a payment was detected */
+  EXPIRED = "EXPIRED",
+  /** Received funds were returned to the payer */
+  REFUNDED = "REFUNDED",
 }
 
 /**
@@ -53,14 +102,153 @@ export enum PaymentStatus {
 export interface PaymentStatusResponse {
   /** Current payment status */
   status: PaymentStatus;
-  /** Number of confirmations (if payment detected) */
+  /** Number of confirmations (if payment detected); with several transactions,
+   * the confirmations at which they cover the requested amount */
   confirmations?: number;
-  /** Transaction ID/hash (if payment detected) */
+  /** Confirmations the payment needs to be CONFIRMED, set by the confirmation
+   * policy from its amount (payments created before the policy need 1) */
+  requiredConfirmations?: number;
+  /** Transaction ID/hash of the latest credited transaction (if payment detected) */
   transactionId?: string;
+  /** Every transaction credited to the address, in the order first seen */
+  transactions?: PaymentTransaction[];
+  /** Total amount received in satoshis (if reported for every transaction) */
+  receivedAmount?: number;
+  /** Satoshis still to pay (if status is UNDERPAID) */
+  outstandingAmount?: number;
   /** Error message (if status is ERROR) */
   errorMessage?: string;
   /** Last updated timestamp */
   lastUpdated?: number;
+  /** Status transitions, oldest first (if any update was applied) */
+  history?: PaymentStatusTransition[];
+  /** When an unpaid request expires (requests created before expiry never do) */
+  expiresAt?: number;
+  /** A payment arrived after the request expired and awaits manual review */
+  latePayment?: boolean;
+  /** Until when an expired, unfunded request is still watched for late
+   * payments; its address may be recycled afterwards */
+  watchedUntil?: number;
+}
+
+/**
+ * A transaction credited to a payment address
+ */
+export interface PaymentTransaction {
+  /** Transaction hash */
+  transactionId: string;
+  /** Amount paid to the address in satoshis (if reported) */
+  amount?: number;
+  /** Confirmations of this transaction */
+  confirmations: number;
+  /** Hash of the block it confirmed in (absent while unconfirmed or unreported) */
+  blockHash?: string;
+  /** Height of the block it confirmed in (absent while unconfirmed or unreported) */
+  blockHeight?: number;
+  /** Whether the transaction signals replace-by-fee (BIP 125), if known */
+  signalsRbf?: boolean;
+  /** Risk rating while the transaction was unconfirmed (latest assessment) */
+  risk?: ZeroConfRisk;
+  /** Previous outputs the transaction spends (`txid:vout`), if reported */
+  spends?: string[];
+  /** Transaction that spent the same outputs instead (e.g. a fee bump) */
+  replacedBy?: string;
+  /** When the transaction was found to have left the mempool unconfirmed */
+  evictedAt?: number;
+  /** When the transaction was first reported */
+  firstSeen: number;
+}
+
+/**
+ * How likely an unconfirmed transaction is to be replaced or never confirm
+ */
+export type ZeroConfRiskLevel = "low" | "medium" | "high";
+
+/**
+ * What raised the risk of an unconfirmed transaction
+ * - `double-spend`: a conflicting transaction was seen
+ * - `rbf-signalled` / `rbf-unknown`: it signals replace-by-fee, or may
+ * - `fee-below-economy` / `fee-below-target`: its fee rate is below the
+ *   current economy / few-blocks estimate
+ * - `fee-rate-unknown`: its fee rate or the current estimates are not known
+ * - `unconfirmed-inputs` / `inputs-unknown`: it spends unconfirmed outputs,
+ *   or may
+ * - `low-confidence`: the provider rates it likely to be double-spent
+ */
+export type ZeroConfRiskFactor =
+  | "double-spend"
+  | "rbf-signalled"
+  | "rbf-unknown"
+  | "fee-below-economy"
+  | "fee-below-target"
+  | "fee-rate-unknown"
+  | "unconfirmed-inputs"
+  | "inputs-unknown"
+  | "low-confidence";
+
+/**
+ * Risk rating of an unconfirmed transaction
+ */
+export interface ZeroConfRisk {
+  /** 0 (no risk factor) to 100 */
+  score: number;
+  level: ZeroConfRiskLevel;
+  /** Factors that contributed to the score */
+  factors: ZeroConfRiskFactor[];
+  /** Fee rate in sat/vB, if known */
+  feeRate?: number;
+  /** When the transaction was rated */
+  assessedAt: number;
+}
+
+/**
+ * What reported a payment status update
+ * - `webhook`: a push notification (BlockCypher webhook, bitcoind walletnotify)
+ * - `subscription`: an Electrum scripthash or header notification
+ * - `reconciler`: the periodic reconciliation against the chain provider
+ * - `expiry`: the request's expiry window elapsed before it was paid
+ * - `manual`: a direct call, e.g. by an operator
+ */
+export type PaymentUpdateSource =
+  | "webhook"
+  | "subscription"
+  | "reconciler"
+  | "expiry"
+  | "manual";
+
+/**
+ * Changes recorded in a payment's history that no notification reports
+ * directly
+ */
+export enum PaymentHistoryEvent {
+  /** A credited transaction was replaced by one spending the same outputs */
+  REPLACED = "REPLACED",
+  /** A credited transaction left the mempool without confirming */
+  EVICTED = "EVICTED",
+  /** Blocks of credited transactions left the best chain (reorganization) */
+  REORGED = "REORGED",
+}
+
+/**
+ * One applied change of a payment's status, transaction or confirmations
+ */
+export interface PaymentStatusTransition {
+  /** Status before the update */
+  from: PaymentStatus;
+  /** Status after the update */
+  to: PaymentStatus;
+  /** Transaction the payment follows (absent for changes such as expiry) */
+  transactionId?: string;
+  /** Confirmations the update reported */
+  confirmations: number;
+  /** What reported the update */
+  source: PaymentUpdateSource;
+  /** Why credited transactions were dropped, if any were */
+  event?: PaymentHistoryEvent;
+  /** Transactions the event dropped from the payment or from their block */
+  droppedTransactionIds?: string[];
+  /** When the update was applied */
+  timestamp: number;
 }
 
 /**